@@ -0,0 +1,147 @@
+/**
+ * Category.ts
+ *
+ * This file defines the category taxonomy of the Panther Thrift Shop application. Categories form a
+ * tree (e.g. Men's Clothing → Men's Shirts) stored in the `categories` collection, so admins can add or
+ * retire categories on the AdminCategories page without a code deploy; `lib/categories.ts` loads them and
+ * makes the changes. The helpers here are pure and work on any list of categories, so they can be used
+ * with the loaded taxonomy or the built-in defaults.
+ *
+ * Naming:
+ * - A category's `name` is unique across the whole taxonomy and is what products store as `category`,
+ *   so renaming a category would orphan its listings; retire it and add a new one instead.
+ * - The `slug` is the category's URL segment (`/marketplace/<slug>`) and also its document ID.
+ *
+ * Key Features:
+ * - `Category`: The stored form of a category, with its parent and sort order.
+ * - `DEFAULT_CATEGORIES`: The built-in taxonomy, used until the collection has been seeded.
+ * - `buildCategoryTree`: Nests categories under their parents in display order, skipping retired ones.
+ * - Lookups by name or slug, the lineage of a category, and the names of a category and its subcategories.
+ *
+ * Author: Jayson Baya
+ * Last Updated: October 19, 2026
+ */
+
+import { ROUTES } from "@/Models/ConstantData";
+
+export interface Category {
+    id: string; // Same as `slug`
+    name: string;
+    slug: string;
+    parentId: string | null; // null for top-level categories
+    order: number; // Position among its siblings
+    retired?: boolean; // Hidden from the forms and the sidebar; existing listings keep it
+}
+
+export interface CategoryNode extends Category {
+    children: CategoryNode[];
+}
+
+/**
+ * Turns a category name into its URL slug, e.g. "Men's Clothing" → "mens-clothing".
+ */
+export const slugify = (name: string): string =>
+    name
+        .toLowerCase()
+        .replace(/['’]/g, "")
+        .replace(/&/g, "and")
+        .replace(/[^a-z0-9]+/g, "-")
+        .replace(/^-+|-+$/g, "");
+
+const defaultCategory = (name: string, order: number, parent: string | null = null): Category => ({
+    id: slugify(name),
+    name,
+    slug: slugify(name),
+    parentId: parent && slugify(parent),
+    order,
+});
+
+export const DEFAULT_CATEGORIES: Category[] = [
+    defaultCategory("Men's Clothing", 0),
+    defaultCategory("Men's Shirts", 0, "Men's Clothing"),
+    defaultCategory("Men's Pants", 1, "Men's Clothing"),
+    defaultCategory("Men's Shoes", 2, "Men's Clothing"),
+    defaultCategory("Women's Clothing", 1),
+    defaultCategory("Women's Tops", 0, "Women's Clothing"),
+    defaultCategory("Women's Bottoms", 1, "Women's Clothing"),
+    defaultCategory("Women's Dresses", 2, "Women's Clothing"),
+    defaultCategory("Women's Shoes", 3, "Women's Clothing"),
+    defaultCategory("Appliances", 2),
+    defaultCategory("Room Decoration", 3),
+    defaultCategory("Textbooks", 4),
+];
+
+const byOrder = (a: Category, b: Category) => a.order - b.order || a.name.localeCompare(b.name);
+
+/**
+ * Nests `categories` under their parents, siblings in display order. Retired categories (and everything
+ * under them) are left out unless `includeRetired` is set.
+ */
+export const buildCategoryTree = (categories: Category[], includeRetired = false): CategoryNode[] => {
+    const childrenOf = (parentId: string | null): CategoryNode[] =>
+        getSubcategories(categories, parentId, includeRetired).map((category) => ({
+            ...category,
+            children: childrenOf(category.id),
+        }));
+
+    return childrenOf(null);
+};
+
+/**
+ * The direct subcategories of the category with ID `parentId` (top-level categories for null), in
+ * display order, without retired ones unless `includeRetired` is set.
+ */
+export const getSubcategories = (
+    categories: Category[],
+    parentId: string | null,
+    includeRetired = false
+): Category[] =>
+    categories
+        .filter((category) => category.parentId === parentId && (includeRetired || !category.retired))
+        .sort(byOrder);
+
+/**
+ * The categories of `tree` in display order, each with its depth (0 for top-level categories).
+ */
+export const flattenCategoryTree = (tree: CategoryNode[], depth = 0): Array<{ category: Category; depth: number }> =>
+    tree.flatMap((node) => [{ category: node, depth }, ...flattenCategoryTree(node.children, depth + 1)]);
+
+export const findCategoryByName = (categories: Category[], name: string): Category | undefined =>
+    categories.find((category) => category.name === name);
+
+export const findCategoryBySlug = (categories: Category[], slug: string): Category | undefined =>
+    categories.find((category) => category.slug === slug);
+
+/**
+ * The category named `name` and its ancestors, top-level category first; empty for an unknown name.
+ */
+export const getCategoryLineage = (categories: Category[], name: string): Category[] => {
+    const lineage: Category[] = [];
+    let current = findCategoryByName(categories, name);
+    while (current && !lineage.includes(current)) {
+        lineage.unshift(current);
+        const parentId: string | null = current.parentId;
+        current = categories.find((category) => category.id === parentId);
+    }
+    return lineage;
+};
+
+/**
+ * The names of the category named `name` and of every category below it, retired ones included, so
+ * a category page also lists the products of its subcategories.
+ */
+export const getCategoryAndDescendantNames = (categories: Category[], name: string): string[] => {
+    const root = findCategoryByName(categories, name);
+    if (!root) return [name];
+
+    const collect = (id: string): string[] =>
+        categories
+            .filter((category) => category.parentId === id)
+            .flatMap((category) => [category.name, ...collect(category.id)]);
+    return [root.name, ...collect(root.id)];
+};
+
+/**
+ * The marketplace page of a category.
+ */
+export const categoryPath = (category: Pick<Category, "slug">): string => `${ROUTES.MARKETPLACE}/${category.slug}`;
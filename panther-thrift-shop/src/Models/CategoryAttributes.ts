@@ -0,0 +1,180 @@
+/**
+ * CategoryAttributes.ts
+ *
+ * This file declares the extra details each category of listing carries in the Panther Thrift Shop
+ * application, such as the size of a piece of clothing or the ISBN of a textbook. Each category maps to
+ * an ordered list of attribute fields; the listing forms render the fields of the chosen category, the
+ * SellersPage validates them before saving, and `ProductModal` shows them to buyers. The values are stored
+ * on the product as `attributes`, keyed by field. Subcategories without a schema of their own use the
+ * schema of their nearest ancestor in the taxonomy (see `Category.ts`), so Men's Shirts have a size too.
+ *
+ * Key Features:
+ * - `CATEGORY_ATTRIBUTES`: The attribute fields of every category, in display order.
+ * - `validateAttributes`: Checks values against the schema of a category and returns an error per field.
+ * - `cleanAttributes`: Keeps only the fields of the category, drops blanks and stores numbers as numbers.
+ * - `describeAttributes`: Label/value pairs for display, with units.
+ * - Every function takes the category taxonomy as an optional last argument; pass the loaded taxonomy
+ *   (`useCategories` / `getLoadedCategories`) so subcategories added by admins inherit their parent's schema.
+ *
+ * Adding an attribute:
+ * - Add a field to the category's list. Existing listings simply lack the value until they are edited,
+ *   so new fields should not be `required` unless every listing in the category can be updated.
+ *
+ * Author: Jayson Baya
+ * Last Updated: October 19, 2026
+ */
+
+import { Category, DEFAULT_CATEGORIES, getCategoryLineage } from "@/Models/Category";
+
+export type AttributeValue = string | number;
+
+export type ProductAttributes = Record<string, AttributeValue>;
+
+export interface AttributeField {
+    key: string;
+    label: string;
+    type: "text" | "number" | "select";
+    required?: boolean;
+    options?: string[]; // The choices of a "select" field
+    unit?: string; // Shown after numeric values, e.g. "W"
+    min?: number;
+    max?: number;
+    placeholder?: string;
+    isValid?: (value: string) => boolean; // Extra check for text fields
+    invalidMessage?: string;
+}
+
+/**
+ * Whether `value` is a valid ISBN-10 or ISBN-13, ignoring hyphens and spaces.
+ */
+export const isValidISBN = (value: string): boolean => {
+    const digits = value.replace(/[-\s]/g, "").toUpperCase();
+
+    if (/^\d{9}[\dX]$/.test(digits)) {
+        const sum = [...digits].reduce(
+            (total, char, index) => total + (char === "X" ? 10 : Number(char)) * (10 - index),
+            0
+        );
+        return sum % 11 === 0;
+    }
+    if (/^\d{13}$/.test(digits)) {
+        const sum = [...digits].reduce((total, char, index) => total + Number(char) * (index % 2 === 0 ? 1 : 3), 0);
+        return sum % 10 === 0;
+    }
+    return false;
+};
+
+const CLOTHING_ATTRIBUTES: AttributeField[] = [
+    { key: "size", label: "Size", type: "select", required: true, options: ["XS", "S", "M", "L", "XL", "XXL"] },
+    { key: "fit", label: "Fit", type: "select", options: ["Men's", "Women's", "Unisex"] },
+];
+
+export const CATEGORY_ATTRIBUTES: Record<string, AttributeField[]> = {
+    "Men's Clothing": CLOTHING_ATTRIBUTES,
+    "Women's Clothing": CLOTHING_ATTRIBUTES,
+    Appliances: [
+        { key: "brand", label: "Brand", type: "text", placeholder: "e.g. Keurig" },
+        { key: "wattage", label: "Wattage", type: "number", unit: "W", min: 1, max: 5000 },
+    ],
+    "Room Decoration": [],
+    Textbooks: [
+        {
+            key: "isbn",
+            label: "ISBN",
+            type: "text",
+            required: true,
+            placeholder: "e.g. 978-0-13-468599-1",
+            isValid: isValidISBN,
+            invalidMessage: "ISBN must be a valid ISBN-10 or ISBN-13.",
+        },
+        { key: "edition", label: "Edition", type: "text", placeholder: "e.g. 3rd" },
+        {
+            key: "courseCode",
+            label: "Course Code",
+            type: "text",
+            placeholder: "e.g. CS 220",
+            isValid: (value) => /^[A-Z]{2,4} ?\d{3}[A-Z]?$/i.test(value),
+            invalidMessage: "Course code must look like CS 220.",
+        },
+    ],
+};
+
+/**
+ * The attribute fields of `category`, inherited from its nearest ancestor with a schema; none for a
+ * category without one.
+ */
+export const getAttributeSchema = (category: string, categories: Category[] = DEFAULT_CATEGORIES): AttributeField[] => {
+    if (CATEGORY_ATTRIBUTES[category]) return CATEGORY_ATTRIBUTES[category];
+
+    const ancestor = getCategoryLineage(categories, category)
+        .reverse()
+        .find(({ name }) => CATEGORY_ATTRIBUTES[name]);
+    return ancestor ? CATEGORY_ATTRIBUTES[ancestor.name] : [];
+};
+
+const toText = (value: unknown): string => (value === undefined || value === null ? "" : String(value).trim());
+
+const validateField = (field: AttributeField, text: string): string | null => {
+    if (!text) {
+        return field.required ? `${field.label} is required.` : null;
+    }
+    switch (field.type) {
+        case "number": {
+            const number = Number(text);
+            if (Number.isNaN(number)) return `${field.label} must be a number.`;
+            if (field.min !== undefined && number < field.min) return `${field.label} must be at least ${field.min}.`;
+            if (field.max !== undefined && number > field.max) return `${field.label} must be at most ${field.max}.`;
+            return null;
+        }
+        case "select":
+            return field.options?.includes(text) ? null : `Choose a ${field.label.toLowerCase()} from the list.`;
+        default:
+            return field.isValid && !field.isValid(text) ? field.invalidMessage ?? `${field.label} is not valid.` : null;
+    }
+};
+
+/**
+ * Checks `values` against the attribute schema of `category`. Resolves to an error message per
+ * invalid field, keyed by field; an empty object means the values are valid.
+ */
+export const validateAttributes = (
+    category: string,
+    values: Record<string, unknown> = {},
+    categories?: Category[]
+): Record<string, string> =>
+    Object.fromEntries(
+        getAttributeSchema(category, categories)
+            .map((field) => [field.key, validateField(field, toText(values[field.key]))])
+            .filter(([, error]) => error !== null)
+    );
+
+/**
+ * The values of `category`'s fields as they should be stored: other keys and blanks are dropped
+ * and numeric fields become numbers.
+ */
+export const cleanAttributes = (
+    category: string,
+    values: Record<string, unknown> = {},
+    categories?: Category[]
+): ProductAttributes =>
+    Object.fromEntries(
+        getAttributeSchema(category, categories)
+            .map((field): [AttributeField, string] => [field, toText(values[field.key])])
+            .filter(([, text]) => text !== "")
+            .map(([field, text]) => [field.key, field.type === "number" ? Number(text) : text])
+    );
+
+/**
+ * The attributes of a listing as label/value pairs in schema order, for display.
+ */
+export const describeAttributes = (
+    category: string,
+    values: ProductAttributes = {},
+    categories?: Category[]
+): Array<{ label: string; value: string }> =>
+    getAttributeSchema(category, categories)
+        .filter((field) => toText(values[field.key]) !== "")
+        .map((field) => ({
+            label: field.label,
+            value: field.unit ? `${values[field.key]} ${field.unit}` : String(values[field.key]),
+        }));
@@ -1,29 +1,103 @@
-export const categories = ["Men's Clothing", "Women's Clothing", "Appliances", "Room Decoration", "Textbooks"];
+import { ConditionGrade, ListingStatus } from "@/Models/Product";
 
 export const FIRESTORE_COLLECTIONS = {
     PRODUCTS: "products",
     SAVED_ITEMS: "savedItems",
     PURCHASED_ITEMS: "purchasedItems",
     OFFERS: "offers",
+    CATEGORIES: "categories",
+    USERS: "users",
 };
 
+// Literal types, so queries built from these names are still checked against the model (see queryBuilder)
 export const FIRESTORE_FIELDS = {
-    id: "id",
-    sold: "sold",
+    ID: "id",
+    STATUS: "status",
     BUYER_EMAIL: "buyerEmail",
     PRODUCT_ID: "productId",
-    productName: "productName",
+    PRODUCT_NAME: "productName",
     PRICE: "price",
     IMAGE_URL: "imageURL",
     DESCRIPTION: "description",
-    category: "category",
+    CATEGORY: "category",
+    CONDITION: "condition",
     SELLER: "seller",
     CREATED_AT: "createdAt",
+    EMAIL: "email",
+} as const;
+
+export const LISTING_STATUS_LABELS: Record<ListingStatus, string> = {
+    draft: "Draft",
+    active: "Still Selling",
+    reserved: "Reserved",
+    sold: "Sold",
+    archived: "Archived",
+    removed: "Removed",
+};
+
+export const CONDITION_LABELS: Record<ConditionGrade, string> = {
+    new: "New",
+    "like-new": "Like New",
+    good: "Good",
+    fair: "Fair",
+    poor: "Poor",
+};
+
+// The most values Firestore accepts in one "in" filter
+export const FIRESTORE_IN_QUERY_LIMIT = 30;
+
+// The most writes Firestore accepts in one batch
+export const FIRESTORE_BATCH_LIMIT = 500;
+
+// Listing photos are checked, downscaled and re-encoded in the browser before upload (see lib/imagePipeline)
+export const IMAGE_PIPELINE = {
+    ACCEPTED_TYPES: ["image/jpeg", "image/png", "image/webp"],
+    MAX_FILE_BYTES: 25 * 1024 * 1024, // Larger files are rejected before decoding
+    MAX_DIMENSION: 1600, // Longest side of the uploaded photo, in pixels
+    THUMBNAIL_DIMENSION: 320, // Longest side of the thumbnail shown in grids
+    OUTPUT_TYPE: "image/jpeg",
+    QUALITY: 0.82,
+    THUMBNAIL_QUALITY: 0.7,
+};
+
+// Failed photo uploads are retried after 1 s, then 2 s, ... up to the given number of attempts
+export const UPLOAD_RETRY = {
+    MAX_ATTEMPTS: 3,
+    BASE_DELAY_MS: 1000,
+};
+
+// Bounds of the listing fields, checked by `validateProduct` (see Models/ProductSchema)
+export const PRODUCT_LIMITS = {
+    NAME_MAX_LENGTH: 100,
+    DESCRIPTION_MAX_LENGTH: 2000,
+    PICKUP_LOCATION_MAX_LENGTH: 100,
+    MIN_PRICE: 0.01,
+    MAX_PRICE: 10000,
+    MAX_TAGS: 10,
+    TAG_MAX_LENGTH: 30,
+    MAX_PHOTOS: 10,
+};
+
+export const PAGINATION = {
+    BROWSE_PAGE_SIZE: 12,
+};
+
+// How long a cached query is served without reconciling it with the primary store
+export const CACHE_TTL_MS = {
+    DEFAULT: 5 * 60 * 1000,
+    SELLER_LISTINGS: 60 * 1000,
 };
 
+// How long the app stays in local-only mode after Firestore reports it is over quota or unavailable
+export const DEGRADED_MODE_COOLDOWN_MS = 5 * 60 * 1000;
+
 export const ROUTES = {
     LOGIN: "/pages/Login",
     SELLERS_PAGE: "/pages/SellersPage",
+    SEARCH_PAGE: "/pages/SearchPage", // Search results for ?q=<query>
+    MARKETPLACE: "/marketplace", // Category pages live at /marketplace/<slug>
+    ADMIN_CATEGORIES: "/pages/AdminCategories",
+    ADMIN_MAINTENANCE: "/pages/AdminMaintenance",
 };
 
 export const TAB_NAMES = {
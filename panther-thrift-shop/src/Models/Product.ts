@@ -3,32 +3,113 @@
  *
  * This file defines the `Product` class, which represents a product listing
  * in the Panther Thrift Shop application. It includes properties for product
- * details such as ID, name, price, category, image URL, description, seller,
- * and sold status. The class provides methods for marking the product as sold,
- * updating product details, and generating a summary. Additionally, it includes
- * a static method for creating a `Product` instance from Firestore data.
+ * details such as ID, name, price, category, photos, description, seller, condition,
+ * tags, pickup location, category-specific attributes and listing status, plus the
+ * buyer once the product is reserved or sold. The class provides methods for moving
+ * the listing through its lifecycle, updating product details, and generating a
+ * summary. It is the one product model shared by every page and component;
+ * `modelSerializers` hydrates stored records into `Product` instances.
+ *
+ * Listing Lifecycle:
+ * - `draft`: Not yet published; only the seller sees it.
+ * - `active`: For sale and shown to buyers.
+ * - `reserved`: On hold for a buyer; still shown, but marked as reserved.
+ * - `sold`: Sold to a buyer (see `lib/sales.ts`).
+ * - `archived`: Expired or withdrawn by the seller; can be relisted.
+ * - `removed`: Taken down for good.
+ * A listing only moves along `LISTING_TRANSITIONS`. `transitionTo` enforces the table on the model
+ * and `dbHandler` enforces it on every write, rejecting other moves with `InvalidStatusTransitionError`.
+ *
+ * Photos:
+ * - `imageURLs` holds every photo in display order; the first one is the cover. The cover is mirrored in
+ *   `imageURL`, which saved copies show, so set both through `photoFields`.
+ * - `thumbnailURLs` holds a small version of each photo, in the same order, and `thumbnailURL` the cover's,
+ *   which grids show. Listings created before thumbnails existed have neither (see `getThumbnail`).
+ *
+ * Attributes:
+ * - `attributes` holds the extra details of the listing's category (e.g. size or ISBN), keyed by the fields
+ *   declared in `CategoryAttributes.ts`.
+ *
+ * Legacy Records:
+ * - `fromRecord` upgrades records stored before these fields existed (see `upgradeProductRecord`): the
+ *   status is derived from the old `sold` flag and a single `imageURL` becomes a one-photo `imageURLs`.
+ * - Queries filter on `status` before anything is read, so stored records get it too: IndexedDB migration 8
+ *   and the Firestore backfills (`lib/firestoreBackfill.ts`, run by an admin) derive it the same way.
  *
  * Key Features:
  * - Represents a product listing with relevant details.
- * - Methods for updating product information and marking items as sold.
- * - Utility function to create `Product` instances from Firestore data.
- *
- * Dependencies:
- * - `FirestoreProductData` interface defines the structure of product data from Firestore.
+ * - Methods for updating product information and moving the listing between statuses.
+ * - `fromRecord` to create `Product` instances from stored data.
+ * - `savedItemId` / `savedProductId` to key a buyer's saved copy of a listing and find the listing again.
  *
  * Author: Jayson Baya
- * Last Updated: November 14, 2024
+ * Last Updated: October 19, 2026
  */
 
+import { ProductAttributes } from "@/Models/CategoryAttributes";
+
+export type ListingStatus = "draft" | "active" | "reserved" | "sold" | "archived" | "removed";
+
+export const LISTING_STATUSES: ListingStatus[] = ["draft", "active", "reserved", "sold", "archived", "removed"];
+
+// The statuses a listing may move to from each status; staying put is always allowed
+export const LISTING_TRANSITIONS: Record<ListingStatus, ListingStatus[]> = {
+    draft: ["active", "removed"],
+    active: ["reserved", "sold", "archived", "removed"],
+    reserved: ["active", "sold", "archived", "removed"],
+    sold: ["archived"],
+    archived: ["active", "removed"],
+    removed: [],
+};
+
+// Statuses buyers can browse
+export const LISTED_STATUSES: ListingStatus[] = ["active", "reserved"];
+
+// Condition grades, best first
+export type ConditionGrade = "new" | "like-new" | "good" | "fair" | "poor";
+
+export const CONDITION_GRADES: ConditionGrade[] = ["new", "like-new", "good", "fair", "poor"];
+
+export class InvalidStatusTransitionError extends Error {
+    constructor(readonly from: ListingStatus, readonly to: ListingStatus) {
+        super(`A listing cannot move from "${from}" to "${to}".`);
+        this.name = "InvalidStatusTransitionError";
+    }
+}
+
+export const canTransition = (from: ListingStatus, to: ListingStatus): boolean =>
+    from === to || LISTING_TRANSITIONS[from].includes(to);
+
+/**
+ * Throws an `InvalidStatusTransitionError` unless a listing may move from `from` to `to`.
+ */
+export const assertTransition = (from: ListingStatus, to: ListingStatus): void => {
+    if (!canTransition(from, to)) {
+        throw new InvalidStatusTransitionError(from, to);
+    }
+};
+
 export class Product {
     id: string;
     productName: string;
     price: number;
     category: string;
-    imageURL: string;
+    imageURL: string; // The cover photo, always `imageURLs[0]`
+    imageURLs?: string[]; // Every photo, in display order
+    thumbnailURL?: string; // Thumbnail of the cover, always `thumbnailURLs[0]`
+    thumbnailURLs?: string[]; // Thumbnail of each photo, in the order of `imageURLs`
     description: string;
     seller: string;
-    sold: boolean;
+    condition?: ConditionGrade;
+    tags?: string[]; // Lower-case, without duplicates (see `parseTags`)
+    pickupLocation?: string;
+    attributes?: ProductAttributes; // Per-category details (see `CATEGORY_ATTRIBUTES`)
+    status: ListingStatus;
+    buyerEmail?: string; // Set once the product is reserved or sold
+    purchaseDate?: string;
+    createdAt?: string;
+    updatedAt?: string; // Stamped by dbHandler on every write
+    revision?: number; // Incremented by dbHandler on every write
 
     constructor(
         id: string,
@@ -38,20 +119,30 @@ export class Product {
         imageURL: string,
         description: string,
         seller: string,
-        sold: boolean = false
+        status: ListingStatus = "active"
     ) {
         this.id = id;
         this.productName = productName;
         this.price = price;
         this.category = category;
         this.imageURL = imageURL;
+        this.imageURLs = imageURL ? [imageURL] : [];
         this.description = description;
         this.seller = seller;
-        this.sold = sold;
+        this.status = status;
+    }
+
+    canTransitionTo(status: ListingStatus) {
+        return canTransition(this.status, status);
+    }
+
+    transitionTo(status: ListingStatus) {
+        assertTransition(this.status, status);
+        this.status = status;
     }
 
     markAsSold() {
-        this.sold = true;
+        this.transitionTo("sold");
     }
 
     updateDetails(
@@ -70,26 +161,85 @@ export class Product {
         return `${this.productName} - $${this.price} (${this.category})`;
     }
 
-    static fromFirestoreData(id: string, data: FirestoreProductData): Product {
-        return new Product(
-            id,
-            data.productName,
-            data.price,
-            data.category,
-            data.imageURL,
-            data.description,
-            data.seller,
-            data.sold || false
-        );
+    /**
+     * Hydrates a stored record into a `Product`, keeping every stored field as it is.
+     */
+    static fromRecord(record: ProductRecord): Product {
+        return Object.assign(Object.create(Product.prototype) as Product, upgradeProductRecord(record));
     }
 }
 
-interface FirestoreProductData {
-    productName: string;
-    price: number;
-    category: string;
-    imageURL: string;
-    description: string;
-    seller: string;
-    sold?: boolean;
-}
\ No newline at end of file
+type ProductMethods = "canTransitionTo" | "transitionTo" | "markAsSold" | "updateDetails" | "getSummary";
+
+/**
+ * The stored form of a product: its data fields, without methods.
+ */
+export type ProductRecord = Pick<Product, "id"> & Partial<Omit<Product, ProductMethods>>;
+
+/**
+ * Brings a record stored by an older version of the app up to the current shape: the status comes from
+ * the legacy `sold` flag and a lone `imageURL` becomes the photo list. Current records pass unchanged.
+ */
+export const upgradeProductRecord = <T extends ProductRecord>(record: T): T => {
+    const upgraded = { ...record };
+    if (!upgraded.status) {
+        upgraded.status = (record as T & { sold?: boolean }).sold ? "sold" : "active";
+    }
+    if (!upgraded.imageURLs && upgraded.imageURL) {
+        upgraded.imageURLs = [upgraded.imageURL];
+    }
+    return upgraded;
+};
+
+/**
+ * The photos of a listing in display order, cover first.
+ */
+export const getPhotos = (product: ProductRecord): string[] =>
+    product.imageURLs?.length ? product.imageURLs : product.imageURL ? [product.imageURL] : [];
+
+/**
+ * The small version of a listing's cover for grids; the cover itself for listings without thumbnails.
+ */
+export const getThumbnail = (product: ProductRecord): string => product.thumbnailURL || product.imageURL || "";
+
+/**
+ * The fields that store `imageURLs` as a listing's photos, keeping the cover in step. `thumbnailURLs`,
+ * when given, must be in the same order as `imageURLs`.
+ */
+export const photoFields = (
+    imageURLs: string[],
+    thumbnailURLs?: string[]
+): Pick<Product, "imageURL" | "imageURLs" | "thumbnailURL" | "thumbnailURLs"> => ({
+    imageURL: imageURLs[0] ?? "",
+    imageURLs,
+    ...(thumbnailURLs && { thumbnailURL: thumbnailURLs[0] ?? "", thumbnailURLs }),
+});
+
+/**
+ * Turns comma-separated input into tags: trimmed, lower-case, without blanks or duplicates.
+ */
+export const parseTags = (input: string): string[] => [
+    ...new Set(
+        input
+            .split(",")
+            .map((tag) => tag.trim().toLowerCase())
+            .filter(Boolean)
+    ),
+];
+
+/**
+ * A copy of a product kept in a buyer's saved or purchased items. Saved copies are keyed by `savedItemId`,
+ * so every buyer has their own, and keep the ID of their listing in `productId`.
+ */
+export type BuyerItem = Product & { buyerEmail: string; productId?: string };
+
+/**
+ * The ID of `buyerEmail`'s saved copy of the listing `productId`.
+ */
+export const savedItemId = (buyerEmail: string, productId: string): string => `${buyerEmail}_${productId}`;
+
+/**
+ * The ID of the listing a saved copy was taken from. Copies saved before `productId` was stored were keyed by
+ * their listing's ID (the IndexedDB migrations and the Firestore backfills add `productId` to them).
+ */
+export const savedProductId = (item: BuyerItem): string => item.productId ?? item.id;
@@ -0,0 +1,169 @@
+/**
+ * ProductSchema.ts
+ *
+ * This file declares what a valid product listing looks like in the Panther Thrift Shop application: which
+ * fields are required, the bounds of the price, the length limits of the text fields, the allowed categories
+ * and conditions, and how many photos a listing may have. The same schema is used by the listing forms, which
+ * show its messages under each field, and by `dbHandler`, which refuses product writes that break it.
+ *
+ * Key Features:
+ * - `PRODUCT_SCHEMA`: One rule per field, returning an error message or null.
+ * - `validateProduct`: Checks a listing and returns an error message per field. A full check (the forms)
+ *   also requires the required fields and a buyer for sold listings; a partial check (`partial: true`,
+ *   used by `dbHandler` for every write) only checks the fields the write sets.
+ * - `assertValidProduct`: Throws an `InvalidProductError` carrying those messages.
+ * - The category must be one of `categories` when the taxonomy is passed. `dbHandler` does not load the
+ *   taxonomy, so it only checks that the category is not blank.
+ * - Category attributes have a schema of their own (see `validateAttributes`).
+ *
+ * Dependencies:
+ * - `PRODUCT_LIMITS` from "@/Models/ConstantData" for the bounds.
+ *
+ * Author: Jayson Baya
+ * Last Updated: October 19, 2026
+ */
+
+import { Category, findCategoryByName } from "@/Models/Category";
+import { CONDITION_GRADES, ConditionGrade, ProductRecord } from "@/Models/Product";
+import { PRODUCT_LIMITS } from "@/Models/ConstantData";
+
+export type ProductField =
+    | "productName"
+    | "category"
+    | "price"
+    | "description"
+    | "condition"
+    | "tags"
+    | "pickupLocation"
+    | "imageURLs"
+    | "buyerEmail";
+
+export type ProductErrors = Partial<Record<ProductField, string>>;
+
+export interface ValidateProductOptions {
+    categories?: Category[];
+    partial?: boolean;
+}
+
+interface FieldRule {
+    required?: string; // The message when the field is missing or blank
+    check: (value: unknown, categories?: Category[]) => string | null;
+}
+
+export class InvalidProductError extends Error {
+    constructor(readonly errors: ProductErrors) {
+        super(`The listing is not valid. ${Object.values(errors).join(" ")}`);
+        this.name = "InvalidProductError";
+    }
+}
+
+const EMAIL_PATTERN = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
+
+const maxLength = (label: string, limit: number) => (value: unknown) =>
+    String(value).trim().length > limit ? `${label} must be at most ${limit} characters.` : null;
+
+const formatPrice = (price: number) => `$${price.toLocaleString("en-US", { minimumFractionDigits: 2 })}`;
+const PRICE_RANGE = `${formatPrice(PRODUCT_LIMITS.MIN_PRICE)} and ${formatPrice(PRODUCT_LIMITS.MAX_PRICE)}`;
+
+export const PRODUCT_SCHEMA: Record<ProductField, FieldRule> = {
+    productName: {
+        required: "Enter a product name.",
+        check: maxLength("The product name", PRODUCT_LIMITS.NAME_MAX_LENGTH),
+    },
+    category: {
+        required: "Select a category.",
+        check: (value, categories) =>
+            categories?.length && !findCategoryByName(categories, String(value))
+                ? "Select one of the marketplace's categories."
+                : null,
+    },
+    price: {
+        required: "Enter a price.",
+        check: (price) => {
+            if (typeof price !== "number" || !Number.isFinite(price)) return "The price must be a number.";
+            if (price < PRODUCT_LIMITS.MIN_PRICE || price > PRODUCT_LIMITS.MAX_PRICE) {
+                return `The price must be between ${PRICE_RANGE}.`;
+            }
+            return Math.abs(price * 100 - Math.round(price * 100)) > 1e-6
+                ? "The price can have at most two decimals."
+                : null;
+        },
+    },
+    description: {
+        required: "Enter a description.",
+        check: maxLength("The description", PRODUCT_LIMITS.DESCRIPTION_MAX_LENGTH),
+    },
+    condition: {
+        check: (value) =>
+            CONDITION_GRADES.includes(value as ConditionGrade) ? null : "Select one of the listed conditions.",
+    },
+    tags: {
+        check: (value) => {
+            const tags = Array.isArray(value) ? value : [];
+            if (tags.length > PRODUCT_LIMITS.MAX_TAGS) return `Use at most ${PRODUCT_LIMITS.MAX_TAGS} tags.`;
+            return tags.some((tag) => String(tag).length > PRODUCT_LIMITS.TAG_MAX_LENGTH)
+                ? `Tags must be at most ${PRODUCT_LIMITS.TAG_MAX_LENGTH} characters each.`
+                : null;
+        },
+    },
+    pickupLocation: {
+        check: maxLength("The pickup location", PRODUCT_LIMITS.PICKUP_LOCATION_MAX_LENGTH),
+    },
+    imageURLs: {
+        required: "A listing needs at least one photo.",
+        check: (value) =>
+            Array.isArray(value) && value.length > PRODUCT_LIMITS.MAX_PHOTOS
+                ? `A listing can have at most ${PRODUCT_LIMITS.MAX_PHOTOS} photos.`
+                : null,
+    },
+    buyerEmail: {
+        check: (value) => (EMAIL_PATTERN.test(String(value).trim()) ? null : "Enter a valid buyer email."),
+    },
+};
+
+// Missing, blank text and empty lists all count as not given
+const isBlank = (value: unknown): boolean =>
+    value === undefined ||
+    value === null ||
+    (typeof value === "string" && value.trim() === "") ||
+    (Array.isArray(value) && value.length === 0);
+
+/**
+ * Checks `values` against `PRODUCT_SCHEMA` and returns an error message per invalid field; none when valid.
+ */
+export const validateProduct = (
+    values: Partial<ProductRecord> | Record<string, unknown>,
+    { categories, partial = false }: ValidateProductOptions = {}
+): ProductErrors => {
+    const record = values as Record<string, unknown>;
+    const errors: ProductErrors = {};
+
+    (Object.entries(PRODUCT_SCHEMA) as Array<[ProductField, FieldRule]>).forEach(([field, rule]) => {
+        const value = record[field];
+        if (isBlank(value)) {
+            // A partial write only fails when it blanks out a required field it sets
+            if (rule.required && (!partial || value !== undefined)) errors[field] = rule.required;
+            return;
+        }
+        const error = rule.check(value, categories);
+        if (error) errors[field] = error;
+    });
+
+    if (!partial && record.status === "sold" && isBlank(record.buyerEmail)) {
+        errors.buyerEmail = "Buyer email is required when marking an item as sold.";
+    }
+    return errors;
+};
+
+/**
+ * Throws an `InvalidProductError` when `values` break the schema (see `validateProduct`).
+ */
+export const assertValidProduct = (
+    values: Partial<ProductRecord> | Record<string, unknown>,
+    options?: ValidateProductOptions
+): void => {
+    const errors = validateProduct(values, options);
+    if (Object.keys(errors).length > 0) {
+        throw new InvalidProductError(errors);
+    }
+};
@@ -0,0 +1,58 @@
+/**
+ * PurchaseRecord.ts
+ *
+ * This file defines the `PurchaseRecord` class, which represents a purchased order in the Panther
+ * Thrift Shop application. When a seller marks a product as sold, a copy of the product is stored in
+ * the `purchasedItems` collection under the product's ID, together with the buyer and the purchase date.
+ *
+ * Key Features:
+ * - Extends `Product`, so purchased orders render with the same components as listings.
+ * - `fromProduct` builds the order for a product sold to a buyer.
+ * - `fromRecord` to create `PurchaseRecord` instances from stored data.
+ *
+ * Author: Jayson Baya
+ * Last Updated: October 19, 2026
+ */
+
+import { Product, ProductRecord, upgradeProductRecord } from "@/Models/Product";
+
+export class PurchaseRecord extends Product {
+    productId!: string; // Also the order's ID; `buyerEmail` and `purchaseDate` are always set
+
+    /**
+     * Builds the purchased order for `product` sold to `buyerEmail`. The order is keyed by the
+     * product ID, so a product is only ever recorded as purchased once.
+     */
+    static fromProduct(product: ProductRecord, buyerEmail: string, purchaseDate = new Date().toISOString()) {
+        return PurchaseRecord.fromRecord({
+            id: product.id,
+            productId: product.id,
+            productName: product.productName,
+            category: product.category,
+            price: product.price,
+            description: product.description,
+            imageURL: product.imageURL,
+            imageURLs: product.imageURLs,
+            thumbnailURL: product.thumbnailURL,
+            thumbnailURLs: product.thumbnailURLs,
+            condition: product.condition,
+            tags: product.tags,
+            pickupLocation: product.pickupLocation,
+            attributes: product.attributes,
+            seller: product.seller,
+            status: "sold",
+            buyerEmail,
+            createdAt: product.createdAt, // Keep original timestamp
+            purchaseDate,
+        });
+    }
+
+    static fromRecord(record: PurchaseRecordData): PurchaseRecord {
+        return Object.assign(Object.create(PurchaseRecord.prototype) as PurchaseRecord, upgradeProductRecord(record));
+    }
+}
+
+/**
+ * The stored form of a purchased order.
+ */
+export type PurchaseRecordData = ProductRecord & { productId?: string; buyerEmail?: string; purchaseDate?: string };
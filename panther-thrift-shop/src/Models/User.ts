@@ -5,21 +5,24 @@
  * application. The `User` class includes properties for the user's unique ID (uid), email,
  * role (e.g., buyer or seller), and the account creation date. The class provides methods
  * to check the user's role and update the user's role. It also includes a static method
- * to create a `User` instance from Firestore data.
+ * to create a `User` instance from stored data, used by `modelSerializers`.
  *
  * Key Features:
  * - Represents a user with relevant details such as uid, email, role, and createdAt date.
- * - Provides methods for role verification and role updates.
- * - Utility function for constructing `User` instances from Firestore data.
+ * - Provides methods for role verification and role updates. Admins are users whose role is "admin";
+ *   the role is set in the database, never by the app.
+ * - Utility function for constructing `User` instances from Firestore or IndexedDB data.
  *
  * Dependencies:
- * - `FirestoreUserData` interface defines the structure of user data from Firestore.
+ * - `UserRecord` defines the stored form of a user. `createdAt` is a Firestore `Timestamp`
+ *   in Firestore and an ISO string in IndexedDB.
  *
  * Author: Jayson Baya
- * Last Updated: November 14, 2024
+ * Last Updated: October 19, 2026
  */
 
 export class User {
+    id?: string; // Storage key; the uid in Firestore
     uid: string;
     email: string;
     role: string;
@@ -36,27 +39,36 @@ export class User {
         return this.role === "seller";
     }
 
+    isAdmin(): boolean {
+        return this.role === "admin";
+    }
+
     updateRole(newRole: string) {
         this.role = newRole;
     }
 
-    // Define an explicit type for Firestore data
-    static fromFirestoreData(uid: string, data: FirestoreUserData): User {
-        return new User(
-            uid,
-            data.email,
-            data.role,
-            new Date(data.createdAt.seconds * 1000)
+    static fromRecord(record: UserRecord): User {
+        const { createdAt } = record;
+        const user = new User(
+            record.uid ?? record.id,
+            record.email,
+            record.role,
+            createdAt instanceof Date
+                ? createdAt
+                : typeof createdAt === "string"
+                  ? new Date(createdAt)
+                  : new Date(createdAt.seconds * 1000)
         );
+        user.id = record.id;
+        return user;
     }
 }
 
-// Define the FirestoreUserData interface
-interface FirestoreUserData {
+// The stored form of a user
+export interface UserRecord {
+    id: string;
+    uid?: string;
     email: string;
     role: string;
-    createdAt: {
-        seconds: number;
-        nanoseconds: number;
-    };
+    createdAt: Date | string | { seconds: number; nanoseconds: number };
 }
@@ -0,0 +1,152 @@
+/**
+ * CategoryPage.tsx
+ *
+ * This file defines the CategoryPage component, the marketplace page of one product category on the
+ * Panther Thrift Shop web application, served at `/marketplace/<slug>` (see `categoryPath`). It lists
+ * the unsold products of the category and of its subcategories, so "Men's Clothing" also shows shirts,
+ * pants and shoes. The sidebar highlights the category through `routeToCategory`.
+ *
+ * Key Features:
+ * - **User Authentication:** Unauthenticated users are redirected to the login page, as on BrowsePage.
+ * - **Product Retrieval:** Listed products (status `active` or `reserved`) of the category are kept live
+ *   through the dbHandler `subscribe` API, newest first, in both Firestore and IndexedDB modes.
+ * - **Navigation:** A breadcrumb links to the parent categories and chips link to the subcategories.
+ * - **Product Display:** Reuses `ProductGrid` for the grid and `ProductModal` for product details.
+ * - Unknown slugs show a "Category not found" message; retired categories still show their listings.
+ *
+ * Dependencies:
+ * - **Next.js:** `useParams` for the slug and `useRouter` for navigation.
+ * - **Firebase Auth:** To handle user authentication.
+ * - `useCategories` and `subscribeToCategoryListings` (lib/categories) for the taxonomy and the listings.
+ * - **ProductGrid / ProductModal Components:** The same grid and details modal as BrowsePage.
+ *
+ * Author: Jayson Baya
+ * Last Updated: October 19, 2026
+ */
+
+
+"use client";
+
+import React, { useEffect, useState } from "react";
+import { useParams, useRouter } from "next/navigation";
+import { onAuthStateChanged, User } from "firebase/auth";
+import { auth } from "@/lib/firebaseConfig";
+import { subscribeToCategoryListings, useCategories } from "@/lib/categories";
+import { categoryPath, findCategoryBySlug, getCategoryLineage, getSubcategories } from "@/Models/Category";
+import { Product } from "@/Models/Product";
+import { fetchProductsAlert, ROUTES } from "@/Models/ConstantData";
+import ProductGrid from "@/components/ProductGrid";
+import ProductModal from "@/components/ProductModal";
+
+const newestFirst = (a: Product, b: Product) => (b.createdAt ?? "").localeCompare(a.createdAt ?? "");
+
+const CategoryPage = () => {
+    const { slug } = useParams<{ slug: string }>();
+    const categories = useCategories();
+    const category = findCategoryBySlug(categories, decodeURIComponent(slug));
+    const [userEmail, setUserEmail] = useState<string>("");
+    const [products, setProducts] = useState<Product[]>([]);
+    const [loading, setLoading] = useState<boolean>(true);
+    const [error, setError] = useState<string>("");
+    const [selectedProduct, setSelectedProduct] = useState<Product | null>(null);
+    const router = useRouter();
+
+    useEffect(() => {
+        const unsubscribe = onAuthStateChanged(auth, (user: User | null) => {
+            if (user) {
+                setUserEmail(user.email || "");
+            } else {
+                router.push(ROUTES.LOGIN); // Redirect to login if not authenticated
+            }
+        });
+
+        return () => unsubscribe();
+    }, [router]);
+
+    // Keep the category's listings live; resubscribe when the taxonomy (and so the subcategories) loads
+    useEffect(() => {
+        if (!category || !userEmail) return;
+
+        setLoading(true);
+        setError("");
+        const unsubscribe = subscribeToCategoryListings(
+            categories,
+            category.name,
+            (listings) => {
+                setProducts([...listings].sort(newestFirst));
+                setLoading(false);
+            },
+            (subscribeError) => {
+                console.error(fetchProductsAlert.Error, subscribeError);
+                setError(fetchProductsAlert.Alert);
+                setLoading(false);
+            }
+        );
+
+        return () => unsubscribe();
+    }, [categories, category, userEmail]);
+
+    if (!category) {
+        return <p className="p-6 text-gray-600">Category not found.</p>;
+    }
+
+    const lineage = getCategoryLineage(categories, category.name);
+    const subcategories = getSubcategories(categories, category.id);
+
+    return (
+        <div className="min-h-screen flex flex-col">
+            <div className="flex-grow p-6">
+                {/* Breadcrumb: parent categories link to their own pages */}
+                {lineage.length > 1 && (
+                    <nav aria-label="Breadcrumb" className="text-sm text-gray-500 mb-2">
+                        {lineage.slice(0, -1).map((ancestor) => (
+                            <span key={ancestor.id}>
+                                <button onClick={() => router.push(categoryPath(ancestor))} className="hover:underline">
+                                    {ancestor.name}
+                                </button>
+                                {" › "}
+                            </span>
+                        ))}
+                    </nav>
+                )}
+                <h1 className="text-2xl font-bold mb-4">{category.name}</h1>
+
+                {subcategories.length > 0 && (
+                    <div className="flex flex-wrap gap-2 mb-4">
+                        {subcategories.map((subcategory) => (
+                            <button
+                                key={subcategory.id}
+                                onClick={() => router.push(categoryPath(subcategory))}
+                                className="bg-gray-100 text-gray-700 text-sm px-3 py-1 rounded-full hover:bg-gray-200"
+                            >
+                                {subcategory.name}
+                            </button>
+                        ))}
+                    </div>
+                )}
+
+                {loading ? (
+                    <p>Loading products...</p>
+                ) : error ? (
+                    <p className="text-red-500">{error}</p>
+                ) : (
+                    <ProductGrid
+                        products={products}
+                        onProductClick={setSelectedProduct}
+                        onSellerRedirect={() => router.push(ROUTES.SELLERS_PAGE)}
+                        userEmail={userEmail}
+                        emptyMessage={`No products in ${category.name} yet.`}
+                        showSaveButton={true}
+                    />
+                )}
+            </div>
+
+            {/* Product Details Modal */}
+            {selectedProduct && (
+                <ProductModal product={selectedProduct} isOpen={true} onClose={() => setSelectedProduct(null)} />
+            )}
+        </div>
+    );
+};
+
+export default CategoryPage;
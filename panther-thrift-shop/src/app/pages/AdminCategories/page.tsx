@@ -0,0 +1,153 @@
+/**
+ * AdminCategories.tsx
+ *
+ * This file defines the AdminCategories page of the Panther Thrift Shop web application, where admins
+ * change the category taxonomy without a code deploy. Users who are not admins (see `useIsAdmin`) only
+ * see a notice; the Firestore security rules refuse their writes to `categories` in any case. The changes
+ * are made through the admin helpers of `lib/categories`, so the listing forms, the sidebar and routing
+ * pick them up.
+ *
+ * Key Features:
+ * - **User Authentication:** Unauthenticated users are redirected to the login page.
+ * - **Taxonomy:** Every category is listed under its parent, retired ones included and marked as such.
+ * - **Add:** A new category can be added at the top level or under any category that is not retired.
+ * - **Retire / Restore:** Hides a category (and its subcategories) from the forms and the sidebar, or shows
+ *   it again. Categories are never deleted, because existing listings keep their category.
+ *
+ * Dependencies:
+ * - `useIsAdmin` (lib/adminAccess) for authentication and the user's role.
+ * - `addCategory`, `retireCategory`, `restoreCategory` and `reloadCategories` (lib/categories).
+ *
+ * Author: Jayson Baya
+ * Last Updated: October 19, 2026
+ */
+
+"use client";
+
+import React, { useEffect, useState } from "react";
+import { useIsAdmin } from "@/lib/adminAccess";
+import { addCategory, reloadCategories, restoreCategory, retireCategory } from "@/lib/categories";
+import { buildCategoryTree, Category, flattenCategoryTree } from "@/Models/Category";
+
+const AdminCategories = () => {
+    const isAdmin = useIsAdmin(); // null until the user's role is known
+    const [categories, setCategories] = useState<Category[] | null>(null); // null until loaded
+    const [name, setName] = useState("");
+    const [parentName, setParentName] = useState("");
+    const [message, setMessage] = useState("");
+    const [failed, setFailed] = useState(false);
+
+    // Read the stored taxonomy, retired categories included, once the user is known to be an admin
+    useEffect(() => {
+        if (isAdmin) reloadCategories().then(setCategories);
+    }, [isAdmin]);
+
+    // Runs a change to the taxonomy and shows the stored taxonomy afterwards; resolves to whether it worked
+    const applyChange = async (change: () => Promise<unknown>, success: string): Promise<boolean> => {
+        try {
+            await change();
+            setCategories(await reloadCategories());
+            setMessage(success);
+            setFailed(false);
+            return true;
+        } catch (error) {
+            console.error("Error updating categories:", error);
+            setMessage((error as Error).message);
+            setFailed(true);
+            return false;
+        }
+    };
+
+    const handleAdd = async (event: React.FormEvent) => {
+        event.preventDefault();
+        const added = await applyChange(
+            () => addCategory(name, parentName || undefined),
+            `Added the category "${name.trim()}".`
+        );
+        if (added) {
+            setName("");
+            setParentName("");
+        }
+    };
+
+    if (isAdmin === false) {
+        return <p className="p-6 text-gray-600">Only admins can manage categories.</p>;
+    }
+    if (isAdmin === null || categories === null) {
+        return <p className="p-6 text-gray-600">Loading...</p>;
+    }
+
+    const rows = flattenCategoryTree(buildCategoryTree(categories, true));
+
+    return (
+        <div className="min-h-screen p-6">
+            <h1 className="text-2xl font-bold mb-4">Manage Categories</h1>
+
+            {/* Add a category */}
+            <form onSubmit={handleAdd} className="flex flex-wrap gap-2 mb-6">
+                <input
+                    type="text"
+                    value={name}
+                    onChange={(e) => setName(e.target.value)}
+                    placeholder="New category name"
+                    aria-label="New category name"
+                    className="p-2 border rounded"
+                />
+                <select
+                    value={parentName}
+                    onChange={(e) => setParentName(e.target.value)}
+                    aria-label="Parent category"
+                    className="p-2 border rounded"
+                >
+                    <option value="">Top level</option>
+                    {flattenCategoryTree(buildCategoryTree(categories)).map(({ category, depth }) => (
+                        <option key={category.id} value={category.name}>
+                            {"— ".repeat(depth)}
+                            {category.name}
+                        </option>
+                    ))}
+                </select>
+                <button type="submit" className="bg-blue-600 text-white px-4 py-2 rounded hover:bg-blue-700">
+                    Add Category
+                </button>
+            </form>
+
+            {message && <p className={`mb-4 ${failed ? "text-red-600" : "text-green-600"}`}>{message}</p>}
+
+            {/* The taxonomy, retired categories included */}
+            <ul className="space-y-1">
+                {rows.map(({ category, depth }) => (
+                    <li
+                        key={category.id}
+                        className="flex justify-between items-center p-2 border-b"
+                        style={{ paddingLeft: `${0.5 + depth * 1.5}rem` }}
+                    >
+                        <span className={category.retired ? "text-gray-400" : ""}>
+                            {category.name}
+                            {category.retired && " (retired)"}
+                        </span>
+                        {category.retired ? (
+                            <button
+                                onClick={() => applyChange(() => restoreCategory(category.id), `Restored "${category.name}".`)}
+                                aria-label={`Restore ${category.name}`}
+                                className="text-sm text-blue-600 hover:underline"
+                            >
+                                Restore
+                            </button>
+                        ) : (
+                            <button
+                                onClick={() => applyChange(() => retireCategory(category.id), `Retired "${category.name}".`)}
+                                aria-label={`Retire ${category.name}`}
+                                className="text-sm text-red-600 hover:underline"
+                            >
+                                Retire
+                            </button>
+                        )}
+                    </li>
+                ))}
+            </ul>
+        </div>
+    );
+};
+
+export default AdminCategories;
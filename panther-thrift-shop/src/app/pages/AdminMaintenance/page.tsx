@@ -0,0 +1,75 @@
+/**
+ * AdminMaintenance.tsx
+ *
+ * This file defines the AdminMaintenance page of the Panther Thrift Shop web application, where an admin
+ * runs one-off data migrations. The Firestore backfills (see `lib/firestoreBackfill.ts`) rewrite every
+ * user's documents, so they run from here, once, rather than from each client. Users who are not admins
+ * (see `useIsAdmin`) only see a notice.
+ *
+ * Key Features:
+ * - **Firestore Backfills:** Upgrades documents written by older versions of the app and reports how many
+ *   were upgraded. Running them again only upgrades what is still left.
+ *
+ * Dependencies:
+ * - `useIsAdmin` (lib/adminAccess) for authentication and the user's role.
+ * - `runFirestoreBackfills` (lib/firestoreBackfill) for the migration itself.
+ *
+ * Author: Jayson Baya
+ * Last Updated: October 19, 2026
+ */
+
+"use client";
+
+import React, { useState } from "react";
+import { useIsAdmin } from "@/lib/adminAccess";
+import { runFirestoreBackfills } from "@/lib/firestoreBackfill";
+
+const AdminMaintenance = () => {
+    const isAdmin = useIsAdmin(); // null until the user's role is known
+    const [running, setRunning] = useState(false);
+    const [message, setMessage] = useState("");
+
+    const handleRunBackfills = async () => {
+        setRunning(true);
+        setMessage("");
+        try {
+            const upgraded = await runFirestoreBackfills();
+            setMessage(`${upgraded} ${upgraded === 1 ? "document" : "documents"} upgraded.`);
+        } catch (error) {
+            console.error("Error running the Firestore backfills:", error);
+            setMessage("The backfills could not be run. Please try again.");
+        } finally {
+            setRunning(false);
+        }
+    };
+
+    if (isAdmin === null) {
+        return <p className="p-6 text-gray-600">Loading...</p>;
+    }
+    if (!isAdmin) {
+        return <p className="p-6 text-gray-600">Only admins can run maintenance tasks.</p>;
+    }
+
+    return (
+        <div className="min-h-screen p-6">
+            <h1 className="text-2xl font-bold mb-4">Maintenance</h1>
+
+            <section className="mb-6">
+                <h2 className="text-lg font-semibold mb-2">Firestore Backfills</h2>
+                <p className="text-gray-600 mb-4">
+                    Upgrades listings, saved items and purchases written by older versions of the app.
+                </p>
+                <button
+                    onClick={handleRunBackfills}
+                    disabled={running}
+                    className="bg-blue-600 text-white px-4 py-2 rounded hover:bg-blue-700 disabled:opacity-50"
+                >
+                    {running ? "Running..." : "Run Backfills"}
+                </button>
+                {message && <p className="mt-4 text-gray-700">{message}</p>}
+            </section>
+        </div>
+    );
+};
+
+export default AdminMaintenance;
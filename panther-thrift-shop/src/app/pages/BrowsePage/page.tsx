@@ -7,17 +7,26 @@
  *
  * - **User Authentication:** It listens for authentication state changes using
  *   Firebase Auth. Unauthenticated users are redirected to the login page.
- * - **Product Retrieval:** It fetches a real-time list of unsold products from
- *   Firebase Firestore using a custom `getData` function.
- * - **Product Display:** It renders the fetched products in a grid layout using
- *   the `ProductGrid` component.
+ * - **Product Retrieval:** It fetches a real-time list of listed products (status `active` or
+ *   `reserved`) from Firebase Firestore using `getBrowsePage`, which pages through `getDataPage`.
+ *   Reserved listings carry a "Reserved" badge; drafts and sold, archived or removed listings are not shown.
+ * - **Product Display:** It renders the fetched products in a grid layout using the `ProductGrid`
+ *   component, loading further pages on demand.
+ * - **Filtering and Sorting:** A `BrowseFilterPanel` narrows the listings by price, category, condition
+ *   and posting date and sorts them by date or price. The filters live in the URL query string (see
+ *   `lib/browseFilters.ts`), so a filtered view can be bookmarked or shared, and become the queries passed
+ *   to `getBrowsePage` and `subscribe`.
  * - **Product Details:** When a product is clicked, detailed information is shown
  *   in a modal popup via the `ProductModal` component.
  * - **Seller Redirection:** If the current user interacts with their own product,
  *   the component can redirect them to the seller's page.
  *
  * Key Features:
- * - Real-time fetching of unsold products from Firestore.
+ * - Real-time updates of the loaded products through the dbHandler `subscribe` API (Firestore or IndexedDB).
+ *   Only the loaded products are followed, by ID, plus (newest first) the listings posted since, so the
+ *   live updates never download more than the pages the user has loaded.
+ * - Cursor-based pagination with a "Load More" button.
+ * - URL-synced filters and sort order; changing them starts again from the first page.
  * - Conditional rendering based on authentication and data loading states.
  * - Modular UI using `ProductGrid` for displaying products and `ProductModal` for
  *   detailed views.
@@ -25,66 +34,164 @@
  *
  * Dependencies:
  * - **React:** For state management and component rendering.
- * - **Next.js:** For client-side navigation using `useRouter`.
+ * - **Next.js:** For client-side navigation using `useRouter`, and `useSearchParams` for the filters.
  * - **Firebase Auth:** To handle user authentication.
  * - **Firebase Firestore:** For storing and fetching product data in real-time.
  * - **ProductGrid Component:** Renders the grid view of available products.
  * - **ProductModal Component:** Displays detailed information about a selected product.
- * - **Custom Utilities:** The `getData` function from `dbHandler` is used to query Firestore.
+ * - **Custom Utilities:** `getBrowsePage` (lib/browseFilters) reads Firestore or IndexedDB page by page.
  *
  * Author: Jayson Baya
- * Last Updated: February 2, 2025
+ * Last Updated: October 19, 2026
  */
 
 
 "use client";
 
-import React, { useState, useEffect } from "react";
-import { useRouter } from "next/navigation";
+import React, { Suspense, useState, useEffect, useMemo } from "react";
+import { usePathname, useRouter, useSearchParams } from "next/navigation";
 import { onAuthStateChanged, User } from "firebase/auth";
 import { auth } from "@/lib/firebaseConfig";
 import { Product } from "@/Models/Product";
 import {
     FIRESTORE_COLLECTIONS,
     FIRESTORE_FIELDS,
+    FIRESTORE_IN_QUERY_LIMIT,
+    PAGINATION,
     ROUTES,
     fetchProductsAlert,
 } from "@/Models/ConstantData";
-import { getData } from "@/lib/dbHandler"; // Use dbHandler functions
+import { subscribe } from "@/lib/dbHandler"; // Use dbHandler functions
+import { createQuery, StoreQuery, toChunks } from "@/lib/queryBuilder";
+import {
+    BrowseFilters,
+    browseFiltersToSearchParams,
+    browseQueries,
+    browseSortOptions,
+    getBrowsePage,
+    parseBrowseFilters,
+} from "@/lib/browseFilters";
+import { useCategories } from "@/lib/categories";
+import BrowseFilterPanel from "@/components/BrowseFilterPanel";
 import ProductGrid from "@/components/ProductGrid";
 import ProductModal from "@/components/ProductModal"; // Modal for product details
 
-const BrowsePage = () => {
+/**
+ * Applies a live snapshot of the loaded products with the IDs `ids` to the pages loaded so far: they are
+ * updated in place, or dropped once they are deleted or no longer match any of `queries`.
+ */
+const applyLiveProducts = (
+    loaded: Product[],
+    ids: string[],
+    live: Product[],
+    queries: StoreQuery<Product>[]
+): Product[] => {
+    const followed = new Set(ids);
+    const matches = (product: Product) =>
+        queries.some((query) => query.matches(product as unknown as Record<string, unknown>));
+    const liveById = new Map(live.filter(matches).map((product) => [product.id, product]));
+    return loaded.flatMap((product) =>
+        !followed.has(product.id) ? [product] : liveById.has(product.id) ? [liveById.get(product.id)!] : []
+    );
+};
+
+/**
+ * Puts listings posted since the pages were loaded in front of them, newest first. Other sort orders
+ * pick new listings up on the next load.
+ */
+const prependNewProducts = (loaded: Product[], newer: Product[]): Product[] => {
+    const loadedIds = new Set(loaded.map((product) => product.id));
+    const newListings = newer
+        .filter((product) => !loadedIds.has(product.id))
+        .sort((a, b) => (b.createdAt ?? "").localeCompare(a.createdAt ?? ""));
+    return [...newListings, ...loaded];
+};
+
+const BrowseListings = () => {
+    const searchParams = useSearchParams();
+    const filterKey = searchParams.toString();
+    const filters = useMemo(() => parseBrowseFilters(new URLSearchParams(filterKey)), [filterKey]);
+    const categories = useCategories();
     const [userEmail, setUserEmail] = useState<string>("");
     const [products, setProducts] = useState<Product[]>([]);
     const [loading, setLoading] = useState<boolean>(true);
     const [error, setError] = useState<string>("");
     const [selectedProduct, setSelectedProduct] = useState<Product | null>(null);
     const [showProductModal, setShowProductModal] = useState<boolean>(false);
+    const [nextPageToken, setNextPageToken] = useState<string | null>(null);
+    const [loadingMore, setLoadingMore] = useState<boolean>(false);
+    const [loadedAt, setLoadedAt] = useState<string>(""); // When the first page was fetched
     const router = useRouter();
+    const pathname = usePathname();
+
+    // The queries of the current filters; rebuilt when the URL or the taxonomy changes
+    const queries = useMemo(() => browseQueries(filters, categories), [filters, categories]);
 
     useEffect(() => {
-        const unsubscribeAuth = onAuthStateChanged(auth, (user: User | null) => {
+        const unsubscribe = onAuthStateChanged(auth, (user: User | null) => {
             if (user) {
                 setUserEmail(user.email || "");
-                fetchProducts(); // Fetch products when authenticated
             } else {
+                setUserEmail("");
                 router.push(ROUTES.LOGIN); // Redirect to login if not authenticated
             }
         });
 
-        return () => unsubscribeAuth(); // Cleanup on unmount
+        return () => unsubscribe(); // Cleanup on unmount
     }, [router]);
 
-    // Fetch products from the database
+    // Fetch the first page of the filtered products
+    useEffect(() => {
+        if (!userEmail) return;
+        fetchProducts();
+    }, [userEmail, queries]);
+
+    const loadedIdsKey = products.map((product) => product.id).sort().join(",");
+    // Sorted newest first, listings posted after the newest loaded one are shown as they come in
+    const newerThan = filters.sort === "newest" ? (products[0]?.createdAt ?? loadedAt) : null;
+
+    // Keep the loaded products live, by ID in chunks Firestore accepts for "in" queries, and follow new listings
+    useEffect(() => {
+        if (!userEmail || loading || error) return;
+
+        const ids = loadedIdsKey ? loadedIdsKey.split(",") : [];
+        const unsubscribes = toChunks(ids, FIRESTORE_IN_QUERY_LIMIT).map((chunk) =>
+            subscribe(
+                createQuery<Product>(FIRESTORE_COLLECTIONS.PRODUCTS).where(FIRESTORE_FIELDS.ID, "in", chunk),
+                (liveProducts) => setProducts((prev) => applyLiveProducts(prev, chunk, liveProducts, queries))
+            )
+        );
+        if (newerThan !== null) {
+            queries.forEach((query) =>
+                unsubscribes.push(
+                    subscribe(query.where(FIRESTORE_FIELDS.CREATED_AT, ">", newerThan), (newer) =>
+                        setProducts((prev) => prependNewProducts(prev, newer))
+                    )
+                )
+            );
+        }
+
+        return () => unsubscribes.forEach((unsubscribe) => unsubscribe());
+    }, [userEmail, loading, error, loadedIdsKey, newerThan, queries]);
+
+    // Fetch one page of products from the database
+    const fetchProductPage = (startAfter: string | null = null) =>
+        getBrowsePage(queries, {
+            ...browseSortOptions(filters),
+            limit: PAGINATION.BROWSE_PAGE_SIZE,
+            startAfter,
+        });
+
+    // Fetch the first page of products
     const fetchProducts = async () => {
         setLoading(true);
+        setError("");
         try {
-            const fetchedProducts = await getData<Product>(FIRESTORE_COLLECTIONS.PRODUCTS, [
-                { field: FIRESTORE_FIELDS.sold, operator: "==", value: false },
-            ]) || [];
-
-            setProducts(fetchedProducts);
+            const fetchedAt = new Date().toISOString();
+            const page = await fetchProductPage();
+            setProducts(page.items);
+            setLoadedAt(fetchedAt);
+            setNextPageToken(page.nextPageToken);
         } catch {
             setError(fetchProductsAlert.Alert);
             setProducts([]);
@@ -93,6 +200,21 @@ const BrowsePage = () => {
         }
     };
 
+    // Append the next page of products
+    const loadMoreProducts = async () => {
+        if (!nextPageToken) return;
+        setLoadingMore(true);
+        try {
+            const page = await fetchProductPage(nextPageToken);
+            setProducts((prev) => [...prev, ...page.items]);
+            setNextPageToken(page.nextPageToken);
+        } catch {
+            setError(fetchProductsAlert.Alert);
+        } finally {
+            setLoadingMore(false);
+        }
+    };
+
 
     // Handle product click to open modal
     const handleProductClick = (product: Product) => {
@@ -100,6 +222,12 @@ const BrowsePage = () => {
         setShowProductModal(true);
     };
 
+    // Put the new filters in the URL, which reloads the products
+    const handleFiltersChange = (next: BrowseFilters) => {
+        const params = browseFiltersToSearchParams(next).toString();
+        router.replace(params ? `${pathname}?${params}` : pathname, { scroll: false });
+    };
+
     // Redirect to seller's page
     const handleSellerRedirect = () => {
         router.push(ROUTES.SELLERS_PAGE);
@@ -110,6 +238,7 @@ const BrowsePage = () => {
             <div className="flex flex-grow">
                 <div className="flex-grow p-6">
                     <h1 className="text-2xl font-bold mb-4">Browse All Products</h1>
+                    <BrowseFilterPanel filters={filters} categories={categories} onChange={handleFiltersChange} />
 
                     {loading ? (
                         <p>Loading products...</p>
@@ -121,8 +250,13 @@ const BrowsePage = () => {
                             onProductClick={handleProductClick}
                             onSellerRedirect={handleSellerRedirect}
                             userEmail={userEmail}
-                            emptyMessage="No products available to browse."
-                            showSaveButton={true}/>
+                            emptyMessage={
+                                filterKey ? "No products match these filters." : "No products available to browse."
+                            }
+                            showSaveButton={true}
+                            hasMore={nextPageToken !== null}
+                            onLoadMore={loadMoreProducts}
+                            loadingMore={loadingMore}/>
                     )}
                 </div>
 
@@ -139,4 +273,11 @@ const BrowsePage = () => {
     );
 };
 
+// useSearchParams needs a Suspense boundary so the rest of the page can be prerendered
+const BrowsePage = () => (
+    <Suspense fallback={<p className="p-6">Loading products...</p>}>
+        <BrowseListings />
+    </Suspense>
+);
+
 export default BrowsePage;
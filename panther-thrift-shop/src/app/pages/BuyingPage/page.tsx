@@ -13,9 +13,14 @@
  * items and review their purchasing activities.
  *
  * Key Features:
- * - Real-time data fetching for saved items and purchased orders from Firestore.
+ * - Real-time data fetching for saved items and purchased orders via `subscribe`, which works in both
+ *   Firestore and IndexedDB modes.
  * - User authentication using Firebase Auth; unauthenticated users are redirected to the login page.
  * - Responsive, tab-based UI for easy navigation between different sections.
+ * - Saved items are copies taken when the buyer saved them, so the page follows the live status of each saved
+ *   listing: reserved, sold and archived listings are badged, and drafts or removed listings are hidden. So are
+ *   copies of listings the seller deleted, in case their saved copy could not be deleted with the listing.
+ *   Purchased orders carry the "Sold" badge.
  * - Detailed product display using the ProductGrid component.
  * - Product details are presented in a modal popup via the ProductModal component when an item is clicked.
  *
@@ -25,10 +30,10 @@
  * - Next.js useRouter for client-side navigation and redirection.
  * - ProductGrid component for rendering the grid layout of products.
  * - ProductModal component for displaying detailed product information in a modal.
- * - Custom utility function getData from dbHandler for querying Firestore.
+ * - Custom utility function subscribe from dbHandler for live queries against Firestore or IndexedDB.
  *
  * Author: Jayson Baya
- * Last Updated: February 2, 2025
+ * Last Updated: October 19, 2026
  */
 
 
@@ -38,72 +43,95 @@ import React, { useState, useEffect } from "react";
 import { useRouter } from "next/navigation";
 import { onAuthStateChanged } from "firebase/auth";
 import { auth } from "@/lib/firebaseConfig";
-import {getData} from "@/lib/dbHandler"; // Import the dbHandler function
+import {subscribe} from "@/lib/dbHandler"; // Import the dbHandler function
+import { createQuery, toChunks } from "@/lib/queryBuilder";
 import {
     FIRESTORE_COLLECTIONS,
     FIRESTORE_FIELDS,
+    FIRESTORE_IN_QUERY_LIMIT,
     renderTabContentMessage,
     ROUTES,
 } from "@/Models/ConstantData";
 import { TAB_NAMES } from "@/Models/ConstantData";
 import ProductGrid from "@/components/ProductGrid";
-import { Product } from "@/Models/Product";
+import { BuyerItem, ListingStatus, Product, savedProductId } from "@/Models/Product";
+import { PurchaseRecord } from "@/Models/PurchaseRecord";
 import ProductModal from "@/components/ProductModal";
 
+// Statuses of saved listings the buyer no longer sees
+const HIDDEN_SAVED_STATUSES: ListingStatus[] = ["draft", "removed"];
+
 const BuyingPage = () => {
-    const [savedItems, setSavedItems] = useState<Product[]>([]); // Saved items
+    const [savedItems, setSavedItems] = useState<BuyerItem[]>([]); // Saved items
     const [purchasedItems, setPurchasedItems] = useState<Product[]>([]); // Purchased items
     const [selectedTab, setSelectedTab] = useState(TAB_NAMES.SAVED_ITEMS); // Active tab
+    const [listingStatuses, setListingStatuses] = useState<Map<string, ListingStatus>>(new Map());
     const [selectedProduct, setSelectedProduct] = useState<Product | null>(null);
     const [showProductModal, setShowProductModal] = useState(false);
     const router = useRouter();
+    const savedIdsKey = savedItems.map(savedProductId).sort().join(",");
 
-    const fetchPurchasedItems = async (email: string) => {
-        try {
-            const purchasedItemsData = await getData<Product>(
-                FIRESTORE_COLLECTIONS.PURCHASED_ITEMS,
-                [{
-                    field: FIRESTORE_FIELDS.BUYER_EMAIL,
-                    operator: "==",
-                    value: email
-                }]
-            );
-
-            setPurchasedItems(purchasedItemsData);
-        } catch (error) {
-            console.error("Error fetching purchased items:", error);
-        }
-    };
+    useEffect(() => {
+        let unsubscribeData: Array<() => void> = [];
 
+        const unsubscribeAuth = onAuthStateChanged(auth, (user) => {
+            unsubscribeData.forEach((unsubscribe) => unsubscribe());
+            unsubscribeData = [];
 
-    useEffect(() => {
-        const unsubscribe = onAuthStateChanged(auth, async (user) => {
             if (user) {
                 const email = user.email || "";
-
-                try {
-                    // Fetch saved items
-                    const savedItemsData = await getData<Product>(FIRESTORE_COLLECTIONS.SAVED_ITEMS, [{
-                        field: FIRESTORE_FIELDS.BUYER_EMAIL,
-                        operator: "==",
-                        value: email
-                    }]);
-                    setSavedItems(savedItemsData);
-
-                    // Fetch purchased items
-                    await fetchPurchasedItems(email);
-
-                } catch (error) {
-                    console.error("Error fetching data:", error);
-                }
+                const savedItemsQuery = createQuery<BuyerItem>(FIRESTORE_COLLECTIONS.SAVED_ITEMS)
+                    .where(FIRESTORE_FIELDS.BUYER_EMAIL, "==", email);
+                const purchasedItemsQuery = createQuery<PurchaseRecord>(FIRESTORE_COLLECTIONS.PURCHASED_ITEMS)
+                    .where(FIRESTORE_FIELDS.BUYER_EMAIL, "==", email);
+
+                // Live saved items and purchased orders for this buyer
+                unsubscribeData = [
+                    subscribe(savedItemsQuery, setSavedItems,
+                        (error) => console.error("Error fetching saved items:", error)),
+                    subscribe(purchasedItemsQuery, setPurchasedItems,
+                        (error) => console.error("Error fetching purchased items:", error)),
+                ];
             } else {
                 router.push(ROUTES.LOGIN); // Redirect to login if not authenticated
             }
         });
 
-        return () => unsubscribe();
+        return () => {
+            unsubscribeAuth();
+            unsubscribeData.forEach((unsubscribe) => unsubscribe());
+        };
     }, [router]);
 
+    // Follow the live status of the saved listings, in chunks Firestore accepts for "in" queries; a listing
+    // that no longer exists was deleted by its seller and counts as removed
+    useEffect(() => {
+        const savedIds = savedIdsKey ? savedIdsKey.split(",") : [];
+        const unsubscribes = toChunks(savedIds, FIRESTORE_IN_QUERY_LIMIT).map((ids) =>
+            subscribe(
+                createQuery<Product>(FIRESTORE_COLLECTIONS.PRODUCTS).where(FIRESTORE_FIELDS.ID, "in", ids),
+                (listings) =>
+                    setListingStatuses((prev) => {
+                        const next = new Map(prev);
+                        ids.forEach((id) => next.set(id, "removed"));
+                        listings.forEach((listing) => next.set(listing.id, listing.status));
+                        return next;
+                    }),
+                (error) => console.error("Error fetching saved listing statuses:", error)
+            )
+        );
+
+        return () => unsubscribes.forEach((unsubscribe) => unsubscribe());
+    }, [savedIdsKey]);
+
+    // Saved copies stand in for their listing and take its live status, when it is known
+    const savedListings = savedItems
+        .map((item) => {
+            const productId = savedProductId(item);
+            return Product.fromRecord({ ...item, id: productId, status: listingStatuses.get(productId) ?? item.status });
+        })
+        .filter((item) => !HIDDEN_SAVED_STATUSES.includes(item.status));
+
     // Handle product click to show details in modal
     const handleProductClick = (product: Product) => {
         setSelectedProduct(product);
@@ -117,7 +145,7 @@ const BuyingPage = () => {
             case TAB_NAMES.SAVED_ITEMS:
                 return (
                     <ProductGrid
-                        products={savedItems}
+                        products={savedListings}
                         onProductClick={handleProductClick} // Makes items clickable
                         userEmail={auth.currentUser?.email || ""}
                         showSaveButton={true}
@@ -0,0 +1,136 @@
+/**
+ * SearchPage.tsx
+ *
+ * This file defines the SearchPage component, the search results page of the Panther Thrift Shop web
+ * application, served at `/pages/SearchPage?q=<query>`. The search box of the `MarketplaceNavBar` leads
+ * here. Listings are matched on their name, description, category and tags, ranked by relevance, and
+ * the matching words are highlighted.
+ *
+ * Key Features:
+ * - **User Authentication:** Unauthenticated users are redirected to the login page, as on BrowsePage.
+ * - **Product Retrieval:** Listed products (status `active` or `reserved`) are kept live through the
+ *   dbHandler `subscribe` API, so the search works in both Firestore and IndexedDB modes.
+ * - **Search:** An inverted index of the listings is built in the browser (see `lib/search.ts`) and
+ *   rebuilt whenever they change; no external search service is involved.
+ * - **Product Display:** Reuses `ProductGrid`, with highlighted matches, and `ProductModal` for details.
+ *
+ * Dependencies:
+ * - **Next.js:** `useSearchParams` for the query and `useRouter` for navigation.
+ * - **Firebase Auth:** To handle user authentication.
+ * - `buildSearchIndex` and `searchIndex` (lib/search) for matching and ranking.
+ * - **ProductGrid / ProductModal Components:** The same grid and details modal as BrowsePage.
+ *
+ * Author: Jayson Baya
+ * Last Updated: October 19, 2026
+ */
+
+
+"use client";
+
+import React, { Suspense, useEffect, useMemo, useState } from "react";
+import { useRouter, useSearchParams } from "next/navigation";
+import { onAuthStateChanged, User } from "firebase/auth";
+import { auth } from "@/lib/firebaseConfig";
+import { subscribe } from "@/lib/dbHandler";
+import { createQuery } from "@/lib/queryBuilder";
+import { buildSearchIndex, searchIndex } from "@/lib/search";
+import { LISTED_STATUSES, Product } from "@/Models/Product";
+import { FIRESTORE_COLLECTIONS, FIRESTORE_FIELDS, fetchProductsAlert, ROUTES } from "@/Models/ConstantData";
+import ProductGrid from "@/components/ProductGrid";
+import ProductModal from "@/components/ProductModal";
+
+// Every listing buyers can see: for sale or on hold for a buyer
+const listedProducts = createQuery<Product>(FIRESTORE_COLLECTIONS.PRODUCTS)
+    .where(FIRESTORE_FIELDS.STATUS, "in", LISTED_STATUSES);
+
+const SearchResults = () => {
+    const query = (useSearchParams().get("q") ?? "").trim();
+    const [userEmail, setUserEmail] = useState<string>("");
+    const [products, setProducts] = useState<Product[]>([]);
+    const [loading, setLoading] = useState<boolean>(true);
+    const [error, setError] = useState<string>("");
+    const [selectedProduct, setSelectedProduct] = useState<Product | null>(null);
+    const router = useRouter();
+
+    useEffect(() => {
+        const unsubscribe = onAuthStateChanged(auth, (user: User | null) => {
+            if (user) {
+                setUserEmail(user.email || "");
+            } else {
+                router.push(ROUTES.LOGIN); // Redirect to login if not authenticated
+            }
+        });
+
+        return () => unsubscribe();
+    }, [router]);
+
+    // Keep the listings live so the index follows new, edited and sold listings
+    useEffect(() => {
+        if (!userEmail) return;
+
+        const unsubscribe = subscribe(
+            listedProducts,
+            (listings) => {
+                setProducts(listings);
+                setLoading(false);
+            },
+            (subscribeError) => {
+                console.error(fetchProductsAlert.Error, subscribeError);
+                setError(fetchProductsAlert.Alert);
+                setLoading(false);
+            }
+        );
+
+        return () => unsubscribe();
+    }, [userEmail]);
+
+    const index = useMemo(() => buildSearchIndex(products), [products]);
+    const results = useMemo(() => searchIndex(index, query).map(({ product }) => product), [index, query]);
+
+    return (
+        <div className="min-h-screen flex flex-col">
+            <div className="flex-grow p-6">
+                <h1 className="text-2xl font-bold mb-4">
+                    {query ? `Search results for "${query}"` : "Search"}
+                </h1>
+
+                {!query ? (
+                    <p className="text-gray-500">Type what you are looking for in the search box.</p>
+                ) : loading ? (
+                    <p>Loading products...</p>
+                ) : error ? (
+                    <p className="text-red-500">{error}</p>
+                ) : (
+                    <>
+                        <p className="text-sm text-gray-500 mb-4" role="status">
+                            {results.length} {results.length === 1 ? "result" : "results"}
+                        </p>
+                        <ProductGrid
+                            products={results}
+                            onProductClick={setSelectedProduct}
+                            onSellerRedirect={() => router.push(ROUTES.SELLERS_PAGE)}
+                            userEmail={userEmail}
+                            emptyMessage={`No listings match "${query}".`}
+                            showSaveButton={true}
+                            highlightQuery={query}
+                        />
+                    </>
+                )}
+            </div>
+
+            {/* Product Details Modal */}
+            {selectedProduct && (
+                <ProductModal product={selectedProduct} isOpen={true} onClose={() => setSelectedProduct(null)} />
+            )}
+        </div>
+    );
+};
+
+// useSearchParams needs a Suspense boundary so the rest of the page can be prerendered
+const SearchPage = () => (
+    <Suspense fallback={<p className="p-6">Loading products...</p>}>
+        <SearchResults />
+    </Suspense>
+);
+
+export default SearchPage;
@@ -5,24 +5,52 @@
  * The SellerPage component provides functionality for users with a seller role to manage their
  * product listings.
  * Sellers can:
- * - Create new product listings with image uploads.
+ * - Create new product listings with photo uploads, a condition grade, tags, a pickup location and the
+ *   extra details of their category (e.g. size for clothing, ISBN for textbooks).
  * - View and manage their existing product listings.
- * - Edit product details, including marking items as sold.
+ * - Save new listings as drafts and publish them later.
+ * - Edit product details, including moving items through their lifecycle (reserved, sold, archived, removed).
  *
  * The component leverages Firebase for real-time data management and image uploads:
  * - Firebase Firestore is used for storing and retrieving product data.
  * - Firebase Storage handles image uploads and retrieval of download URLs.
  *
  * In addition, the component includes offline support by caching seller products in IndexedDB.
- * It first attempts to load products from IndexedDB and, if none are found, fetches them from Firestore,
- * then caches the results locally. When editing a product, if the product is marked as sold and a buyer email
- * is provided, the product is also moved to the "Purchased Orders" collection.
+ * It renders the cached products immediately and, once the cache is older than its TTL, reconciles it
+ * with Firestore so edits made on other devices show up. When editing a product, if the product is marked
+ * as sold and a buyer email is provided, the product is also moved to the "Purchased Orders" collection.
+ * Status changes the listing may not make (see `LISTING_TRANSITIONS`) are rejected by dbHandler and
+ * reported in the popup.
  *
  * Key Features:
- * - **Create Listings:** Upload images and create new product listings with complete details.
- * - **Offline Support:** Fetch and cache seller products using IndexedDB for offline accessibility.
+ * - **Create Listings:** Upload photos and create new product listings with complete details. Photos are
+ *   uploaded together and stored in the order the seller arranged them; the first is the cover.
+ * - **Photo Processing:** Each photo is checked, downscaled and re-encoded without its EXIF metadata (such as
+ *   GPS coordinates) by `processImage` (lib/imagePipeline), and uploaded with a thumbnail to a unique path
+ *   under the seller's user ID and the listing's ID. Both URLs are recorded on the listing.
+ * - **Upload Progress:** Photos are uploaded through an upload manager (lib/uploadManager) that shows a
+ *   progress bar per photo, lets the seller pause or cancel it and retries transient failures. The form
+ *   keeps its contents until every photo is uploaded; submitting again only uploads the photos that failed.
+ * - **Offline Support:** Fetch and cache seller products using IndexedDB for offline accessibility. Listings
+ *   created while offline are queued in the dbHandler outbox and flagged as "unsynced" until they reach Firestore.
  * - **Edit Listings:** Edit product information in a modal, with validations such as requiring a buyer email
  *   when marking an item as sold.
+ * - **Validation:** Both forms check the listing with `validateProduct` (Models/ProductSchema) before anything
+ *   is uploaded or saved: price bounds, length limits, the marketplace's categories and the number of photos.
+ *   The errors are shown under their fields, and dbHandler refuses product writes that break the same schema.
+ * - **Withdraw and Delete:** From the edit modal, after a confirmation, a listing can be withdrawn (archived, so
+ *   it can be relisted) or deleted for good with `deleteListing` (lib/listingDeletion), which also deletes its
+ *   saved copies and its photos from Storage. Sold listings cannot be deleted.
+ * - **Edit Photos:** Photos can be added, removed, reordered or made the cover while editing. New photos go
+ *   through the same pipeline and upload manager as new listings; once the listing is saved, the Storage files
+ *   of the photos it no longer uses are deleted (lib/listingPhotos). Sold listings keep them, since their
+ *   purchased order still shows them.
+ * - **Category Attributes:** Both forms render the attribute fields of the chosen category; the values are
+ *   checked with `validateAttributes` (subcategories inherit their parent's fields) before anything is
+ *   uploaded or saved, with the errors shown under the fields, and stored through `cleanAttributes` so
+ *   fields of a previously chosen category are dropped.
+ * - **Conflict Notices:** When a sync finds that another device edited a listing first, the seller is told which
+ *   of their changes were overridden and, where the policy asks for it, chooses which version to keep.
  * - **Real-Time Data Management:** Seamless integration with Firebase Firestore for updating and retrieving data.
  * - **Responsive Design:** Utilizes Tailwind CSS for a responsive UI, with dedicated components for forms,
  *   listings, modals, and alerts.
@@ -30,25 +58,50 @@
  * Dependencies:
  * - Firebase Auth for user authentication.
  * - Firebase Firestore for real-time product data management.
- * - Firebase Storage for handling image uploads.
- * - IndexedDB integration via custom utility functions (initializeDB, addData, updateData) for offline support.
+ * - `createUploadManager` (lib/uploadManager) for uploading photos to Firebase Storage.
+ * - IndexedDB integration via custom utility functions (addData, updateData) for offline support.
+ * - `getDataStaleWhileRevalidate` (lib/cacheSync) to render cached listings immediately and then reconcile
+ *   them with Firestore once they are older than `CACHE_TTL_MS.SELLER_LISTINGS`.
+ * - `markProductAsSold` (lib/sales) to mark an item as sold and record the purchased order atomically.
  * - Next.js useRouter for client-side navigation and redirection.
  * - UI Components: CreateListingForm, ProductListings, EditProductModal, and PopupAlert.
  *
  * Author: Jayson Baya
- * Last Updated: February 2, 2025
+ * Last Updated: October 19, 2026
  */
 
 
 "use client";
 
-import React, { useState, useEffect } from "react";
+import React, { useState, useEffect, useRef } from "react";
 import { useRouter } from "next/navigation";
 import { onAuthStateChanged } from "firebase/auth";
-import { auth, storage } from "@/lib/firebaseConfig";
-import { ref, uploadBytesResumable, getDownloadURL } from "firebase/storage";
-import {addData, initializeDB, updateData} from "@/lib/dbHandler"; // Import dbHandler functions
+import { auth } from "@/lib/firebaseConfig";
 import {
+    addData,
+    ConflictRecord,
+    dismissConflict,
+    getConflicts,
+    getUnsyncedIds,
+    onConflictsChange,
+    onOutboxChange,
+    resolveConflict,
+    toUnsyncedIds,
+    updateData,
+} from "@/lib/dbHandler"; // Import dbHandler functions
+import { getDataStaleWhileRevalidate } from "@/lib/cacheSync";
+import { useCategories } from "@/lib/categories";
+import { createQuery } from "@/lib/queryBuilder";
+import { markProductAsSold, ProductDetails } from "@/lib/sales";
+import { listingPhotoPaths, processImage } from "@/lib/imagePipeline";
+import { createUploadManager, UploadCanceledError, UploadManager, UploadProgress } from "@/lib/uploadManager";
+import { deleteStoredFiles, EditablePhoto, editablePhotos, replacedPhotoFiles, StoredPhoto } from "@/lib/listingPhotos";
+import { deleteListing } from "@/lib/listingDeletion";
+import { ConditionGrade, getPhotos, ListingStatus, parseTags, photoFields, Product } from "@/Models/Product";
+import { cleanAttributes, ProductAttributes, validateAttributes } from "@/Models/CategoryAttributes";
+import { ProductErrors, validateProduct } from "@/Models/ProductSchema";
+import {
+    CACHE_TTL_MS,
     FIRESTORE_COLLECTIONS,
     FIRESTORE_FIELDS,
     ROUTES,
@@ -57,42 +110,75 @@ import CreateListingForm from "@/components/SellerPageComponent/CreateNewListing
 import ProductListings from "@/components/SellerPageComponent/ProductListings";
 import EditProductModal from "@/components/SellerPageComponent/EditProductModal";
 import PopupAlert from "@/components/SellerPageComponent/PopupAlert";
+import ConflictNotice from "@/components/SellerPageComponent/ConflictNotice";
+import ConfirmDialog from "@/components/SellerPageComponent/ConfirmDialog";
 import {uuidv4} from "@firebase/util";
-import {collection, getDocs, query, where} from "firebase/firestore";
-import { db as firestoreDB } from "@/lib/firebaseConfig";
-
-interface Product extends Record<string, unknown>{
-    buyerEmail: string;
-    purchaseDate: string;
-    id: string;
-    productName: string;
-    price: number;
-    category: string;
-    imageURL: string;
-    description: string;
-    seller: string;
-    sold: boolean;
-    createdAt: string;
-}
+
+// The listings posted by one seller
+const sellerProducts = (email: string) =>
+    createQuery<Product>(FIRESTORE_COLLECTIONS.PRODUCTS).where(FIRESTORE_FIELDS.SELLER, "==", email);
+
+type UploadedPhoto = Required<StoredPhoto>;
+
+// What the seller is asked to confirm for the listing being edited
+const CONFIRMATIONS = {
+    withdraw: {
+        title: "Withdraw this listing?",
+        message: "Buyers will no longer see it. You can relist it later from your archived listings.",
+        confirmLabel: "Withdraw",
+    },
+    delete: {
+        title: "Delete this listing?",
+        message: "The listing and its photos will be deleted for good, and buyers who saved it will no longer see it.",
+        confirmLabel: "Delete",
+    },
+};
 
 const SellerPage = () => {
     const [userEmail, setUserEmail] = useState("");
+    const [userId, setUserId] = useState("");
     const [productName, setProductName] = useState("");
     const [category, setCategory] = useState("");
     const [price, setPrice] = useState(0);
     const [description, setDescription] = useState("");
-    const [image, setImage] = useState<File | null>(null);
+    const [condition, setCondition] = useState<ConditionGrade | "">("");
+    const [tags, setTags] = useState("");
+    const [pickupLocation, setPickupLocation] = useState("");
+    const [images, setImages] = useState<File[]>([]);
+    const [attributes, setAttributes] = useState<ProductAttributes>({});
+    const [attributeErrors, setAttributeErrors] = useState<Record<string, string>>({});
+    const [editAttributeErrors, setEditAttributeErrors] = useState<Record<string, string>>({});
+    const [productErrors, setProductErrors] = useState<ProductErrors>({});
+    const [editProductErrors, setEditProductErrors] = useState<ProductErrors>({});
     const [products, setProducts] = useState<Product[]>([]);
     const [selectedProduct, setSelectedProduct] = useState<Product | null>(null);
     const [showEditModal, setShowEditModal] = useState(false);
     const [message, setMessage] = useState("");
     const [showPopup, setShowPopup] = useState(false);
+    const [unsyncedIds, setUnsyncedIds] = useState<Set<string>>(new Set());
+    const [conflicts, setConflicts] = useState<ConflictRecord[]>([]);
+    const [uploadManager] = useState(() => createUploadManager());
+    const [uploads, setUploads] = useState<UploadProgress[]>([]);
+    const [uploading, setUploading] = useState(false);
+    // The photos of the listing being edited; new ones are uploaded by their own manager on save
+    const [editPhotos, setEditPhotos] = useState<EditablePhoto[]>([]);
+    const [editUploadManager] = useState(() => createUploadManager());
+    const [editUploads, setEditUploads] = useState<UploadProgress[]>([]);
+    const [editUploading, setEditUploading] = useState(false);
+    const [pendingAction, setPendingAction] = useState<keyof typeof CONFIRMATIONS | null>(null);
+    const [confirming, setConfirming] = useState(false);
+    // The listing being created keeps its ID and uploaded photos until it is saved, so a retry reuses them
+    const draftId = useRef(uuidv4());
+    const uploadedPhotos = useRef(new Map<File, UploadedPhoto>());
+    const uploadIds = useRef(new WeakMap<File, string>());
+    const categories = useCategories();
     const router = useRouter();
 
     useEffect(() => {
         const unsubscribe = onAuthStateChanged(auth, (user) => {
             if (user) {
                 setUserEmail(user.email || "");
+                setUserId(user.uid || "");
                 fetchSellerProducts(user.email);
             } else {
                 router.push(ROUTES.LOGIN);
@@ -102,43 +188,38 @@ const SellerPage = () => {
         return () => unsubscribe();
     }, [router]);
 
-    // Fetch seller's product listings
+    // Keep the "unsynced" badges in step with the offline outbox
+    useEffect(() => {
+        const unsubscribe = onOutboxChange((pending) => {
+            setUnsyncedIds(toUnsyncedIds(pending, FIRESTORE_COLLECTIONS.PRODUCTS));
+        });
+
+        return () => unsubscribe();
+    }, []);
+
+    // Tell the seller when a sync overrode one of their edits
+    useEffect(() => {
+        const showProductConflicts = (all: ConflictRecord[]) =>
+            setConflicts(all.filter((conflict) => conflict.storeName === FIRESTORE_COLLECTIONS.PRODUCTS));
+
+        getConflicts().then(showProductConflicts).catch((error) => console.error("Error loading conflicts:", error));
+        return onConflictsChange(showProductConflicts);
+    }, []);
+
+    // Show the progress of the photo uploads
+    useEffect(() => uploadManager.subscribe(setUploads), [uploadManager]);
+    useEffect(() => editUploadManager.subscribe(setEditUploads), [editUploadManager]);
+
+    // Fetch seller's product listings: show the cache right away, then reconcile it with Firestore
     const fetchSellerProducts = async (email: string | null) => {
         if (!email) return;
         try {
-            const db = await initializeDB();
-            const tx = db.transaction(FIRESTORE_COLLECTIONS.PRODUCTS, "readonly");
-            const store = tx.objectStore(FIRESTORE_COLLECTIONS.PRODUCTS);
-            const localProducts = await store.getAll();
-
-            // Filter Local IndexedDB Products by Seller Email
-            const sellerLocalProducts = localProducts.filter(product => product.seller === email);
-
-            if (sellerLocalProducts.length > 0) {
-                console.log("Loading seller's products from IndexedDB:", sellerLocalProducts);
-                setProducts(sellerLocalProducts);
-            } else {
-                console.log("Fetching seller's products from Firestore...");
-                const snapshot = await getDocs(query(
-                    collection(firestoreDB, FIRESTORE_COLLECTIONS.PRODUCTS),
-                    where(FIRESTORE_FIELDS.SELLER, "==", email)  // Ensure seller email matches
-                ));
-
-                const firestoreProducts = snapshot.docs.map((doc) => ({
-                    id: doc.id,
-                    ...doc.data()
-                })) as Product[];
-
-                setProducts(firestoreProducts);
-
-                // Save Only Seller's Products to IndexedDB
-                const txWrite = db.transaction(FIRESTORE_COLLECTIONS.PRODUCTS, "readwrite");
-                const storeWrite = txWrite.objectStore(FIRESTORE_COLLECTIONS.PRODUCTS);
-                for (const product of firestoreProducts) {
-                    await storeWrite.put(product);
-                }
-                await txWrite.done;
-            }
+            setUnsyncedIds(await getUnsyncedIds(FIRESTORE_COLLECTIONS.PRODUCTS));
+            await getDataStaleWhileRevalidate(
+                sellerProducts(email),
+                (listings) => setProducts(listings),
+                { ttlMs: CACHE_TTL_MS.SELLER_LISTINGS }
+            );
         } catch (error) {
             console.error("Error fetching seller's products:", error);
         }
@@ -146,66 +227,102 @@ const SellerPage = () => {
 
 
 
+    // Process one photo of listing `listingId` and upload it with its thumbnail, unless it already was
+    const uploadPhoto = async (manager: UploadManager, listingId: string, image: File): Promise<UploadedPhoto> => {
+        const done = uploadedPhotos.current.get(image);
+        if (done) return done;
+
+        const { image: photo, thumbnail } = await processImage(image);
+        const paths = listingPhotoPaths(userId, listingId);
+        if (!uploadIds.current.has(image)) uploadIds.current.set(image, uuidv4());
+        const [url, thumbnailURL] = await manager.upload(uploadIds.current.get(image)!, image.name, [
+            { path: paths.image, data: photo },
+            { path: paths.thumbnail, data: thumbnail },
+        ]);
+        uploadedPhotos.current.set(image, { url, thumbnailURL });
+        return { url, thumbnailURL };
+    };
+
     // Handle form submission for creating a new listing
-    const handleCreateListing = async () => {
-        if (!productName || !category || !image || !price || !description) {
-            setMessage("All fields are required!");
+    const handleCreateListing = async (status: ListingStatus = "active") => {
+        // The price input starts at 0, which means it was not filled in
+        const errors = validateProduct(
+            {
+                productName,
+                category,
+                price: price || undefined,
+                description,
+                condition: condition || undefined,
+                tags: parseTags(tags),
+                pickupLocation,
+                imageURLs: images.map((image) => image.name),
+            },
+            { categories }
+        );
+        const detailErrors = validateAttributes(category, attributes, categories);
+        setProductErrors(errors);
+        setAttributeErrors(detailErrors);
+        if (Object.keys(errors).length > 0 || Object.keys(detailErrors).length > 0) return;
+
+        const productId = draftId.current;
+        // Upload every photo and wait for all of them, so none is still running when the seller retries
+        setUploading(true);
+        const results = await Promise.allSettled(images.map((image) => uploadPhoto(uploadManager, productId, image)));
+        setUploading(false);
+
+        const failure = results.find((result) => result.status === "rejected");
+        if (failure) {
+            // Keep the form as it is; submitting again only uploads the photos that did not make it
+            const error = failure.reason as Error;
+            setMessage(error instanceof UploadCanceledError ? error.message : `Error uploading image: ${error.message}`);
             setShowPopup(true);
             return;
         }
-
-        const storageRef = ref(storage, `products/${image.name}`);
-        const uploadTask = uploadBytesResumable(storageRef, image);
-
-        uploadTask.on(
-            "state_changed",
-            () => {},
-            (error) => {
-                setMessage(`Error uploading image: ${error.message}`);
-                setShowPopup(true);
-            },
-            async () => {
-                const downloadURL = await getDownloadURL(uploadTask.snapshot.ref);
-                const newProduct: Product = {
-                    buyerEmail: "",
-                    id: uuidv4(),
-                    productName,
-                    category,
-                    price,
-                    description,
-                    imageURL: downloadURL,
-                    seller: userEmail,
-                    sold: false,
-                    createdAt: new Date().toISOString(),
-                    purchaseDate: new Date().toISOString()
-                };
-
-                try {
-                    if (navigator.onLine) {
-                        await addData(FIRESTORE_COLLECTIONS.PRODUCTS, newProduct); // Save to Firestore
-                    } else {
-                        console.warn("Offline mode: Saving product locally.");
-                        const db = await initializeDB();
-                        const tx = db.transaction(FIRESTORE_COLLECTIONS.PRODUCTS, "readwrite");
-                        const store = tx.objectStore(FIRESTORE_COLLECTIONS.PRODUCTS);
-                        await store.add(newProduct);
-                        await tx.done;
-                    }
-                    // Reset form
-                    setProductName("");
-                    setCategory("");
-                    setPrice(0);
-                    setDescription("");
-                    setImage(null);
-
-                    // Refresh listings
-                    await fetchSellerProducts(userEmail);
-                } catch (error) {
-                    setMessage(`Error listing product: ${(error as Error).message}`);
-                    setShowPopup(true);
-                }
-            }
+        // The URLs keep the order the seller chose
+        const uploaded = results.map((result) => (result as PromiseFulfilledResult<UploadedPhoto>).value);
+
+        const imageURLs = uploaded.map((photo) => photo.url);
+        const newProduct = new Product(
+            productId,
+            productName,
+            price,
+            category,
+            imageURLs[0],
+            description,
+            userEmail,
+            status
         );
+        Object.assign(newProduct, photoFields(imageURLs, uploaded.map((photo) => photo.thumbnailURL)), {
+            tags: parseTags(tags),
+            pickupLocation: pickupLocation.trim(),
+            attributes: cleanAttributes(category, attributes, categories),
+            createdAt: new Date().toISOString(),
+        });
+        if (condition) newProduct.condition = condition;
+
+        try {
+            // addData queues the write in the outbox when offline
+            await addData(FIRESTORE_COLLECTIONS.PRODUCTS, newProduct);
+            // Reset form
+            setProductName("");
+            setCategory("");
+            setPrice(0);
+            setDescription("");
+            setCondition("");
+            setTags("");
+            setPickupLocation("");
+            setImages([]);
+            setAttributes({});
+            draftId.current = uuidv4();
+            uploadedPhotos.current.clear();
+            uploadManager.clear();
+
+            // Refresh listings
+            await fetchSellerProducts(userEmail);
+        } catch (error) {
+            setMessage(`Error listing product: ${(error as Error).message}`);
+            setShowPopup(true);
+        }
     };
 
 
@@ -217,6 +334,10 @@ const SellerPage = () => {
             return;
         }
         setSelectedProduct(product);
+        setEditAttributeErrors({});
+        setEditProductErrors({});
+        setEditPhotos(editablePhotos(product));
+        editUploadManager.clear();
         setShowEditModal(true);
     };
 
@@ -226,46 +347,74 @@ const SellerPage = () => {
         if (!selectedProduct) return;
 
         try {
-            if (selectedProduct.sold && !selectedProduct.buyerEmail) {
-                setMessage("Buyer email is required when marking an item as sold.");
+            const errors = validateProduct(
+                {
+                    ...selectedProduct,
+                    imageURLs: editPhotos.map((photo) => (photo.kind === "stored" ? photo.url : photo.file.name)),
+                },
+                { categories }
+            );
+            const detailErrors = validateAttributes(
+                selectedProduct.category,
+                selectedProduct.attributes,
+                categories
+            );
+            setEditProductErrors(errors);
+            setEditAttributeErrors(detailErrors);
+            if (Object.keys(errors).length > 0 || Object.keys(detailErrors).length > 0) return;
+
+            // Upload the new photos; stored ones without a thumbnail use the photo itself
+            setEditUploading(true);
+            const results = await Promise.allSettled(
+                editPhotos.map((photo) =>
+                    photo.kind === "stored"
+                        ? Promise.resolve({ url: photo.url, thumbnailURL: photo.thumbnailURL ?? photo.url })
+                        : uploadPhoto(editUploadManager, selectedProduct.id, photo.file)
+                )
+            );
+            setEditUploading(false);
+
+            const failure = results.find((result) => result.status === "rejected");
+            if (failure) {
+                const error = failure.reason as Error;
+                setMessage(error instanceof UploadCanceledError ? error.message : `Error uploading image: ${error.message}`);
                 setShowPopup(true);
                 return;
             }
+            const photos = results.map((result) => (result as PromiseFulfilledResult<UploadedPhoto>).value);
+            const photosChanged =
+                photos.map((photo) => photo.url).join("\n") !== getPhotos(selectedProduct).join("\n");
 
-            const updatedProduct = {
+            const details: ProductDetails = {
                 productName: selectedProduct.productName,
                 category: selectedProduct.category,
                 price: selectedProduct.price,
                 description: selectedProduct.description,
-                sold: selectedProduct.sold,
-                buyerEmail: selectedProduct.buyerEmail || null,
+                tags: selectedProduct.tags ?? [],
+                pickupLocation: selectedProduct.pickupLocation ?? "",
+                attributes: cleanAttributes(selectedProduct.category, selectedProduct.attributes, categories),
+                ...(selectedProduct.condition && { condition: selectedProduct.condition }),
+                ...(photosChanged &&
+                    photoFields(photos.map((photo) => photo.url), photos.map((photo) => photo.thumbnailURL))),
             };
 
-            await updateData(
-                FIRESTORE_COLLECTIONS.PRODUCTS,
-                selectedProduct.id,
-                updatedProduct
-            );
-
-            // If product is sold, move it to Purchased Orders
-            if (selectedProduct.sold && selectedProduct.buyerEmail) {
-                const purchasedItem = {
-                    productName: selectedProduct.productName,
-                    category: selectedProduct.category,
-                    price: selectedProduct.price,
-                    description: selectedProduct.description,
-                    imageURL: selectedProduct.imageURL,
-                    seller: selectedProduct.seller,
-                    sold: true, // Mark as sold
-                    buyerEmail: selectedProduct.buyerEmail,
-                    createdAt: selectedProduct.createdAt, // Keep original timestamp
-                    purchaseDate: new Date().toISOString(), // Add new timestamp
+            if (selectedProduct.status === "sold" && selectedProduct.buyerEmail) {
+                // Move to "sold" and record the purchased order in one transaction; safe to repeat
+                await markProductAsSold(selectedProduct.id, selectedProduct.buyerEmail, details);
+            } else {
+                const updatedProduct = {
+                    ...details,
+                    status: selectedProduct.status,
+                    buyerEmail: selectedProduct.buyerEmail || null,
                 };
+                await updateData(FIRESTORE_COLLECTIONS.PRODUCTS, selectedProduct.id, updatedProduct);
+            }
 
-                await addData(FIRESTORE_COLLECTIONS.PURCHASED_ITEMS, purchasedItem);
-
-                console.log("Item successfully added to PURCHASED_ITEMS");
+            // The purchased order of a sold listing keeps showing its old photos, so keep their files
+            if (photosChanged && selectedProduct.status !== "sold") {
+                await deleteStoredFiles(replacedPhotoFiles(selectedProduct, photos));
             }
+            editUploadManager.clear();
 
             setMessage("Product updated successfully!");
             setShowPopup(true);
@@ -280,6 +429,33 @@ const SellerPage = () => {
         }
     };
 
+    // Withdraw or delete the listing being edited, once the seller has confirmed
+    const handleConfirmAction = async () => {
+        if (!selectedProduct || !pendingAction) return;
+
+        setConfirming(true);
+        try {
+            if (pendingAction === "withdraw") {
+                await updateData(FIRESTORE_COLLECTIONS.PRODUCTS, selectedProduct.id, { status: "archived" });
+                setMessage("Listing withdrawn.");
+            } else {
+                await deleteListing(selectedProduct);
+                setProducts((prev) => prev.filter((product) => product.id !== selectedProduct.id));
+                setMessage("Listing deleted.");
+            }
+            setSelectedProduct(null);
+            setShowEditModal(false);
+            await fetchSellerProducts(userEmail);
+        } catch (error) {
+            const action = pendingAction === "withdraw" ? "withdrawing" : "deleting";
+            setMessage(`Error ${action} listing: ${(error as Error).message}`);
+        } finally {
+            setConfirming(false);
+            setPendingAction(null);
+            setShowPopup(true);
+        }
+    };
+
     return (
         <div className="min-h-screen flex flex-col">
             <div className="flex flex-grow">
@@ -296,13 +472,38 @@ const SellerPage = () => {
                         setPrice={setPrice}
                         description={description}
                         setDescription={setDescription}
-                        setImage={setImage}
+                        condition={condition}
+                        setCondition={setCondition}
+                        tags={tags}
+                        setTags={setTags}
+                        pickupLocation={pickupLocation}
+                        setPickupLocation={setPickupLocation}
+                        images={images}
+                        setImages={setImages}
+                        attributes={attributes}
+                        setAttributes={setAttributes}
+                        errors={productErrors}
+                        attributeErrors={attributeErrors}
                         handleCreateListing={handleCreateListing}
+                        uploads={uploads}
+                        onPauseUpload={uploadManager.pause}
+                        onResumeUpload={uploadManager.resume}
+                        onCancelUpload={uploadManager.cancel}
+                        uploading={uploading}
+                    />
+
+                    {/* Edits overridden during sync */}
+                    <ConflictNotice
+                        conflicts={conflicts}
+                        productNames={Object.fromEntries(products.map((product) => [product.id, product.productName]))}
+                        onResolve={(conflictId, keep) => resolveConflict(conflictId, keep)}
+                        onDismiss={(conflictId) => dismissConflict(conflictId)}
                     />
 
                     {/* Existing Listings */}
                     <ProductListings
                         products={products}
+                        unsyncedIds={unsyncedIds}
                         handleEditProduct={handleEditProduct}
                     />
 
@@ -321,6 +522,27 @@ const SellerPage = () => {
                             setSelectedProduct={setSelectedProduct}
                             setShowEditModal={setShowEditModal}
                             handleUpdateProduct={handleUpdateProduct}
+                            errors={editProductErrors}
+                            attributeErrors={editAttributeErrors}
+                            photos={editPhotos}
+                            setPhotos={setEditPhotos}
+                            uploads={editUploads}
+                            onPauseUpload={editUploadManager.pause}
+                            onResumeUpload={editUploadManager.resume}
+                            onCancelUpload={editUploadManager.cancel}
+                            uploading={editUploading}
+                            onWithdraw={() => setPendingAction("withdraw")}
+                            onDelete={() => setPendingAction("delete")}
+                        />
+                    )}
+
+                    {/* Confirmation before withdrawing or deleting a listing */}
+                    {selectedProduct && pendingAction && (
+                        <ConfirmDialog
+                            {...CONFIRMATIONS[pendingAction]}
+                            onConfirm={handleConfirmAction}
+                            onCancel={() => setPendingAction(null)}
+                            busy={confirming}
                         />
                     )}
                 </div>
@@ -0,0 +1,165 @@
+/**
+ * browseFilters.test.ts
+ *
+ * This file contains unit tests for the BrowsePage filters of the Panther Thrift Shop web application.
+ *
+ * Key Features Tested:
+ * - **URL Encoding:** Filters survive a round trip through the query string; invalid values are ignored.
+ * - **Querying:** The filters become a `dbHandler` query, so the store only returns matching listings.
+ * - **Sorting:** Each sort order reads the pages in the expected order.
+ * - **Large Categories:** A category with more subcategories than one Firestore query accepts is read with
+ *   several queries, whose pages are merged in order.
+ *
+ * Author: Jayson Baya
+ * Last Updated: October 19, 2026
+ */
+
+import {
+    BrowseFilters,
+    browseFiltersToSearchParams,
+    browseQueries,
+    browseSortOptions,
+    getBrowsePage,
+    parseBrowseFilters,
+} from "@/lib/browseFilters";
+import { setStorageAdapters } from "@/lib/dbHandler";
+import { createMemoryAdapter } from "@/lib/storage/memoryAdapter";
+import { Category, DEFAULT_CATEGORIES } from "@/Models/Category";
+import { FIRESTORE_COLLECTIONS, FIRESTORE_IN_QUERY_LIMIT } from "@/Models/ConstantData";
+
+const NOW = new Date("2025-03-31T12:00:00Z");
+
+const listing = (
+    id: string,
+    category: string,
+    price: number,
+    condition: string,
+    daysAgo: number,
+    status = "active"
+) => ({
+    id,
+    productName: id,
+    description: "",
+    category,
+    price,
+    condition,
+    status,
+    imageURL: "",
+    seller: "seller@hanover.edu",
+    createdAt: new Date(NOW.getTime() - daysAgo * 24 * 60 * 60 * 1000).toISOString(),
+});
+
+const search = async (filters: BrowseFilters, categories: Category[] = DEFAULT_CATEGORIES) => {
+    const page = await getBrowsePage(browseQueries(filters, categories, NOW), {
+        ...browseSortOptions(filters),
+        limit: 10,
+    });
+    return page.items.map((product) => product.id);
+};
+
+describe("browse filters in the URL", () => {
+    test("survive a round trip through the query string", () => {
+        const filters: BrowseFilters = {
+            minPrice: 5,
+            maxPrice: 12.5,
+            category: "Men's Clothing",
+            condition: "like-new",
+            postedWithin: "7d",
+            sort: "price-desc",
+        };
+
+        const params = browseFiltersToSearchParams(filters);
+
+        expect(params.toString()).toBe(
+            "minPrice=5&maxPrice=12.5&category=Men%27s+Clothing&condition=like-new&posted=7d&sort=price-desc"
+        );
+        expect(parseBrowseFilters(params)).toEqual(filters);
+    });
+
+    test("leaves out the defaults and ignores invalid values", () => {
+        expect(browseFiltersToSearchParams({ sort: "newest" }).toString()).toBe("");
+        expect(
+            parseBrowseFilters(new URLSearchParams("minPrice=-3&maxPrice=lots&condition=mint&posted=1y&sort=random"))
+        ).toEqual({
+            minPrice: undefined,
+            maxPrice: undefined,
+            category: undefined,
+            condition: undefined,
+            postedWithin: undefined,
+            sort: "newest",
+        });
+    });
+});
+
+describe("browseQueries", () => {
+    beforeEach(() => {
+        setStorageAdapters({
+            primary: createMemoryAdapter({
+                [FIRESTORE_COLLECTIONS.PRODUCTS]: [
+                    listing("shirt", "Men's Shirts", 8, "good", 2),
+                    listing("coat", "Men's Clothing", 40, "like-new", 20, "reserved"),
+                    listing("jeans", "Men's Pants", 15, "good", 1, "sold"),
+                    listing("toaster", "Appliances", 12, "fair", 5),
+                    listing("lamp", "Room Decoration", 5, "new", 45),
+                ],
+            }),
+        });
+    });
+
+    test("returns every listed product, newest first, without filters", async () => {
+        expect(await search({ sort: "newest" })).toEqual(["shirt", "toaster", "coat", "lamp"]);
+    });
+
+    test("filters by category (with subcategories), condition, price and posting date", async () => {
+        expect(await search({ category: "Men's Clothing", sort: "newest" })).toEqual(["shirt", "coat"]);
+        expect(await search({ condition: "good", sort: "newest" })).toEqual(["shirt"]);
+        expect(await search({ minPrice: 6, maxPrice: 12, sort: "newest" })).toEqual(["shirt", "toaster"]);
+        expect(await search({ postedWithin: "7d", sort: "newest" })).toEqual(["shirt", "toaster"]);
+        expect(await search({ postedWithin: "30d", category: "Men's Clothing", sort: "newest" })).toEqual([
+            "shirt",
+            "coat",
+        ]);
+    });
+
+    test("sorts by price in either direction", async () => {
+        expect(await search({ sort: "price-asc" })).toEqual(["lamp", "shirt", "toaster", "coat"]);
+        expect(await search({ sort: "price-desc" })).toEqual(["coat", "toaster", "shirt", "lamp"]);
+    });
+
+    test("splits a category with many subcategories across queries and pages through them in order", async () => {
+        const decor = DEFAULT_CATEGORIES.find((category) => category.name === "Room Decoration")!;
+        const posters = Array.from({ length: 20 }, (_, index) => ({
+            id: `poster-${index}`, name: `Poster ${index}`, slug: `poster-${index}`, parentId: decor.id, order: index,
+        }));
+        const categories = [...DEFAULT_CATEGORIES, ...posters];
+        setStorageAdapters({
+            primary: createMemoryAdapter({
+                [FIRESTORE_COLLECTIONS.PRODUCTS]: [
+                    listing("lamp", "Room Decoration", 5, "new", 45),
+                    listing("first", "Poster 0", 9, "good", 1),
+                    listing("last", "Poster 19", 7, "good", 3),
+                    listing("middle", "Poster 10", 6, "good", 2),
+                    listing("toaster", "Appliances", 12, "fair", 5),
+                ],
+            }),
+        });
+
+        const filters: BrowseFilters = { category: "Room Decoration", sort: "price-asc" };
+        const queries = browseQueries(filters, categories, NOW);
+        expect(queries).toHaveLength(2);
+        queries.forEach(({ filters: queryFilters }) =>
+            expect(
+                queryFilters
+                    .filter((filter) => filter.operator === "in")
+                    .reduce((values, filter) => values * (filter.value as unknown[]).length, 1)
+            ).toBeLessThanOrEqual(FIRESTORE_IN_QUERY_LIMIT)
+        );
+
+        const options = { ...browseSortOptions(filters), limit: 2 };
+        const firstPage = await getBrowsePage(queries, options);
+        const secondPage = await getBrowsePage(queries, { ...options, startAfter: firstPage.nextPageToken });
+        expect(firstPage.items.map((product) => product.id)).toEqual(["lamp", "middle"]);
+        expect(secondPage.items.map((product) => product.id)).toEqual(["last", "first"]);
+        expect(secondPage.nextPageToken).toBeNull();
+    });
+});
@@ -0,0 +1,122 @@
+/**
+ * cacheSync.test.ts
+ *
+ * This file contains unit tests for the stale-while-revalidate cache of the Panther Thrift Shop web application.
+ * A memory adapter stands in for Firestore (the primary store) and another for the IndexedDB cache.
+ *
+ * Key Features Tested:
+ * - **Stale-While-Revalidate:** Cached records are served first, then replaced by the reconciled results.
+ * - **TTL:** Queries synced within their TTL are served from the cache without reading the primary store.
+ * - **Reconciliation:** Remote edits and deletions reach the cache; newer and unsynced local copies are kept.
+ * - **Invalidation:** `invalidateCache` forces the next read to revalidate.
+ *
+ * Author: Jayson Baya
+ * Last Updated: October 19, 2026
+ */
+
+import { getDataStaleWhileRevalidate, getSyncMetadata, invalidateCache } from "@/lib/cacheSync";
+import { setStorageAdapters, updateData } from "@/lib/dbHandler";
+import { createMemoryAdapter } from "@/lib/storage/memoryAdapter";
+import { StorageAdapter, StoredRecord } from "@/lib/storage/storageAdapter";
+import { createQuery } from "@/lib/queryBuilder";
+
+const SELLER = "seller@hanover.edu";
+const sellerQuery = createQuery<StoredRecord>("products").where("seller", "==", SELLER);
+
+const product = (id: string, price: number, updatedAt: string): StoredRecord => ({
+    id,
+    productName: `Product ${id}`,
+    price,
+    seller: SELLER,
+    updatedAt,
+});
+
+const ids = (records: StoredRecord[]) => records.map((record) => record.id).sort();
+
+describe("getDataStaleWhileRevalidate", () => {
+    let primary: StorageAdapter;
+    let cache: StorageAdapter;
+
+    beforeEach(() => {
+        primary = createMemoryAdapter({
+            products: [product("p1", 20, "2025-02-01T00:00:00Z"), product("p3", 30, "2025-02-01T00:00:00Z")],
+        });
+        cache = createMemoryAdapter({
+            products: [product("p1", 10, "2025-01-01T00:00:00Z"), product("p2", 15, "2025-01-01T00:00:00Z")],
+        });
+        setStorageAdapters({ primary, cache });
+    });
+
+    test("serves the cache first, then the reconciled records", async () => {
+        const onData = jest.fn();
+        await getDataStaleWhileRevalidate<StoredRecord>(sellerQuery, onData);
+
+        expect(onData).toHaveBeenCalledTimes(2);
+        expect(ids(onData.mock.calls[0][0])).toEqual(["p1", "p2"]);
+        expect(onData.mock.calls[0][1]).toEqual({ lastSyncedAt: null, stale: true });
+
+        // p1 was edited on another device, p2 was deleted there, and p3 is new
+        const [reconciled, freshness] = onData.mock.calls[1];
+        expect(ids(reconciled)).toEqual(["p1", "p3"]);
+        expect(reconciled.find((record: StoredRecord) => record.id === "p1").price).toBe(20);
+        expect(freshness.stale).toBe(false);
+        expect(await getSyncMetadata(sellerQuery)).toEqual(
+            expect.objectContaining({ lastSyncedAt: freshness.lastSyncedAt })
+        );
+    });
+
+    test("serves a query synced within its TTL from the cache alone", async () => {
+        await getDataStaleWhileRevalidate(sellerQuery, jest.fn());
+        const querySpy = jest.spyOn(primary, "query");
+        const onData = jest.fn();
+
+        await getDataStaleWhileRevalidate(sellerQuery, onData, { ttlMs: 60_000 });
+
+        expect(querySpy).not.toHaveBeenCalled();
+        expect(onData).toHaveBeenCalledTimes(1);
+        expect(onData.mock.calls[0][1].stale).toBe(false);
+    });
+
+    test("keeps local copies that are newer than the remote ones", async () => {
+        await cache.put("products", [product("p1", 12, "2025-03-01T00:00:00Z")]);
+        const onData = jest.fn();
+
+        await getDataStaleWhileRevalidate<StoredRecord>(sellerQuery, onData);
+
+        const reconciled: StoredRecord[] = onData.mock.calls[1][0];
+        expect(reconciled.find((record) => record.id === "p1")?.price).toBe(12);
+    });
+
+    test("keeps records with writes still waiting in the outbox", async () => {
+        const onLine = jest.spyOn(navigator, "onLine", "get").mockReturnValue(false);
+        await updateData("products", "p2", { price: 18 });
+        onLine.mockReturnValue(true);
+        const onData = jest.fn();
+
+        await getDataStaleWhileRevalidate<StoredRecord>(sellerQuery, onData);
+
+        expect(ids(onData.mock.calls[1][0])).toEqual(["p1", "p2", "p3"]);
+        onLine.mockRestore();
+    });
+
+    test("revalidates again after the cache is invalidated", async () => {
+        await getDataStaleWhileRevalidate(sellerQuery, jest.fn());
+        await invalidateCache("products");
+        const onData = jest.fn();
+
+        await getDataStaleWhileRevalidate(sellerQuery, onData, { ttlMs: 60_000 });
+
+        expect(await getSyncMetadata(sellerQuery)).not.toBeNull();
+        expect(onData).toHaveBeenCalledTimes(2);
+    });
+
+    test("reads the primary store once when there is no separate cache", async () => {
+        setStorageAdapters({ primary });
+        const onData = jest.fn();
+
+        await getDataStaleWhileRevalidate<StoredRecord>(sellerQuery, onData);
+
+        expect(onData).toHaveBeenCalledTimes(1);
+        expect(ids(onData.mock.calls[0][0])).toEqual(["p1", "p3"]);
+    });
+});
@@ -0,0 +1,149 @@
+/**
+ * categories.test.ts
+ *
+ * This file contains unit tests for the category taxonomy of the Panther Thrift Shop web application.
+ * The taxonomy helpers are tested directly; loading and admin changes run through the real `dbHandler`
+ * against in-memory storage adapters.
+ *
+ * Key Features Tested:
+ * - **Tree:** Categories nest under their parents in order; retired categories are hidden but still resolve.
+ * - **Loading:** An empty collection falls back to the default taxonomy.
+ * - **Listings:** A category with more subcategories than one Firestore query accepts is read in several queries.
+ * - **Admin Changes:** Adding a category seeds the defaults first, rejects taken names and places it after its
+ *   siblings; retiring hides it from the tree.
+ * - **Attributes and Routing:** Subcategories inherit their parent's attribute schema, and category URLs map back
+ *   to category names.
+ *
+ * Author: Jayson Baya
+ * Last Updated: October 19, 2026
+ */
+
+import { setStorageAdapters } from "@/lib/dbHandler";
+import { createMemoryAdapter } from "@/lib/storage/memoryAdapter";
+import { StorageAdapter } from "@/lib/storage/storageAdapter";
+import {
+    addCategory,
+    categoryListingsQueries,
+    countCategoryListings,
+    getLoadedCategories,
+    reloadCategories,
+    retireCategory,
+} from "@/lib/categories";
+import {
+    buildCategoryTree,
+    DEFAULT_CATEGORIES,
+    findCategoryBySlug,
+    getCategoryAndDescendantNames,
+    getCategoryLineage,
+    slugify,
+} from "@/Models/Category";
+import { getAttributeSchema } from "@/Models/CategoryAttributes";
+import { FIRESTORE_COLLECTIONS, FIRESTORE_IN_QUERY_LIMIT } from "@/Models/ConstantData";
+import routeToCategory from "@/components/routeToCategory";
+
+const { CATEGORIES, PRODUCTS } = FIRESTORE_COLLECTIONS;
+
+describe("taxonomy helpers", () => {
+    test("nests categories under their parents in display order", () => {
+        const tree = buildCategoryTree(DEFAULT_CATEGORIES);
+
+        expect(tree.map((node) => node.name)).toEqual([
+            "Men's Clothing", "Women's Clothing", "Appliances", "Room Decoration", "Textbooks",
+        ]);
+        expect(tree[0].children.map((node) => node.slug)).toEqual(["mens-shirts", "mens-pants", "mens-shoes"]);
+        expect(getCategoryLineage(DEFAULT_CATEGORIES, "Men's Shoes").map((category) => category.name)).toEqual([
+            "Men's Clothing", "Men's Shoes",
+        ]);
+        expect(getCategoryAndDescendantNames(DEFAULT_CATEGORIES, "Men's Clothing")).toEqual([
+            "Men's Clothing", "Men's Shirts", "Men's Pants", "Men's Shoes",
+        ]);
+        expect(slugify("Heating & Cooling")).toBe("heating-and-cooling");
+    });
+
+    test("hides retired categories from the tree but still resolves them", () => {
+        const categories = DEFAULT_CATEGORIES.map((category) =>
+            category.slug === "womens-clothing" ? { ...category, retired: true } : category
+        );
+
+        expect(buildCategoryTree(categories).map((node) => node.name)).not.toContain("Women's Clothing");
+        expect(routeToCategory("/marketplace/womens-clothing", categories)).toBe("Women's Clothing");
+    });
+
+    test("maps routes to sections and categories", () => {
+        expect(routeToCategory("/pages/BuyingPage")).toBe("Buying");
+        expect(routeToCategory("/marketplace/mens-shirts")).toBe("Men's Shirts");
+        expect(routeToCategory("/marketplace/unknown")).toBe("Browse All");
+    });
+
+    test("gives subcategories the attribute schema of their parent", () => {
+        expect(getAttributeSchema("Men's Shirts").map((field) => field.key)).toEqual(["size", "fit"]);
+        expect(getAttributeSchema("Men's Jackets")).toEqual([]);
+
+        const withJackets = [
+            ...DEFAULT_CATEGORIES,
+            { id: "mens-jackets", name: "Men's Jackets", slug: "mens-jackets", parentId: "mens-clothing", order: 3 },
+        ];
+        expect(getAttributeSchema("Men's Jackets", withJackets).map((field) => field.key)).toEqual(["size", "fit"]);
+    });
+});
+
+describe("stored taxonomy", () => {
+    let primary: StorageAdapter;
+
+    beforeEach(async () => {
+        jest.spyOn(console, "log").mockImplementation(() => {});
+        primary = createMemoryAdapter();
+        setStorageAdapters({ primary });
+        await reloadCategories();
+    });
+
+    afterEach(() => {
+        jest.restoreAllMocks();
+    });
+
+    test("falls back to the default taxonomy while the collection is empty", async () => {
+        expect(await reloadCategories()).toEqual(DEFAULT_CATEGORIES);
+        expect(await primary.query(CATEGORIES, [])).toEqual([]);
+    });
+
+    test("adds a category after its siblings, seeding the defaults first", async () => {
+        const jackets = await addCategory("Men's Jackets", "Men's Clothing");
+
+        expect(jackets).toEqual({
+            id: "mens-jackets", name: "Men's Jackets", slug: "mens-jackets", parentId: "mens-clothing", order: 3,
+        });
+        expect(await primary.query(CATEGORIES, [])).toHaveLength(DEFAULT_CATEGORIES.length + 1);
+        expect(findCategoryBySlug(getLoadedCategories(), "mens-jackets")).toEqual(expect.objectContaining(jackets));
+
+        await expect(addCategory("Men's Jackets")).rejects.toThrow('A category named "Men\'s Jackets" already exists.');
+        await expect(addCategory("Scarves", "Hats")).rejects.toThrow("No category found with name: Hats");
+    });
+
+    test("splits the listings of a category with many subcategories across queries Firestore accepts", async () => {
+        const decor = DEFAULT_CATEGORIES.find((category) => category.name === "Room Decoration")!;
+        const posters = Array.from({ length: 20 }, (_, index) => ({
+            id: `poster-${index}`, name: `Poster ${index}`, slug: `poster-${index}`, parentId: decor.id, order: index,
+        }));
+        const categories = [...DEFAULT_CATEGORIES, ...posters];
+        await Promise.all(
+            ["Room Decoration", "Poster 0", "Poster 19"].map((category, index) =>
+                primary.add(PRODUCTS, { id: `p${index}`, category, status: "active" })
+            )
+        );
+
+        const queries = categoryListingsQueries(categories, "Room Decoration");
+        expect(queries).toHaveLength(2);
+        queries.forEach(({ filters }) =>
+            expect(filters.reduce((values, filter) => values * (filter.value as unknown[]).length, 1))
+                .toBeLessThanOrEqual(FIRESTORE_IN_QUERY_LIMIT)
+        );
+        expect(await countCategoryListings(categories)).toEqual(expect.objectContaining({ "Room Decoration": 3 }));
+    });
+
+    test("retires a category without deleting it", async () => {
+        await retireCategory("textbooks");
+
+        expect(buildCategoryTree(getLoadedCategories()).map((node) => node.name)).not.toContain("Textbooks");
+        expect(await primary.get(CATEGORIES, "textbooks")).toEqual(expect.objectContaining({ retired: true }));
+    });
+});
@@ -0,0 +1,57 @@
+/**
+ * categoryAttributes.test.ts
+ *
+ * This file contains unit tests for the category attribute schemas of the Panther Thrift Shop web application.
+ *
+ * Key Features Tested:
+ * - **Validation:** Required fields, options, number ranges and ISBN/course code formats are enforced per category.
+ * - **Cleaning:** Stored attributes keep only the fields of the category, without blanks, with numbers as numbers.
+ * - **ISBN:** Both ISBN-10 (including an "X" check digit) and ISBN-13 check digits are verified.
+ *
+ * Author: Jayson Baya
+ * Last Updated: October 19, 2026
+ */
+
+import { cleanAttributes, isValidISBN, validateAttributes } from "@/Models/CategoryAttributes";
+
+describe("validateAttributes", () => {
+    test("enforces the schema of the category", () => {
+        expect(validateAttributes("Men's Clothing", {})).toEqual({ size: "Size is required." });
+        expect(validateAttributes("Women's Clothing", { size: "XXXL", fit: "Unisex" })).toEqual({
+            size: "Choose a size from the list.",
+        });
+        expect(validateAttributes("Appliances", { wattage: "lots" })).toEqual({ wattage: "Wattage must be a number." });
+        expect(validateAttributes("Appliances", { wattage: "9000" })).toEqual({
+            wattage: "Wattage must be at most 5000.",
+        });
+        expect(validateAttributes("Textbooks", { isbn: "0-306-40615-2", courseCode: "Calculus" })).toEqual({
+            courseCode: "Course code must look like CS 220.",
+        });
+    });
+
+    test("accepts valid values and categories without attributes", () => {
+        expect(validateAttributes("Men's Clothing", { size: "M" })).toEqual({});
+        expect(validateAttributes("Appliances", { brand: " Keurig ", wattage: 1500 })).toEqual({});
+        expect(validateAttributes("Room Decoration", { size: "M" })).toEqual({});
+        expect(validateAttributes("Unknown")).toEqual({});
+    });
+});
+
+describe("cleanAttributes", () => {
+    test("keeps only the category's fields, trimmed, with numbers as numbers", () => {
+        expect(
+            cleanAttributes("Appliances", { brand: " Keurig ", wattage: "1500", size: "M", fit: "" })
+        ).toEqual({ brand: "Keurig", wattage: 1500 });
+        expect(cleanAttributes("Textbooks", { isbn: "", edition: "3rd" })).toEqual({ edition: "3rd" });
+    });
+});
+
+describe("isValidISBN", () => {
+    test("checks ISBN-10 and ISBN-13 check digits", () => {
+        expect(isValidISBN("0-306-40615-2")).toBe(true);
+        expect(isValidISBN("0-8044-2957-X")).toBe(true);
+        expect(isValidISBN("978 0 13 468599 1")).toBe(true);
+        expect(isValidISBN("978-0-13-468599-2")).toBe(false);
+        expect(isValidISBN("12345")).toBe(false);
+    });
+});
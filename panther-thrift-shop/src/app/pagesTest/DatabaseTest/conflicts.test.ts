@@ -0,0 +1,184 @@
+/**
+ * conflicts.test.ts
+ *
+ * This file contains unit tests for conflict detection and resolution in the Panther Thrift Shop web application.
+ * A memory adapter stands in for Firestore and another for the IndexedDB cache; a listing is edited "offline"
+ * on this device while another device edits it directly in the primary store.
+ *
+ * Key Features Tested:
+ * - **Revisions:** Every write stamps `updatedAt` and increments `revision`.
+ * - **Policies:** Last-writer-wins, field-level merge and surface-to-user, as pure functions and end to end.
+ * - **Untouched Fields:** Fields an edit sent back unchanged never override the other device's edits.
+ * - **Conflict Log:** Overridden edits are recorded, can be resolved by keeping either side, and can be dismissed.
+ *
+ * Author: Jayson Baya
+ * Last Updated: October 19, 2026
+ */
+
+import {
+    addData,
+    flushOutbox,
+    getConflicts,
+    resolveConflict,
+    setConflictPolicy,
+    setStorageAdapters,
+    updateData,
+} from "@/lib/dbHandler";
+import { fieldMerge, lastWriterWins, surfaceToUser } from "@/lib/conflictResolution";
+import { createMemoryAdapter } from "@/lib/storage/memoryAdapter";
+import { StorageAdapter, StoredRecord } from "@/lib/storage/storageAdapter";
+
+const base = { price: 40, description: "Mini fridge" };
+const input = {
+    localChanges: { price: 35, description: "Mini fridge, barely used" },
+    localUpdatedAt: "2025-03-01T00:00:00Z",
+    base,
+    remote: { price: 30, description: "Mini fridge", updatedAt: "2025-03-02T00:00:00Z" },
+};
+
+describe("conflict policies", () => {
+    test("last-writer-wins discards the older edit as a whole", () => {
+        expect(lastWriterWins.resolve(input)).toEqual({
+            apply: {},
+            overriddenFields: ["price", "description"],
+            needsReview: false,
+        });
+        expect(lastWriterWins.resolve({ ...input, localUpdatedAt: "2025-03-03T00:00:00Z" }).apply).toEqual(
+            input.localChanges
+        );
+    });
+
+    test("field-merge keeps fields only one side changed", () => {
+        expect(fieldMerge.resolve(input)).toEqual({
+            apply: { description: "Mini fridge, barely used" },
+            overriddenFields: ["price"],
+            needsReview: false,
+        });
+    });
+
+    test("surface-to-user holds back contested fields for review", () => {
+        expect(surfaceToUser.resolve(input)).toEqual({
+            apply: { description: "Mini fridge, barely used" },
+            overriddenFields: ["price"],
+            needsReview: true,
+        });
+    });
+});
+
+describe("syncing conflicting edits", () => {
+    let primary: StorageAdapter;
+    let cache: StorageAdapter;
+    let onLine: jest.SpyInstance;
+
+    // Creates the listing online, then edits it offline here and online "on another device"
+    const editOnBothDevices = async () => {
+        await addData("products", { id: "p1", productName: "Fridge", ...base });
+        onLine.mockReturnValue(false);
+        await updateData("products", "p1", input.localChanges);
+
+        const remote = await primary.get<StoredRecord>("products", "p1");
+        await primary.update("products", "p1", {
+            price: 30,
+            revision: Number(remote?.revision) + 1,
+            updatedAt: new Date(Date.now() + 60_000).toISOString(),
+        });
+        onLine.mockReturnValue(true);
+        await flushOutbox();
+    };
+
+    beforeEach(() => {
+        jest.spyOn(console, "log").mockImplementation(() => {});
+        jest.spyOn(console, "warn").mockImplementation(() => {});
+        onLine = jest.spyOn(navigator, "onLine", "get").mockReturnValue(true);
+        primary = createMemoryAdapter();
+        cache = createMemoryAdapter();
+        setStorageAdapters({ primary, cache });
+        setConflictPolicy("field-merge");
+    });
+
+    afterEach(() => {
+        jest.restoreAllMocks();
+    });
+
+    test("stamps revisions on every write", async () => {
+        await addData("products", { id: "p1", ...base });
+        await updateData("products", "p1", { price: 35 });
+
+        expect(await primary.get("products", "p1")).toEqual(
+            expect.objectContaining({ price: 35, revision: 2, updatedAt: expect.any(String) })
+        );
+    });
+
+    test("merges fields and tells the seller which edit was overridden", async () => {
+        await editOnBothDevices();
+
+        const stored = await primary.get<StoredRecord>("products", "p1");
+        expect(stored).toEqual(expect.objectContaining({ price: 30, description: "Mini fridge, barely used" }));
+        expect(await cache.get("products", "p1")).toEqual(stored);
+        expect(await getConflicts("products")).toEqual([
+            expect.objectContaining({
+                recordId: "p1",
+                policy: "field-merge",
+                overriddenFields: ["price"],
+                localChanges: { price: 35 },
+                remoteValues: { price: 30 },
+                needsReview: false,
+            }),
+        ]);
+    });
+
+    test("applies non-conflicting edits without recording a conflict", async () => {
+        await addData("products", { id: "p1", ...base });
+        onLine.mockReturnValue(false);
+        await updateData("products", "p1", { price: 35 });
+        onLine.mockReturnValue(true);
+        await flushOutbox();
+
+        expect(await primary.get("products", "p1")).toEqual(expect.objectContaining({ price: 35 }));
+        expect(await getConflicts()).toEqual([]);
+    });
+
+    test("keeps the other device's edit of a field this save sent back unchanged", async () => {
+        const attributes = { brand: "Frigidaire", wattage: 90 };
+        await addData("products", { id: "p1", productName: "Fridge", ...base, attributes });
+        onLine.mockReturnValue(false);
+        // The edit form sends every field, edited or not
+        await updateData("products", "p1", {
+            productName: "Fridge",
+            ...base,
+            description: "Mini fridge, barely used",
+            attributes: { wattage: 90, brand: "Frigidaire" },
+        });
+
+        const remote = await primary.get<StoredRecord>("products", "p1");
+        await primary.update("products", "p1", {
+            price: 30,
+            attributes: { ...attributes, brand: "GE" },
+            revision: Number(remote?.revision) + 1,
+            updatedAt: "2000-01-01T00:00:00Z", // Older than the local edit
+        });
+        onLine.mockReturnValue(true);
+        await flushOutbox();
+
+        expect(await primary.get("products", "p1")).toEqual(
+            expect.objectContaining({
+                price: 30,
+                description: "Mini fridge, barely used",
+                attributes: { ...attributes, brand: "GE" },
+            })
+        );
+        expect(await getConflicts()).toEqual([]);
+    });
+
+    test("lets the user keep their edit when the conflict is surfaced", async () => {
+        setConflictPolicy("surface-to-user");
+        await editOnBothDevices();
+        const [conflict] = await getConflicts();
+        expect(conflict.needsReview).toBe(true);
+
+        await resolveConflict(conflict.id, "mine");
+
+        expect(await primary.get("products", "p1")).toEqual(expect.objectContaining({ price: 35 }));
+        expect(await getConflicts()).toEqual([]);
+    });
+});
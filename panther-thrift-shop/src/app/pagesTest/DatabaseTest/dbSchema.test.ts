@@ -0,0 +1,175 @@
+/**
+ * @jest-environment node
+ */
+
+/**
+ * dbSchema.test.ts
+ *
+ * This file contains the migration test harness for the local IndexedDB schema of the Panther Thrift Shop
+ * web application. It runs against an in-memory IndexedDB implementation (`fake-indexeddb`) so migrations
+ * execute exactly as they would in the browser.
+ *
+ * Key Features Tested:
+ * - **Upgrade From Any Version:** A database created at every historical version, with seeded records,
+ *   is upgraded to `DB_VERSION` and must end up with the same schema as a freshly created database.
+ * - **Legacy Databases:** A database created by the original hard-coded version 2 upgrade block is upgraded cleanly.
+ * - **Record Transforms:** Existing products are backfilled with the shadow keys used by boolean indexes.
+ * - **Category Seeding:** Upgraded databases get the default category taxonomy.
+ * - **Saved Items Re-keying:** Saved items are keyed per buyer and listing, and keep their listing's ID.
+ * - **Ordering:** Only migrations newer than the stored version run, in ascending order.
+ *
+ * Dependencies:
+ * - fake-indexeddb for an in-memory IndexedDB.
+ * - idb for the promise-based wrapper used by dbHandler.
+ *
+ * Author: Jayson Baya
+ * Last Updated: October 19, 2026
+ */
+
+import "fake-indexeddb/auto";
+import { openDB, IDBPDatabase } from "idb";
+import { DB_VERSION, MIGRATIONS, Migration, runMigrations, toLocalRecord } from "@/lib/dbSchema";
+import { DEFAULT_CATEGORIES } from "@/Models/Category";
+
+let dbCounter = 0;
+const uniqueName = () => `PantherThriftShopTest-${++dbCounter}`;
+
+// Opens (creating or upgrading) a database at `version` using the migration registry
+const openAtVersion = (name: string, version: number, migrations: Migration[] = MIGRATIONS) =>
+    openDB(name, version, {
+        upgrade: (db, oldVersion, newVersion, transaction) =>
+            runMigrations(db, oldVersion, newVersion ?? version, transaction, migrations),
+    });
+
+// A comparable description of every store, its key path and its indexes
+const describeSchema = (db: IDBPDatabase) =>
+    [...db.objectStoreNames].sort().map((storeName) => {
+        const store = db.transaction(storeName, "readonly").objectStore(storeName);
+        return {
+            storeName,
+            keyPath: store.keyPath,
+            autoIncrement: store.autoIncrement,
+            indexes: [...store.indexNames].sort(),
+        };
+    });
+
+const sampleProduct = {
+    id: "product-1",
+    productName: "Mini Fridge",
+    price: 40,
+    category: "Appliances",
+    seller: "seller@hanover.edu",
+    sold: false,
+    createdAt: "2025-01-01T00:00:00Z",
+};
+
+describe("IndexedDB migrations", () => {
+    let currentSchema: ReturnType<typeof describeSchema>;
+
+    beforeAll(async () => {
+        jest.spyOn(console, "log").mockImplementation(() => {});
+        const freshDB = await openAtVersion(uniqueName(), DB_VERSION);
+        currentSchema = describeSchema(freshDB);
+        freshDB.close();
+    });
+
+    afterAll(() => {
+        jest.restoreAllMocks();
+    });
+
+    test("registers migrations with unique, increasing version numbers", () => {
+        const versions = MIGRATIONS.map((migration) => migration.version);
+        expect(versions).toEqual([...versions].sort((a, b) => a - b));
+        expect(new Set(versions).size).toBe(versions.length);
+        expect(DB_VERSION).toBe(versions[versions.length - 1]);
+    });
+
+    test("creates every store a fresh install needs, including users, sync metadata and conflicts", () => {
+        expect(currentSchema.map((store) => store.storeName)).toEqual(
+            expect.arrayContaining([
+                "products", "savedItems", "purchasedItems", "offers", "outbox", "users", "syncMeta", "conflicts",
+                "categories",
+            ])
+        );
+    });
+
+    test.each(MIGRATIONS.slice(0, -1).map((migration) => migration.version))(
+        "upgrades a database from version %i to the current schema",
+        async (startVersion) => {
+            const name = uniqueName();
+            const oldDB = await openAtVersion(name, startVersion);
+            await oldDB.put("products", toLocalRecord(sampleProduct)); // Written the way dbHandler writes it
+            oldDB.close();
+
+            const upgradedDB = await openAtVersion(name, DB_VERSION);
+            expect(describeSchema(upgradedDB)).toEqual(currentSchema);
+            expect(await upgradedDB.get("products", sampleProduct.id)).toEqual(
+                expect.objectContaining({ ...sampleProduct, _soldKey: 0 })
+            );
+            upgradedDB.close();
+        }
+    );
+
+    test("upgrades a database created by the original hard-coded version 2 block", async () => {
+        const name = uniqueName();
+        const legacyDB = await openDB(name, 2, {
+            upgrade(db) {
+                ["products", "savedItems", "purchasedItems", "offers"].forEach((storeName) =>
+                    db.createObjectStore(storeName, { keyPath: "id" })
+                );
+            },
+        });
+        await legacyDB.put("products", { ...sampleProduct, sold: true, imageURL: "http://example.com/fridge.png" });
+        legacyDB.close();
+
+        const upgradedDB = await openAtVersion(name, DB_VERSION);
+        expect(describeSchema(upgradedDB)).toEqual(currentSchema);
+        expect(await upgradedDB.getAllFromIndex("products", "sold", 1)).toHaveLength(1);
+        expect(await upgradedDB.getAllFromIndex("products", "status", "sold")).toHaveLength(1);
+        expect(await upgradedDB.get("products", sampleProduct.id)).toEqual(
+            expect.objectContaining({ imageURLs: ["http://example.com/fridge.png"] })
+        );
+        expect(await upgradedDB.count("categories")).toBe(DEFAULT_CATEGORIES.length);
+        expect(await upgradedDB.get("categories", "mens-shirts")).toEqual(
+            expect.objectContaining({ name: "Men's Shirts", parentId: "mens-clothing" })
+        );
+        upgradedDB.close();
+    });
+
+    test("keys saved items per buyer and remembers the listing they copy", async () => {
+        const name = uniqueName();
+        const oldDB = await openAtVersion(name, 10);
+        await oldDB.put("savedItems", { id: "product-1", buyerEmail: "buyer@hanover.edu", productName: "Mini Fridge" });
+        oldDB.close();
+
+        const upgradedDB = await openAtVersion(name, DB_VERSION);
+        expect(await upgradedDB.getAll("savedItems")).toEqual([
+            {
+                id: "buyer@hanover.edu_product-1",
+                productId: "product-1",
+                buyerEmail: "buyer@hanover.edu",
+                productName: "Mini Fridge",
+            },
+        ]);
+        expect(await upgradedDB.getAllFromIndex("savedItems", "productId", "product-1")).toHaveLength(1);
+        upgradedDB.close();
+    });
+
+    test("runs only pending migrations, in ascending order", async () => {
+        const applied: number[] = [];
+        const tracked: Migration[] = [3, 1, 2].map((version) => ({
+            version,
+            description: `Test migration ${version}`,
+            migrate: () => {
+                applied.push(version);
+            },
+        }));
+
+        const name = uniqueName();
+        (await openAtVersion(name, 1, tracked)).close();
+        expect(applied).toEqual([1]);
+
+        (await openAtVersion(name, 3, tracked)).close();
+        expect(applied).toEqual([1, 2, 3]);
+    });
+});
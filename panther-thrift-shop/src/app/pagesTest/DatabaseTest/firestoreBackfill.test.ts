@@ -0,0 +1,94 @@
+/**
+ * firestoreBackfill.test.ts
+ *
+ * This file contains unit tests for the Firestore backfills of the Panther Thrift Shop web application, which
+ * upgrade documents written by older versions of the app.
+ *
+ * Key Features Tested:
+ * - **Listing Status:** Documents with only the legacy `sold` flag get a `status`; the flag is kept.
+ * - **Saved Items:** Saved items that stored their listing's ID in `id` get it in `productId` as well.
+ * - **Reruns:** Documents that are already upgraded are left alone.
+ * - **Batches:** Documents are rewritten in batches Firestore accepts.
+ * - **Failures:** A backfill that fails is logged and does not stop the others.
+ *
+ * Mocks:
+ * - Firebase Firestore: `getDocs` returns the documents a test seeds and `writeBatch` records the updates.
+ *
+ * Author: Jayson Baya
+ * Last Updated: October 19, 2026
+ */
+
+import { getDocs, query, writeBatch } from "firebase/firestore";
+import { FIRESTORE_BACKFILLS, runFirestoreBackfills } from "@/lib/firestoreBackfill";
+import { FIRESTORE_BATCH_LIMIT } from "@/Models/ConstantData";
+
+jest.mock("@/lib/firebaseConfig", () => ({ db: {} }));
+
+const mockUpdate = jest.fn();
+const mockCommit = jest.fn(() => Promise.resolve());
+
+jest.mock("firebase/firestore", () => ({
+    collection: jest.fn((_db: unknown, storeName: string) => storeName),
+    getDocs: jest.fn(),
+    query: jest.fn((storeName: string) => storeName),
+    where: jest.fn((...constraint: unknown[]) => constraint),
+    writeBatch: jest.fn(() => ({ update: mockUpdate, commit: mockCommit })),
+}));
+
+// A query snapshot holding documents with the given data
+const snapshotOf = (records: Array<Record<string, unknown>>) => ({
+    docs: records.map((data, index) => ({ ref: `ref-${index}`, data: () => data })),
+});
+
+beforeEach(() => {
+    jest.clearAllMocks();
+});
+
+describe("runFirestoreBackfills", () => {
+    test("derives the status of legacy listings from the sold flag", async () => {
+        const products = FIRESTORE_BACKFILLS.filter((backfill) => backfill.storeName === "products");
+        (getDocs as jest.Mock).mockResolvedValueOnce(
+            snapshotOf([{ sold: true }, { sold: false }, { sold: false, status: "archived" }])
+        );
+
+        await expect(runFirestoreBackfills(products)).resolves.toBe(2);
+
+        expect(query).toHaveBeenCalledWith("products", ["sold", "in", [true, false]]);
+        expect(mockUpdate.mock.calls).toEqual([
+            ["ref-0", { status: "sold" }],
+            ["ref-1", { status: "active" }],
+        ]);
+    });
+
+    test("copies the listing ID of legacy saved items into productId", async () => {
+        const savedItems = FIRESTORE_BACKFILLS.filter((backfill) => backfill.description.includes("productId"));
+        (getDocs as jest.Mock).mockResolvedValueOnce(
+            snapshotOf([
+                { id: "desk", buyerEmail: "buyer@hanover.edu" },
+                { id: "lamp", productId: "lamp", buyerEmail: "buyer@hanover.edu" },
+            ])
+        );
+
+        await expect(runFirestoreBackfills(savedItems)).resolves.toBe(1);
+
+        expect(query).toHaveBeenCalledWith("savedItems", ["id", ">", ""]);
+        expect(mockUpdate.mock.calls).toEqual([["ref-0", { productId: "desk" }]]);
+        expect(mockCommit).toHaveBeenCalledTimes(1);
+    });
+
+    test("writes in batches and keeps going when a backfill fails", async () => {
+        const errorSpy = jest.spyOn(console, "error").mockImplementation(() => {});
+        jest.spyOn(console, "log").mockImplementation(() => {});
+        const [statusBackfill] = FIRESTORE_BACKFILLS;
+        (getDocs as jest.Mock)
+            .mockRejectedValueOnce(new Error("permission-denied"))
+            .mockResolvedValueOnce(snapshotOf(Array.from({ length: FIRESTORE_BATCH_LIMIT + 1 }, () => ({ id: "x" }))));
+
+        await expect(runFirestoreBackfills([statusBackfill, statusBackfill])).resolves.toBe(FIRESTORE_BATCH_LIMIT + 1);
+
+        expect(errorSpy).toHaveBeenCalledTimes(1);
+        expect(writeBatch).toHaveBeenCalledTimes(2);
+        expect(mockCommit).toHaveBeenCalledTimes(2);
+        jest.restoreAllMocks();
+    });
+});
@@ -0,0 +1,122 @@
+/**
+ * imagePipeline.test.ts
+ *
+ * This file contains unit tests for the listing photo pipeline of the Panther Thrift Shop web application.
+ *
+ * Key Features Tested:
+ * - **Validation:** Photos are recognized by their first bytes; other files, empty files and oversized files are rejected.
+ * - **Resizing:** Photos and thumbnails are scaled down to fit their limits, keeping their proportions.
+ * - **Re-encoding:** Both are drawn onto a canvas and encoded as JPEG, which drops the EXIF metadata.
+ * - **Storage Paths:** Every photo gets a unique path under the seller and the listing.
+ *
+ * Mocks:
+ * - `createImageBitmap` and the canvas 2D context, which jsdom does not implement.
+ *
+ * Author: Jayson Baya
+ * Last Updated: October 19, 2026
+ */
+
+import { fitWithin, InvalidImageError, listingPhotoPaths, processImage, validateImage } from "@/lib/imagePipeline";
+import { IMAGE_PIPELINE } from "@/Models/ConstantData";
+
+const JPEG_HEADER = [0xff, 0xd8, 0xff, 0xe1, 0, 0x10, 0x45, 0x78, 0x69, 0x66, 0, 0]; // JPEG with an EXIF segment
+const PNG_HEADER = [0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a, 0, 0, 0, 0x0d];
+
+const fileOf = (bytes: number[] | string, name: string, type = "") =>
+    new File([typeof bytes === "string" ? bytes : new Uint8Array(bytes)], name, { type });
+
+describe("validateImage", () => {
+    test("recognizes JPEG, PNG and WebP by their first bytes", async () => {
+        await expect(validateImage(fileOf(JPEG_HEADER, "IMG_0001.jpg", "image/jpeg"))).resolves.toBe("image/jpeg");
+        await expect(validateImage(fileOf(PNG_HEADER, "photo.jpg"))).resolves.toBe("image/png");
+        await expect(validateImage(fileOf("RIFF\0\0\0\0WEBPVP8 ", "photo.webp"))).resolves.toBe("image/webp");
+    });
+
+    test("rejects other files even when they claim to be images", async () => {
+        await expect(validateImage(fileOf("%PDF-1.7 notes", "notes.png", "image/png"))).rejects.toThrow(
+            new InvalidImageError("notes.png", "Only JPEG, PNG or WebP photos can be uploaded.")
+        );
+        await expect(validateImage(fileOf("GIF89a......", "funny.gif", "image/gif"))).rejects.toThrow(InvalidImageError);
+        await expect(validateImage(fileOf([], "empty.jpg"))).rejects.toThrow("empty.jpg: The file is empty.");
+    });
+
+    test("rejects files over the size limit", async () => {
+        const huge = fileOf(JPEG_HEADER, "huge.jpg", "image/jpeg");
+        Object.defineProperty(huge, "size", { value: IMAGE_PIPELINE.MAX_FILE_BYTES + 1 });
+
+        await expect(validateImage(huge)).rejects.toThrow("huge.jpg: Photos must be smaller than 25 MB.");
+    });
+});
+
+describe("fitWithin", () => {
+    test("scales the longest side down to the limit and keeps smaller images as they are", () => {
+        expect(fitWithin(4032, 3024, 1600)).toEqual({ width: 1600, height: 1200 });
+        expect(fitWithin(3024, 4032, 320)).toEqual({ width: 240, height: 320 });
+        expect(fitWithin(800, 600, 1600)).toEqual({ width: 800, height: 600 });
+    });
+});
+
+describe("processImage", () => {
+    const drawn: Array<{ width: number; height: number }> = [];
+    const close = jest.fn();
+
+    beforeEach(() => {
+        drawn.length = 0;
+        close.mockClear();
+        (globalThis as { createImageBitmap?: unknown }).createImageBitmap = jest.fn(async () => ({
+            width: 4032,
+            height: 3024,
+            close,
+        }));
+        jest.spyOn(HTMLCanvasElement.prototype, "getContext").mockImplementation(function (this: HTMLCanvasElement) {
+            return {
+                canvas: this,
+                fillRect: jest.fn(),
+                drawImage: jest.fn(function (this: CanvasRenderingContext2D) {
+                    drawn.push({ width: this.canvas.width, height: this.canvas.height });
+                }),
+            } as unknown as CanvasRenderingContext2D;
+        } as unknown as HTMLCanvasElement["getContext"]);
+        jest.spyOn(HTMLCanvasElement.prototype, "toBlob").mockImplementation((callback, type, quality) =>
+            callback(new Blob([`${type} ${quality}`], { type }))
+        );
+    });
+
+    afterEach(() => {
+        jest.restoreAllMocks();
+        delete (globalThis as { createImageBitmap?: unknown }).createImageBitmap;
+    });
+
+    test("re-encodes the upright photo and a thumbnail as JPEG within their limits", async () => {
+        const result = await processImage(fileOf(JPEG_HEADER, "IMG_0001.jpg", "image/jpeg"));
+
+        expect(createImageBitmap).toHaveBeenCalledWith(expect.any(File), { imageOrientation: "from-image" });
+        expect(drawn).toEqual([
+            { width: 1600, height: 1200 },
+            { width: 320, height: 240 },
+        ]);
+        expect(result.image.type).toBe("image/jpeg");
+        expect(result.thumbnail.type).toBe("image/jpeg");
+        expect(result).toMatchObject({ width: 1600, height: 1200 });
+        expect(close).toHaveBeenCalled();
+    });
+
+    test("rejects photos the browser cannot decode", async () => {
+        (createImageBitmap as jest.Mock).mockRejectedValueOnce(new Error("decode failed"));
+
+        await expect(processImage(fileOf(JPEG_HEADER, "broken.jpg", "image/jpeg"))).rejects.toThrow(
+            "broken.jpg: The photo could not be read. It may be damaged."
+        );
+    });
+});
+
+describe("listingPhotoPaths", () => {
+    test("puts every photo at a new path under the seller and the listing", () => {
+        const first = listingPhotoPaths("seller-uid", "listing-1");
+        const second = listingPhotoPaths("seller-uid", "listing-1");
+
+        expect(first.image).toMatch(/^products\/seller-uid\/listing-1\/[\w-]+\.jpg$/);
+        expect(first.thumbnail).toBe(first.image.replace("listing-1/", "listing-1/thumbnails/"));
+        expect(second.image).not.toBe(first.image);
+    });
+});
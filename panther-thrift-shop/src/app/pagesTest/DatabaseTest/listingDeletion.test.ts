@@ -0,0 +1,96 @@
+/**
+ * listingDeletion.test.ts
+ *
+ * This file contains unit tests for deleting listings in the Panther Thrift Shop web application.
+ *
+ * Key Features Tested:
+ * - **Deletion:** The product record, every buyer's saved copy and every photo and thumbnail are deleted.
+ * - **Order:** Nothing else is deleted when the product record could not be.
+ * - **Best Effort:** A saved copy that could not be deleted is logged and does not fail the deletion.
+ * - **Sold Listings:** Are refused with a `ListingNotDeletableError`.
+ *
+ * Mocks:
+ * - `@/lib/dbHandler` (`getData`, `deleteData`) and `@/lib/listingPhotos` (`deleteStoredFiles`).
+ *
+ * Author: Jayson Baya
+ * Last Updated: October 19, 2026
+ */
+
+import { deleteData, getData } from "@/lib/dbHandler";
+import { deleteStoredFiles } from "@/lib/listingPhotos";
+import { deleteListing, ListingNotDeletableError } from "@/lib/listingDeletion";
+import { FIRESTORE_COLLECTIONS } from "@/Models/ConstantData";
+import { ListingStatus, Product } from "@/Models/Product";
+
+jest.mock("@/lib/dbHandler", () => ({
+    getData: jest.fn(() => Promise.resolve([])),
+    deleteData: jest.fn(() => Promise.resolve()),
+}));
+
+jest.mock("@/lib/listingPhotos", () => ({
+    ...jest.requireActual("@/lib/listingPhotos"),
+    deleteStoredFiles: jest.fn(() => Promise.resolve()),
+}));
+
+jest.mock("@/lib/firebaseConfig", () => ({ storage: {} }));
+
+const bike = (status: ListingStatus = "active") =>
+    Product.fromRecord({
+        id: "bike",
+        productName: "Bike",
+        status,
+        imageURLs: ["https://cdn/bike.jpg", "https://cdn/side.jpg"],
+        thumbnailURLs: ["https://cdn/thumbnails/bike.jpg", "https://cdn/thumbnails/side.jpg"],
+    });
+
+beforeEach(() => {
+    jest.clearAllMocks();
+});
+
+describe("deleteListing", () => {
+    test("deletes the listing, every saved copy of it and its photos", async () => {
+        (getData as jest.Mock).mockResolvedValueOnce([{ id: "a@hanover.edu_bike" }, { id: "b@hanover.edu_bike" }]);
+
+        await deleteListing(bike());
+
+        expect(getData).toHaveBeenCalledWith(
+            expect.objectContaining({
+                storeName: FIRESTORE_COLLECTIONS.SAVED_ITEMS,
+                filters: [{ field: "productId", operator: "==", value: "bike" }],
+            })
+        );
+        expect(deleteData).toHaveBeenNthCalledWith(1, FIRESTORE_COLLECTIONS.PRODUCTS, "bike");
+        expect(deleteData).toHaveBeenNthCalledWith(2, FIRESTORE_COLLECTIONS.SAVED_ITEMS, "a@hanover.edu_bike");
+        expect(deleteData).toHaveBeenNthCalledWith(3, FIRESTORE_COLLECTIONS.SAVED_ITEMS, "b@hanover.edu_bike");
+        expect(deleteStoredFiles).toHaveBeenCalledWith([
+            "https://cdn/bike.jpg",
+            "https://cdn/side.jpg",
+            "https://cdn/thumbnails/bike.jpg",
+            "https://cdn/thumbnails/side.jpg",
+        ]);
+    });
+
+    test("deletes nothing else when the listing could not be deleted", async () => {
+        (deleteData as jest.Mock).mockRejectedValueOnce(new Error("offline"));
+
+        await expect(deleteListing(bike())).rejects.toThrow("offline");
+        expect(deleteData).toHaveBeenCalledTimes(1);
+        expect(deleteStoredFiles).not.toHaveBeenCalled();
+    });
+
+    test("still deletes the photos when the saved copy could not be deleted", async () => {
+        const errorSpy = jest.spyOn(console, "error").mockImplementation(() => {});
+        (getData as jest.Mock).mockResolvedValueOnce([{ id: "a@hanover.edu_bike" }]);
+        (deleteData as jest.Mock).mockResolvedValueOnce(undefined).mockRejectedValueOnce(new Error("denied"));
+
+        await expect(deleteListing(bike())).resolves.toBeUndefined();
+        expect(errorSpy).toHaveBeenCalledWith("Error deleting the saved copies of bike:", expect.any(Error));
+        expect(deleteStoredFiles).toHaveBeenCalled();
+        errorSpy.mockRestore();
+    });
+
+    test("refuses to delete sold listings", async () => {
+        await expect(deleteListing(bike("sold"))).rejects.toThrow(ListingNotDeletableError);
+        expect(deleteData).not.toHaveBeenCalled();
+    });
+});
@@ -0,0 +1,95 @@
+/**
+ * listingPhotos.test.ts
+ *
+ * This file contains unit tests for the photo editing helpers of the Panther Thrift Shop web application.
+ *
+ * Key Features Tested:
+ * - **Editable Photos:** A listing's photos are paired with their thumbnails; old listings have none.
+ * - **Replaced Files:** Only the photos and thumbnails the listing no longer uses are picked for deletion.
+ * - **Deleting Files:** Files that are already gone or not in Storage are skipped; other failures are logged.
+ *
+ * Mocks:
+ * - Firebase Storage: `deleteObject` and `ref`.
+ *
+ * Author: Jayson Baya
+ * Last Updated: October 19, 2026
+ */
+
+import { deleteObject } from "firebase/storage";
+import { deleteStoredFiles, editablePhotos, replacedPhotoFiles } from "@/lib/listingPhotos";
+
+jest.mock("@/lib/firebaseConfig", () => ({ storage: {} }));
+
+jest.mock("firebase/storage", () => ({
+    ref: jest.fn((_storage: unknown, url: string) => url),
+    deleteObject: jest.fn(() => Promise.resolve()),
+}));
+
+const lamp = {
+    id: "lamp",
+    imageURL: "https://cdn/a.jpg",
+    imageURLs: ["https://cdn/a.jpg", "https://cdn/b.jpg"],
+    thumbnailURL: "https://cdn/thumbnails/a.jpg",
+    thumbnailURLs: ["https://cdn/thumbnails/a.jpg", "https://cdn/thumbnails/b.jpg"],
+};
+
+beforeEach(() => {
+    jest.clearAllMocks();
+});
+
+describe("editablePhotos", () => {
+    test("pairs each photo with its thumbnail, in display order", () => {
+        expect(editablePhotos(lamp)).toEqual([
+            { kind: "stored", url: "https://cdn/a.jpg", thumbnailURL: "https://cdn/thumbnails/a.jpg" },
+            { kind: "stored", url: "https://cdn/b.jpg", thumbnailURL: "https://cdn/thumbnails/b.jpg" },
+        ]);
+        expect(editablePhotos({ id: "old", imageURL: "https://cdn/old.jpg" })).toEqual([
+            { kind: "stored", url: "https://cdn/old.jpg" },
+        ]);
+    });
+});
+
+describe("replacedPhotoFiles", () => {
+    test("returns the photos and thumbnails that are no longer used", () => {
+        const kept = [
+            { url: "https://cdn/new.jpg", thumbnailURL: "https://cdn/thumbnails/new.jpg" },
+            { url: "https://cdn/b.jpg", thumbnailURL: "https://cdn/thumbnails/b.jpg" },
+        ];
+
+        expect(replacedPhotoFiles(lamp, kept)).toEqual(["https://cdn/a.jpg", "https://cdn/thumbnails/a.jpg"]);
+    });
+
+    test("returns nothing when the photos were only reordered", () => {
+        const reordered = [
+            { url: "https://cdn/b.jpg", thumbnailURL: "https://cdn/thumbnails/b.jpg" },
+            { url: "https://cdn/a.jpg", thumbnailURL: "https://cdn/thumbnails/a.jpg" },
+        ];
+
+        expect(replacedPhotoFiles(lamp, reordered)).toEqual([]);
+    });
+
+    test("lists a photo used as its own thumbnail once", () => {
+        const old = { id: "old", imageURLs: ["https://cdn/old.jpg"], thumbnailURLs: ["https://cdn/old.jpg"] };
+
+        expect(replacedPhotoFiles(old, [{ url: "https://cdn/new.jpg" }])).toEqual(["https://cdn/old.jpg"]);
+    });
+});
+
+describe("deleteStoredFiles", () => {
+    test("deletes every file and logs only unexpected failures", async () => {
+        const errorSpy = jest.spyOn(console, "error").mockImplementation(() => {});
+        (deleteObject as jest.Mock)
+            .mockResolvedValueOnce(undefined)
+            .mockRejectedValueOnce(Object.assign(new Error("gone"), { code: "storage/object-not-found" }))
+            .mockRejectedValueOnce(Object.assign(new Error("denied"), { code: "storage/unauthorized" }));
+
+        await expect(
+            deleteStoredFiles(["https://cdn/a.jpg", "https://cdn/b.jpg", "https://cdn/c.jpg"])
+        ).resolves.toBeUndefined();
+
+        expect(deleteObject).toHaveBeenCalledTimes(3);
+        expect(errorSpy).toHaveBeenCalledTimes(1);
+        expect(errorSpy).toHaveBeenCalledWith("Error deleting https://cdn/c.jpg from Storage:", expect.any(Error));
+        errorSpy.mockRestore();
+    });
+});
@@ -0,0 +1,108 @@
+/**
+ * listingStatus.test.ts
+ *
+ * This file contains unit tests for the listing lifecycle of the Panther Thrift Shop web application.
+ * The tests drive `Product` directly and run writes through the real `dbHandler` against in-memory
+ * storage adapters.
+ *
+ * Key Features Tested:
+ * - **Model:** `transitionTo` follows `LISTING_TRANSITIONS` and rejects every other move.
+ * - **Legacy Records:** Records stored with only the `sold` flag are read with the matching status.
+ * - **updateData:** Invalid status changes are rejected and leave the record untouched.
+ * - **Sales:** Only listed products can be sold; the sale of a removed listing writes nothing.
+ * - **Offline Replay:** A queued status change that became invalid in the meantime is dropped on reconnect.
+ *
+ * Author: Jayson Baya
+ * Last Updated: October 19, 2026
+ */
+
+import { flushOutbox, getPendingOperations, setStorageAdapters, updateData } from "@/lib/dbHandler";
+import { markProductAsSold } from "@/lib/sales";
+import { createMemoryAdapter } from "@/lib/storage/memoryAdapter";
+import { StorageAdapter } from "@/lib/storage/storageAdapter";
+import { FIRESTORE_COLLECTIONS } from "@/Models/ConstantData";
+import { InvalidStatusTransitionError, Product } from "@/Models/Product";
+
+const { PRODUCTS, PURCHASED_ITEMS } = FIRESTORE_COLLECTIONS;
+
+const lamp = {
+    id: "p1",
+    productName: "Lamp",
+    price: 15,
+    category: "Room Decoration",
+    description: "Desk lamp",
+    imageURL: "lamp.jpg",
+    seller: "seller@hanover.edu",
+    status: "active",
+    createdAt: "2025-01-01T00:00:00Z",
+};
+
+describe("Product lifecycle", () => {
+    test("moves only along the transition table", () => {
+        const product = Product.fromRecord({ id: "p1", status: "draft" });
+
+        expect(() => product.markAsSold()).toThrow(InvalidStatusTransitionError);
+        product.transitionTo("active");
+        product.transitionTo("reserved");
+        product.markAsSold();
+
+        expect(product.status).toBe("sold");
+        expect(product.canTransitionTo("active")).toBe(false);
+        expect(product.canTransitionTo("archived")).toBe(true);
+    });
+
+    test("reads records stored before listings had a status", () => {
+        expect(Product.fromRecord({ id: "p1", sold: true } as never).status).toBe("sold");
+        expect(Product.fromRecord({ id: "p2", sold: false } as never).status).toBe("active");
+        expect(Product.fromRecord({ id: "p3" }).status).toBe("active");
+    });
+});
+
+describe("status writes", () => {
+    let primary: StorageAdapter;
+
+    beforeEach(() => {
+        jest.spyOn(console, "log").mockImplementation(() => {});
+        jest.spyOn(console, "warn").mockImplementation(() => {});
+        primary = createMemoryAdapter({ [PRODUCTS]: [lamp] });
+        setStorageAdapters({ primary });
+    });
+
+    afterEach(() => {
+        jest.restoreAllMocks();
+    });
+
+    test("updateData applies allowed moves and rejects the rest", async () => {
+        await updateData(PRODUCTS, "p1", { status: "reserved", buyerEmail: "buyer@hanover.edu" });
+        expect(await primary.get(PRODUCTS, "p1")).toEqual(expect.objectContaining({ status: "reserved" }));
+
+        await updateData(PRODUCTS, "p1", { status: "removed" });
+        await expect(updateData(PRODUCTS, "p1", { status: "active", price: 1 })).rejects.toThrow(
+            'A listing cannot move from "removed" to "active".'
+        );
+        expect(await primary.get(PRODUCTS, "p1")).toEqual(expect.objectContaining({ status: "removed", price: 15 }));
+    });
+
+    test("refuses to sell a listing that was taken down", async () => {
+        await updateData(PRODUCTS, "p1", { status: "removed" });
+
+        await expect(markProductAsSold("p1", "buyer@hanover.edu")).rejects.toThrow(InvalidStatusTransitionError);
+        expect(await primary.query(PURCHASED_ITEMS, [])).toEqual([]);
+    });
+
+    test("drops a queued status change that is no longer allowed when it is replayed", async () => {
+        const cache = createMemoryAdapter({ [PRODUCTS]: [lamp] });
+        setStorageAdapters({ primary, cache });
+        const onLine = jest.spyOn(navigator, "onLine", "get").mockReturnValue(false);
+
+        await updateData(PRODUCTS, "p1", { status: "reserved" });
+        // Meanwhile the seller took the listing down on another device
+        await primary.update(PRODUCTS, "p1", { status: "removed", revision: 2 });
+
+        onLine.mockReturnValue(true);
+        await flushOutbox();
+
+        expect(await getPendingOperations()).toEqual([]);
+        expect(await cache.get(PRODUCTS, "p1")).toEqual(expect.objectContaining({ status: "removed" }));
+    });
+});
@@ -0,0 +1,111 @@
+/**
+ * modelSerializers.test.ts
+ *
+ * This file contains unit tests for the model serializers and Firestore data converters of the
+ * Panther Thrift Shop web application.
+ *
+ * Key Features Tested:
+ * - **Hydration:** Records read through a storage adapter are real `Product` / `PurchaseRecord` instances.
+ * - **Serialization:** Models are stored as plain data, without undefined fields or `Date` objects.
+ * - **Firestore Converters:** Timestamps become ISO strings and the document ID stays out of the data.
+ * - **Legacy Records:** Products stored with a single `imageURL` are read with a one-photo `imageURLs`.
+ * - **Users:** `createdAt` is hydrated into a `Date` from either backend's format.
+ *
+ * Author: Jayson Baya
+ * Last Updated: October 19, 2026
+ */
+
+import { QueryDocumentSnapshot } from "firebase/firestore";
+import { productConverter, productSerializer, userSerializer } from "@/lib/modelSerializers";
+import { createMemoryAdapter } from "@/lib/storage/memoryAdapter";
+import { setStorageAdapters } from "@/lib/dbHandler";
+import { markProductAsSold } from "@/lib/sales";
+import { getPhotos, Product } from "@/Models/Product";
+import { PurchaseRecord } from "@/Models/PurchaseRecord";
+import { User } from "@/Models/User";
+
+const storedProduct = {
+    id: "p1",
+    productName: "Desk Lamp",
+    price: 15,
+    category: "Room Decoration",
+    imageURL: "http://example.com/lamp.png",
+    description: "Warm light",
+    seller: "seller@hanover.edu",
+    sold: false,
+};
+
+const snapshotOf = (id: string, data: Record<string, unknown>) =>
+    ({ id, data: () => data }) as unknown as QueryDocumentSnapshot;
+
+describe("model serializers", () => {
+    test("adapters hand back Product instances", async () => {
+        const adapter = createMemoryAdapter({ products: [storedProduct] });
+
+        const product = await adapter.get<Product>("products", "p1");
+
+        expect(product).toBeInstanceOf(Product);
+        expect(product?.getSummary()).toBe("Desk Lamp - $15 (Room Decoration)");
+    });
+
+    test("stores products as plain data", () => {
+        const product = new Product("p2", "Chair", 25, "Appliances", "", "Sturdy", "seller@hanover.edu");
+
+        const record = productSerializer.serialize(product);
+
+        expect(Object.getPrototypeOf(record)).toBe(Object.prototype);
+        expect(Object.values(record)).not.toContain(undefined);
+        expect(record).toEqual(expect.objectContaining({ id: "p2", price: 25, status: "active" }));
+    });
+
+    test("converts Firestore documents both ways", () => {
+        const createdAt = new Date("2025-01-01T00:00:00Z");
+        const timestamp = { toDate: () => createdAt };
+
+        const product = productConverter.fromFirestore(snapshotOf("p1", { ...storedProduct, createdAt: timestamp }));
+        const data = productConverter.toFirestore(product);
+
+        expect(product).toBeInstanceOf(Product);
+        expect(product.createdAt).toBe("2025-01-01T00:00:00.000Z");
+        expect(data).not.toHaveProperty("id");
+        expect(data).toEqual(expect.objectContaining({ productName: "Desk Lamp", createdAt: product.createdAt }));
+    });
+
+    test("upgrades single-image records to a photo list", () => {
+        const legacy = productSerializer.deserialize(storedProduct);
+        const current = productSerializer.deserialize({
+            ...storedProduct,
+            imageURLs: ["http://example.com/front.png", "http://example.com/back.png"],
+        });
+
+        expect(legacy.imageURLs).toEqual(["http://example.com/lamp.png"]);
+        expect(getPhotos(current)).toEqual(["http://example.com/front.png", "http://example.com/back.png"]);
+    });
+
+    test("hydrates users from Firestore timestamps and ISO strings", () => {
+        const fromFirestore = userSerializer.deserialize({
+            id: "u1",
+            email: "user@hanover.edu",
+            role: "customer",
+            createdAt: { seconds: 1735689600, nanoseconds: 0 },
+        });
+        const fromIndexedDB = userSerializer.deserialize(userSerializer.serialize(fromFirestore));
+
+        expect(fromIndexedDB).toBeInstanceOf(User);
+        expect(fromIndexedDB.uid).toBe("u1");
+        expect(fromIndexedDB.createdAt).toEqual(new Date("2025-01-01T00:00:00Z"));
+    });
+
+    test("records sales as PurchaseRecord instances", async () => {
+        const adapter = createMemoryAdapter({ products: [storedProduct] });
+        setStorageAdapters({ primary: adapter });
+
+        await markProductAsSold("p1", "buyer@hanover.edu");
+        const order = await adapter.get<PurchaseRecord>("purchasedItems", "p1");
+
+        expect(order).toBeInstanceOf(PurchaseRecord);
+        expect(order).toEqual(
+            expect.objectContaining({ productId: "p1", buyerEmail: "buyer@hanover.edu", status: "sold" })
+        );
+    });
+});
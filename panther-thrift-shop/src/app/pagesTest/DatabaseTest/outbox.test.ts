@@ -0,0 +1,119 @@
+/**
+ * outbox.test.ts
+ *
+ * This file contains unit tests for the offline outbox of the Panther Thrift Shop web application.
+ * A memory adapter stands in for Firestore and another for the IndexedDB cache; `navigator.onLine` is
+ * toggled to take the app offline and back.
+ *
+ * Key Features Tested:
+ * - **Queueing:** Adds, updates and deletes made offline are kept locally and queued, not sent to Firestore.
+ * - **Unsynced IDs:** Added and updated records show as unsynced until their writes are replayed.
+ * - **Replay:** Once back online, `flushOutbox` replays the queue in the order the writes were made.
+ * - **Failures:** Replay stops at the first failed write, so later writes never overtake it.
+ *
+ * Author: Jayson Baya
+ * Last Updated: October 19, 2026
+ */
+
+import {
+    addData,
+    deleteData,
+    flushOutbox,
+    getPendingOperations,
+    getUnsyncedIds,
+    setStorageAdapters,
+    updateData,
+} from "@/lib/dbHandler";
+import { createMemoryAdapter } from "@/lib/storage/memoryAdapter";
+import { StorageAdapter } from "@/lib/storage/storageAdapter";
+
+describe("offline outbox", () => {
+    let primary: StorageAdapter;
+    let cache: StorageAdapter;
+    let onLine: jest.SpyInstance;
+
+    beforeEach(async () => {
+        jest.spyOn(console, "log").mockImplementation(() => {});
+        onLine = jest.spyOn(navigator, "onLine", "get").mockReturnValue(true);
+        primary = createMemoryAdapter();
+        cache = createMemoryAdapter();
+        setStorageAdapters({ primary, cache });
+
+        // Two listings that reached Firestore before the connection dropped
+        await addData("products", { id: "p1", productName: "Lamp", price: 15 });
+        await addData("products", { id: "p2", productName: "Desk", price: 60 });
+        onLine.mockReturnValue(false);
+    });
+
+    afterEach(() => {
+        jest.restoreAllMocks();
+    });
+
+    test("queues adds, updates and deletes made offline and shows them as unsynced", async () => {
+        await addData("products", { id: "p3", productName: "Chair", price: 20 });
+        await updateData("products", "p1", { price: 10 });
+        await deleteData("products", "p2");
+
+        const pending = await getPendingOperations();
+        expect(pending.map(({ type, recordId }) => [type, recordId])).toEqual([
+            ["add", "p3"],
+            ["update", "p1"],
+            ["delete", "p2"],
+        ]);
+        expect(await getUnsyncedIds("products")).toEqual(new Set(["p3", "p1"]));
+
+        // Applied on this device only
+        expect(await cache.get("products", "p3")).toEqual(expect.objectContaining({ productName: "Chair" }));
+        expect(await cache.get("products", "p1")).toEqual(expect.objectContaining({ price: 10 }));
+        expect(await cache.get("products", "p2")).toBeNull();
+        expect(await primary.get("products", "p3")).toBeNull();
+        expect(await primary.get("products", "p1")).toEqual(expect.objectContaining({ price: 15 }));
+        expect(await primary.get("products", "p2")).not.toBeNull();
+    });
+
+    test("keeps the queue while offline", async () => {
+        await updateData("products", "p1", { price: 10 });
+
+        expect(await flushOutbox()).toBe(0);
+        expect(await getPendingOperations()).toHaveLength(1);
+    });
+
+    test("replays the queue in order once back online", async () => {
+        await addData("products", { id: "p3", productName: "Chair", price: 20 });
+        await updateData("products", "p3", { price: 18 });
+        await updateData("products", "p1", { price: 10 });
+        await deleteData("products", "p1");
+
+        onLine.mockReturnValue(true);
+        expect(await flushOutbox()).toBe(4);
+
+        // The update of p3 only applies after its add, and p1 is deleted after its update
+        expect(await primary.get("products", "p3")).toEqual(
+            expect.objectContaining({ productName: "Chair", price: 18 })
+        );
+        expect(await primary.get("products", "p1")).toBeNull();
+        expect(await getPendingOperations()).toEqual([]);
+        expect(await getUnsyncedIds("products")).toEqual(new Set());
+    });
+
+    test("stops at the first failed write and replays the rest later", async () => {
+        jest.spyOn(console, "error").mockImplementation(() => {});
+        await updateData("products", "p1", { price: 10 });
+        await deleteData("products", "p2");
+
+        onLine.mockReturnValue(true);
+        const remove = jest.spyOn(primary, "delete");
+        // Updates are replayed in a transaction
+        jest.spyOn(primary, "runTransaction").mockRejectedValueOnce(new Error("permission-denied"));
+
+        expect(await flushOutbox()).toBe(0);
+        expect(remove).not.toHaveBeenCalled();
+        expect(await getUnsyncedIds("products")).toEqual(new Set(["p1"]));
+        expect(await primary.get("products", "p2")).not.toBeNull();
+
+        expect(await flushOutbox()).toBe(2);
+        expect(await primary.get("products", "p1")).toEqual(expect.objectContaining({ price: 10 }));
+        expect(await primary.get("products", "p2")).toBeNull();
+        expect(await getPendingOperations()).toEqual([]);
+    });
+});
@@ -0,0 +1,120 @@
+/**
+ * productSchema.test.ts
+ *
+ * This file contains unit tests for the product schema of the Panther Thrift Shop web application, and for the
+ * checks `dbHandler` runs with it on every product write (against in-memory storage adapters).
+ *
+ * Key Features Tested:
+ * - **Full Check:** Required fields, price bounds, length limits, categories, photos and the buyer of sold listings.
+ * - **Partial Check:** Only the fields a write sets are checked; blanking a required field is refused.
+ * - **dbHandler Guard:** `addData` and `updateData` refuse invalid listings and leave the stored record untouched.
+ *
+ * Author: Jayson Baya
+ * Last Updated: October 19, 2026
+ */
+
+import { addData, setStorageAdapters, updateData } from "@/lib/dbHandler";
+import { createMemoryAdapter } from "@/lib/storage/memoryAdapter";
+import { StorageAdapter } from "@/lib/storage/storageAdapter";
+import { DEFAULT_CATEGORIES } from "@/Models/Category";
+import { FIRESTORE_COLLECTIONS } from "@/Models/ConstantData";
+import { InvalidProductError, validateProduct } from "@/Models/ProductSchema";
+
+const { PRODUCTS } = FIRESTORE_COLLECTIONS;
+
+const lamp = {
+    id: "p1",
+    productName: "Lamp",
+    price: 15,
+    category: "Room Decoration",
+    description: "Desk lamp",
+    imageURL: "lamp.jpg",
+    imageURLs: ["lamp.jpg"],
+    seller: "seller@hanover.edu",
+    status: "active",
+    createdAt: "2025-01-01T00:00:00Z",
+};
+
+describe("validateProduct", () => {
+    test("accepts a complete listing", () => {
+        expect(validateProduct(lamp, { categories: DEFAULT_CATEGORIES })).toEqual({});
+    });
+
+    test("requires the listing's fields and a buyer for sold listings", () => {
+        expect(validateProduct({ status: "sold" })).toEqual({
+            productName: "Enter a product name.",
+            category: "Select a category.",
+            price: "Enter a price.",
+            description: "Enter a description.",
+            imageURLs: "A listing needs at least one photo.",
+            buyerEmail: "Buyer email is required when marking an item as sold.",
+        });
+    });
+
+    test("enforces the bounds of each field", () => {
+        expect(
+            validateProduct(
+                {
+                    ...lamp,
+                    productName: "x".repeat(101),
+                    category: "Spaceships",
+                    price: -5,
+                    condition: "broken",
+                    tags: ["x".repeat(31)],
+                    imageURLs: Array.from({ length: 11 }, (_, i) => `${i}.jpg`),
+                    buyerEmail: "not an email",
+                },
+                { categories: DEFAULT_CATEGORIES }
+            )
+        ).toEqual({
+            productName: "The product name must be at most 100 characters.",
+            category: "Select one of the marketplace's categories.",
+            price: "The price must be between $0.01 and $10,000.00.",
+            condition: "Select one of the listed conditions.",
+            tags: "Tags must be at most 30 characters each.",
+            imageURLs: "A listing can have at most 10 photos.",
+            buyerEmail: "Enter a valid buyer email.",
+        });
+        expect(validateProduct({ ...lamp, price: 1e9 }).price).toBe("The price must be between $0.01 and $10,000.00.");
+        expect(validateProduct({ ...lamp, price: 9.999 }).price).toBe("The price can have at most two decimals.");
+        expect(validateProduct({ ...lamp, price: "ten" }).price).toBe("The price must be a number.");
+        expect(validateProduct({ ...lamp, price: "12" }).price).toBe("The price must be a number.");
+    });
+
+    test("only checks the fields a partial write sets", () => {
+        expect(validateProduct({ status: "reserved", buyerEmail: "buyer@hanover.edu" }, { partial: true })).toEqual({});
+        expect(validateProduct({ productName: " ", price: 0 }, { partial: true })).toEqual({
+            productName: "Enter a product name.",
+            price: "The price must be between $0.01 and $10,000.00.",
+        });
+    });
+});
+
+describe("product writes", () => {
+    let primary: StorageAdapter;
+
+    beforeEach(() => {
+        jest.spyOn(console, "log").mockImplementation(() => {});
+        primary = createMemoryAdapter({ [PRODUCTS]: [lamp] });
+        setStorageAdapters({ primary });
+    });
+
+    afterEach(() => {
+        jest.restoreAllMocks();
+    });
+
+    test("addData refuses an invalid listing", async () => {
+        await expect(addData(PRODUCTS, { ...lamp, id: "p2", price: -1 })).rejects.toThrow(InvalidProductError);
+        expect(await primary.get(PRODUCTS, "p2")).toBeFalsy();
+    });
+
+    test("updateData refuses invalid changes and leaves the listing untouched", async () => {
+        await expect(updateData(PRODUCTS, "p1", { productName: "x".repeat(5000) })).rejects.toThrow(
+            "The listing is not valid. The product name must be at most 100 characters."
+        );
+        expect(await primary.get(PRODUCTS, "p1")).toEqual(expect.objectContaining({ productName: "Lamp" }));
+
+        await updateData(PRODUCTS, "p1", { price: 20 });
+        expect(await primary.get(PRODUCTS, "p1")).toEqual(expect.objectContaining({ price: 20 }));
+    });
+});
@@ -0,0 +1,61 @@
+/**
+ * queryBuilder.test.ts
+ *
+ * This file contains unit tests for the typed query builder of the Panther Thrift Shop web application.
+ * The `@ts-expect-error` lines are checked by `tsc`: they fail the type-check if the builder ever stops
+ * rejecting unknown fields or mistyped values.
+ *
+ * Key Features Tested:
+ * - **Compilation:** `where()` calls compile to the filters the storage adapters evaluate.
+ * - **Immutability:** Extending a query leaves the original untouched.
+ * - **Predicates:** `matches` evaluates a query against plain records, as the local adapters do.
+ * - **Typing:** Fields must be keys of the model and values must match their type.
+ *
+ * Author: Jayson Baya
+ * Last Updated: October 19, 2026
+ */
+
+import { createQuery } from "@/lib/queryBuilder";
+import { Product } from "@/Models/Product";
+import { FIRESTORE_FIELDS } from "@/Models/ConstantData";
+
+describe("createQuery", () => {
+    const products = createQuery<Product>("products");
+
+    test("compiles where() calls to filters", () => {
+        const query = products.where(FIRESTORE_FIELDS.STATUS, "==", "active").where("price", "<=", 25);
+
+        expect(query.storeName).toBe("products");
+        expect(query.filters).toEqual([
+            { field: "status", operator: "==", value: "active" },
+            { field: "price", operator: "<=", value: 25 },
+        ]);
+    });
+
+    test("returns a new query for every filter", () => {
+        const active = products.where("status", "==", "active");
+        active.where("category", "in", ["Textbooks", "Appliances"]);
+
+        expect(products.filters).toEqual([]);
+        expect(active.filters).toHaveLength(1);
+    });
+
+    test("matches plain records the way the local adapters do", () => {
+        const cheapTextbooks = products.where("category", "==", "Textbooks").where("price", "<", 20);
+
+        expect(cheapTextbooks.matches({ category: "Textbooks", price: 15 })).toBe(true);
+        expect(cheapTextbooks.matches({ category: "Textbooks", price: 35 })).toBe(false);
+        expect(cheapTextbooks.matches({ category: "Appliances", price: 15 })).toBe(false);
+    });
+
+    test("rejects unknown fields and mistyped values at compile time", () => {
+        // @ts-expect-error "Status" is not a field of Product
+        products.where("Status", "==", "active");
+        // @ts-expect-error "pending" is not a listing status
+        products.where("status", "==", "pending");
+        // @ts-expect-error prices are numbers
+        products.where("price", ">", "10");
+        // @ts-expect-error "in" takes an array of values
+        products.where("category", "in", "Textbooks");
+    });
+});
@@ -0,0 +1,135 @@
+/**
+ * queryFilters.test.ts
+ *
+ * This file contains unit tests for the filter evaluation the local storage adapters of the Panther Thrift
+ * Shop web application share, which has to return the same records as Firestore's `where()`.
+ *
+ * Key Features Tested:
+ * - **Missing Fields:** `!=` and `not-in` never match records without the field.
+ * - **Lists:** `in`, `not-in` and `array-contains`.
+ * - **Ranges:** Only values of the filter value's type are compared.
+ * - **Null and NaN:** Null fields only equal null; NaN equals NaN but falls outside every range.
+ * - **Deep Equality:** Maps and arrays are compared field by field.
+ *
+ * Author: Jayson Baya
+ * Last Updated: October 19, 2026
+ */
+
+import { FirestoreOperator, FirestoreValue, matchesFilter, matchesFilters, valuesEqual } from "@/lib/queryFilters";
+
+const matches = (record: Record<string, unknown>, field: string, operator: FirestoreOperator, value: FirestoreValue) =>
+    matchesFilter(record, { field, operator, value });
+
+describe("matchesFilter", () => {
+    test("never matches != or not-in on a missing field", () => {
+        expect(matches({}, "status", "!=", "sold")).toBe(false);
+        expect(matches({}, "status", "not-in", ["sold", "removed"])).toBe(false);
+
+        expect(matches({ status: "active" }, "status", "!=", "sold")).toBe(true);
+        expect(matches({ status: "sold" }, "status", "!=", "sold")).toBe(false);
+        expect(matches({ status: "active" }, "status", "not-in", ["sold", "removed"])).toBe(true);
+        expect(matches({ status: "removed" }, "status", "not-in", ["sold", "removed"])).toBe(false);
+    });
+
+    test("matches in against every listed value", () => {
+        expect(matches({ category: "Textbooks" }, "category", "in", ["Appliances", "Textbooks"])).toBe(true);
+        expect(matches({ category: "Furniture" }, "category", "in", ["Appliances", "Textbooks"])).toBe(false);
+        expect(matches({}, "category", "in", ["Appliances"])).toBe(false);
+        expect(matches({ tags: ["a", "b"] }, "tags", "in", [["a", "b"]] as unknown as FirestoreValue)).toBe(true);
+    });
+
+    test("requires an array value for in and not-in", () => {
+        expect(() => matches({ category: "Textbooks" }, "category", "in", "Textbooks")).toThrow(
+            'The "in" operator requires an array value for field "category".'
+        );
+        expect(() => matches({ category: "Textbooks" }, "category", "not-in", "Textbooks")).toThrow(
+            'The "not-in" operator requires an array value for field "category".'
+        );
+    });
+
+    test("matches array-contains only on arrays", () => {
+        expect(matches({ tags: ["lamp", "desk"] }, "tags", "array-contains", "desk")).toBe(true);
+        expect(matches({ tags: ["lamp"] }, "tags", "array-contains", "desk")).toBe(false);
+        expect(matches({ tags: "desk" }, "tags", "array-contains", "desk")).toBe(false);
+        expect(matches({}, "tags", "array-contains", "desk")).toBe(false);
+    });
+
+    test("only compares ranges across values of the same type", () => {
+        expect(matches({ price: 10 }, "price", "<", 25)).toBe(true);
+        expect(matches({ price: 25 }, "price", "<=", 25)).toBe(true);
+        expect(matches({ price: 25 }, "price", ">", 25)).toBe(false);
+        expect(matches({ createdAt: "2025-02-01" }, "createdAt", ">=", "2025-01-01")).toBe(true);
+
+        expect(matches({ price: "10" }, "price", "<", 25)).toBe(false);
+        expect(matches({ price: "10" }, "price", ">", 5)).toBe(false);
+        expect(matches({ price: 10 }, "price", "<", "25")).toBe(false);
+        expect(matches({ price: 10 }, "price", ">=", true)).toBe(false);
+        expect(matches({ price: [10] }, "price", "<", 25)).toBe(false);
+    });
+
+    test("treats null fields as a value of their own", () => {
+        const record = { parentId: null };
+
+        expect(matches(record, "parentId", "==", "textbooks")).toBe(false);
+        expect(matches(record, "parentId", "!=", "textbooks")).toBe(true);
+        expect(matches(record, "parentId", "<", "textbooks")).toBe(false);
+        expect(matches(record, "parentId", ">", 0)).toBe(false);
+        expect(matches(record, "parentId", "in", ["textbooks"])).toBe(false);
+        expect(matches(record, "parentId", "not-in", ["textbooks"])).toBe(true);
+    });
+
+    test("matches NaN by equality but not by range", () => {
+        const record = { price: NaN };
+
+        expect(matches(record, "price", "==", NaN)).toBe(true);
+        expect(matches(record, "price", "!=", NaN)).toBe(false);
+        expect(matches(record, "price", "in", [NaN])).toBe(true);
+        expect(matches(record, "price", "<", 25)).toBe(false);
+        expect(matches(record, "price", ">=", 0)).toBe(false);
+        expect(matches({ price: 10 }, "price", "==", NaN)).toBe(false);
+    });
+});
+
+describe("matchesFilters", () => {
+    test("AND-s every filter", () => {
+        const record = { status: "active", price: 10 };
+
+        expect(
+            matchesFilters(record, [
+                { field: "status", operator: "==", value: "active" },
+                { field: "price", operator: "<", value: 25 },
+            ])
+        ).toBe(true);
+        expect(
+            matchesFilters(record, [
+                { field: "status", operator: "==", value: "active" },
+                { field: "price", operator: ">", value: 25 },
+            ])
+        ).toBe(false);
+        expect(matchesFilters(record, [])).toBe(true);
+    });
+});
+
+describe("valuesEqual", () => {
+    test("compares maps field by field, in any order", () => {
+        expect(valuesEqual({ size: "M", color: "red" }, { color: "red", size: "M" })).toBe(true);
+        expect(valuesEqual({ size: "M" }, { size: "M", color: "red" })).toBe(false);
+        expect(valuesEqual({ size: "M", color: undefined }, { size: "M", fit: undefined })).toBe(false);
+        expect(valuesEqual({ size: { eu: 38 } }, { size: { eu: 38 } })).toBe(true);
+        expect(valuesEqual({ size: { eu: 38 } }, { size: { eu: 40 } })).toBe(false);
+    });
+
+    test("compares arrays item by item, in order", () => {
+        expect(valuesEqual(["a", { b: 1 }], ["a", { b: 1 }])).toBe(true);
+        expect(valuesEqual(["a", "b"], ["b", "a"])).toBe(false);
+        expect(valuesEqual(["a"], ["a", "a"])).toBe(false);
+        expect(valuesEqual([], {})).toBe(false);
+    });
+
+    test("compares everything else strictly", () => {
+        expect(valuesEqual(1, "1")).toBe(false);
+        expect(valuesEqual(null, undefined)).toBe(false);
+        expect(valuesEqual(null, null)).toBe(true);
+        expect(valuesEqual(NaN, NaN)).toBe(true);
+    });
+});
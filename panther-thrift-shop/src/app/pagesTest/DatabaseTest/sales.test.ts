@@ -0,0 +1,99 @@
+/**
+ * sales.test.ts
+ *
+ * This file contains unit tests for the "mark as sold" transaction of the Panther Thrift Shop web application.
+ * The tests run `markProductAsSold` through the real `dbHandler` against in-memory storage adapters.
+ *
+ * Key Features Tested:
+ * - **Exactly Once:** Selling a product records one purchased order, however often the sale is repeated.
+ * - **Atomicity:** A failed sale leaves both the product and the purchased orders untouched.
+ * - **Offline Sales:** In Firestore mode while offline, the sale is applied to the local cache and queued as one
+ *   batch, which reaches the primary store in a single transaction on reconnect.
+ *
+ * Author: Jayson Baya
+ * Last Updated: October 19, 2026
+ */
+
+import { flushOutbox, getPendingOperations, getUnsyncedIds, setStorageAdapters } from "@/lib/dbHandler";
+import { markProductAsSold } from "@/lib/sales";
+import { createMemoryAdapter } from "@/lib/storage/memoryAdapter";
+import { StorageAdapter } from "@/lib/storage/storageAdapter";
+import { FIRESTORE_COLLECTIONS } from "@/Models/ConstantData";
+
+const { PRODUCTS, PURCHASED_ITEMS } = FIRESTORE_COLLECTIONS;
+
+const lamp = {
+    id: "p1",
+    productName: "Lamp",
+    price: 15,
+    category: "Room Decoration",
+    description: "Desk lamp",
+    imageURL: "lamp.jpg",
+    seller: "seller@hanover.edu",
+    status: "active",
+    createdAt: "2025-01-01T00:00:00Z",
+};
+
+describe("markProductAsSold", () => {
+    let primary: StorageAdapter;
+
+    beforeEach(() => {
+        jest.spyOn(console, "log").mockImplementation(() => {});
+        primary = createMemoryAdapter({ [PRODUCTS]: [lamp] });
+        setStorageAdapters({ primary });
+    });
+
+    afterEach(() => {
+        jest.restoreAllMocks();
+    });
+
+    test("marks the product sold and records the purchase exactly once", async () => {
+        expect(await markProductAsSold("p1", "buyer@hanover.edu", { price: 12 })).toBe(true);
+        expect(await markProductAsSold("p1", "buyer@hanover.edu", { price: 12 })).toBe(false);
+
+        expect(await primary.get(PRODUCTS, "p1")).toEqual(
+            expect.objectContaining({ status: "sold", buyerEmail: "buyer@hanover.edu", price: 12 })
+        );
+        const purchases = await primary.query(PURCHASED_ITEMS, []);
+        expect(purchases).toEqual([
+            expect.objectContaining({ id: "p1", productId: "p1", price: 12, buyerEmail: "buyer@hanover.edu" }),
+        ]);
+    });
+
+    test("corrects the buyer of an existing purchase instead of adding another", async () => {
+        await markProductAsSold("p1", "typo@hanover.edu");
+        await markProductAsSold("p1", "buyer@hanover.edu");
+
+        const purchases = await primary.query(PURCHASED_ITEMS, []);
+        expect(purchases).toEqual([expect.objectContaining({ buyerEmail: "buyer@hanover.edu" })]);
+    });
+
+    test("writes nothing when the product does not exist", async () => {
+        await expect(markProductAsSold("missing", "buyer@hanover.edu")).rejects.toThrow(
+            "No product found with ID: missing"
+        );
+        expect(await primary.query(PURCHASED_ITEMS, [])).toEqual([]);
+    });
+
+    test("queues an offline sale as one batch and replays it on reconnect", async () => {
+        const cache = createMemoryAdapter({ [PRODUCTS]: [lamp] });
+        setStorageAdapters({ primary, cache });
+        const onLine = jest.spyOn(navigator, "onLine", "get").mockReturnValue(false);
+
+        await markProductAsSold("p1", "buyer@hanover.edu");
+
+        expect(await cache.get(PURCHASED_ITEMS, "p1")).not.toBeNull();
+        expect(await primary.get(PURCHASED_ITEMS, "p1")).toBeNull();
+        expect(await getPendingOperations()).toEqual([expect.objectContaining({ type: "batch" })]);
+        expect(await getUnsyncedIds(PURCHASED_ITEMS)).toEqual(new Set(["p1"]));
+
+        onLine.mockReturnValue(true);
+        expect(await flushOutbox()).toBe(1);
+
+        expect(await primary.get(PRODUCTS, "p1")).toEqual(expect.objectContaining({ status: "sold" }));
+        expect(await primary.get(PURCHASED_ITEMS, "p1")).toEqual(
+            expect.objectContaining({ buyerEmail: "buyer@hanover.edu" })
+        );
+        expect(await getPendingOperations()).toEqual([]);
+    });
+});
@@ -0,0 +1,96 @@
+/**
+ * search.test.ts
+ *
+ * This file contains unit tests for the listing search of the Panther Thrift Shop web application.
+ *
+ * Key Features Tested:
+ * - **Tokenizing:** Case, accents, apostrophes and stop words do not affect matching.
+ * - **Matching:** Every query word must match a name, description, category or tag word, whole or as a prefix.
+ * - **Ranking:** Name matches rank above tag and description matches, and whole words above prefixes.
+ * - **Highlighting:** Matching words are marked without changing the text.
+ *
+ * Author: Jayson Baya
+ * Last Updated: October 19, 2026
+ */
+
+import { buildSearchIndex, highlightMatches, searchIndex, tokenize } from "@/lib/search";
+import { Product } from "@/Models/Product";
+
+const product = (id: string, fields: Partial<Product>) =>
+    ({
+        id,
+        productName: "",
+        description: "",
+        category: "Appliances",
+        price: 10,
+        createdAt: `2025-01-0${id.slice(1)}T00:00:00Z`,
+        ...fields,
+    }) as Product;
+
+const products = [
+    product("p1", { productName: "Mini Fridge", description: "Keeps drinks cold in a dorm." }),
+    product("p2", { productName: "Desk Lamp", description: "Bright lamp, fits next to a mini fridge." }),
+    product("p3", { productName: "Café Table", description: "Small table.", tags: ["fridge", "mini"] }),
+    product("p4", { productName: "Flannel Shirt", category: "Men's Shirts", description: "Warm." }),
+];
+
+const ids = (query: string) => searchIndex(buildSearchIndex(products), query).map(({ product }) => product.id);
+
+describe("tokenize", () => {
+    test("lower-cases words and drops accents, apostrophes and stop words", () => {
+        expect(tokenize("The Men's CAFÉ table, for 2!")).toEqual(["mens", "cafe", "table", "2"]);
+        expect(tokenize("  ")).toEqual([]);
+    });
+});
+
+describe("searchIndex", () => {
+    test("ranks name matches above tag matches above description matches", () => {
+        expect(ids("mini fridge")).toEqual(["p1", "p3", "p2"]);
+    });
+
+    test("requires every query word to match", () => {
+        expect(ids("mini lamp")).toEqual(["p2"]);
+        expect(ids("mini shirt")).toEqual([]);
+    });
+
+    test("matches the category, prefixes and accents", () => {
+        expect(ids("mens shirts")).toEqual(["p4"]);
+        expect(ids("Men's")).toEqual(["p4"]);
+        expect(ids("fridg")).toEqual(["p1", "p3", "p2"]);
+        expect(ids("cafe")).toEqual(["p3"]);
+    });
+
+    test("ranks whole words above prefixes and breaks ties newest first", () => {
+        const index = buildSearchIndex([
+            product("p1", { productName: "Lampshade" }),
+            product("p2", { productName: "Lamp" }),
+            product("p3", { productName: "Lamp" }),
+        ]);
+
+        expect(searchIndex(index, "lamp").map(({ product }) => product.id)).toEqual(["p3", "p2", "p1"]);
+    });
+
+    test("matches nothing for an empty query", () => {
+        expect(ids("")).toEqual([]);
+        expect(ids("the")).toEqual([]);
+    });
+});
+
+describe("highlightMatches", () => {
+    test("marks the matching words and keeps the text intact", () => {
+        const segments = highlightMatches("Bright lamp, fits next to a Mini Fridge.", "fridge mini");
+
+        expect(segments).toEqual([
+            { text: "Bright lamp, fits next to a ", match: false },
+            { text: "Mini", match: true },
+            { text: " ", match: false },
+            { text: "Fridge", match: true },
+            { text: ".", match: false },
+        ]);
+        expect(segments.map(({ text }) => text).join("")).toBe("Bright lamp, fits next to a Mini Fridge.");
+    });
+
+    test("returns the whole text unmarked when nothing matches", () => {
+        expect(highlightMatches("Desk Lamp", "fridge")).toEqual([{ text: "Desk Lamp", match: false }]);
+    });
+});
@@ -0,0 +1,179 @@
+/**
+ * @jest-environment node
+ */
+
+/**
+ * storageAdapter.test.ts
+ *
+ * This file contains a shared contract suite for the local storage adapters of the Panther Thrift Shop
+ * web application. The same tests run against the in-memory adapter and the IndexedDB adapter (backed by
+ * `fake-indexeddb`), so page tests that use the memory adapter exercise the same behavior the browser sees.
+ *
+ * Key Features Tested:
+ * - **CRUD:** add (with given and generated IDs, replacing a record with the same ID), get, put, update and delete.
+ * - **Queries:** Filters follow Firestore semantics, including indexed boolean fields; counts use the same filters.
+ * - **Paging:** Pages are ordered, never overlap, and end with a null token.
+ * - **Subscriptions:** Subscribers receive the current results and every later change.
+ * - **Transactions:** Writes across stores are applied together, or not at all when one fails.
+ *
+ * Dependencies:
+ * - fake-indexeddb for an in-memory IndexedDB.
+ *
+ * Author: Jayson Baya
+ * Last Updated: October 19, 2026
+ */
+
+import "fake-indexeddb/auto";
+import { closeLocalDatabase, createIndexedDBAdapter } from "@/lib/storage/indexedDBAdapter";
+import { createMemoryAdapter } from "@/lib/storage/memoryAdapter";
+import { StorageAdapter, StoredRecord } from "@/lib/storage/storageAdapter";
+
+const products: StoredRecord[] = [
+    { id: "p1", productName: "Lamp", price: 15, seller: "a@hanover.edu", sold: false, status: "active", createdAt: "2025-01-01" },
+    { id: "p2", productName: "Desk", price: 60, seller: "b@hanover.edu", sold: true, status: "sold", createdAt: "2025-01-02" },
+    { id: "p3", productName: "Chair", price: 25, seller: "a@hanover.edu", sold: false, status: "active", createdAt: "2025-01-03" },
+];
+
+// Each test starts from the same three products and no purchased items
+const adapters: Array<[string, () => Promise<StorageAdapter>]> = [
+    ["memory", async () => createMemoryAdapter({ products })],
+    [
+        "indexeddb",
+        async () => {
+            const adapter = createIndexedDBAdapter();
+            for (const storeName of ["products", "purchasedItems"]) {
+                const existing = await adapter.query<StoredRecord>(storeName, []);
+                await Promise.all(existing.map((record) => adapter.delete(storeName, record.id)));
+            }
+            await adapter.put("products", products);
+            return adapter;
+        },
+    ],
+];
+
+describe.each(adapters)("%s storage adapter", (_kind, createAdapter) => {
+    let adapter: StorageAdapter;
+
+    beforeAll(() => {
+        jest.spyOn(console, "log").mockImplementation(() => {});
+    });
+
+    beforeEach(async () => {
+        adapter = await createAdapter();
+    });
+
+    afterAll(async () => {
+        jest.restoreAllMocks();
+        await closeLocalDatabase();
+    });
+
+    test("adds records under the given ID or a generated one", async () => {
+        expect(await adapter.add("products", { id: "p4", productName: "Rug" })).toBe("p4");
+        const generatedId = await adapter.add("products", { productName: "Mirror" });
+
+        // Product records are read back with a listing status, "active" when none was stored
+        expect(await adapter.get("products", "p4")).toEqual({ id: "p4", productName: "Rug", status: "active" });
+        expect(await adapter.get("products", generatedId)).toEqual({
+            id: generatedId,
+            productName: "Mirror",
+            status: "active",
+        });
+    });
+
+    test("replaces a record added again under the same ID", async () => {
+        expect(await adapter.add("products", { id: "p1", productName: "Floor Lamp", price: 20 })).toBe("p1");
+
+        expect(await adapter.get("products", "p1")).toEqual({
+            id: "p1",
+            productName: "Floor Lamp",
+            price: 20,
+            status: "active",
+        });
+    });
+
+    test("queries with Firestore filter semantics, including boolean fields", async () => {
+        const unsold = await adapter.query<StoredRecord>("products", [
+            { field: "sold", operator: "==", value: false },
+            { field: "price", operator: ">", value: 20 },
+        ]);
+        expect(unsold.map((record) => record.id)).toEqual(["p3"]);
+        expect(unsold[0]).toEqual(products[2]);
+    });
+
+    test("counts the records matching the filters", async () => {
+        expect(await adapter.count("products", [])).toBe(3);
+        expect(
+            await adapter.count("products", [
+                { field: "status", operator: "in", value: ["active", "reserved"] },
+                { field: "seller", operator: "==", value: "a@hanover.edu" },
+            ])
+        ).toBe(2);
+        expect(await adapter.count("purchasedItems", [])).toBe(0);
+    });
+
+    test("updates existing records and reports missing ones", async () => {
+        expect(await adapter.update("products", "p1", { price: 12 })).toBe(true);
+        expect(await adapter.update("products", "missing", { price: 12 })).toBe(false);
+        expect(await adapter.get("products", "p1")).toEqual({ ...products[0], price: 12 });
+    });
+
+    test("deletes records", async () => {
+        await adapter.delete("products", "p2");
+        expect(await adapter.get("products", "p2")).toBeNull();
+    });
+
+    test("pages through records in order without overlap", async () => {
+        const options = { orderBy: "createdAt", direction: "desc" as const, limit: 2 };
+        const first = await adapter.queryPage<StoredRecord>("products", [], options);
+        const second = await adapter.queryPage<StoredRecord>("products", [], {
+            ...options,
+            startAfter: first.nextPageToken,
+        });
+
+        expect(first.items.map((record) => record.id)).toEqual(["p3", "p2"]);
+        expect(second.items.map((record) => record.id)).toEqual(["p1"]);
+        expect(second.nextPageToken).toBeNull();
+    });
+
+    test("applies every write of a transaction across stores", async () => {
+        const result = await adapter.runTransaction(["products", "purchasedItems"], async (transaction) => {
+            const product = await transaction.get<StoredRecord>("products", "p1");
+            transaction.update("products", "p1", { sold: true });
+            transaction.put("purchasedItems", { id: "p1", productName: product?.productName });
+            return "done";
+        });
+
+        expect(result).toBe("done");
+        expect(await adapter.get("products", "p1")).toEqual({ ...products[0], sold: true });
+        expect(await adapter.get("purchasedItems", "p1")).toEqual({ id: "p1", productName: "Lamp", status: "active" });
+    });
+
+    test("writes nothing when any write of a transaction fails", async () => {
+        await expect(
+            adapter.runTransaction(["products", "purchasedItems"], async (transaction) => {
+                transaction.put("purchasedItems", { id: "p1" });
+                transaction.update("products", "missing", { sold: true });
+            })
+        ).rejects.toThrow();
+
+        expect(await adapter.get("purchasedItems", "p1")).toBeNull();
+    });
+
+    test("notifies subscribers of the current results and later changes", async () => {
+        const callback = jest.fn();
+        const unsubscribe = adapter.subscribe(
+            "products",
+            [{ field: "seller", operator: "==", value: "b@hanover.edu" }],
+            callback,
+            jest.fn()
+        );
+
+        await new Promise((resolve) => setTimeout(resolve, 20));
+        expect(callback).toHaveBeenLastCalledWith([products[1]]);
+
+        await adapter.update("products", "p2", { price: 55 });
+        await new Promise((resolve) => setTimeout(resolve, 20));
+        expect(callback).toHaveBeenLastCalledWith([{ ...products[1], price: 55 }]);
+        unsubscribe();
+    });
+});
@@ -0,0 +1,130 @@
+/**
+ * storageFallback.test.ts
+ *
+ * This file contains unit tests for the degraded mode of `dbHandler` in the Panther Thrift Shop web application.
+ * A memory adapter stands in for Firestore and another for the IndexedDB cache; the "Firestore" adapter is made
+ * to fail with the error codes Firestore uses when it is over quota or unavailable.
+ *
+ * Key Features Tested:
+ * - **Detection:** `resource-exhausted` and `unavailable` errors switch to degraded mode; other errors do not.
+ * - **Local-Only Mode:** While degraded, reads come from the cache and writes are queued in the outbox.
+ * - **Recovery:** Once the cool-down ends, the mode returns to online and queued writes reach the primary store.
+ * - **Subscriptions:** Live queries move to the cache when Firestore fails.
+ *
+ * Author: Jayson Baya
+ * Last Updated: October 19, 2026
+ */
+
+import {
+    addData,
+    flushOutbox,
+    getData,
+    getPendingOperations,
+    getStorageMode,
+    onStorageModeChange,
+    setStorageAdapters,
+    subscribe,
+    updateData,
+} from "@/lib/dbHandler";
+import { createQuery } from "@/lib/queryBuilder";
+import { createMemoryAdapter } from "@/lib/storage/memoryAdapter";
+import { StorageAdapter, StoredRecord } from "@/lib/storage/storageAdapter";
+import { DEGRADED_MODE_COOLDOWN_MS } from "@/Models/ConstantData";
+
+const allProducts = createQuery<StoredRecord>("products");
+const quotaError = Object.assign(new Error("Quota exceeded."), { code: "resource-exhausted" });
+
+describe("degraded mode", () => {
+    let primary: StorageAdapter;
+    let cache: StorageAdapter;
+
+    beforeEach(() => {
+        jest.spyOn(console, "log").mockImplementation(() => {});
+        jest.spyOn(console, "warn").mockImplementation(() => {});
+        primary = createMemoryAdapter({ products: [{ id: "p1", productName: "Lamp", price: 15, revision: 1 }] });
+        cache = createMemoryAdapter({ products: [{ id: "p1", productName: "Lamp", price: 15, revision: 1 }] });
+        setStorageAdapters({ primary, cache });
+    });
+
+    afterEach(() => {
+        jest.useRealTimers();
+        jest.restoreAllMocks();
+    });
+
+    test("keeps a write that hit the quota and queues it for later", async () => {
+        jest.spyOn(primary, "add").mockRejectedValue(quotaError);
+        const listener = jest.fn();
+        const stopListening = onStorageModeChange(listener);
+
+        await addData("products", { id: "p2", productName: "Desk", price: 40 });
+
+        expect(getStorageMode()).toBe("degraded");
+        expect(listener).toHaveBeenCalledWith("degraded");
+        expect(await cache.get("products", "p2")).toEqual(expect.objectContaining({ productName: "Desk" }));
+        expect(await getPendingOperations()).toEqual([expect.objectContaining({ type: "add", recordId: "p2" })]);
+        stopListening();
+    });
+
+    test("serves reads from the cache and queues writes while degraded", async () => {
+        const querySpy = jest
+            .spyOn(primary, "query")
+            .mockRejectedValueOnce(Object.assign(new Error("Backend unavailable."), { code: "unavailable" }));
+        expect(await getData(allProducts)).toEqual([expect.objectContaining({ id: "p1" })]);
+        querySpy.mockClear();
+        const runTransactionSpy = jest.spyOn(primary, "runTransaction");
+
+        await updateData("products", "p1", { price: 12 });
+        await getData(allProducts);
+
+        expect(querySpy).not.toHaveBeenCalled();
+        expect(runTransactionSpy).not.toHaveBeenCalled();
+        expect(await cache.get("products", "p1")).toEqual(expect.objectContaining({ price: 12 }));
+        expect(await getPendingOperations()).toEqual([expect.objectContaining({ type: "update", recordId: "p1" })]);
+    });
+
+    test("replays queued writes once the cool-down ends", async () => {
+        jest.useFakeTimers({ doNotFake: ["nextTick", "queueMicrotask", "setImmediate"] });
+        jest.spyOn(primary, "runTransaction").mockRejectedValueOnce(quotaError);
+        await updateData("products", "p1", { price: 12 });
+        expect(await primary.get("products", "p1")).toEqual(expect.objectContaining({ price: 15 }));
+
+        jest.advanceTimersByTime(DEGRADED_MODE_COOLDOWN_MS);
+        await flushOutbox(); // Waits for the replay the cool-down started
+
+        expect(await getPendingOperations()).toEqual([]);
+        expect(getStorageMode()).toBe("online");
+        expect(await primary.get("products", "p1")).toEqual(expect.objectContaining({ price: 12, revision: 2 }));
+    });
+
+    test("surfaces errors that are not about quota or availability", async () => {
+        jest.spyOn(console, "error").mockImplementation(() => {});
+        const permissionError = Object.assign(new Error("Missing or insufficient permissions."), {
+            code: "permission-denied",
+        });
+        jest.spyOn(primary, "runTransaction").mockRejectedValue(permissionError);
+        jest.spyOn(primary, "add").mockRejectedValue(permissionError);
+
+        await expect(updateData("products", "p1", { price: 12 })).rejects.toThrow("insufficient permissions");
+        await expect(addData("products", { id: "p2", productName: "Desk", price: 40 })).rejects.toThrow(
+            "insufficient permissions"
+        );
+        expect(await cache.get("products", "p2")).toBeFalsy();
+        expect(getStorageMode()).toBe("online");
+        expect(await getPendingOperations()).toEqual([]);
+    });
+
+    test("moves live queries to the cache when Firestore fails", async () => {
+        jest.spyOn(primary, "subscribe").mockImplementation((_storeName, _filters, _callback, onError) => {
+            onError(quotaError);
+            return () => {};
+        });
+        const callback = jest.fn();
+
+        const unsubscribe = subscribe(allProducts, callback);
+        await new Promise((resolve) => setTimeout(resolve, 0));
+
+        expect(getStorageMode()).toBe("degraded");
+        expect(callback).toHaveBeenCalledWith([expect.objectContaining({ id: "p1" })]);
+        unsubscribe();
+    });
+});
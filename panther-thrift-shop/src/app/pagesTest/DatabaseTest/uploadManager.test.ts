@@ -0,0 +1,215 @@
+/**
+ * uploadManager.test.ts
+ *
+ * This file contains unit tests for the upload manager of the Panther Thrift Shop web application.
+ *
+ * Key Features Tested:
+ * - **Progress:** The bytes of every file of an upload are added up and reported to subscribers.
+ * - **Retries:** Transient errors are retried with a doubling delay; permission errors and the last attempt fail.
+ * - **Cancel:** Canceling stops every file of the upload, also while waiting for a retry.
+ * - **Pause / Resume:** Passed on to the running Storage tasks.
+ *
+ * Mocks:
+ * - Firebase Storage: `uploadBytesResumable` returns fake tasks the tests drive by hand.
+ *
+ * Author: Jayson Baya
+ * Last Updated: October 19, 2026
+ */
+
+import { getDownloadURL, uploadBytesResumable } from "firebase/storage";
+import { createUploadManager, UploadCanceledError, UploadManager, UploadProgress } from "@/lib/uploadManager";
+
+jest.mock("@/lib/firebaseConfig", () => ({ storage: {} }));
+
+interface FakeTask {
+    path: string;
+    progress: (bytes: number) => void;
+    fail: (code: string) => void;
+    complete: () => void;
+    pause: jest.Mock;
+    resume: jest.Mock;
+    cancel: jest.Mock;
+}
+
+const tasks: FakeTask[] = [];
+
+jest.mock("firebase/storage", () => ({
+    ref: jest.fn((_storage: unknown, path: string) => path),
+    getDownloadURL: jest.fn((path: string) => Promise.resolve(`https://storage.example/${path}`)),
+    uploadBytesResumable: jest.fn(),
+}));
+
+const storageError = (code: string) => Object.assign(new Error(`Firebase Storage: ${code}`), { code });
+
+beforeEach(() => {
+    jest.clearAllMocks();
+    tasks.length = 0;
+    (uploadBytesResumable as jest.Mock).mockImplementation((path: string) => {
+        const handlers: { next?: (s: object) => void; error?: (e: Error) => void; complete?: () => void } = {};
+        const task: FakeTask = {
+            path,
+            progress: (bytes) => handlers.next?.({ bytesTransferred: bytes }),
+            fail: (code) => handlers.error?.(storageError(code)),
+            complete: () => handlers.complete?.(),
+            pause: jest.fn(),
+            resume: jest.fn(),
+            cancel: jest.fn(() => handlers.error?.(storageError("storage/canceled"))),
+        };
+        tasks.push(task);
+        return {
+            ...task,
+            snapshot: { ref: path },
+            on: (_event: string, next: never, error: never, complete: never) =>
+                Object.assign(handlers, { next, error, complete }),
+        };
+    });
+});
+
+afterEach(() => {
+    jest.useRealTimers();
+});
+
+const blobOf = (size: number) => new Blob([new Uint8Array(size)], { type: "image/jpeg" });
+
+// Lets pending promise callbacks run
+const flush = () => new Promise((resolve) => jest.requireActual("timers").setImmediate(resolve));
+
+const latest = (manager: UploadManager): UploadProgress => manager.getUploads()[0];
+
+describe("createUploadManager", () => {
+    test("reports the combined progress of every file and resolves to their URLs in order", async () => {
+        const manager = createUploadManager();
+        const seen: UploadProgress[][] = [];
+        manager.subscribe((uploads) => seen.push(uploads));
+
+        const upload = manager.upload("photo-1", "front.jpg", [
+            { path: "products/u/l/a.jpg", data: blobOf(300) },
+            { path: "products/u/l/thumbnails/a.jpg", data: blobOf(100) },
+        ]);
+        expect(latest(manager)).toMatchObject({ state: "uploading", bytesTransferred: 0, totalBytes: 400 });
+
+        tasks[0].progress(150);
+        tasks[1].progress(50);
+        expect(latest(manager).bytesTransferred).toBe(200);
+
+        tasks[1].complete();
+        tasks[0].complete();
+        await expect(upload).resolves.toEqual([
+            "https://storage.example/products/u/l/a.jpg",
+            "https://storage.example/products/u/l/thumbnails/a.jpg",
+        ]);
+        expect(latest(manager)).toMatchObject({ state: "done", bytesTransferred: 400 });
+        expect(seen.length).toBeGreaterThan(3);
+        expect(uploadBytesResumable).toHaveBeenCalledWith("products/u/l/a.jpg", expect.any(Blob), {
+            contentType: "image/jpeg",
+        });
+    });
+
+    test("retries transient errors with a doubling delay", async () => {
+        jest.useFakeTimers();
+        const manager = createUploadManager({ maxAttempts: 3, baseDelayMs: 1000 });
+        const upload = manager.upload("photo-1", "front.jpg", [{ path: "a.jpg", data: blobOf(10) }]);
+
+        tasks[0].fail("storage/retry-limit-exceeded");
+        await flush();
+        expect(latest(manager)).toMatchObject({ state: "retrying", attempt: 2 });
+        jest.advanceTimersByTime(999);
+        expect(tasks).toHaveLength(1);
+        jest.advanceTimersByTime(1);
+        await flush();
+        expect(tasks).toHaveLength(2);
+
+        tasks[1].fail("storage/unknown");
+        await flush();
+        jest.advanceTimersByTime(1999);
+        expect(tasks).toHaveLength(2);
+        jest.advanceTimersByTime(1);
+        await flush();
+
+        tasks[2].complete();
+        await expect(upload).resolves.toEqual(["https://storage.example/a.jpg"]);
+        expect(latest(manager)).toMatchObject({ state: "done", attempt: 3 });
+    });
+
+    test("fails after the last attempt", async () => {
+        const manager = createUploadManager({ maxAttempts: 1 });
+        const upload = manager.upload("photo-1", "front.jpg", [{ path: "a.jpg", data: blobOf(10) }]);
+
+        tasks[0].fail("storage/unknown");
+        await expect(upload).rejects.toMatchObject({ code: "storage/unknown" });
+        expect(latest(manager)).toMatchObject({ state: "failed", error: "Firebase Storage: storage/unknown" });
+    });
+
+    test("does not retry permission errors and cancels the other files of the upload", async () => {
+        const manager = createUploadManager({ maxAttempts: 3 });
+        const upload = manager.upload("photo-1", "front.jpg", [
+            { path: "a.jpg", data: blobOf(10) },
+            { path: "thumbnails/a.jpg", data: blobOf(5) },
+        ]);
+
+        tasks[0].fail("storage/unauthorized");
+        await expect(upload).rejects.toMatchObject({ code: "storage/unauthorized" });
+        expect(tasks).toHaveLength(2);
+        expect(tasks[1].cancel).toHaveBeenCalled();
+        expect(latest(manager).state).toBe("failed");
+        expect(getDownloadURL).not.toHaveBeenCalled();
+    });
+
+    test("cancels a running upload and one waiting to retry", async () => {
+        jest.useFakeTimers();
+        const manager = createUploadManager();
+        const running = manager.upload("photo-1", "front.jpg", [{ path: "a.jpg", data: blobOf(10) }]);
+        const retrying = manager.upload("photo-2", "back.jpg", [{ path: "b.jpg", data: blobOf(10) }]);
+
+        manager.cancel("photo-1");
+        await expect(running).rejects.toThrow(new UploadCanceledError("front.jpg"));
+
+        tasks[1].fail("storage/unknown");
+        await flush();
+        manager.cancel("photo-2");
+        await expect(retrying).rejects.toThrow(UploadCanceledError);
+        jest.runAllTimers();
+
+        expect(tasks).toHaveLength(2);
+        expect(manager.getUploads().map((upload) => upload.state)).toEqual(["canceled", "canceled"]);
+
+        manager.clear();
+        expect(manager.getUploads()).toEqual([]);
+    });
+
+    test("cancels a photo and its thumbnail while both wait to retry", async () => {
+        jest.useFakeTimers();
+        const manager = createUploadManager({ maxAttempts: 3 });
+        const upload = manager.upload("photo-1", "front.jpg", [
+            { path: "a.jpg", data: blobOf(10) },
+            { path: "thumbnails/a.jpg", data: blobOf(5) },
+        ]);
+
+        tasks[0].fail("storage/unknown");
+        tasks[1].fail("storage/unknown");
+        await flush();
+        manager.cancel("photo-1");
+        await expect(upload).rejects.toThrow(UploadCanceledError);
+        jest.runAllTimers();
+        await flush();
+
+        expect(tasks).toHaveLength(2);
+        expect(latest(manager).state).toBe("canceled");
+    });
+
+    test("pauses and resumes the running tasks", async () => {
+        const manager = createUploadManager();
+        const upload = manager.upload("photo-1", "front.jpg", [{ path: "a.jpg", data: blobOf(10) }]);
+
+        manager.pause("photo-1");
+        expect(tasks[0].pause).toHaveBeenCalled();
+        expect(latest(manager).state).toBe("paused");
+        await expect(manager.upload("photo-1", "front.jpg", [])).rejects.toThrow("front.jpg is already being uploaded.");
+
+        manager.resume("photo-1");
+        expect(tasks[0].resume).toHaveBeenCalled();
+        tasks[0].complete();
+        await expect(upload).resolves.toHaveLength(1);
+        expect(latest(manager).state).toBe("done");
+    });
+});
@@ -0,0 +1,120 @@
+/**
+ * AdminCategories.test.tsx
+ *
+ * This file contains unit tests for the AdminCategories page of the Panther Thrift Shop web application,
+ * using React Testing Library and Jest. Users and categories are served by the real `dbHandler` from an
+ * in-memory storage adapter.
+ *
+ * Key Features Tested:
+ * - **Access:** Unauthenticated users are redirected to the login page; users who are not admins see a notice.
+ * - **Add:** An admin adds a subcategory, which is stored and listed under its parent.
+ * - **Retire / Restore:** An admin retires a category and restores it again; it is never deleted.
+ *
+ * Mocks:
+ * - Firebase Auth (`onAuthStateChanged`) and Next.js navigation (`useRouter`).
+ *
+ * Author: Jayson Baya
+ * Last Updated: October 19, 2026
+ */
+
+import React from "react";
+import { fireEvent, render, screen, waitFor } from "@testing-library/react";
+import { onAuthStateChanged } from "firebase/auth";
+import { useRouter } from "next/navigation";
+import AdminCategories from "@/app/pages/AdminCategories/page";
+import { setStorageAdapters } from "@/lib/dbHandler";
+import { createMemoryAdapter } from "@/lib/storage/memoryAdapter";
+import { StorageAdapter } from "@/lib/storage/storageAdapter";
+import { FIRESTORE_COLLECTIONS, ROUTES } from "@/Models/ConstantData";
+
+jest.mock("firebase/auth", () => ({
+    getAuth: jest.fn(() => ({ currentUser: null })),
+    onAuthStateChanged: jest.fn(),
+}));
+
+jest.mock("next/navigation", () => ({
+    useRouter: jest.fn(),
+}));
+
+const mockPush = jest.fn();
+
+const signInAs = (email: string | null) =>
+    (onAuthStateChanged as jest.Mock).mockImplementation((_auth, callback) => {
+        callback(email ? { email } : null);
+        return jest.fn();
+    });
+
+describe("AdminCategories Page", () => {
+    let primary: StorageAdapter;
+
+    beforeEach(() => {
+        jest.clearAllMocks();
+        jest.spyOn(console, "log").mockImplementation(() => {});
+        (useRouter as jest.Mock).mockReturnValue({ push: mockPush });
+        primary = createMemoryAdapter({
+            [FIRESTORE_COLLECTIONS.USERS]: [
+                { id: "u1", email: "admin@hanover.edu", role: "admin", createdAt: "2025-01-01T00:00:00Z" },
+                { id: "u2", email: "buyer@hanover.edu", role: "customer", createdAt: "2025-01-01T00:00:00Z" },
+            ],
+        });
+        setStorageAdapters({ primary });
+    });
+
+    afterEach(() => {
+        jest.restoreAllMocks();
+    });
+
+    test("redirects unauthenticated users to login", async () => {
+        signInAs(null);
+
+        render(<AdminCategories />);
+
+        await waitFor(() => expect(mockPush).toHaveBeenCalledWith(ROUTES.LOGIN));
+    });
+
+    test("only lets admins manage categories", async () => {
+        signInAs("buyer@hanover.edu");
+
+        render(<AdminCategories />);
+
+        expect(await screen.findByText("Only admins can manage categories.")).toBeInTheDocument();
+        expect(screen.queryByRole("button", { name: "Add Category" })).not.toBeInTheDocument();
+    });
+
+    test("adds a subcategory under its parent", async () => {
+        signInAs("admin@hanover.edu");
+
+        render(<AdminCategories />);
+
+        fireEvent.change(await screen.findByLabelText("New category name"), { target: { value: "Men's Jackets" } });
+        fireEvent.change(screen.getByLabelText("Parent category"), { target: { value: "Men's Clothing" } });
+        fireEvent.click(screen.getByRole("button", { name: "Add Category" }));
+
+        expect(await screen.findByText('Added the category "Men\'s Jackets".')).toBeInTheDocument();
+        expect(screen.getByRole("button", { name: "Retire Men's Jackets" })).toBeInTheDocument();
+        expect(await primary.get(FIRESTORE_COLLECTIONS.CATEGORIES, "mens-jackets")).toEqual(
+            expect.objectContaining({ parentId: "mens-clothing" })
+        );
+    });
+
+    test("retires a category and restores it again", async () => {
+        signInAs("admin@hanover.edu");
+
+        render(<AdminCategories />);
+
+        fireEvent.click(await screen.findByRole("button", { name: "Retire Textbooks" }));
+
+        expect(await screen.findByText('Retired "Textbooks".')).toBeInTheDocument();
+        expect(screen.getByText("Textbooks (retired)")).toBeInTheDocument();
+        expect(await primary.get(FIRESTORE_COLLECTIONS.CATEGORIES, "textbooks")).toEqual(
+            expect.objectContaining({ retired: true })
+        );
+
+        fireEvent.click(screen.getByRole("button", { name: "Restore Textbooks" }));
+
+        expect(await screen.findByText('Restored "Textbooks".')).toBeInTheDocument();
+        expect(await primary.get(FIRESTORE_COLLECTIONS.CATEGORIES, "textbooks")).toEqual(
+            expect.objectContaining({ retired: false })
+        );
+    });
+});
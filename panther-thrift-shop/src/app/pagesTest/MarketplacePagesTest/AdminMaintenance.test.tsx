@@ -0,0 +1,81 @@
+/**
+ * AdminMaintenance.test.tsx
+ *
+ * This file contains unit tests for the AdminMaintenance page of the Panther Thrift Shop web application,
+ * using React Testing Library and Jest. Users are served by the real `dbHandler` from an in-memory storage
+ * adapter.
+ *
+ * Key Features Tested:
+ * - **Access:** Users who are not admins see a notice and cannot run the backfills.
+ * - **Backfills:** An admin runs the Firestore backfills and sees how many documents were upgraded.
+ *
+ * Mocks:
+ * - Firebase Auth (`onAuthStateChanged`), Next.js navigation (`useRouter`) and `runFirestoreBackfills`.
+ *
+ * Author: Jayson Baya
+ * Last Updated: October 19, 2026
+ */
+
+import React from "react";
+import { fireEvent, render, screen } from "@testing-library/react";
+import { onAuthStateChanged } from "firebase/auth";
+import { useRouter } from "next/navigation";
+import AdminMaintenance from "@/app/pages/AdminMaintenance/page";
+import { setStorageAdapters } from "@/lib/dbHandler";
+import { runFirestoreBackfills } from "@/lib/firestoreBackfill";
+import { createMemoryAdapter } from "@/lib/storage/memoryAdapter";
+import { FIRESTORE_COLLECTIONS } from "@/Models/ConstantData";
+
+jest.mock("firebase/auth", () => ({
+    getAuth: jest.fn(() => ({ currentUser: null })),
+    onAuthStateChanged: jest.fn(),
+}));
+
+jest.mock("next/navigation", () => ({
+    useRouter: jest.fn(),
+}));
+
+jest.mock("@/lib/firestoreBackfill", () => ({
+    runFirestoreBackfills: jest.fn(() => Promise.resolve(3)),
+}));
+
+const signInAs = (email: string) =>
+    (onAuthStateChanged as jest.Mock).mockImplementation((_auth, callback) => {
+        callback({ email });
+        return jest.fn();
+    });
+
+describe("AdminMaintenance Page", () => {
+    beforeEach(() => {
+        jest.clearAllMocks();
+        (useRouter as jest.Mock).mockReturnValue({ push: jest.fn() });
+        setStorageAdapters({
+            primary: createMemoryAdapter({
+                [FIRESTORE_COLLECTIONS.USERS]: [
+                    { id: "u1", email: "admin@hanover.edu", role: "admin", createdAt: "2025-01-01T00:00:00Z" },
+                    { id: "u2", email: "buyer@hanover.edu", role: "customer", createdAt: "2025-01-01T00:00:00Z" },
+                ],
+            }),
+        });
+    });
+
+    test("only lets admins run the backfills", async () => {
+        signInAs("buyer@hanover.edu");
+
+        render(<AdminMaintenance />);
+
+        expect(await screen.findByText("Only admins can run maintenance tasks.")).toBeInTheDocument();
+        expect(screen.queryByRole("button", { name: "Run Backfills" })).not.toBeInTheDocument();
+    });
+
+    test("runs the backfills and reports how many documents were upgraded", async () => {
+        signInAs("admin@hanover.edu");
+
+        render(<AdminMaintenance />);
+
+        fireEvent.click(await screen.findByRole("button", { name: "Run Backfills" }));
+
+        expect(await screen.findByText("3 documents upgraded.")).toBeInTheDocument();
+        expect(runFirestoreBackfills).toHaveBeenCalledTimes(1);
+    });
+});
@@ -14,10 +14,12 @@
  * - **Product Actions:** Tests the functionality of saving and unsaving products (including the corresponding alerts)
  *   and the proper display of action buttons ("Save", "Saved", or "My Listings") based on the logged-in user's role.
  * - **Product Modal Display:** Ensures that clicking on a product opens a modal displaying detailed product information.
+ * - **Live Updates:** Only the loaded products (by ID) and listings newer than them are subscribed to.
+ * - **Filters and Sorting:** Filters in the URL become the query and sort order, and changing them updates the URL.
  *
  * Mocks:
  * - Firebase modules (auth, firestore, storage) are mocked to isolate component behavior.
- * - Next.js' useRouter hook is mocked to simulate client-side redirection.
+ * - Next.js' useRouter, usePathname and useSearchParams hooks are mocked to simulate navigation and the URL.
  * - IndexedDB helper functions (`getData`, `addData`, `deleteData`) are mocked to simulate local data operations.
  *
  * Dependencies:
@@ -25,16 +27,16 @@
  * - Jest for mocking functions and modules.
  *
  * Author: Jayson Baya
- * Last Updated: January 25, 2025
+ * Last Updated: October 19, 2026
  */
 
 
 import React from "react";
-import { fireEvent, render, screen, waitFor } from "@testing-library/react";
+import { act, fireEvent, render, screen, waitFor } from "@testing-library/react";
 import BrowsePage from "@/app/pages/BrowsePage/page";
 import { onAuthStateChanged } from "firebase/auth";
-import { useRouter } from "next/navigation";
-import {getData, addData, deleteData} from "@/lib/dbHandler";
+import { usePathname, useRouter, useSearchParams } from "next/navigation";
+import {getData, getDataPage, addData, deleteData, subscribe} from "@/lib/dbHandler";
 import { Product } from "@/Models/Product";
 import { ROUTES } from "@/Models/ConstantData";
 
@@ -49,13 +51,24 @@ jest.mock("firebase/auth", () => ({
 
 jest.mock("next/navigation", () => ({
     useRouter: jest.fn(),
+    usePathname: jest.fn(),
+    useSearchParams: jest.fn(),
 }));
 
-jest.mock("@/lib/dbHandler", () => ({
-    getData: jest.fn(() => Promise.resolve([])),
-    addData: jest.fn(() => Promise.resolve()),
-    deleteData: jest.fn(() => Promise.resolve()),
-}));
+jest.mock("@/lib/dbHandler", () => {
+    const getData = jest.fn<Promise<unknown[]>, [{ storeName: string }]>(() => Promise.resolve([]));
+    return {
+        getData,
+        // Serve pages from the getData mock so each test only has to stub one function
+        getDataPage: jest.fn(async (query: { storeName: string }) => ({
+            items: await getData(query),
+            nextPageToken: null,
+        })),
+        subscribe: jest.fn(() => jest.fn()),
+        addData: jest.fn(() => Promise.resolve()),
+        deleteData: jest.fn(() => Promise.resolve()),
+    };
+});
 
 
 jest.mock("firebase/firestore", () => ({
@@ -74,12 +87,15 @@ jest.mock("firebase/storage", () => ({
 }));
 
 const mockPush = jest.fn();
-(useRouter as jest.Mock).mockReturnValue({ push: mockPush });
+const mockReplace = jest.fn();
+(useRouter as jest.Mock).mockReturnValue({ push: mockPush, replace: mockReplace });
+(usePathname as jest.Mock).mockReturnValue("/pages/BrowsePage");
 
 describe("BrowsePage Component (Firestore & IndexedDB Tests)", () => {
 
     beforeEach(() => {
         jest.clearAllMocks();
+        (useSearchParams as jest.Mock).mockReturnValue(new URLSearchParams());
     });
 
     afterEach(() => {
@@ -112,7 +128,9 @@ describe("BrowsePage Component (Firestore & IndexedDB Tests)", () => {
                     imageURL: "imgA.jpg",
                     description: "Description A",
                     seller: "sellerA@example.com",
-                    sold: false,
+                    status: "active",
+                    canTransitionTo: jest.fn(),
+                    transitionTo: jest.fn(),
                     markAsSold: jest.fn(), // dd mock function
                     updateDetails: jest.fn(), // Add mock function
                     getSummary: jest.fn(() => "Product A - $10 (Category A)"), // Add mock function
@@ -125,7 +143,9 @@ describe("BrowsePage Component (Firestore & IndexedDB Tests)", () => {
                     imageURL: "imgB.jpg",
                     description: "Description B",
                     seller: "sellerB@example.com",
-                    sold: false,
+                    status: "active",
+                    canTransitionTo: jest.fn(),
+                    transitionTo: jest.fn(),
                     markAsSold: jest.fn(), //  Add mock function
                     updateDetails: jest.fn(), //  Add mock function
                     getSummary: jest.fn(() => "Product B - $20 (Category B)"), //  Add mock function
@@ -161,7 +181,9 @@ describe("BrowsePage Component (Firestore & IndexedDB Tests)", () => {
             imageURL: "imgA.jpg",
             description: "Description A",
             seller: userEmail, // Ensure seller matches authenticated user
-            sold: false,
+            status: "active",
+            canTransitionTo: jest.fn(),
+            transitionTo: jest.fn(),
             markAsSold: jest.fn(), //  Add mock function
             updateDetails: jest.fn(), //  Add mock function
             getSummary: jest.fn(() => "Product B - $20 (Category B)"), //  Add mock function
@@ -202,7 +224,9 @@ describe("BrowsePage Component (Firestore & IndexedDB Tests)", () => {
             imageURL: "imgA.jpg",
             description: "Description A",
             seller: "sellerA@example.com", // Ensure seller is different from logged-in user
-            sold: false,
+            status: "active",
+            canTransitionTo: jest.fn(),
+            transitionTo: jest.fn(),
             markAsSold: jest.fn(), //  Add mock function
             updateDetails: jest.fn(), //  Add mock function
             getSummary: jest.fn(() => "Product B - $20 (Category B)"), //  Add mock function
@@ -218,8 +242,8 @@ describe("BrowsePage Component (Firestore & IndexedDB Tests)", () => {
 
         // Ensure IndexedDB functions are properly mocked
 
-        (getData as jest.Mock).mockImplementation((collection) => {
-            if (collection === "savedItems") {
+        (getData as jest.Mock).mockImplementation((query) => {
+            if (query.storeName === "savedItems") {
                 return Promise.resolve([]); // No saved items initially
             }
             return Promise.resolve([mockProduct]); // Return product listings
@@ -244,7 +268,8 @@ describe("BrowsePage Component (Firestore & IndexedDB Tests)", () => {
         /// Ensure `addData` was called correctly
         await waitFor(() => {
             expect(addData).toHaveBeenCalledWith("savedItems", expect.objectContaining({
-                id: mockProduct.id,
+                id: `${userEmail}_${mockProduct.id}`, // One saved copy per buyer
+                productId: mockProduct.id,
                 buyerEmail: userEmail
             }));
         });
@@ -275,7 +300,9 @@ describe("BrowsePage Component (Firestore & IndexedDB Tests)", () => {
             imageURL: "imgA.jpg",
             description: "Description A",
             seller: "sellerA@example.com", // Ensure seller is different from logged-in user
-            sold: false,
+            status: "active",
+            canTransitionTo: jest.fn(),
+            transitionTo: jest.fn(),
             markAsSold: jest.fn(), //  Add mock function
             updateDetails: jest.fn(), //  Add mock function
             getSummary: jest.fn(() => "Product B - $20 (Category B)"), //  Add mock function
@@ -336,7 +363,9 @@ describe("BrowsePage Component (Firestore & IndexedDB Tests)", () => {
             imageURL: "imgA.jpg",
             description: "Description A",
             seller: "sellerA@example.com",
-            sold: false,
+            status: "active",
+            canTransitionTo: jest.fn(),
+            transitionTo: jest.fn(),
             markAsSold: jest.fn(), //  Add mock function
             updateDetails: jest.fn(), //  Add mock function
             getSummary: jest.fn(() => "Product B - $20 (Category B)"), //  Add mock function
@@ -419,4 +448,149 @@ describe("BrowsePage Component (Firestore & IndexedDB Tests)", () => {
         );
     });
 
+    test("loads the next page of products when 'Load More' is clicked", async () => {
+        const makeProduct = (id: string, name: string) => ({
+            id,
+            productName: name,
+            price: 10,
+            category: "Category A",
+            imageURL: `${id}.jpg`,
+            description: `Description ${id}`,
+            seller: "sellerA@example.com",
+            status: "active",
+        });
+
+        (onAuthStateChanged as jest.Mock).mockImplementation((_auth, callback) => {
+            callback({ email: "user@example.com" });
+            return jest.fn();
+        });
+
+        (getData as jest.Mock).mockResolvedValue([]);
+        (getDataPage as jest.Mock)
+            .mockResolvedValueOnce({ items: [makeProduct("1", "Product A")], nextPageToken: "token-1" })
+            .mockResolvedValueOnce({ items: [makeProduct("2", "Product B")], nextPageToken: null });
+
+        render(<BrowsePage />);
+
+        await waitFor(() => expect(screen.getByText("Product A")).toBeInTheDocument());
+        fireEvent.click(screen.getByRole("button", { name: /Load More/i }));
+
+        await waitFor(() => expect(screen.getByText("Product B")).toBeInTheDocument());
+        expect(screen.getByText("Product A")).toBeInTheDocument();
+        expect(getDataPage).toHaveBeenLastCalledWith(
+            expect.objectContaining({ storeName: "products" }),
+            expect.objectContaining({ startAfter: "token-1" })
+        );
+        expect(screen.queryByRole("button", { name: /Load More/i })).not.toBeInTheDocument();
+    });
+
+    test("keeps only the loaded products and newer listings live", async () => {
+        const makeProduct = (id: string, name: string, createdAt: string) => ({
+            id,
+            productName: name,
+            price: 10,
+            category: "Category A",
+            imageURL: `${id}.jpg`,
+            description: `Description ${id}`,
+            seller: "sellerA@example.com",
+            status: "active",
+            createdAt,
+        });
+
+        (onAuthStateChanged as jest.Mock).mockImplementation((_auth, callback) => {
+            callback({ email: "user@example.com" });
+            return jest.fn();
+        });
+        (getDataPage as jest.Mock).mockResolvedValueOnce({
+            items: [makeProduct("2", "Product B", "2025-01-02"), makeProduct("1", "Product A", "2025-01-01")],
+            nextPageToken: "token-1",
+        });
+
+        render(<BrowsePage />);
+
+        await waitFor(() => expect(screen.getByText("Product A")).toBeInTheDocument());
+        await waitFor(() => expect(subscribe).toHaveBeenCalledTimes(2));
+        const [[byId, onLoaded], [newer, onNewer]] = (subscribe as jest.Mock).mock.calls;
+        expect(byId.filters).toEqual([{ field: "id", operator: "in", value: ["1", "2"] }]);
+        expect(newer.filters).toEqual(
+            expect.arrayContaining([
+                { field: "status", operator: "in", value: ["active", "reserved"] },
+                { field: "createdAt", operator: ">", value: "2025-01-02" },
+            ])
+        );
+
+        // Product B sold, Product A renamed, and a new listing posted
+        act(() =>
+            onLoaded([
+                makeProduct("1", "Product A2", "2025-01-01"),
+                { ...makeProduct("2", "Product B", "2025-01-02"), status: "sold" },
+            ])
+        );
+        act(() => onNewer([makeProduct("3", "Product C", "2025-01-03")]));
+
+        expect(await screen.findByText("Product A2")).toBeInTheDocument();
+        expect(screen.getByText("Product C")).toBeInTheDocument();
+        expect(screen.queryByText("Product B")).not.toBeInTheDocument();
+    });
+
+    test("queries and sorts by the filters in the URL", async () => {
+        (onAuthStateChanged as jest.Mock).mockImplementation((_auth, callback) => {
+            callback({ email: "user@example.com" });
+            return jest.fn();
+        });
+        (useSearchParams as jest.Mock).mockReturnValue(
+            new URLSearchParams("category=Men's Clothing&condition=good&minPrice=5&maxPrice=20&sort=price-asc")
+        );
+
+        render(<BrowsePage />);
+
+        await waitFor(() => expect(screen.getByText("No products match these filters.")).toBeInTheDocument());
+        expect(getDataPage).toHaveBeenCalledWith(
+            expect.objectContaining({
+                storeName: "products",
+                filters: expect.arrayContaining([
+                    {
+                        field: "category",
+                        operator: "in",
+                        value: expect.arrayContaining(["Men's Clothing", "Men's Shirts"]),
+                    },
+                    { field: "condition", operator: "==", value: "good" },
+                    { field: "price", operator: ">=", value: 5 },
+                    { field: "price", operator: "<=", value: 20 },
+                ]),
+            }),
+            expect.objectContaining({ orderBy: "price", direction: "asc" })
+        );
+        expect(screen.getByLabelText("Sort by")).toHaveValue("price-asc");
+        expect(screen.getByLabelText("Min price")).toHaveValue(5);
+    });
+
+    test("puts changed filters in the URL", async () => {
+        (onAuthStateChanged as jest.Mock).mockImplementation((_auth, callback) => {
+            callback({ email: "user@example.com" });
+            return jest.fn();
+        });
+        (useSearchParams as jest.Mock).mockReturnValue(new URLSearchParams("sort=price-desc"));
+
+        render(<BrowsePage />);
+
+        fireEvent.change(screen.getByLabelText("Condition"), { target: { value: "like-new" } });
+        expect(mockReplace).toHaveBeenLastCalledWith(
+            "/pages/BrowsePage?condition=like-new&sort=price-desc",
+            { scroll: false }
+        );
+
+        fireEvent.change(screen.getByLabelText("Max price"), { target: { value: "15" } });
+        fireEvent.blur(screen.getByLabelText("Max price"));
+        expect(mockReplace).toHaveBeenLastCalledWith("/pages/BrowsePage?maxPrice=15&sort=price-desc", { scroll: false });
+
+        fireEvent.change(screen.getByLabelText("Min price"), { target: { value: "30" } });
+        fireEvent.click(screen.getByRole("button", { name: "Apply" }));
+        expect(screen.getByText("The minimum price must not be above the maximum.")).toBeInTheDocument();
+        expect(mockReplace).toHaveBeenCalledTimes(2);
+
+        fireEvent.click(screen.getByRole("button", { name: "Clear filters" }));
+        expect(mockReplace).toHaveBeenLastCalledWith("/pages/BrowsePage?sort=price-desc", { scroll: false });
+    });
+
 });
@@ -12,18 +12,21 @@
  *   between "Saved Items" and "Purchased Orders" shows the corresponding empty state messages when no items exist.
  * - **Product Display:** Confirms that saved and purchased products are rendered correctly and that product details
  *   are displayed when a product is clicked.
+ * - **Deleted Listings:** Saved copies of listings that no longer exist are hidden.
+ * - **Saved Copies:** A saved copy keyed per buyer follows the live status of the listing it was taken from.
  * - **Modal Functionality:** Ensures that clicking on a product opens a modal displaying detailed product information,
  *   and that the modal can be closed correctly.
  *
  * Mocks and Dependencies:
  * - **Firebase Auth:** The `onAuthStateChanged` function is mocked to simulate both authenticated and unauthenticated states.
  * - **Next.js Navigation:** The `useRouter` hook is mocked to monitor redirection (using `router.push`).
- * - **Data Fetching:** The `getData` function (and others such as `addData` and `deleteData`) from the database handler
- *   module is mocked to simulate data retrieval from either Firestore or IndexedDB.
+ * - **Data Fetching:** The database handler is not mocked. Each test seeds an in-memory storage adapter
+ *   (`createMemoryAdapter`) and installs it with `setStorageAdapters`, so the page runs against real
+ *   filtering and subscription behavior.
  * - **Component Imports:** The BuyingPage component and related models (e.g., Product) are imported to perform the tests.
  *
  * Author: Jayson Baya
- * Last Updated: January 25, 2025
+ * Last Updated: October 19, 2026
  */
 
 
@@ -33,8 +36,10 @@ import { onAuthStateChanged } from "firebase/auth";
 import { ROUTES } from "@/Models/ConstantData";
 import { useRouter } from "next/navigation";
 import BuyingPage from "@/app/pages/BuyingPage/page";
-import {getData} from "@/lib/dbHandler";
-import {Product} from "@/Models/Product";
+import {setStorageAdapters} from "@/lib/dbHandler";
+import {createMemoryAdapter} from "@/lib/storage/memoryAdapter";
+import {StoredRecord} from "@/lib/storage/storageAdapter";
+import {Product, savedItemId} from "@/Models/Product";
 
 // Mock firebase/auth
 jest.mock("firebase/auth", () => ({
@@ -46,15 +51,24 @@ jest.mock("next/navigation", () => ({
     useRouter: jest.fn(),
 }));
 
-jest.mock("@/utils/fetchFirestoreData", () => ({
-    fetchFirestoreData: jest.fn(),
-}));
-
-jest.mock("@/lib/dbHandler", () => ({
-    getData: jest.fn(),
-    addData: jest.fn(),
-    deleteData: jest.fn(),
-}));
+const BUYER_EMAIL = "user@example.com";
+
+// Installs a fresh in-memory store holding the given items for the signed-in buyer, and the listings
+const seedStore = (
+    savedItems: Array<{ id: string }> = [],
+    purchasedItems: Array<{ id: string }> = [],
+    products: Array<{ id: string }> = []
+) => {
+    const forBuyer = (items: Array<{ id: string }>) =>
+        items.map((item) => ({ ...item, buyerEmail: BUYER_EMAIL }) as StoredRecord);
+    setStorageAdapters({
+        primary: createMemoryAdapter({
+            products: products as StoredRecord[],
+            savedItems: forBuyer(savedItems),
+            purchasedItems: forBuyer(purchasedItems),
+        }),
+    });
+};
 
 const mockPush = jest.fn();
 
@@ -65,6 +79,7 @@ const mockPush = jest.fn();
 describe("BuyingPage Component", () => {
     beforeEach(() => {
         jest.clearAllMocks();
+        seedStore();
     });
 
     test("redirects unauthenticated users to login", async () => {
@@ -89,18 +104,16 @@ describe("BuyingPage Component", () => {
                 imageURL: "imgA.jpg",
                 description: "Description A",
                 seller: "sellerA@example.com",
-                sold: false,
+                status: "active",
             },
         ];
 
         (onAuthStateChanged as jest.Mock).mockImplementation((_auth, callback) => {
-            callback({ email: "user@example.com" });
+            callback({ email: BUYER_EMAIL });
             return jest.fn();
         });
 
-        (getData as jest.Mock)
-            .mockResolvedValueOnce(mockSavedItems) // For saved items
-            .mockResolvedValueOnce([]); // For purchased items
+        seedStore(mockSavedItems, [], mockSavedItems); // The saved listings still exist
 
         render(<BuyingPage />);
 
@@ -110,7 +123,7 @@ describe("BuyingPage Component", () => {
 
     test("switching between tabs shows the correct empty message", async () => {
         (onAuthStateChanged as jest.Mock).mockImplementation((_auth, callback) => {
-            callback({ email: "user@example.com" });
+            callback({ email: BUYER_EMAIL });
             return jest.fn();
         });
 
@@ -146,7 +159,9 @@ describe("BuyingPage Component", () => {
                 imageURL: "imgCase.jpg",
                 description: "cc",
                 seller: "caio@hanover.edu",
-                sold: false,
+                status: "active",
+                canTransitionTo: jest.fn(),
+                transitionTo: jest.fn(),
                 markAsSold: jest.fn(), //  Add mock function
                 updateDetails: jest.fn(), //  Add mock function
                 getSummary: jest.fn(() => "Product B - $20 (Category B)"), //  Add mock function
@@ -154,11 +169,11 @@ describe("BuyingPage Component", () => {
         ];
 
         (onAuthStateChanged as jest.Mock).mockImplementation((_auth, callback) => {
-            callback({ email: "user@example.com" });
+            callback({ email: BUYER_EMAIL });
             return jest.fn();
         });
 
-        (getData as jest.Mock).mockResolvedValueOnce(mockSavedItems);
+        seedStore(mockSavedItems, [], mockSavedItems); // The saved listings still exist
 
         render(<BuyingPage />);
 
@@ -187,6 +202,39 @@ describe("BuyingPage Component", () => {
         });
     });
 
+    test("hides saved items whose listing was deleted", async () => {
+        (onAuthStateChanged as jest.Mock).mockImplementation((_auth, callback) => {
+            callback({ email: BUYER_EMAIL });
+            return jest.fn();
+        });
+        const listing = (id: string, productName: string) =>
+            ({ id, productName, price: 5, imageURL: `${id}.jpg`, description: "", status: "active" }) as { id: string };
+
+        // The seller deleted "Chair", but the buyer's saved copy of it was left behind
+        seedStore([listing("desk", "Desk"), listing("chair", "Chair")], [], [listing("desk", "Desk")]);
+
+        render(<BuyingPage />);
+
+        await waitFor(() => expect(screen.getByText("Desk")).toBeInTheDocument());
+        await waitFor(() => expect(screen.queryByText("Chair")).not.toBeInTheDocument());
+    });
+
+    test("follows the listing of a saved copy keyed per buyer", async () => {
+        (onAuthStateChanged as jest.Mock).mockImplementation((_auth, callback) => {
+            callback({ email: BUYER_EMAIL });
+            return jest.fn();
+        });
+        const desk = { id: "desk", productName: "Desk", price: 5, imageURL: "desk.jpg", description: "", status: "reserved" };
+        const savedDesk = { ...desk, id: savedItemId(BUYER_EMAIL, "desk"), productId: "desk", status: "active" };
+
+        seedStore([savedDesk], [], [desk]);
+
+        render(<BuyingPage />);
+
+        await waitFor(() => expect(screen.getByText("Desk")).toBeInTheDocument());
+        await waitFor(() => expect(screen.getByText("Reserved")).toBeInTheDocument());
+    });
+
     test("displays a clickable purchased item under Purchased Orders tab using IndexedDB and opens ProductModal", async () => {
         const mockPurchasedItems: Product[] = [
             {
@@ -197,7 +245,9 @@ describe("BuyingPage Component", () => {
                 imageURL: "imgLaptop.jpg",
                 description: "High-performance laptop",
                 seller: "jayson@hanover.edu",
-                sold: true,
+                status: "sold",
+                canTransitionTo: jest.fn(),
+                transitionTo: jest.fn(),
                 markAsSold: jest.fn(), //  Add mock function
                 updateDetails: jest.fn(), //  Add mock function
                 getSummary: jest.fn(() => "Product B - $20 (Category B)"), //  Add mock function
@@ -205,11 +255,11 @@ describe("BuyingPage Component", () => {
         ];
 
         (onAuthStateChanged as jest.Mock).mockImplementation((_auth, callback) => {
-            callback({ email: "user@example.com" });
+            callback({ email: BUYER_EMAIL });
             return jest.fn();
         });
 
-        (getData as jest.Mock).mockResolvedValueOnce([]).mockResolvedValueOnce(mockPurchasedItems);
+        seedStore([], mockPurchasedItems);
 
         render(<BuyingPage />);
 
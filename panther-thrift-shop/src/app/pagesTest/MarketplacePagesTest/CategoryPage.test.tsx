@@ -0,0 +1,130 @@
+/**
+ * CategoryPage.test.tsx
+ *
+ * This file contains unit tests for the category marketplace pages (`/marketplace/<slug>`) and the category
+ * list of the MarketplaceSidebar in the Panther Thrift Shop web application, using React Testing Library and
+ * Jest. Listings are served by the real `dbHandler` from an in-memory storage adapter.
+ *
+ * Key Features Tested:
+ * - **Authentication:** Unauthenticated users are redirected to the login page.
+ * - **Category Listings:** A category page lists the unsold products of the category and its subcategories only.
+ * - **Unknown Categories:** A slug that matches no category shows a "Category not found" message.
+ * - **Sidebar:** Categories link to their pages, show per-category counts and highlight the active category.
+ *
+ * Mocks:
+ * - Firebase Auth (`onAuthStateChanged`) and Next.js navigation (`useParams`, `useRouter`).
+ *
+ * Author: Jayson Baya
+ * Last Updated: October 19, 2026
+ */
+
+import React from "react";
+import { fireEvent, render, screen, waitFor } from "@testing-library/react";
+import { onAuthStateChanged } from "firebase/auth";
+import { useParams, useRouter } from "next/navigation";
+import CategoryPage from "@/app/marketplace/[slug]/page";
+import MarketplaceSidebar from "@/components/MarketplaceSidebar";
+import { setStorageAdapters } from "@/lib/dbHandler";
+import { createMemoryAdapter } from "@/lib/storage/memoryAdapter";
+import { FIRESTORE_COLLECTIONS, ROUTES } from "@/Models/ConstantData";
+
+jest.mock("firebase/auth", () => ({
+    getAuth: jest.fn(() => ({ currentUser: null })),
+    onAuthStateChanged: jest.fn(),
+}));
+
+jest.mock("next/navigation", () => ({
+    useParams: jest.fn(),
+    useRouter: jest.fn(),
+}));
+
+const listing = (id: string, productName: string, category: string, status = "active") => ({
+    id,
+    productName,
+    category,
+    status,
+    price: 10,
+    description: `${productName} for sale`,
+    imageURL: `${id}.png`,
+    seller: "seller@hanover.edu",
+    createdAt: `2025-01-0${id.slice(1)}T00:00:00Z`,
+});
+
+const mockPush = jest.fn();
+
+describe("Category pages", () => {
+    beforeEach(() => {
+        jest.clearAllMocks();
+        (useRouter as jest.Mock).mockReturnValue({ push: mockPush });
+        (onAuthStateChanged as jest.Mock).mockImplementation((_auth, callback) => {
+            callback({ email: "buyer@hanover.edu" });
+            return jest.fn();
+        });
+        setStorageAdapters({
+            primary: createMemoryAdapter({
+                [FIRESTORE_COLLECTIONS.PRODUCTS]: [
+                    listing("p1", "Flannel Shirt", "Men's Shirts"),
+                    listing("p2", "Winter Coat", "Men's Clothing", "reserved"),
+                    listing("p3", "Sold Jeans", "Men's Pants", "sold"),
+                    listing("p4", "Toaster", "Appliances"),
+                ],
+            }),
+        });
+    });
+
+    test("redirects unauthenticated users to login", async () => {
+        (useParams as jest.Mock).mockReturnValue({ slug: "mens-clothing" });
+        (onAuthStateChanged as jest.Mock).mockImplementation((_auth, callback) => {
+            callback(null);
+            return jest.fn();
+        });
+
+        render(<CategoryPage />);
+
+        await waitFor(() => expect(mockPush).toHaveBeenCalledWith(ROUTES.LOGIN));
+    });
+
+    test("lists the unsold products of the category and its subcategories", async () => {
+        (useParams as jest.Mock).mockReturnValue({ slug: "mens-clothing" });
+
+        render(<CategoryPage />);
+
+        expect(await screen.findByText("Flannel Shirt")).toBeInTheDocument();
+        expect(screen.getByText("Winter Coat")).toBeInTheDocument();
+        expect(screen.queryByText("Sold Jeans")).not.toBeInTheDocument();
+        expect(screen.queryByText("Toaster")).not.toBeInTheDocument();
+
+        fireEvent.click(screen.getByRole("button", { name: "Men's Shirts" }));
+        expect(mockPush).toHaveBeenCalledWith("/marketplace/mens-shirts");
+    });
+
+    test("shows only the subcategory's products, with a breadcrumb to its parent", async () => {
+        (useParams as jest.Mock).mockReturnValue({ slug: "mens-shirts" });
+
+        render(<CategoryPage />);
+
+        expect(await screen.findByText("Flannel Shirt")).toBeInTheDocument();
+        expect(screen.queryByText("Winter Coat")).not.toBeInTheDocument();
+        expect(screen.getByRole("navigation", { name: "Breadcrumb" })).toHaveTextContent("Men's Clothing");
+    });
+
+    test("tells the user when no category has the slug", async () => {
+        (useParams as jest.Mock).mockReturnValue({ slug: "spaceships" });
+
+        render(<CategoryPage />);
+
+        expect(await screen.findByText("Category not found.")).toBeInTheDocument();
+    });
+
+    test("shows per-category counts in the sidebar and highlights the active category", async () => {
+        render(<MarketplaceSidebar selectedCategory="Men's Shirts" setSelectedCategory={jest.fn()} />);
+
+        const shirts = screen.getByRole("button", { name: /^Men's Shirts/ });
+        expect(shirts).toHaveAttribute("aria-current", "page");
+        await waitFor(() => expect(screen.getByLabelText("2 listings")).toBeInTheDocument()); // Men's Clothing
+        expect(screen.getAllByLabelText("1 listing")).toHaveLength(2); // Men's Shirts and Appliances
+
+        fireEvent.click(screen.getByRole("button", { name: /^Textbooks/ }));
+        expect(mockPush).toHaveBeenCalledWith("/marketplace/textbooks");
+    });
+});
@@ -0,0 +1,86 @@
+/**
+ * ProductModal.test.tsx
+ *
+ * This file contains unit tests for the ProductModal component of the Panther Thrift Shop web application,
+ * using React Testing Library and Jest.
+ *
+ * Key Features Tested:
+ * - **Photo Carousel:** The previous/next buttons and thumbnails step through the photos in order, wrapping around.
+ * - **Single Image:** Listings stored with one `imageURL` show that image without carousel controls.
+ * - **Listing Details:** Condition, pickup location and tags are shown when the listing has them.
+ * - **Category Attributes:** The attributes of the listing's category are shown in schema order, with units.
+ *
+ * Author: Jayson Baya
+ * Last Updated: October 19, 2026
+ */
+
+import React from "react";
+import { fireEvent, render, screen } from "@testing-library/react";
+import ProductModal from "@/components/ProductModal";
+import { Product } from "@/Models/Product";
+
+const jacket = Product.fromRecord({
+    id: "p1",
+    productName: "Denim Jacket",
+    price: 30,
+    category: "Men's Clothing",
+    description: "Barely worn",
+    seller: "seller@hanover.edu",
+    imageURL: "front.png",
+    imageURLs: ["front.png", "back.png", "tag.png"],
+    condition: "like-new",
+    tags: ["denim", "vintage"],
+    pickupLocation: "Campus Center lobby",
+});
+
+describe("ProductModal Component", () => {
+    test("steps through the photos in order", () => {
+        render(<ProductModal product={jacket} isOpen={true} onClose={jest.fn()} />);
+
+        expect(screen.getByAltText("Denim Jacket, photo 1 of 3")).toHaveAttribute("src", "front.png");
+
+        fireEvent.click(screen.getByRole("button", { name: "Next photo" }));
+        expect(screen.getByAltText("Denim Jacket, photo 2 of 3")).toHaveAttribute("src", "back.png");
+
+        fireEvent.click(screen.getByRole("button", { name: "Show photo 3" }));
+        fireEvent.click(screen.getByRole("button", { name: "Next photo" }));
+        expect(screen.getByAltText("Denim Jacket, photo 1 of 3")).toBeInTheDocument();
+
+        fireEvent.click(screen.getByRole("button", { name: "Previous photo" }));
+        expect(screen.getByAltText("Denim Jacket, photo 3 of 3")).toHaveAttribute("src", "tag.png");
+    });
+
+    test("shows a single-image listing without carousel controls", () => {
+        const lamp = Product.fromRecord({ id: "p2", productName: "Lamp", imageURL: "lamp.png" });
+
+        render(<ProductModal product={lamp} isOpen={true} onClose={jest.fn()} />);
+
+        expect(screen.getByAltText("Lamp")).toHaveAttribute("src", "lamp.png");
+        expect(screen.queryByRole("button", { name: "Next photo" })).not.toBeInTheDocument();
+    });
+
+    test("shows the condition, pickup location and tags", () => {
+        render(<ProductModal product={jacket} isOpen={true} onClose={jest.fn()} />);
+
+        expect(screen.getByText("Condition: Like New")).toBeInTheDocument();
+        expect(screen.getByText("Pickup: Campus Center lobby")).toBeInTheDocument();
+        expect(screen.getByText("#vintage")).toBeInTheDocument();
+    });
+
+    test("shows the category attributes", () => {
+        const kettle = Product.fromRecord({
+            id: "p3",
+            productName: "Kettle",
+            category: "Appliances",
+            imageURL: "kettle.png",
+            attributes: { wattage: 1500, brand: "Cuisinart", size: "L" },
+        });
+
+        render(<ProductModal product={kettle} isOpen={true} onClose={jest.fn()} />);
+
+        expect(screen.getByText("Brand: Cuisinart")).toBeInTheDocument();
+        expect(screen.getByText("Wattage: 1500 W")).toBeInTheDocument();
+        // Only fields of the listing's own category are shown
+        expect(screen.queryByText("Size: L")).not.toBeInTheDocument();
+    });
+});
@@ -0,0 +1,113 @@
+/**
+ * SearchPage.test.tsx
+ *
+ * This file contains unit tests for listing search in the Panther Thrift Shop web application: the search box of
+ * the MarketplaceNavBar and the SearchPage results, using React Testing Library and Jest. Listings are served by
+ * the real `dbHandler` from an in-memory storage adapter.
+ *
+ * Key Features Tested:
+ * - **Search Box:** Submitting a query opens the search page for it; blank queries are ignored.
+ * - **Results:** Only listed products matching the query are shown, most relevant first, with highlighted matches.
+ * - **No Results:** A query without matches tells the user so.
+ *
+ * Mocks:
+ * - Firebase Auth (`onAuthStateChanged`, `signOut`) and Next.js navigation (`useRouter`, `useSearchParams`).
+ *
+ * Author: Jayson Baya
+ * Last Updated: October 19, 2026
+ */
+
+import React from "react";
+import { fireEvent, render, screen, within } from "@testing-library/react";
+import { onAuthStateChanged } from "firebase/auth";
+import { useRouter, useSearchParams } from "next/navigation";
+import SearchPage from "@/app/pages/SearchPage/page";
+import MarketplaceNavBar from "@/components/MarketplaceNavbar";
+import { setStorageAdapters } from "@/lib/dbHandler";
+import { createMemoryAdapter } from "@/lib/storage/memoryAdapter";
+import { FIRESTORE_COLLECTIONS } from "@/Models/ConstantData";
+
+jest.mock("firebase/auth", () => ({
+    getAuth: jest.fn(() => ({ currentUser: null })),
+    onAuthStateChanged: jest.fn(),
+    signOut: jest.fn(),
+}));
+
+jest.mock("next/navigation", () => ({
+    useRouter: jest.fn(),
+    useSearchParams: jest.fn(),
+}));
+
+const listing = (id: string, productName: string, description: string, status = "active") => ({
+    id,
+    productName,
+    description,
+    status,
+    category: "Appliances",
+    price: 10,
+    imageURL: `${id}.png`,
+    seller: "seller@hanover.edu",
+    createdAt: `2025-01-0${id.slice(1)}T00:00:00Z`,
+});
+
+const mockPush = jest.fn();
+
+const searchFor = (query: string) =>
+    (useSearchParams as jest.Mock).mockReturnValue(new URLSearchParams(query ? { q: query } : {}));
+
+describe("Search", () => {
+    beforeEach(() => {
+        jest.clearAllMocks();
+        (useRouter as jest.Mock).mockReturnValue({ push: mockPush });
+        (onAuthStateChanged as jest.Mock).mockImplementation((_auth, callback) => {
+            callback({ email: "buyer@hanover.edu" });
+            return jest.fn();
+        });
+        setStorageAdapters({
+            primary: createMemoryAdapter({
+                [FIRESTORE_COLLECTIONS.PRODUCTS]: [
+                    listing("p1", "Desk Lamp", "Fits next to a mini fridge."),
+                    listing("p2", "Mini Fridge", "Keeps drinks cold."),
+                    listing("p3", "Old Mini Fridge", "Already sold.", "sold"),
+                    listing("p4", "Toaster", "Two slots."),
+                ],
+            }),
+        });
+    });
+
+    test("opens the search page for the query typed in the navbar", () => {
+        render(<MarketplaceNavBar />);
+        const searchBox = screen.getByRole("searchbox", { name: "Search listings" });
+
+        fireEvent.submit(searchBox);
+        expect(mockPush).not.toHaveBeenCalled();
+
+        fireEvent.change(searchBox, { target: { value: "  mini fridge " } });
+        fireEvent.submit(searchBox);
+        expect(mockPush).toHaveBeenCalledWith("/pages/SearchPage?q=mini%20fridge");
+    });
+
+    test("shows the matching listed products, most relevant first, with highlighted matches", async () => {
+        searchFor("mini fridge");
+
+        render(<SearchPage />);
+
+        expect(await screen.findByText("2 results")).toBeInTheDocument();
+        const headings = screen.getAllByRole("heading", { level: 2 }).map((heading) => heading.textContent);
+        expect(headings).toEqual(["Mini Fridge", "Desk Lamp"]);
+        expect(screen.queryByText("Toaster")).not.toBeInTheDocument();
+
+        const name = screen.getAllByRole("heading", { level: 2 })[0];
+        expect(within(name).getByText("Mini").tagName).toBe("MARK");
+        expect(within(name).getByText("Fridge").tagName).toBe("MARK");
+    });
+
+    test("tells the user when nothing matches", async () => {
+        searchFor("spaceship");
+
+        render(<SearchPage />);
+
+        expect(await screen.findByText('No listings match "spaceship".')).toBeInTheDocument();
+        expect(screen.getByText("0 results")).toBeInTheDocument();
+    });
+});
@@ -9,28 +9,44 @@
  * Key Features Tested:
  * - Authentication: Ensures unauthenticated users are redirected to the login page.
  * - Creating a New Listing: Verifies that a seller can successfully create a new product listing.
+ * - Listing Photos and Details: Verifies that every photo is uploaded in the chosen order, with the condition,
+ *   tags, pickup location and category attributes.
+ * - Photo Processing: Photos go through the image pipeline and are uploaded with their thumbnails to unique
+ *   paths under the seller and the listing; photos the pipeline rejects stop the listing.
+ * - Upload Progress: Each photo shows a progress bar; a failed upload keeps the form, and submitting again
+ *   only uploads the photos that failed.
+ * - Category Attributes: Invalid attributes are reported under their field and nothing is uploaded or saved.
+ * - Listing Validation: Fields that break the product schema are reported under the field, not in a popup.
  * - Displaying Product Listings: Confirms that product listings are correctly displayed after creation.
  * - Editing a Listing: Tests the functionality for a seller to open an edit modal and update product details.
- * - Marking an Item as Sold: Simulates a seller marking a product as sold and adding a buyer's email.
+ * - Withdrawing and Deleting: Both ask for confirmation; deleting also removes the saved copies and the photos.
+ * - Editing Photos: Photos can be removed, added and made the cover; the replaced files are deleted from Storage.
+ * - Conflict Notices: Confirms that sellers are told when a sync overrode one of their edits.
+ * - Marking an Item as Sold: Simulates a seller marking a product as sold and adding a buyer's email, which goes
+ *   through the `markProductAsSold` transaction.
  *
  * Mocks and Dependencies:
  * - Firebase Modules: Firebase Authentication (onAuthStateChanged), Firestore, and Storage functions are mocked.
  * - Next.js Router: The useRouter hook is mocked to monitor redirection.
  * - Database Handler: Functions from @/lib/dbHandler are mocked to simulate data interactions with IndexedDB.
- * - Firestore and Storage mocks ensure that external API calls are simulated.
+ * - Cache Sync: `getDataStaleWhileRevalidate` is mocked to return the products from the mocked Firestore `getDocs`.
+ * - Firestore and Storage mocks ensure that external API calls are simulated. Download URLs are derived from the
+ *   upload path, and `processImage` is mocked because jsdom cannot decode images.
  *
  * Author: Jayson Baya
- * Last Updated: January 25, 2025
+ * Last Updated: October 19, 2026
  */
 
 import React from "react";
-import { render, waitFor, fireEvent } from "@testing-library/react";
+import { render, waitFor, fireEvent, screen } from "@testing-library/react";
 import SellerPage from "@/app/pages/SellersPage/page";
 import { onAuthStateChanged } from "firebase/auth";
 import { useRouter } from "next/navigation";
 import { ROUTES, FIRESTORE_COLLECTIONS } from "@/Models/ConstantData";
-import {addData, updateData} from "@/lib/dbHandler";
-import { getDownloadURL } from "firebase/storage";
+import {addData, deleteData, dismissConflict, getConflicts, getData, updateData} from "@/lib/dbHandler";
+import {markProductAsSold} from "@/lib/sales";
+import { deleteObject, getDownloadURL, uploadBytesResumable } from "firebase/storage";
+import { InvalidImageError, processImage } from "@/lib/imagePipeline";
 import { getDocs } from "firebase/firestore";
 
 // ----------------------
@@ -53,21 +69,32 @@ jest.mock("@/lib/dbHandler", () => ({
     getData: jest.fn(() => Promise.resolve([])),
     addData: jest.fn(() => Promise.resolve()),
     updateData: jest.fn(() => Promise.resolve()),
-    initializeDB: jest.fn(() =>
-        Promise.resolve({
-            transaction: jest.fn().mockReturnValue({
-                objectStore: jest.fn(() => ({
-                    getAll: jest.fn(() => Promise.resolve([])),
-                    put: jest.fn(() => Promise.resolve()),
-                    add: jest.fn(() => Promise.resolve()),
-                    delete: jest.fn(() => Promise.resolve()),
-                })),
-                done: Promise.resolve(),
-            }),
-        })
+    deleteData: jest.fn(() => Promise.resolve()),
+    getUnsyncedIds: jest.fn(() => Promise.resolve(new Set())),
+    onOutboxChange: jest.fn(() => jest.fn()),
+    toUnsyncedIds: jest.fn(() => new Set()),
+    getConflicts: jest.fn(() => Promise.resolve([])),
+    onConflictsChange: jest.fn(() => jest.fn()),
+    resolveConflict: jest.fn(() => Promise.resolve()),
+    dismissConflict: jest.fn(() => Promise.resolve()),
+}));
+
+// Serve listings straight from the mocked Firestore getDocs, as a revalidation against an empty cache would.
+jest.mock("@/lib/cacheSync", () => ({
+    getDataStaleWhileRevalidate: jest.fn(
+        async (_query: unknown, onData: (records: unknown[]) => void) => {
+            const { getDocs } = jest.requireMock("firebase/firestore");
+            const snapshot = await getDocs();
+            onData(snapshot.docs.map((doc: { id: string; data: () => object }) => ({ id: doc.id, ...doc.data() })));
+        }
     ),
 }));
 
+// Mock the sale transaction; its behavior is covered in DatabaseTest/sales.test.ts.
+jest.mock("@/lib/sales", () => ({
+    markProductAsSold: jest.fn(() => Promise.resolve(true)),
+}));
+
 // Mock Firebase Firestore.
 jest.mock("firebase/firestore", () => ({
     getFirestore: jest.fn(() => ({})),
@@ -90,7 +117,7 @@ jest.mock("firebase/storage", () => ({
     // ref returns the path string.
     ref: jest.fn((_storage: unknown, path: string): string => path),
     // uploadBytesResumable now types its callbacks explicitly.
-    uploadBytesResumable: jest.fn((): {
+    uploadBytesResumable: jest.fn((storageRef: string): {
             on: (
                 event: string,
                 progress: (snapshot: { bytesTransferred: number; totalBytes: number }) => void,
@@ -108,12 +135,30 @@ jest.mock("firebase/storage", () => ({
                 // For simplicity, we call the complete callback immediately.
                 complete();
             },
-            snapshot: { ref: "test-ref" },
+            snapshot: { ref: storageRef },
         })
     ),
-    getDownloadURL: jest.fn(() => Promise.resolve("http://example.com/test-image.png")),
+    getDownloadURL: jest.fn((path: string) => Promise.resolve(`http://example.com/${path}`)),
+    deleteObject: jest.fn(() => Promise.resolve()),
 }));
 
+// jsdom cannot decode images, so the pipeline hands back the photo and a stand-in thumbnail.
+jest.mock("@/lib/imagePipeline", () => ({
+    ...jest.requireActual("@/lib/imagePipeline"),
+    processImage: jest.fn(async (file: File) => ({
+        image: file,
+        thumbnail: new File(["thumb"], `thumb-${file.name}`, { type: "image/jpeg" }),
+        width: 100,
+        height: 100,
+    })),
+}));
+
+// The path a file was uploaded to
+const uploadPathOf = (name: string): string => {
+    const call = (uploadBytesResumable as jest.Mock).mock.calls.find(([, file]) => (file as File).name === name);
+    return call?.[0];
+};
+
 // Mock the Next.js router.
 const mockPush = jest.fn();
 (useRouter as jest.Mock).mockReturnValue({ push: mockPush });
@@ -143,7 +188,7 @@ describe("SellerPage Component", () => {
 
     test("creates a new listing successfully", async () => {
         (onAuthStateChanged as jest.Mock).mockImplementation((_auth, callback) => {
-            callback({ email: "seller@example.com" });
+            callback({ email: "seller@example.com", uid: "seller-uid" });
             return jest.fn();
         });
 
@@ -182,13 +227,21 @@ describe("SellerPage Component", () => {
                     category: "Appliances",
                     price: 99.99,
                     description: "A test product",
-                    imageURL: "http://example.com/test-image.png",
+                    imageURL: `http://example.com/${uploadPathOf("test-image.png")}`,
+                    thumbnailURL: `http://example.com/${uploadPathOf("thumb-test-image.png")}`,
                     seller: "seller@example.com",
-                    sold: false,
+                    status: "active",
                 })
             );
         });
 
+        // The photo and its thumbnail live under the seller and the new listing
+        const { id } = (addData as jest.Mock).mock.calls[0][1];
+        expect(uploadPathOf("test-image.png")).toMatch(new RegExp(`^products/seller-uid/${id}/[\\w-]+\\.jpg$`));
+        expect(uploadPathOf("thumb-test-image.png")).toMatch(
+            new RegExp(`^products/seller-uid/${id}/thumbnails/[\\w-]+\\.jpg$`)
+        );
+
         // Optionally, verify that form fields are reset.
         expect(productNameInput.value).toBe("");
         expect(categorySelect.value).toBe("");
@@ -196,6 +249,223 @@ describe("SellerPage Component", () => {
         expect(descriptionInput.value).toBe("");
     });
 
+    test("uploads every photo and keeps the chosen order", async () => {
+        (onAuthStateChanged as jest.Mock).mockImplementation((_auth, callback) => {
+            callback({ email: "seller@example.com", uid: "seller-uid" });
+            return jest.fn();
+        });
+        const { container, getByText, getByRole, getByLabelText, getByPlaceholderText } = render(<SellerPage />);
+
+        fireEvent.change(container.querySelector('input[type="text"]') as HTMLInputElement, {
+            target: { value: "Denim Jacket" },
+        });
+        fireEvent.change(container.querySelector("select") as HTMLSelectElement, {
+            target: { value: "Men's Clothing" },
+        });
+        fireEvent.change(getByLabelText(/^Size/), { target: { value: "M" } });
+        fireEvent.change(container.querySelector('input[type="number"]') as HTMLInputElement, {
+            target: { value: "30" },
+        });
+        fireEvent.change(container.querySelector("textarea") as HTMLTextAreaElement, {
+            target: { value: "Barely worn" },
+        });
+        fireEvent.change(getByText("Select Condition").parentElement as HTMLSelectElement, {
+            target: { value: "like-new" },
+        });
+        fireEvent.change(getByPlaceholderText("e.g. vintage, denim"), { target: { value: "Denim, vintage, denim" } });
+        fireEvent.change(getByPlaceholderText("e.g. Campus Center lobby"), { target: { value: "Library" } });
+        fireEvent.change(container.querySelector('input[type="file"]') as HTMLInputElement, {
+            target: {
+                files: [
+                    new File(["back"], "back.png", { type: "image/png" }),
+                    new File(["front"], "front.png", { type: "image/png" }),
+                ],
+            },
+        });
+
+        // Make the second photo the cover
+        fireEvent.click(getByRole("button", { name: "Move front.png up" }));
+        fireEvent.click(getByText(/create listing/i));
+
+        await waitFor(() => expect(addData).toHaveBeenCalled());
+        const url = (name: string) => `http://example.com/${uploadPathOf(name)}`;
+        await waitFor(() => {
+            expect(addData).toHaveBeenCalledWith(
+                FIRESTORE_COLLECTIONS.PRODUCTS,
+                expect.objectContaining({
+                    imageURL: url("front.png"),
+                    imageURLs: [url("front.png"), url("back.png")],
+                    thumbnailURLs: [url("thumb-front.png"), url("thumb-back.png")],
+                    condition: "like-new",
+                    tags: ["denim", "vintage"],
+                    pickupLocation: "Library",
+                    attributes: { size: "M" },
+                })
+            );
+        });
+    });
+
+    test("rejects a listing whose category attributes are invalid", async () => {
+        (onAuthStateChanged as jest.Mock).mockImplementation((_auth, callback) => {
+            callback({ email: "seller@example.com", uid: "seller-uid" });
+            return jest.fn();
+        });
+
+        const { container, getByText, getByLabelText } = render(<SellerPage />);
+
+        fireEvent.change(container.querySelector('input[type="text"]') as HTMLInputElement, {
+            target: { value: "Calculus" },
+        });
+        fireEvent.change(container.querySelector("select") as HTMLSelectElement, { target: { value: "Textbooks" } });
+        fireEvent.change(getByLabelText(/^ISBN/), { target: { value: "978-0-13-468599-2" } });
+        fireEvent.change(getByLabelText("Course Code"), { target: { value: "CS 220" } });
+        fireEvent.change(getByText("Price").parentElement?.querySelector("input") as HTMLInputElement, {
+            target: { value: "40" },
+        });
+        fireEvent.change(container.querySelector("textarea") as HTMLTextAreaElement, {
+            target: { value: "Some highlighting" },
+        });
+        fireEvent.change(container.querySelector('input[type="file"]') as HTMLInputElement, {
+            target: { files: [new File(["cover"], "cover.png", { type: "image/png" })] },
+        });
+
+        fireEvent.click(getByText(/create listing/i));
+
+        expect(await screen.findByText("ISBN must be a valid ISBN-10 or ISBN-13.")).toBeInTheDocument();
+        expect(getDownloadURL).not.toHaveBeenCalled();
+        expect(addData).not.toHaveBeenCalled();
+
+        // Fix the check digit and try again
+        fireEvent.change(getByLabelText(/^ISBN/), { target: { value: "978-0-13-468599-1" } });
+        fireEvent.click(getByText(/create listing/i));
+
+        await waitFor(() => {
+            expect(addData).toHaveBeenCalledWith(
+                FIRESTORE_COLLECTIONS.PRODUCTS,
+                expect.objectContaining({
+                    category: "Textbooks",
+                    attributes: { isbn: "978-0-13-468599-1", courseCode: "CS 220" },
+                })
+            );
+        });
+    });
+
+    test("shows the errors of the listing under their fields and saves nothing", async () => {
+        (onAuthStateChanged as jest.Mock).mockImplementation((_auth, callback) => {
+            callback({ email: "seller@example.com", uid: "seller-uid" });
+            return jest.fn();
+        });
+
+        const { container, getByText } = render(<SellerPage />);
+
+        fireEvent.change(container.querySelector('input[type="text"]') as HTMLInputElement, {
+            target: { value: "x".repeat(5000) },
+        });
+        fireEvent.change(container.querySelector("select") as HTMLSelectElement, { target: { value: "Appliances" } });
+        fireEvent.change(getByText("Price").parentElement?.querySelector("input") as HTMLInputElement, {
+            target: { value: "-5" },
+        });
+
+        fireEvent.click(getByText(/create listing/i));
+
+        expect(await screen.findByText("The product name must be at most 100 characters.")).toBeInTheDocument();
+        expect(screen.getByText("The price must be between $0.01 and $10,000.00.")).toBeInTheDocument();
+        expect(screen.getByText("Enter a description.")).toBeInTheDocument();
+        expect(screen.getByText("A listing needs at least one photo.")).toBeInTheDocument();
+        expect(screen.queryByText("Close")).not.toBeInTheDocument();
+        expect(uploadBytesResumable).not.toHaveBeenCalled();
+        expect(addData).not.toHaveBeenCalled();
+    });
+
+    test("does not list the product when a photo is rejected", async () => {
+        (onAuthStateChanged as jest.Mock).mockImplementation((_auth, callback) => {
+            callback({ email: "seller@example.com", uid: "seller-uid" });
+            return jest.fn();
+        });
+        (processImage as jest.Mock).mockRejectedValueOnce(
+            new InvalidImageError("notes.pdf", "Only JPEG, PNG or WebP photos can be uploaded.")
+        );
+
+        const { container, getByText } = render(<SellerPage />);
+
+        fireEvent.change(container.querySelector('input[type="text"]') as HTMLInputElement, {
+            target: { value: "Toaster" },
+        });
+        fireEvent.change(container.querySelector("select") as HTMLSelectElement, { target: { value: "Appliances" } });
+        fireEvent.change(getByText("Price").parentElement?.querySelector("input") as HTMLInputElement, {
+            target: { value: "12" },
+        });
+        fireEvent.change(container.querySelector("textarea") as HTMLTextAreaElement, {
+            target: { value: "Two slots" },
+        });
+        fireEvent.change(container.querySelector('input[type="file"]') as HTMLInputElement, {
+            target: { files: [new File(["%PDF"], "notes.pdf", { type: "application/pdf" })] },
+        });
+
+        fireEvent.click(getByText(/create listing/i));
+
+        expect(
+            await screen.findByText("Error uploading image: notes.pdf: Only JPEG, PNG or WebP photos can be uploaded.")
+        ).toBeInTheDocument();
+        expect(uploadBytesResumable).not.toHaveBeenCalled();
+        expect(addData).not.toHaveBeenCalled();
+    });
+
+    test("keeps the form when an upload fails and retries only the failed photo", async () => {
+        (onAuthStateChanged as jest.Mock).mockImplementation((_auth, callback) => {
+            callback({ email: "seller@example.com", uid: "seller-uid" });
+            return jest.fn();
+        });
+        // The first upload, the photo itself, is refused by Storage
+        (uploadBytesResumable as jest.Mock).mockImplementationOnce((storageRef: string) => ({
+            on: (_event: string, _progress: unknown, error: (error: Error) => void) =>
+                error(Object.assign(new Error("No permission."), { code: "storage/unauthorized" })),
+            cancel: jest.fn(),
+            snapshot: { ref: storageRef },
+        }));
+
+        const { container, getByText, getByRole } = render(<SellerPage />);
+        const nameInput = container.querySelector('input[type="text"]') as HTMLInputElement;
+
+        fireEvent.change(nameInput, { target: { value: "Toaster" } });
+        fireEvent.change(container.querySelector("select") as HTMLSelectElement, { target: { value: "Appliances" } });
+        fireEvent.change(getByText("Price").parentElement?.querySelector("input") as HTMLInputElement, {
+            target: { value: "12" },
+        });
+        fireEvent.change(container.querySelector("textarea") as HTMLTextAreaElement, {
+            target: { value: "Two slots" },
+        });
+        fireEvent.change(container.querySelector('input[type="file"]') as HTMLInputElement, {
+            target: {
+                files: [
+                    new File(["front"], "front.jpg", { type: "image/jpeg" }),
+                    new File(["back"], "back.jpg", { type: "image/jpeg" }),
+                ],
+            },
+        });
+
+        fireEvent.click(getByText(/create listing/i));
+
+        expect(await screen.findByText("Error uploading image: No permission.")).toBeInTheDocument();
+        expect(getByText("Failed: No permission.")).toBeInTheDocument();
+        expect(getByRole("progressbar", { name: "Upload of back.jpg" })).toHaveAttribute("aria-valuenow", "100");
+        expect(addData).not.toHaveBeenCalled();
+        expect(nameInput.value).toBe("Toaster");
+
+        (uploadBytesResumable as jest.Mock).mockClear();
+        fireEvent.click(getByText(/create listing/i));
+
+        await waitFor(() => expect(addData).toHaveBeenCalledTimes(1));
+        // back.jpg and its thumbnail were already uploaded
+        expect(uploadPathOf("back.jpg")).toBeUndefined();
+        expect(uploadPathOf("front.jpg")).toMatch(/^products\/seller-uid\/[^/]+\/[^/]+\.jpg$/);
+        const saved = (addData as jest.Mock).mock.calls[0][1];
+        expect(saved.imageURLs).toHaveLength(2);
+        expect(saved.imageURLs[0]).toBe(`http://example.com/${uploadPathOf("front.jpg")}`);
+        expect(saved.imageURLs[1].split("/").slice(-2, -1)).toEqual([saved.id]);
+        await waitFor(() => expect(nameInput.value).toBe(""));
+    });
+
     test("displays product listing after creating a new listing", async () => {
         // Override Firestore's getDocs to return a dummy product.
         (getDocs as jest.Mock).mockResolvedValue({
@@ -209,7 +479,7 @@ describe("SellerPage Component", () => {
                         description: "A test product",
                         imageURL: "http://example.com/test-image.png",
                         seller: "seller@example.com",
-                        sold: false,
+                        status: "active",
                         createdAt: "2025-01-01T00:00:00Z",
                         buyerEmail: "",
                         purchaseDate: "2025-01-01T00:00:00Z",
@@ -218,7 +488,7 @@ describe("SellerPage Component", () => {
             ],
         });
 
-        const fakeUser = { email: "seller@example.com" };
+        const fakeUser = { email: "seller@example.com", uid: "seller-uid" };
         (onAuthStateChanged as jest.Mock).mockImplementation((_auth, callback) => {
             callback(fakeUser);
             return jest.fn();
@@ -263,7 +533,7 @@ describe("SellerPage Component", () => {
                 description: "Old description",
                 imageURL: "http://example.com/old-image.png",
                 seller: "seller@example.com",
-                sold: false,
+                status: "active",
                 createdAt: "2025-01-01T00:00:00Z",
                 buyerEmail: "",
                 purchaseDate: "2025-01-01T00:00:00Z",
@@ -274,7 +544,7 @@ describe("SellerPage Component", () => {
             docs: [dummyProductDoc],
         });
 
-        const fakeUser = { email: "seller@example.com" };
+        const fakeUser = { email: "seller@example.com", uid: "seller-uid" };
         (onAuthStateChanged as jest.Mock).mockImplementation((_auth, callback) => {
             callback(fakeUser);
             return jest.fn();
@@ -308,7 +578,7 @@ describe("SellerPage Component", () => {
                         description: "Old description",
                         imageURL: "http://example.com/old-image.png",
                         seller: "seller@example.com",
-                        sold: false,
+                        status: "active",
                         createdAt: "2025-01-01T00:00:00Z",
                         buyerEmail: "",
                         purchaseDate: "2025-01-01T00:00:00Z",
@@ -342,6 +612,142 @@ describe("SellerPage Component", () => {
         });
     });
 
+    test("replaces the photos of a listing and deletes the replaced files", async () => {
+        (getDocs as jest.Mock).mockResolvedValue({
+            docs: [
+                {
+                    id: "lamp-id",
+                    data: () => ({
+                        productName: "Desk Lamp",
+                        category: "Appliances",
+                        price: 15,
+                        description: "Bright",
+                        imageURL: "http://example.com/products/seller-uid/lamp-id/blurry.jpg",
+                        imageURLs: [
+                            "http://example.com/products/seller-uid/lamp-id/blurry.jpg",
+                            "http://example.com/products/seller-uid/lamp-id/side.jpg",
+                        ],
+                        thumbnailURL: "http://example.com/products/seller-uid/lamp-id/thumbnails/blurry.jpg",
+                        thumbnailURLs: [
+                            "http://example.com/products/seller-uid/lamp-id/thumbnails/blurry.jpg",
+                            "http://example.com/products/seller-uid/lamp-id/thumbnails/side.jpg",
+                        ],
+                        seller: "seller@example.com",
+                        status: "active",
+                        createdAt: "2025-01-01T00:00:00Z",
+                    }),
+                },
+            ],
+        });
+        (onAuthStateChanged as jest.Mock).mockImplementation((_auth, callback) => {
+            callback({ email: "seller@example.com", uid: "seller-uid" });
+            return jest.fn();
+        });
+
+        const { getByText, getByLabelText } = render(<SellerPage />);
+        fireEvent.click(await screen.findByText("Desk Lamp"));
+        await waitFor(() => expect(getByText("Edit Product")).toBeInTheDocument());
+
+        fireEvent.click(getByLabelText("Remove photo 1"));
+        fireEvent.change(getByLabelText("Add photos"), {
+            target: { files: [new File(["sharp"], "sharp.jpg", { type: "image/jpeg" })] },
+        });
+        fireEvent.click(getByLabelText("Make sharp.jpg the cover"));
+        fireEvent.click(getByText("Update Product"));
+
+        await waitFor(() => expect(updateData).toHaveBeenCalled());
+        const newPhoto = `http://example.com/${uploadPathOf("sharp.jpg")}`;
+        const newThumbnail = `http://example.com/${uploadPathOf("thumb-sharp.jpg")}`;
+        expect(uploadPathOf("sharp.jpg")).toMatch(/^products\/seller-uid\/lamp-id\//);
+        expect(updateData).toHaveBeenCalledWith(
+            FIRESTORE_COLLECTIONS.PRODUCTS,
+            "lamp-id",
+            expect.objectContaining({
+                imageURL: newPhoto,
+                imageURLs: [newPhoto, "http://example.com/products/seller-uid/lamp-id/side.jpg"],
+                thumbnailURL: newThumbnail,
+                thumbnailURLs: [newThumbnail, "http://example.com/products/seller-uid/lamp-id/thumbnails/side.jpg"],
+            })
+        );
+        await waitFor(() => expect(deleteObject).toHaveBeenCalledTimes(2));
+        expect(deleteObject).toHaveBeenCalledWith("http://example.com/products/seller-uid/lamp-id/blurry.jpg");
+        expect(deleteObject).toHaveBeenCalledWith(
+            "http://example.com/products/seller-uid/lamp-id/thumbnails/blurry.jpg"
+        );
+    });
+
+    test("withdraws a listing once the seller confirms", async () => {
+        (getDocs as jest.Mock).mockResolvedValue({
+            docs: [
+                {
+                    id: "bike-id",
+                    data: () => ({ productName: "Bike", price: 80, seller: "seller@example.com", status: "active" }),
+                },
+            ],
+        });
+        (onAuthStateChanged as jest.Mock).mockImplementation((_auth, callback) => {
+            callback({ email: "seller@example.com", uid: "seller-uid" });
+            return jest.fn();
+        });
+
+        const { getByText, getByRole } = render(<SellerPage />);
+        fireEvent.click(await screen.findByText("Bike"));
+
+        fireEvent.click(getByText("Withdraw Listing"));
+        expect(getByRole("alertdialog", { name: "Withdraw this listing?" })).toBeInTheDocument();
+        fireEvent.click(getByText("Cancel"));
+        expect(screen.queryByRole("alertdialog")).not.toBeInTheDocument();
+        expect(updateData).not.toHaveBeenCalled();
+
+        fireEvent.click(getByText("Withdraw Listing"));
+        fireEvent.click(getByRole("button", { name: "Withdraw" }));
+
+        await waitFor(() =>
+            expect(updateData).toHaveBeenCalledWith(FIRESTORE_COLLECTIONS.PRODUCTS, "bike-id", { status: "archived" })
+        );
+        expect(await screen.findByText("Listing withdrawn.")).toBeInTheDocument();
+        expect(screen.queryByText("Edit Product")).not.toBeInTheDocument();
+        expect(deleteData).not.toHaveBeenCalled();
+    });
+
+    test("deletes a listing with its saved copies and photos once the seller confirms", async () => {
+        (getDocs as jest.Mock).mockResolvedValue({
+            docs: [
+                {
+                    id: "bike-id",
+                    data: () => ({
+                        productName: "Bike",
+                        price: 80,
+                        seller: "seller@example.com",
+                        status: "active",
+                        imageURLs: ["http://example.com/products/seller-uid/bike-id/bike.jpg"],
+                        thumbnailURLs: ["http://example.com/products/seller-uid/bike-id/thumbnails/bike.jpg"],
+                    }),
+                },
+            ],
+        });
+        (onAuthStateChanged as jest.Mock).mockImplementation((_auth, callback) => {
+            callback({ email: "seller@example.com", uid: "seller-uid" });
+            return jest.fn();
+        });
+
+        const { getByText, getByRole } = render(<SellerPage />);
+        fireEvent.click(await screen.findByText("Bike"));
+
+        fireEvent.click(getByText("Delete Listing"));
+        expect(getByRole("alertdialog", { name: "Delete this listing?" })).toBeInTheDocument();
+        (getDocs as jest.Mock).mockResolvedValue({ docs: [] });
+        (getData as jest.Mock).mockResolvedValueOnce([{ id: "buyer@example.com_bike-id", productId: "bike-id" }]);
+        fireEvent.click(getByRole("button", { name: "Delete" }));
+
+        expect(await screen.findByText("Listing deleted.")).toBeInTheDocument();
+        expect(deleteData).toHaveBeenCalledWith(FIRESTORE_COLLECTIONS.PRODUCTS, "bike-id");
+        expect(deleteData).toHaveBeenCalledWith(FIRESTORE_COLLECTIONS.SAVED_ITEMS, "buyer@example.com_bike-id");
+        expect(deleteObject).toHaveBeenCalledWith("http://example.com/products/seller-uid/bike-id/bike.jpg");
+        expect(deleteObject).toHaveBeenCalledWith("http://example.com/products/seller-uid/bike-id/thumbnails/bike.jpg");
+        expect(screen.queryByText("Bike")).not.toBeInTheDocument();
+    });
+
     test("allows seller to mark an item as sold and add buyer email", async () => {
         // Dummy Firestore document representing an unsold product.
         const dummyProductDoc = {
@@ -353,7 +759,7 @@ describe("SellerPage Component", () => {
                 description: "Old description",
                 imageURL: "http://example.com/old-image.png",
                 seller: "seller@example.com",
-                sold: false,
+                status: "active",
                 createdAt: "2025-01-01T00:00:00Z",
                 buyerEmail: "",
                 purchaseDate: "2025-01-01T00:00:00Z",
@@ -364,7 +770,7 @@ describe("SellerPage Component", () => {
             docs: [dummyProductDoc],
         });
 
-        const fakeUser = { email: "seller@example.com" };
+        const fakeUser = { email: "seller@example.com", uid: "seller-uid" };
         (onAuthStateChanged as jest.Mock).mockImplementation((_auth, callback) => {
             callback(fakeUser);
             return jest.fn();
@@ -385,10 +791,10 @@ describe("SellerPage Component", () => {
         // Locate the status select element via its label.
         const statusLabel = getByText("Status");
         const statusSelect = statusLabel.parentElement?.querySelector("select") as HTMLSelectElement;
-        expect(statusSelect.value).toBe("Still Selling");
+        expect(statusSelect.value).toBe("active");
 
-        fireEvent.change(statusSelect, { target: { value: "Sold" } });
-        expect(statusSelect.value).toBe("Sold");
+        fireEvent.change(statusSelect, { target: { value: "sold" } });
+        expect(statusSelect.value).toBe("sold");
 
         // Wait for the buyer email input to appear.
         const buyerEmailInput = await waitFor(() =>
@@ -408,7 +814,7 @@ describe("SellerPage Component", () => {
                         description: "Old description",
                         imageURL: "http://example.com/old-image.png",
                         seller: "seller@example.com",
-                        sold: true,
+                        status: "sold",
                         createdAt: "2025-01-01T00:00:00Z",
                         buyerEmail: "buyer@example.com",
                         purchaseDate: "2025-01-01T00:00:00Z",
@@ -421,13 +827,10 @@ describe("SellerPage Component", () => {
         fireEvent.click(updateButton);
 
         await waitFor(() => {
-            expect(updateData).toHaveBeenCalledWith(
-                FIRESTORE_COLLECTIONS.PRODUCTS,
+            expect(markProductAsSold).toHaveBeenCalledWith(
                 "dummy-id",
-                expect.objectContaining({
-                    sold: true,
-                    buyerEmail: "buyer@example.com",
-                })
+                "buyer@example.com",
+                expect.objectContaining({ productName: "Old Product" })
             );
         });
 
@@ -436,9 +839,40 @@ describe("SellerPage Component", () => {
         });
 
         await waitFor(() => {
-            const soldStatusEl = container.querySelector("p.text-red-500.font-bold");
+            const soldStatusEl = container.querySelector('[data-status="sold"]');
             expect(soldStatusEl).toBeTruthy();
             expect(soldStatusEl?.textContent?.trim()).toBe("Sold");
         });
     });
+
+    test("tells the seller when a sync overrode their edit", async () => {
+        (getDocs as jest.Mock).mockResolvedValue({
+            docs: [{ id: "dummy-id", data: () => ({ productName: "Old Product", seller: "seller@example.com" }) }],
+        });
+        (getConflicts as jest.Mock).mockResolvedValueOnce([
+            {
+                id: "conflict-1",
+                storeName: FIRESTORE_COLLECTIONS.PRODUCTS,
+                recordId: "dummy-id",
+                policy: "field-merge",
+                overriddenFields: ["price"],
+                localChanges: { price: 35 },
+                remoteValues: { price: 30 },
+                needsReview: false,
+                detectedAt: "2025-03-01T00:00:00Z",
+            },
+        ]);
+        (onAuthStateChanged as jest.Mock).mockImplementation((_auth, callback) => {
+            callback({ email: "seller@example.com", uid: "seller-uid" });
+            return jest.fn();
+        });
+
+        const { findByText, getByText } = render(<SellerPage />);
+
+        expect(await findByText('Your edit to "Old Product" was overridden by a newer change.')).toBeInTheDocument();
+        expect(getByText("price: yours was 35, kept 30")).toBeInTheDocument();
+
+        fireEvent.click(getByText("Dismiss"));
+        expect(dismissConflict).toHaveBeenCalledWith("conflict-1");
+    });
 });
@@ -0,0 +1,179 @@
+/**
+ * BrowseFilterPanel.tsx
+ *
+ * This file defines the BrowseFilterPanel component for the Panther Thrift Shop web application.
+ * It shows the filter and sort controls of the BrowsePage: a price range, a category, a condition,
+ * how recently the listing was posted, and the sort order. The panel does not filter anything itself;
+ * it reports the new filters to the page, which puts them in the URL.
+ *
+ * Key Features:
+ * - Dropdowns apply as soon as they change.
+ * - Price fields apply when they lose focus, on Enter or with "Apply", so the page does not reload on
+ *   every keystroke; a minimum above the maximum is flagged instead of applied.
+ * - A "Clear filters" button resets every filter but keeps the sort order.
+ *
+ * Props:
+ * - filters (BrowseFilters): The filters currently applied.
+ * - categories (Category[]): The category taxonomy (see `useCategories`).
+ * - onChange (function): Called with the new filters.
+ *
+ * Dependencies:
+ * - `BROWSE_SORTS` and `POSTED_WITHIN` from "@/lib/browseFilters" for the choices.
+ * - `CategoryOptions` for the category dropdown and `CONDITION_LABELS` for the condition names.
+ *
+ * Author: Jayson Baya
+ * Last Updated: October 19, 2026
+ */
+
+import React, { useEffect, useState } from "react";
+import { BROWSE_SORTS, BrowseFilters, BrowseSort, POSTED_WITHIN, PostedWithin } from "@/lib/browseFilters";
+import { Category } from "@/Models/Category";
+import { CONDITION_GRADES, ConditionGrade } from "@/Models/Product";
+import { CONDITION_LABELS } from "@/Models/ConstantData";
+import CategoryOptions from "@/components/SellerPageComponent/CategoryOptions";
+
+interface BrowseFilterPanelProps {
+    filters: BrowseFilters;
+    categories: Category[];
+    onChange: (filters: BrowseFilters) => void;
+}
+
+const priceText = (price?: number) => (price === undefined ? "" : String(price));
+
+const BrowseFilterPanel: React.FC<BrowseFilterPanelProps> = ({ filters, categories, onChange }) => {
+    const [minPrice, setMinPrice] = useState(priceText(filters.minPrice));
+    const [maxPrice, setMaxPrice] = useState(priceText(filters.maxPrice));
+    const [priceError, setPriceError] = useState("");
+
+    // Follow the URL when it changes, e.g. on back navigation or "Clear filters"
+    useEffect(() => {
+        setMinPrice(priceText(filters.minPrice));
+        setMaxPrice(priceText(filters.maxPrice));
+    }, [filters.minPrice, filters.maxPrice]);
+
+    const update = (changes: Partial<BrowseFilters>) => onChange({ ...filters, ...changes });
+
+    const applyPrices = () => {
+        const min = minPrice.trim() === "" ? undefined : Number(minPrice);
+        const max = maxPrice.trim() === "" ? undefined : Number(maxPrice);
+        if ([min, max].some((price) => price !== undefined && (!Number.isFinite(price) || price < 0))) {
+            setPriceError("Prices must be numbers of at least 0.");
+            return;
+        }
+        if (min !== undefined && max !== undefined && min > max) {
+            setPriceError("The minimum price must not be above the maximum.");
+            return;
+        }
+        setPriceError("");
+        if (min !== filters.minPrice || max !== filters.maxPrice) {
+            update({ minPrice: min, maxPrice: max });
+        }
+    };
+
+    return (
+        <form
+            aria-label="Filters"
+            onSubmit={(e) => {
+                e.preventDefault();
+                applyPrices();
+            }}
+            className="flex flex-wrap items-end gap-4 bg-white p-4 shadow rounded mb-6"
+        >
+            <label className="flex flex-col text-sm text-gray-700">
+                Min price
+                <input
+                    type="number"
+                    min="0"
+                    step="0.01"
+                    value={minPrice}
+                    onChange={(e) => setMinPrice(e.target.value)}
+                    onBlur={applyPrices}
+                    className="border rounded px-2 py-1 w-24"
+                />
+            </label>
+            <label className="flex flex-col text-sm text-gray-700">
+                Max price
+                <input
+                    type="number"
+                    min="0"
+                    step="0.01"
+                    value={maxPrice}
+                    onChange={(e) => setMaxPrice(e.target.value)}
+                    onBlur={applyPrices}
+                    className="border rounded px-2 py-1 w-24"
+                />
+            </label>
+            <label className="flex flex-col text-sm text-gray-700">
+                Category
+                <select
+                    value={filters.category ?? ""}
+                    onChange={(e) => update({ category: e.target.value || undefined })}
+                    className="border rounded px-2 py-1"
+                >
+                    <option value="">All categories</option>
+                    <CategoryOptions categories={categories} currentCategory={filters.category} />
+                </select>
+            </label>
+            <label className="flex flex-col text-sm text-gray-700">
+                Condition
+                <select
+                    value={filters.condition ?? ""}
+                    onChange={(e) => update({ condition: (e.target.value || undefined) as ConditionGrade | undefined })}
+                    className="border rounded px-2 py-1"
+                >
+                    <option value="">Any condition</option>
+                    {CONDITION_GRADES.map((grade) => (
+                        <option key={grade} value={grade}>
+                            {CONDITION_LABELS[grade]}
+                        </option>
+                    ))}
+                </select>
+            </label>
+            <label className="flex flex-col text-sm text-gray-700">
+                Posted
+                <select
+                    value={filters.postedWithin ?? ""}
+                    onChange={(e) => update({ postedWithin: (e.target.value || undefined) as PostedWithin | undefined })}
+                    className="border rounded px-2 py-1"
+                >
+                    <option value="">Any time</option>
+                    {Object.entries(POSTED_WITHIN).map(([value, { label }]) => (
+                        <option key={value} value={value}>
+                            {label}
+                        </option>
+                    ))}
+                </select>
+            </label>
+            <label className="flex flex-col text-sm text-gray-700">
+                Sort by
+                <select
+                    value={filters.sort}
+                    onChange={(e) => update({ sort: e.target.value as BrowseSort })}
+                    className="border rounded px-2 py-1"
+                >
+                    {Object.entries(BROWSE_SORTS).map(([value, { label }]) => (
+                        <option key={value} value={value}>
+                            {label}
+                        </option>
+                    ))}
+                </select>
+            </label>
+            <button
+                type="submit"
+                className="bg-blue-500 text-white px-4 py-1 rounded hover:bg-blue-600 transition"
+            >
+                Apply
+            </button>
+            <button
+                type="button"
+                onClick={() => onChange({ sort: filters.sort })}
+                className="bg-gray-200 text-gray-700 px-4 py-1 rounded hover:bg-gray-300 transition"
+            >
+                Clear filters
+            </button>
+            {priceError && <p className="w-full text-sm text-red-500">{priceError}</p>}
+        </form>
+    );
+};
+
+export default BrowseFilterPanel;
@@ -8,6 +8,7 @@ import NavBar from "@/components/Navbar"; // Navbar with Login/SignUp
 import routeToCategory from "@/components/routeToCategory";
 import {onAuthStateChanged} from "firebase/auth";
 import { auth } from "@/lib/firebaseConfig";
+import { useCategories } from "@/lib/categories";
 
 type ClientLayoutWrapperProps = {
     children: React.ReactNode;
@@ -18,14 +19,15 @@ const ClientLayoutWrapper: React.FC<ClientLayoutWrapperProps> = ({ children }) =
     const [, setUserEmail] = useState<string>("");
     const router = useRouter();
     const pathname = usePathname();
+    const categories = useCategories();
 
     // Update selected category based on current route
     useEffect(() => {
         if (!isAuthPage() && !isHomePage()) {
-            const category = routeToCategory(pathname);
+            const category = routeToCategory(pathname, categories);
             setSelectedCategory(category);
         }
-    }, [pathname]);
+    }, [pathname, categories]);
 
 
     // Check if the current route is an auth page (login or signup)
@@ -0,0 +1,40 @@
+/**
+ * HighlightedText.tsx
+ *
+ * This file defines the HighlightedText component for the Panther Thrift Shop web application.
+ * It renders a text with the words that match a search query wrapped in `<mark>`, so search results
+ * show why a listing matched. Without a query the text is rendered as is.
+ *
+ * Props:
+ * - text (string): The text to render.
+ * - query (string): The search query whose words are highlighted.
+ *
+ * Dependencies:
+ * - `highlightMatches` from "@/lib/search", which matches words the same way the search does.
+ *
+ * Author: Jayson Baya
+ * Last Updated: October 19, 2026
+ */
+
+import React from "react";
+import { highlightMatches } from "@/lib/search";
+
+const HighlightedText: React.FC<{ text: string; query?: string }> = ({ text, query }) => {
+    if (!query) return <>{text}</>;
+
+    return (
+        <>
+            {highlightMatches(text, query).map((segment, index) =>
+                segment.match ? (
+                    <mark key={index} className="bg-yellow-200 rounded-sm">
+                        {segment.text}
+                    </mark>
+                ) : (
+                    <React.Fragment key={index}>{segment.text}</React.Fragment>
+                )
+            )}
+        </>
+    );
+};
+
+export default HighlightedText;
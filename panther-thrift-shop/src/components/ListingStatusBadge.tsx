@@ -0,0 +1,40 @@
+/**
+ * ListingStatusBadge.tsx
+ *
+ * This file defines the ListingStatusBadge component for the Panther Thrift Shop web application.
+ * It shows where a listing is in its lifecycle (draft, still selling, reserved, sold, archived or removed)
+ * as a small colored label, so every page presents a status the same way.
+ *
+ * Props:
+ * - status (ListingStatus): The status of the listing.
+ *
+ * Dependencies:
+ * - `LISTING_STATUS_LABELS` from "@/Models/ConstantData" for the label text.
+ *
+ * Author: Jayson Baya
+ * Last Updated: October 19, 2026
+ */
+
+import React from "react";
+import { ListingStatus } from "@/Models/Product";
+import { LISTING_STATUS_LABELS } from "@/Models/ConstantData";
+
+const STATUS_STYLES: Record<ListingStatus, string> = {
+    draft: "bg-gray-100 text-gray-700",
+    active: "bg-green-100 text-green-700",
+    reserved: "bg-yellow-100 text-yellow-800",
+    sold: "bg-red-100 text-red-700",
+    archived: "bg-gray-200 text-gray-600",
+    removed: "bg-gray-800 text-white",
+};
+
+const ListingStatusBadge: React.FC<{ status: ListingStatus }> = ({ status }) => (
+    <span
+        data-status={status}
+        className={`inline-block mt-2 text-xs font-bold px-2 py-1 rounded ${STATUS_STYLES[status]}`}
+    >
+        {LISTING_STATUS_LABELS[status]}
+    </span>
+);
+
+export default ListingStatusBadge;
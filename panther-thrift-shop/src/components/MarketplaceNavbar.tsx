@@ -3,23 +3,27 @@
  *
  * This file defines the `MarketplaceNavBar` component for the Panther Thrift Shop web application.
  * The `MarketplaceNavBar` serves as the navigation bar for the marketplace pages. It displays the
- * application title, the logged-in user's email, and provides buttons for navigating to account
- * settings and logging out. The component listens to the authentication state and redirects users
- * to the login page if they are not authenticated.
+ * application title, a search box and the logged-in user's email, and provides buttons for navigating to
+ * account settings and logging out. The component listens to the authentication state and redirects users
+ * to the login page if they are not authenticated. It also shows when the app is working from the local
+ * cache because the browser is offline or Firestore is over quota or unavailable.
  *
  * Key Features:
  * - Displays the application title and user email.
+ * - A search box that opens the search results page (`ROUTES.SEARCH_PAGE`) for the entered query.
  * - Provides navigation buttons for account settings and logout.
  * - Listens to Firebase authentication state changes for user session management.
  * - Redirects unauthenticated users to the login page.
+ * - Shows an "Offline" or "Degraded mode" badge while writes are being queued locally.
  * - Responsive design using Tailwind CSS.
  *
  * Dependencies:
  * - Firebase Auth for user session management.
  * - Next.js `useRouter` for client-side navigation.
+ * - `dbHandler` for the current storage mode.
  *
  * Author: Jayson Baya
- * Last Updated: November 14, 2024
+ * Last Updated: October 19, 2026
  */
 
 "use client"
@@ -29,10 +33,26 @@ import { signOut } from 'firebase/auth';
 import { useState, useEffect } from 'react';
 import { auth } from '@/lib/firebaseConfig';
 import { onAuthStateChanged } from 'firebase/auth';
+import { getStorageMode, onStorageModeChange, StorageMode } from '@/lib/dbHandler';
+import { ROUTES } from '@/Models/ConstantData';
+
+const STORAGE_MODE_BADGES: Partial<Record<StorageMode, { label: string; title: string }>> = {
+    offline: {
+        label: "Offline",
+        title: "You are offline. Changes are saved on this device and will sync when you reconnect.",
+    },
+    degraded: {
+        label: "Degraded mode",
+        title: "The database is busy or unavailable. Changes are saved on this device and will sync shortly.",
+    },
+};
 
 const MarketplaceNavBar = () => {
     const [userEmail, setUserEmail] = useState("");
+    const [storageMode, setStorageMode] = useState<StorageMode>("online");
+    const [searchQuery, setSearchQuery] = useState("");
     const router = useRouter();
+    const badge = STORAGE_MODE_BADGES[storageMode];
 
     // Listen to the authentication state
     useEffect(() => {
@@ -47,6 +67,19 @@ const MarketplaceNavBar = () => {
         return () => unsubscribe();
     }, [router]);
 
+    // Follow the storage mode so users know when their changes are only saved locally
+    useEffect(() => {
+        setStorageMode(getStorageMode());
+        return onStorageModeChange(setStorageMode);
+    }, []);
+
+    const handleSearch = (e: React.FormEvent) => {
+        e.preventDefault();
+        const query = searchQuery.trim();
+        if (!query) return;
+        router.push(`${ROUTES.SEARCH_PAGE}?q=${encodeURIComponent(query)}`);
+    };
+
     const handleLogout = async () => {
         await signOut(auth);
         router.push('/pages/Login');
@@ -64,8 +97,33 @@ const MarketplaceNavBar = () => {
                         Thrift Shop{' '}
                     </button>
 
+                    {/* Search Box */}
+                    <form role="search" onSubmit={handleSearch} className="flex flex-grow max-w-md mx-4">
+                        <input
+                            type="search"
+                            value={searchQuery}
+                            onChange={(e) => setSearchQuery(e.target.value)}
+                            placeholder="Search listings"
+                            aria-label="Search listings"
+                            className="flex-grow border rounded-l px-3 py-2"
+                        />
+                        <button
+                            type="submit"
+                            className="bg-gray-800 text-white px-4 py-2 rounded-r hover:bg-gray-900 transition">
+                            Search
+                        </button>
+                    </form>
+
                     {/* User Email, Account Settings, and Logout */}
                     <div className="flex items-center space-x-4">
+                        {badge && (
+                            <span
+                                role="status"
+                                title={badge.title}
+                                className="bg-yellow-100 text-yellow-800 text-sm font-semibold px-3 py-1 rounded-full">
+                                {badge.label}
+                            </span>
+                        )}
                         <span> Login in as: {" "}
                             <span className="text-gray-700">{userEmail}</span>
                         </span>
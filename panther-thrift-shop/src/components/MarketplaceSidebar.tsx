@@ -3,25 +3,31 @@
  *
  * This file defines the `MarketplaceSidebar` component for the Panther Thrift Shop web application.
  * The `MarketplaceSidebar` provides navigation links for users to browse products, view buying history,
- * and manage their selling listings. It also includes a list of product categories for easy navigation.
+ * and manage their selling listings. It also lists the product categories from the category taxonomy, with
+ * subcategories indented under their parent, each linking to its marketplace page (`/marketplace/<slug>`).
  * The sidebar highlights the currently selected section or category and updates the selected state.
  *
  * Key Features:
  * - Navigation links for special sections: "Browse All", "Buying", and "Selling".
- * - List of product categories: Men's Clothing, Women's Clothing, Appliances, Room Decoration, Textbooks.
+ * - List of product categories, loaded from the database by `useCategories`; retired categories are hidden.
+ * - Each category shows how many products are listed in it, subcategories included (`countCategoryListings`).
+ *   Counts are refreshed whenever the user navigates to another section or category.
  * - Highlights the selected section or category for better user experience.
  * - Uses Next.js `useRouter` for client-side navigation.
  * - Responsive design using Tailwind CSS.
  *
  * Dependencies:
  * - Next.js `useRouter` for handling navigation.
+ * - `useCategories` (lib/categories) and the taxonomy helpers from "@/Models/Category".
  *
  * Author: Jayson Baya
- * Last Updated: November 14, 2024
+ * Last Updated: October 19, 2026
  */
 
-import React from "react";
+import React, { useEffect, useState } from "react";
 import { useRouter } from "next/navigation"; // Import useRouter
+import { countCategoryListings, useCategories } from "@/lib/categories";
+import { buildCategoryTree, categoryPath, flattenCategoryTree } from "@/Models/Category";
 
 interface SidebarProps {
     selectedCategory: string;
@@ -30,6 +36,21 @@ interface SidebarProps {
 
 const MarketplaceSidebar: React.FC<SidebarProps> = ({ selectedCategory }: SidebarProps) => {
     const router = useRouter(); // Initialize router
+    const taxonomy = useCategories();
+    const categories = flattenCategoryTree(buildCategoryTree(taxonomy));
+    const [counts, setCounts] = useState<Record<string, number>>({});
+
+    useEffect(() => {
+        let active = true;
+        countCategoryListings(taxonomy)
+            .then((loaded) => {
+                if (active) setCounts(loaded);
+            })
+            .catch((error) => console.error("Error counting category listings:", error));
+        return () => {
+            active = false;
+        };
+    }, [taxonomy, selectedCategory]);
 
     const specialSections = [
         { name: "Browse All", path: "/pages/BrowsePage" },  // Add paths
@@ -37,14 +58,6 @@ const MarketplaceSidebar: React.FC<SidebarProps> = ({ selectedCategory }: Sideba
         { name: "Selling", path: "/pages/SellersPage" },
     ];
 
-    // const categories = [
-    //     { name: "Men's Clothing", path: "/marketplace/mens-clothing" },
-    //     { name: "Women's Clothing", path: "/marketplace/womens-clothing" },
-    //     { name: "Appliances", path: "/marketplace/appliances" },
-    //     { name: "Room Decoration", path: "/marketplace/room-decoration" },
-    //     { name: "Textbooks", path: "/marketplace/textbooks" },
-    // ];
-
     const handleNavigation = (path: string) => {
         router.push(path); // Navigate to the specified path
     };
@@ -66,20 +79,29 @@ const MarketplaceSidebar: React.FC<SidebarProps> = ({ selectedCategory }: Sideba
 
             {/* Divider between Special Sections and Categories */}
             <hr className="my-4 border-gray-300" />
-            {/*<h3 className="text-lg font-semibold mb-2">Categories</h3>*/}
+            <h3 className="text-lg font-semibold mb-2">Categories</h3>
 
-            {/* Categories */}
-            {/*{categories.map((category, idx) => (*/}
-            {/*    <button*/}
-            {/*        key={idx}*/}
-            {/*        onClick={() => handleNavigation(category.path)} // Navigate to the category path*/}
-            {/*        className={`block text-left w-full text-gray-700 hover:bg-gray-200 p-2 rounded ${*/}
-            {/*            selectedCategory === category.name ? "bg-gray-200" : ""*/}
-            {/*        }`}*/}
-            {/*    >*/}
-            {/*        {category.name}*/}
-            {/*    </button>*/}
-            {/*))}*/}
+            {/* Categories, subcategories indented under their parent */}
+            {categories.map(({ category, depth }) => {
+                const count = counts[category.name];
+                return (
+                    <button
+                        key={category.id}
+                        onClick={() => handleNavigation(categoryPath(category))} // Navigate to the category path
+                        aria-current={selectedCategory === category.name ? "page" : undefined}
+                        className={`flex justify-between items-center text-left w-full text-gray-700 hover:bg-gray-200 p-2 rounded ${
+                            depth > 0 ? "pl-6 text-sm" : ""
+                        } ${selectedCategory === category.name ? "bg-gray-200 font-semibold" : ""}`}
+                    >
+                        <span>{category.name}</span>
+                        {count !== undefined && (
+                            <span className="text-xs text-gray-500" aria-label={`${count} ${count === 1 ? "listing" : "listings"}`}>
+                                {count}
+                            </span>
+                        )}
+                    </button>
+                );
+            })}
         </div>
     );
 };
@@ -3,8 +3,10 @@
  *
  * This file defines the ProductGrid component for the Panther Thrift Shop web application.
  * The ProductGrid component renders a responsive grid of product cards with the following features:
- * - Displays product details such as image, name, price, and description.
+ * - Displays product details such as image (the cover's thumbnail when there is one), name, price, and description.
+ * - Badges listings that are not simply for sale (reserved, sold, archived, ...) with their status.
  * - Allows a logged-in user to save or unsave products, updating the saved products collection in Firestore (or IndexedDB).
+ *   Each buyer's saved copy is keyed by `savedItemId`, so saving or unsaving never touches another buyer's copy.
  * - Redirects the seller to their own listings if the logged-in user is the owner of the product.
  *
  * Key Features:
@@ -13,6 +15,7 @@
  * - Provides a "Save" / "Saved" button that toggles a product's saved status for the logged-in user.
  * - Displays a "My Listings" button for products owned by the logged-in user, which triggers the onSellerRedirect callback.
  * - Shows a customizable empty state message when no products are available.
+ * - Highlights the words of a search query in product names and descriptions on the search results page.
  *
  * Props:
  * - products (Product[]): An array of product objects to be displayed.
@@ -21,6 +24,10 @@
  * - userEmail (string): The email of the logged-in user, used to determine ownership and saved status.
  * - emptyMessage (string): A message to display when there are no products available.
  * - showSaveButton (boolean): Flag to control whether the save/unsave button is rendered.
+ * - hasMore (boolean): Whether another page of products can be loaded.
+ * - onLoadMore (function): Callback invoked when the "Load More" button is clicked.
+ * - loadingMore (boolean): Disables the "Load More" button while the next page is loading.
+ * - highlightQuery (string): A search query whose matching words are highlighted.
  *
  * Dependencies:
  * - React for component creation and state management.
@@ -29,14 +36,17 @@
  * - Constant values from "@/Models/ConstantData" for Firestore collection and field names, as well as alert messages.
  *
  * Author: Jayson Baya
- * Last Updated: January 25, 2025
+ * Last Updated: October 19, 2026
  */
 
 
 import React, {useEffect, useState} from "react";
-import {Product} from "@/Models/Product";
+import {BuyerItem, getThumbnail, Product, savedItemId, savedProductId} from "@/Models/Product";
 import {FIRESTORE_COLLECTIONS, FIRESTORE_FIELDS, handleSaveProductAlert} from "@/Models/ConstantData";
 import {addData, deleteData, getData} from "@/lib/dbHandler";
+import {createQuery} from "@/lib/queryBuilder";
+import ListingStatusBadge from "@/components/ListingStatusBadge";
+import HighlightedText from "@/components/HighlightedText";
 
 interface ProductGridProps {
     products?: Product[],
@@ -45,6 +55,10 @@ interface ProductGridProps {
     userEmail?: string,
     emptyMessage?: string
     showSaveButton: boolean
+    hasMore?: boolean
+    onLoadMore?: () => void
+    loadingMore?: boolean
+    highlightQuery?: string
 }
 
 const ProductGrid: React.FC<ProductGridProps> = ({
@@ -54,8 +68,13 @@ const ProductGrid: React.FC<ProductGridProps> = ({
                                                      userEmail,
                                                      showSaveButton = true,
                                                      emptyMessage = "No items available yet.",
+                                                     hasMore = false,
+                                                     onLoadMore,
+                                                     loadingMore = false,
+                                                     highlightQuery,
                                                  }) => {
-    const [savedProductIds, setSavedProductIds] = useState<Set<string>>(new Set());
+    // The ID of the buyer's saved copy of each saved listing, keyed by the listing's ID
+    const [savedItemIds, setSavedItemIds] = useState<Map<string, string>>(new Map());
 
     // Fetch saved products for the logged-in user
     useEffect(() => {
@@ -63,17 +82,16 @@ const ProductGrid: React.FC<ProductGridProps> = ({
             if (!userEmail) return;
 
             try {
-                const savedItems = (await getData<Product>(
-                    FIRESTORE_COLLECTIONS.SAVED_ITEMS,
-                    [{ field: FIRESTORE_FIELDS.BUYER_EMAIL, operator: "==", value: userEmail }]
+                const savedItems = (await getData(
+                    createQuery<BuyerItem>(FIRESTORE_COLLECTIONS.SAVED_ITEMS)
+                        .where(FIRESTORE_FIELDS.BUYER_EMAIL, "==", userEmail)
                 )) || []; // array
 
-                // Store saved product IDs in a Set for fast lookup
-                const savedIds = new Set(savedItems.map((item) => item.id));
-                setSavedProductIds(savedIds);
+                // Map each saved listing to its saved copy for fast lookup
+                setSavedItemIds(new Map(savedItems.map((item) => [savedProductId(item), item.id])));
             } catch (error) {
                 console.error("Error fetching saved products:", error);
-                setSavedProductIds(new Set()); // resets to an empty Set
+                setSavedItemIds(new Map()); // resets to an empty Map
             }
         };
 
@@ -86,13 +104,13 @@ const ProductGrid: React.FC<ProductGridProps> = ({
         e.stopPropagation();
         if (!userEmail) return;
 
-        const isSaved = savedProductIds.has(product.id);
+        const savedId = savedItemIds.get(product.id);
         try {
-            if (isSaved) {
+            if (savedId) {
                 // Unsaved the product (Delete from Firestore/IndexedDB)
-                await deleteData(FIRESTORE_COLLECTIONS.SAVED_ITEMS, product.id);
-                setSavedProductIds((prev) => {
-                    const updated = new Set(prev);
+                await deleteData(FIRESTORE_COLLECTIONS.SAVED_ITEMS, savedId);
+                setSavedItemIds((prev) => {
+                    const updated = new Map(prev);
                     updated.delete(product.id);
                     return updated;
                 });
@@ -100,11 +118,17 @@ const ProductGrid: React.FC<ProductGridProps> = ({
             } else {
                 // Save the product (Add to Firestore/IndexedDB)
                 const savedProduct = {
-                    id: product.id,
+                    id: savedItemId(userEmail, product.id),
+                    productId: product.id,
                     buyerEmail: userEmail,
                     productName: product.productName,
                     price: product.price,
                     imageURL: product.imageURL,
+                    imageURLs: product.imageURLs,
+                    thumbnailURL: product.thumbnailURL,
+                    thumbnailURLs: product.thumbnailURLs,
+                    condition: product.condition,
+                    attributes: product.attributes,
                     description: product.description,
                     category: product.category,
                     seller: product.seller,
@@ -112,7 +136,7 @@ const ProductGrid: React.FC<ProductGridProps> = ({
                 };
 
                 await addData(FIRESTORE_COLLECTIONS.SAVED_ITEMS, savedProduct);
-                setSavedProductIds((prev) => new Set(prev).add(product.id));
+                setSavedItemIds((prev) => new Map(prev).set(product.id, savedProduct.id));
                 alert(handleSaveProductAlert.SAVED_ITEMS)
             }
         } catch (error) {
@@ -130,16 +154,21 @@ const ProductGrid: React.FC<ProductGridProps> = ({
                     >
                         {/* Product Image */}
                         <img
-                            src={product.imageURL}
+                            src={getThumbnail(product)}
                             alt={product.productName}
                             className="w-full h-48 object-contain mb-4"
                             onClick={() => onProductClick?.(product)}
                         />
 
                         {/* Product Details */}
-                        <h2 className="text-lg font-semibold">{product.productName}</h2>
+                        <h2 className="text-lg font-semibold">
+                            <HighlightedText text={product.productName} query={highlightQuery} />
+                        </h2>
                         <p className="text-gray-600">${product.price.toFixed(2)}</p>
-                        <p className="text-gray-500 truncate">{product.description}</p>
+                        <p className="text-gray-500 truncate">
+                            <HighlightedText text={product.description} query={highlightQuery} />
+                        </p>
+                        {product.status !== "active" && <ListingStatusBadge status={product.status} />}
 
                         {/* Show 'My Listings' if Seller, otherwise 'Save'/'Saved' */}
                         {userEmail && product.seller === userEmail ? (
@@ -156,12 +185,12 @@ const ProductGrid: React.FC<ProductGridProps> = ({
                             <button
                                 onClick={(e) => toggleSaveProduct(product, e)}
                                 className={`mt-2 px-4 py-2 rounded transition ${
-                                    savedProductIds.has(product.id)
+                                    savedItemIds.has(product.id)
                                         ? "bg-red-500 text-white hover:bg-red-600"
                                         : "bg-blue-500 text-white hover:bg-blue-600"
                                 }`}
                             >
-                                {savedProductIds.has(product.id) ? "Saved" : "Save"}
+                                {savedItemIds.has(product.id) ? "Saved" : "Save"}
                             </button>
                         )}
                     </div>
@@ -169,6 +198,19 @@ const ProductGrid: React.FC<ProductGridProps> = ({
             ) : (
                 <p className="text-center col-span-full text-gray-500">{emptyMessage}</p>
             )}
+
+            {/* Load the next page of products */}
+            {hasMore && onLoadMore && (
+                <div className="col-span-full text-center">
+                    <button
+                        onClick={onLoadMore}
+                        disabled={loadingMore}
+                        className="bg-gray-200 text-gray-700 px-4 py-2 rounded hover:bg-gray-300 transition disabled:opacity-50"
+                    >
+                        {loadingMore ? "Loading..." : "Load More"}
+                    </button>
+                </div>
+            )}
         </div>
     );
 };
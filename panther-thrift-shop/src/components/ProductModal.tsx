@@ -4,11 +4,16 @@
  * This file defines the ProductModal component for the Panther Thrift Shop web application.
  * The ProductModal component displays detailed information about a selected product in a modal popup.
  * It is designed to be used as an overlay that appears when a product is clicked, providing
- * additional details such as the product image, price, category, description, and seller information.
+ * additional details such as the product photos, price, category, the details of that category (e.g. size
+ * or ISBN), condition, tags, pickup location, description, and seller information.
  *
  * Key Features:
  * - Renders a modal dialog to display product details.
- * - Displays essential product information including product name, image, price, category, description, and seller.
+ * - Displays essential product information including product name, photos, price, category, condition,
+ *   tags, pickup location, description, and seller. Optional details are only shown when the listing has them.
+ * - A photo carousel steps through the listing's photos in order, with previous/next buttons and thumbnails.
+ *   Listings stored with a single image show just that image.
+ * - Category attributes are listed under the category in schema order, with units (see `describeAttributes`).
  * - Only renders when both the `isOpen` flag is true and a valid `product` object is provided.
  *
  * Props:
@@ -22,15 +27,18 @@
  * - Product model from "@/Models/Product" to ensure consistent structure of the product data.
  *
  * Author: Jayson Baya
- * Last Updated: January 25, 2025
+ * Last Updated: October 19, 2026
  */
 
 
 "use client";
 
-import React from "react";
+import React, { useState } from "react";
 import Modal from "@/components/Modal"; // Your existing Modal component
-import { Product } from "@/Models/Product";
+import { getPhotos, Product } from "@/Models/Product";
+import { CONDITION_LABELS } from "@/Models/ConstantData";
+import { describeAttributes } from "@/Models/CategoryAttributes";
+import { getLoadedCategories } from "@/lib/categories";
 
 interface ProductModalProps {
     product: Product | null;
@@ -39,19 +47,82 @@ interface ProductModalProps {
 }
 
 const ProductModal: React.FC<ProductModalProps> = ({ product, isOpen, onClose }) => {
+    const [photoIndex, setPhotoIndex] = useState(0);
     if (!isOpen || !product) return null;
 
+    const photos = getPhotos(product);
+    const current = Math.min(photoIndex, Math.max(photos.length - 1, 0));
+    const showPhoto = (index: number) => setPhotoIndex((index + photos.length) % photos.length);
+
     return (
         <Modal onClose={onClose}>
             <div role="dialog" className="p-6 bg-white rounded shadow-lg">
                 <h2 className="text-xl font-bold mb-4">{product.productName}</h2>
-                <img
-                    src={product.imageURL}
-                    alt={product.productName}
-                    className="w-full h-48 object-contain mb-4"
-                />
+
+                {/* Photo carousel */}
+                <div className="relative mb-4">
+                    <img
+                        src={photos[current]}
+                        alt={photos.length > 1 ? `${product.productName}, photo ${current + 1} of ${photos.length}` : product.productName}
+                        className="w-full h-48 object-contain"
+                    />
+                    {photos.length > 1 && (
+                        <>
+                            <button
+                                onClick={() => showPhoto(current - 1)}
+                                aria-label="Previous photo"
+                                className="absolute left-0 top-1/2 -translate-y-1/2 bg-white/80 px-2 py-1 rounded"
+                            >
+                                ‹
+                            </button>
+                            <button
+                                onClick={() => showPhoto(current + 1)}
+                                aria-label="Next photo"
+                                className="absolute right-0 top-1/2 -translate-y-1/2 bg-white/80 px-2 py-1 rounded"
+                            >
+                                ›
+                            </button>
+                        </>
+                    )}
+                </div>
+                {photos.length > 1 && (
+                    <div className="flex gap-2 mb-4 overflow-x-auto">
+                        {photos.map((url, index) => (
+                            <button
+                                key={url}
+                                onClick={() => showPhoto(index)}
+                                aria-label={`Show photo ${index + 1}`}
+                                aria-current={index === current}
+                                className={`w-12 h-12 rounded overflow-hidden ${index === current ? "ring-2 ring-blue-500" : ""}`}
+                            >
+                                <img src={url} alt="" className="w-full h-full object-cover" />
+                            </button>
+                        ))}
+                    </div>
+                )}
+
                 <p className="text-gray-600 mb-2">Price: ${product.price}</p>
                 <p className="text-gray-600 mb-2">Category: {product.category}</p>
+                {describeAttributes(product.category, product.attributes, getLoadedCategories()).map(({ label, value }) => (
+                    <p key={label} className="text-gray-600 mb-2">
+                        {label}: {value}
+                    </p>
+                ))}
+                {product.condition && (
+                    <p className="text-gray-600 mb-2">Condition: {CONDITION_LABELS[product.condition]}</p>
+                )}
+                {product.pickupLocation && (
+                    <p className="text-gray-600 mb-2">Pickup: {product.pickupLocation}</p>
+                )}
+                {product.tags && product.tags.length > 0 && (
+                    <div className="flex flex-wrap gap-1 mb-2">
+                        {product.tags.map((tag) => (
+                            <span key={tag} className="bg-gray-100 text-gray-700 text-xs px-2 py-1 rounded">
+                                #{tag}
+                            </span>
+                        ))}
+                    </div>
+                )}
                 <p className="text-gray-600 mb-4">Description: {product.description}</p>
                 <p className="text-gray-600 font-bold">Seller: {product.seller}</p>
 
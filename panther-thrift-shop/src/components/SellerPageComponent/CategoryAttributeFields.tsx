@@ -0,0 +1,101 @@
+/**
+ * CategoryAttributeFields.tsx
+ *
+ * This file defines the CategoryAttributeFields component for the Panther Thrift Shop web application.
+ * The component renders the extra fields of a listing's category, such as size and fit for clothing or
+ * ISBN, edition and course code for textbooks, as declared in `CATEGORY_ATTRIBUTES`. It is shared by the
+ * create form and the edit modal, so both always offer the same fields. Nothing is rendered for a category
+ * without attributes.
+ *
+ * Key Features:
+ * - Renders a text input, number input or dropdown per field, in schema order; required fields are marked.
+ * - Shows the validation error of each field under it.
+ *
+ * Props:
+ * - category: The listing's category, which selects the fields.
+ * - categories: Optional category taxonomy, so subcategories get the fields of their parent category.
+ * - values: The current attribute values, keyed by field.
+ * - onChange: A function called with a field's key and its new value as typed.
+ * - errors: Optional error messages, keyed by field (see `validateAttributes`).
+ *
+ * Dependencies:
+ * - React for building the component.
+ * - The attribute schemas from "@/Models/CategoryAttributes".
+ *
+ * Author: Jayson Baya
+ * Last Updated: October 19, 2026
+ */
+
+
+import React, { useId } from "react";
+import { getAttributeSchema, ProductAttributes } from "@/Models/CategoryAttributes";
+import { Category } from "@/Models/Category";
+
+interface CategoryAttributeFieldsProps {
+    category: string;
+    categories?: Category[];
+    values: ProductAttributes;
+    onChange: (key: string, value: string) => void;
+    errors?: Record<string, string>;
+}
+
+const CategoryAttributeFields: React.FC<CategoryAttributeFieldsProps> = ({
+    category,
+    categories,
+    values,
+    onChange,
+    errors = {},
+}) => {
+    const idPrefix = useId();
+    const fields = getAttributeSchema(category, categories);
+    if (fields.length === 0) return null;
+
+    return (
+        <>
+            {fields.map((field) => {
+                const id = `${idPrefix}-${field.key}`;
+                const value = values[field.key] ?? "";
+                const error = errors[field.key];
+
+                return (
+                    <div key={field.key} className="mb-4">
+                        <label htmlFor={id} className="block mb-2 text-gray-700">
+                            {field.label}
+                            {field.unit && ` (${field.unit})`}
+                            {field.required && <span className="text-red-500"> *</span>}
+                        </label>
+                        {field.type === "select" ? (
+                            <select
+                                id={id}
+                                value={value}
+                                onChange={(e) => onChange(field.key, e.target.value)}
+                                className={`w-full p-2 border rounded ${error ? "border-red-500" : ""}`}
+                            >
+                                <option value="">Select {field.label}</option>
+                                {field.options?.map((option) => (
+                                    <option key={option} value={option}>
+                                        {option}
+                                    </option>
+                                ))}
+                            </select>
+                        ) : (
+                            <input
+                                id={id}
+                                type={field.type}
+                                value={value}
+                                min={field.min}
+                                max={field.max}
+                                placeholder={field.placeholder}
+                                onChange={(e) => onChange(field.key, e.target.value)}
+                                className={`w-full p-2 border rounded ${error ? "border-red-500" : ""}`}
+                            />
+                        )}
+                        {error && <p className="mt-1 text-sm text-red-500">{error}</p>}
+                    </div>
+                );
+            })}
+        </>
+    );
+};
+
+export default CategoryAttributeFields;
@@ -0,0 +1,54 @@
+/**
+ * CategoryOptions.tsx
+ *
+ * This file defines the CategoryOptions component for the Panther Thrift Shop web application.
+ * The component renders the `<option>`s of a category dropdown from the category taxonomy, with
+ * subcategories indented under their parent (with non-breaking spaces, which options keep). Both listing
+ * forms use it, so they always offer the same categories. Retired categories are not offered, except the
+ * one the listing is already in, so editing an older listing does not silently change its category.
+ *
+ * Props:
+ * - categories: The category taxonomy (see `useCategories`).
+ * - currentCategory: Optional name of the listing's current category, kept even when it is retired.
+ *
+ * Dependencies:
+ * - React for building the component.
+ * - The taxonomy helpers from "@/Models/Category".
+ *
+ * Author: Jayson Baya
+ * Last Updated: October 19, 2026
+ */
+
+
+import React from "react";
+import { buildCategoryTree, Category, findCategoryByName, flattenCategoryTree } from "@/Models/Category";
+
+interface CategoryOptionsProps {
+    categories: Category[];
+    currentCategory?: string;
+}
+
+const CategoryOptions: React.FC<CategoryOptionsProps> = ({ categories, currentCategory }) => {
+    const options = flattenCategoryTree(buildCategoryTree(categories));
+    const current = currentCategory ? findCategoryByName(categories, currentCategory) : undefined;
+    const keepCurrent = !!currentCategory && !options.some(({ category }) => category.name === currentCategory);
+
+    return (
+        <>
+            {options.map(({ category, depth }) => (
+                <option key={category.id} value={category.name}>
+                    {"\u00A0\u00A0".repeat(depth)}
+                    {category.name}
+                </option>
+            ))}
+            {keepCurrent && (
+                <option value={currentCategory}>
+                    {currentCategory}
+                    {current?.retired && " (retired)"}
+                </option>
+            )}
+        </>
+    );
+};
+
+export default CategoryOptions;
@@ -0,0 +1,59 @@
+/**
+ * ConfirmDialog.tsx
+ *
+ * This file defines the ConfirmDialog component for the Panther Thrift Shop web application.
+ * It asks the seller to confirm an action that is hard to undo, such as deleting a listing, before it is taken.
+ *
+ * Props:
+ * - title (string): The question, e.g. "Delete this listing?".
+ * - message (string): What will happen when the action is confirmed.
+ * - confirmLabel (string): The label of the confirm button.
+ * - onConfirm (function): Called when the seller confirms.
+ * - onCancel (function): Called when the seller cancels or closes the dialog.
+ * - busy (boolean): Disables both buttons while the action runs.
+ *
+ * Dependencies:
+ * - Modal component from "@/components/Modal".
+ *
+ * Author: Jayson Baya
+ * Last Updated: October 19, 2026
+ */
+
+import React from "react";
+import Modal from "@/components/Modal";
+
+interface ConfirmDialogProps {
+    title: string;
+    message: string;
+    confirmLabel: string;
+    onConfirm: () => void;
+    onCancel: () => void;
+    busy?: boolean;
+}
+
+const ConfirmDialog: React.FC<ConfirmDialogProps> = ({ title, message, confirmLabel, onConfirm, onCancel, busy }) => (
+    <Modal onClose={onCancel}>
+        <div role="alertdialog" aria-label={title} className="p-6">
+            <h2 className="text-xl font-bold mb-4">{title}</h2>
+            <p className="mb-6 text-gray-700">{message}</p>
+            <div className="flex justify-end gap-2">
+                <button
+                    onClick={onCancel}
+                    disabled={busy}
+                    className="bg-gray-200 text-gray-700 px-4 py-2 rounded hover:bg-gray-300 transition disabled:opacity-50"
+                >
+                    Cancel
+                </button>
+                <button
+                    onClick={onConfirm}
+                    disabled={busy}
+                    className="bg-red-500 text-white px-4 py-2 rounded hover:bg-red-600 transition disabled:opacity-50"
+                >
+                    {confirmLabel}
+                </button>
+            </div>
+        </div>
+    </Modal>
+);
+
+export default ConfirmDialog;
@@ -0,0 +1,86 @@
+/**
+ * ConflictNotice.tsx
+ *
+ * This file defines the ConflictNotice component for the Panther Thrift Shop web application.
+ * It tells sellers when an edit they made to a listing was overridden by a newer edit made elsewhere
+ * (for example, on another device while this one was offline), listing the affected fields and both values.
+ *
+ * Key Features:
+ * - Shows one entry per conflict, naming the listing and the fields whose edit was discarded.
+ * - For conflicts that need review, offers "Keep mine" and "Keep theirs" buttons.
+ * - For conflicts the sync policy already settled, offers a "Dismiss" button.
+ *
+ * Props:
+ * - conflicts (ConflictRecord[]): The conflicts to show. Nothing is rendered when empty.
+ * - productNames (Record<string, string>): Listing names by product ID, used in the messages.
+ * - onResolve (function): Called with the conflict ID and the side to keep.
+ * - onDismiss (function): Called with the conflict ID to clear the notice.
+ *
+ * Author: Jayson Baya
+ * Last Updated: October 19, 2026
+ */
+
+import React from "react";
+import { ConflictRecord } from "@/lib/dbHandler";
+
+interface ConflictNoticeProps {
+    conflicts: ConflictRecord[];
+    productNames: Record<string, string>;
+    onResolve: (conflictId: string, keep: "mine" | "theirs") => void;
+    onDismiss: (conflictId: string) => void;
+}
+
+const formatValue = (value: unknown) => (value === undefined || value === null ? "(empty)" : String(value));
+
+const ConflictNotice: React.FC<ConflictNoticeProps> = ({ conflicts, productNames, onResolve, onDismiss }) => {
+    if (conflicts.length === 0) return null;
+
+    return (
+        <div role="alert" className="mb-6 space-y-3">
+            {conflicts.map((conflict) => (
+                <div key={conflict.id} className="border border-orange-300 bg-orange-50 p-4 rounded">
+                    <p className="font-semibold">
+                        {conflict.needsReview
+                            ? `Your edit to "${productNames[conflict.recordId] ?? "a listing"}" conflicts with a newer change.`
+                            : `Your edit to "${productNames[conflict.recordId] ?? "a listing"}" was overridden by a newer change.`}
+                    </p>
+                    <ul className="text-sm mt-2">
+                        {conflict.overriddenFields.map((field) => (
+                            <li key={field}>
+                                {field}: yours was {formatValue(conflict.localChanges[field])}, kept{" "}
+                                {formatValue(conflict.remoteValues[field])}
+                            </li>
+                        ))}
+                    </ul>
+                    <div className="mt-3 space-x-2">
+                        {conflict.needsReview ? (
+                            <>
+                                <button
+                                    onClick={() => onResolve(conflict.id, "mine")}
+                                    className="bg-blue-500 text-white px-3 py-1 rounded hover:bg-blue-600"
+                                >
+                                    Keep mine
+                                </button>
+                                <button
+                                    onClick={() => onResolve(conflict.id, "theirs")}
+                                    className="bg-gray-200 px-3 py-1 rounded hover:bg-gray-300"
+                                >
+                                    Keep theirs
+                                </button>
+                            </>
+                        ) : (
+                            <button
+                                onClick={() => onDismiss(conflict.id)}
+                                className="bg-gray-200 px-3 py-1 rounded hover:bg-gray-300"
+                            >
+                                Dismiss
+                            </button>
+                        )}
+                    </div>
+                </div>
+            ))}
+        </div>
+    );
+};
+
+export default ConflictNotice;
@@ -3,9 +3,14 @@
  *
  * This file defines the CreateListingForm component for the Panther Thrift Shop web application.
  * The component renders a form that allows sellers to create a new product listing. Users can enter
- * product details such as name, select a category from a predefined list, specify the price, add a
- * description, and upload a product image. Upon clicking the "Create Listing" button, the provided
- * handleCreateListing function is triggered to process and submit the listing data.
+ * product details such as name, select a category or subcategory from the category taxonomy, fill in the details of that
+ * category (see `CategoryAttributeFields`), specify the price, add a description, grade the item's condition, add tags and a pickup location, and upload one or more photos.
+ * Photos are kept in the order they were picked; the first one is the cover, and any photo can be moved
+ * up or removed before submitting. Upon clicking the "Create Listing" button, the provided
+ * handleCreateListing function is triggered to process and submit the listing data. "Save as Draft" submits
+ * it the same way as a draft, which only the seller sees until it is published. While the photos upload, a
+ * progress bar per photo is shown (see `UploadProgressList`) and both buttons are disabled; the form keeps its
+ * contents until every photo has been uploaded, so a failed upload can simply be submitted again.
  *
  * Props:
  * - name: A string representing the product name.
@@ -16,20 +21,43 @@
  * - setPrice: A function to update the product price.
  * - description: A string representing the product description.
  * - setDescription: A function to update the product description.
- * - setImage: A function to set the product image file.
- * - handleCreateListing: A function that is called when the "Create Listing" button is clicked to submit the form.
+ * - condition / setCondition: The condition grade, or "" when not given.
+ * - tags / setTags: Comma-separated tags as typed; parsed with `parseTags` on submit.
+ * - pickupLocation / setPickupLocation: Where the buyer can pick the item up.
+ * - images / setImages: The photo files, in display order.
+ * - attributes / setAttributes: The category attribute values as typed, keyed by field.
+ * - errors: Error messages of the listing's fields from `validateProduct`, shown under each field.
+ * - attributeErrors: Error messages of the category attributes, keyed by field.
+ * - handleCreateListing: A function that is called with the new listing's status ("active" or "draft") to submit the form.
+ * - uploads: The progress of the photo uploads of the listing being submitted.
+ * - onPauseUpload / onResumeUpload / onCancelUpload: Called with the ID of the photo upload to control.
+ * - uploading: Whether the listing is being submitted; disables the submit buttons.
  *
  * Dependencies:
  * - React for building the component.
- * - The categories array from "@/Models/ConstantData" to populate the category dropdown.
+ * - `useCategories` (lib/categories) and CategoryOptions to populate the category dropdown.
+ * - The condition labels from "@/Models/ConstantData" to populate the condition dropdown, and the photo types
+ *   the image pipeline accepts for the file picker.
+ * - CategoryAttributeFields for the fields of the chosen category.
+ * - UploadProgressList for the progress of the photo uploads.
+ * - FieldError for the error message under each field.
  *
  * Author: Jayson Baya
- * Last Updated: February 2, 2025
+ * Last Updated: October 19, 2026
  */
 
 
 import React from "react";
-import { categories } from "@/Models/ConstantData";
+import { CONDITION_LABELS, IMAGE_PIPELINE } from "@/Models/ConstantData";
+import { CONDITION_GRADES, ConditionGrade, ListingStatus } from "@/Models/Product";
+import { ProductAttributes } from "@/Models/CategoryAttributes";
+import { ProductErrors } from "@/Models/ProductSchema";
+import { useCategories } from "@/lib/categories";
+import CategoryAttributeFields from "@/components/SellerPageComponent/CategoryAttributeFields";
+import CategoryOptions from "@/components/SellerPageComponent/CategoryOptions";
+import FieldError from "@/components/SellerPageComponent/FieldError";
+import UploadProgressList from "@/components/SellerPageComponent/UploadProgressList";
+import { UploadProgress } from "@/lib/uploadManager";
 
 interface CreateListingFormProps {
     name: string;
@@ -40,8 +68,24 @@ interface CreateListingFormProps {
     setPrice: React.Dispatch<React.SetStateAction<number>>;
     description: string;
     setDescription: React.Dispatch<React.SetStateAction<string>>;
-    setImage: React.Dispatch<React.SetStateAction<File | null>>;
-    handleCreateListing: () => void;
+    condition: ConditionGrade | "";
+    setCondition: React.Dispatch<React.SetStateAction<ConditionGrade | "">>;
+    tags: string;
+    setTags: React.Dispatch<React.SetStateAction<string>>;
+    pickupLocation: string;
+    setPickupLocation: React.Dispatch<React.SetStateAction<string>>;
+    images: File[];
+    setImages: React.Dispatch<React.SetStateAction<File[]>>;
+    attributes: ProductAttributes;
+    setAttributes: React.Dispatch<React.SetStateAction<ProductAttributes>>;
+    errors: ProductErrors;
+    attributeErrors: Record<string, string>;
+    handleCreateListing: (status: ListingStatus) => void;
+    uploads: UploadProgress[];
+    onPauseUpload: (id: string) => void;
+    onResumeUpload: (id: string) => void;
+    onCancelUpload: (id: string) => void;
+    uploading: boolean;
 }
 
 const CreateListingForm: React.FC<CreateListingFormProps> = ({
@@ -53,9 +97,36 @@ const CreateListingForm: React.FC<CreateListingFormProps> = ({
                                                                  setPrice,
                                                                  description,
                                                                  setDescription,
-                                                                 setImage,
+                                                                 condition,
+                                                                 setCondition,
+                                                                 tags,
+                                                                 setTags,
+                                                                 pickupLocation,
+                                                                 setPickupLocation,
+                                                                 images,
+                                                                 setImages,
+                                                                 attributes,
+                                                                 setAttributes,
+                                                                 errors,
+                                                                 attributeErrors,
                                                                  handleCreateListing,
+                                                                 uploads,
+                                                                 onPauseUpload,
+                                                                 onResumeUpload,
+                                                                 onCancelUpload,
+                                                                 uploading,
                                                              }) => {
+    const categories = useCategories();
+
+    const moveImageUp = (index: number) =>
+        setImages((prev) => {
+            const reordered = [...prev];
+            [reordered[index - 1], reordered[index]] = [reordered[index], reordered[index - 1]];
+            return reordered;
+        });
+
+    const removeImage = (index: number) => setImages((prev) => prev.filter((_, i) => i !== index));
+
     return (
         <div className="bg-white p-6 rounded shadow-md max-w-lg mx-auto mb-6">
             <h2 className="text-xl font-bold mb-4">Create New Listing</h2>
@@ -65,8 +136,9 @@ const CreateListingForm: React.FC<CreateListingFormProps> = ({
                     type="text"
                     value={name}
                     onChange={(e) => setName(e.target.value)}
-                    className="w-full p-2 border rounded"
+                    className={`w-full p-2 border rounded ${errors.productName ? "border-red-500" : ""}`}
                 />
+                <FieldError message={errors.productName} />
             </div>
 
             <div className="mb-4">
@@ -74,25 +146,31 @@ const CreateListingForm: React.FC<CreateListingFormProps> = ({
                 <select
                     value={category}
                     onChange={(e) => setCategory(e.target.value)}
-                    className="w-full p-2 border rounded"
+                    className={`w-full p-2 border rounded ${errors.category ? "border-red-500" : ""}`}
                 >
                     <option value="">Select Category</option>
-                    {categories.map((category, idx) => (
-                        <option key={idx} value={category}>
-                            {category}
-                        </option>
-                    ))}
+                    <CategoryOptions categories={categories} />
                 </select>
+                <FieldError message={errors.category} />
             </div>
 
+            <CategoryAttributeFields
+                category={category}
+                categories={categories}
+                values={attributes}
+                onChange={(key, value) => setAttributes((prev) => ({ ...prev, [key]: value }))}
+                errors={attributeErrors}
+            />
+
             <div className="mb-4">
                 <label className="block mb-2 text-gray-700">Price</label>
                 <input
                     type="number"
                     value={price}
                     onChange={(e) => setPrice(Number(e.target.value))}
-                    className="w-full p-2 border rounded"
+                    className={`w-full p-2 border rounded ${errors.price ? "border-red-500" : ""}`}
                 />
+                <FieldError message={errors.price} />
             </div>
 
             <div className="mb-4">
@@ -100,28 +178,121 @@ const CreateListingForm: React.FC<CreateListingFormProps> = ({
                 <textarea
                     value={description}
                     onChange={(e) => setDescription(e.target.value)}
-                    className="w-full p-2 border rounded"
+                    className={`w-full p-2 border rounded ${errors.description ? "border-red-500" : ""}`}
+                />
+                <FieldError message={errors.description} />
+            </div>
+
+            <div className="mb-4">
+                <label className="block mb-2 text-gray-700">Condition</label>
+                <select
+                    value={condition}
+                    onChange={(e) => setCondition(e.target.value as ConditionGrade | "")}
+                    className={`w-full p-2 border rounded ${errors.condition ? "border-red-500" : ""}`}
+                >
+                    <option value="">Select Condition</option>
+                    {CONDITION_GRADES.map((grade) => (
+                        <option key={grade} value={grade}>
+                            {CONDITION_LABELS[grade]}
+                        </option>
+                    ))}
+                </select>
+                <FieldError message={errors.condition} />
+            </div>
+
+            <div className="mb-4">
+                <label className="block mb-2 text-gray-700">Tags (comma-separated)</label>
+                <input
+                    type="text"
+                    value={tags}
+                    onChange={(e) => setTags(e.target.value)}
+                    placeholder="e.g. vintage, denim"
+                    className={`w-full p-2 border rounded ${errors.tags ? "border-red-500" : ""}`}
                 />
+                <FieldError message={errors.tags} />
             </div>
 
             <div className="mb-4">
-                <label className="block mb-2 text-gray-700">Product Image</label>
+                <label className="block mb-2 text-gray-700">Pickup Location</label>
+                <input
+                    type="text"
+                    value={pickupLocation}
+                    onChange={(e) => setPickupLocation(e.target.value)}
+                    placeholder="e.g. Campus Center lobby"
+                    className={`w-full p-2 border rounded ${errors.pickupLocation ? "border-red-500" : ""}`}
+                />
+                <FieldError message={errors.pickupLocation} />
+            </div>
+
+            <div className="mb-4">
+                <label className="block mb-2 text-gray-700">Product Photos</label>
                 <input
                     type="file"
+                    accept={IMAGE_PIPELINE.ACCEPTED_TYPES.join(",")}
+                    multiple
                     onChange={(e) => {
-                        if (e.target.files && e.target.files.length > 0) {
-                            setImage(e.target.files[0]);
+                        const picked = Array.from(e.target.files ?? []);
+                        if (picked.length > 0) {
+                            setImages((prev) => [...prev, ...picked]);
                         }
                     }}
                     className="w-full"
                 />
+                {images.length > 0 && (
+                    <ol className="mt-2 space-y-1 text-sm">
+                        {images.map((image, index) => (
+                            <li key={`${image.name}-${index}`} className="flex items-center justify-between">
+                                <span>
+                                    {index + 1}. {image.name}
+                                    {index === 0 && <span className="ml-2 text-green-600">(cover)</span>}
+                                </span>
+                                <span className="space-x-2">
+                                    {index > 0 && (
+                                        <button
+                                            type="button"
+                                            onClick={() => moveImageUp(index)}
+                                            aria-label={`Move ${image.name} up`}
+                                            className="text-blue-500 hover:underline"
+                                        >
+                                            Up
+                                        </button>
+                                    )}
+                                    <button
+                                        type="button"
+                                        onClick={() => removeImage(index)}
+                                        aria-label={`Remove ${image.name}`}
+                                        className="text-red-500 hover:underline"
+                                    >
+                                        Remove
+                                    </button>
+                                </span>
+                            </li>
+                        ))}
+                    </ol>
+                )}
+                <FieldError message={errors.imageURLs} />
             </div>
 
+            <UploadProgressList
+                uploads={uploads}
+                onPause={onPauseUpload}
+                onResume={onResumeUpload}
+                onCancel={onCancelUpload}
+            />
+
+            <button
+                onClick={() => handleCreateListing("active")}
+                disabled={uploading}
+                className="w-full bg-green-500 text-white py-2 rounded hover:bg-green-600 transition disabled:opacity-50"
+            >
+                {uploading ? "Uploading..." : "Create Listing"}
+            </button>
             <button
-                onClick={handleCreateListing}
-                className="w-full bg-green-500 text-white py-2 rounded hover:bg-green-600 transition"
+                onClick={() => handleCreateListing("draft")}
+                disabled={uploading}
+                className="w-full mt-2 bg-gray-200 text-gray-700 py-2 rounded hover:bg-gray-300 transition disabled:opacity-50"
             >
-                Create Listing
+                Save as Draft
             </button>
         </div>
     );
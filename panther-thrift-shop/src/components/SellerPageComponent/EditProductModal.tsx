@@ -3,13 +3,21 @@
  *
  * This file defines the EditProductModal component for the Panther Thrift Shop web application.
  * The EditProductModal component renders a modal form that allows sellers to edit the details of an
- * existing product listing. Sellers can update fields such as product name, category, price, description,
- * and sold status. When a product is marked as sold, the modal prompts the seller to provide the buyer's email.
+ * existing product listing. Sellers can update fields such as product name, category, the details of that
+ * category, price, description, condition, tags, pickup location and listing status, and add, remove or reorder the listing's photos. When a product is reserved or marked as sold, the modal asks for the buyer's email.
  *
  * Key Features:
  * - Renders a modal interface for editing product details.
- * - Editable fields include product name, category, price, description, and sale status.
- * - Conditional input for buyer email when the product is marked as sold.
+ * - Editable fields include product name, category, price, description, condition, tags, pickup location,
+ *   and listing status. Tags are typed comma-separated and stored parsed (see `parseTags`).
+ * - The fields of the listing's category are rendered by `CategoryAttributeFields` and follow category changes.
+ * - The status dropdown only offers the statuses the listing may move to from its current one
+ *   (`LISTING_TRANSITIONS`), e.g. a sold listing can only be archived.
+ * - Photos are edited with `ListingPhotoEditor`: new photos can be added, and any photo removed, moved up or
+ *   made the cover. New photos are uploaded when the product is saved, with their progress shown here.
+ * - Conditional input for buyer email when the product is reserved or marked as sold.
+ * - "Withdraw Listing" archives a listing that is for sale, and "Delete Listing" deletes any listing that was
+ *   not sold. Both ask the page, which confirms with the seller first.
  * - Uses controlled inputs to update the product state via provided setter functions.
  *
  * Props:
@@ -17,40 +25,66 @@
  * - setSelectedProduct: Function to update the selected product's state.
  * - setShowEditModal: Function to toggle the visibility of the edit modal.
  * - handleUpdateProduct: Function invoked when the "Update Product" button is clicked to save changes.
+ * - errors: Optional error messages of the listing's fields from `validateProduct`, shown under each field.
+ * - attributeErrors: Optional error messages of the category attributes, keyed by field.
+ * - photos / setPhotos: The listing's photos as edited, stored ones and new files, in display order.
+ * - uploads: The progress of the new photos' uploads.
+ * - onPauseUpload / onResumeUpload / onCancelUpload: Called with the ID of the photo upload to control.
+ * - uploading: Whether the product is being saved; disables the "Update Product" button.
+ * - onWithdraw / onDelete: Called when the seller asks to withdraw or delete the listing.
  *
  * Dependencies:
  * - React for component rendering and state management.
  * - Modal component from "@/components/Modal" for modal display.
- * - The categories array from "@/Models/ConstantData" to populate the category dropdown.
+ * - `useCategories` (lib/categories) and CategoryOptions to populate the category dropdown.
+ * - The condition and status labels from "@/Models/ConstantData" to populate the other dropdowns.
+ * - CategoryAttributeFields for the fields of the listing's category.
+ * - ListingPhotoEditor and UploadProgressList for the photos.
+ * - FieldError for the error message under each field.
  *
  * Author: Jayson Baya
- * Last Updated: February 2, 2025
+ * Last Updated: October 19, 2026
  */
 
 
-import React from "react";
+import React, { useState } from "react";
 import Modal from "@/components/Modal";
-import { categories } from "@/Models/ConstantData";
-
-interface Product extends Record<string, unknown>{
-    id: string;
-    productName: string;
-    price: number;
-    category: string;
-    imageURL: string;
-    description: string;
-    seller: string;
-    sold: boolean;
-    createdAt: string;
-    buyerEmail: string;
-    purchaseDate: string;
-}
+import { CONDITION_LABELS, LISTING_STATUS_LABELS } from "@/Models/ConstantData";
+import {
+    CONDITION_GRADES,
+    ConditionGrade,
+    LISTING_TRANSITIONS,
+    ListingStatus,
+    parseTags,
+    Product,
+} from "@/Models/Product";
+import { useCategories } from "@/lib/categories";
+import { canDeleteListing } from "@/lib/listingDeletion";
+import CategoryAttributeFields from "@/components/SellerPageComponent/CategoryAttributeFields";
+import CategoryOptions from "@/components/SellerPageComponent/CategoryOptions";
+import ListingPhotoEditor from "@/components/SellerPageComponent/ListingPhotoEditor";
+import FieldError from "@/components/SellerPageComponent/FieldError";
+import UploadProgressList from "@/components/SellerPageComponent/UploadProgressList";
+import { EditablePhoto } from "@/lib/listingPhotos";
+import { ProductErrors } from "@/Models/ProductSchema";
+import { UploadProgress } from "@/lib/uploadManager";
 
 interface EditProductModalProps {
     selectedProduct: Product | null;
     setSelectedProduct: React.Dispatch<React.SetStateAction<Product | null>>;
     setShowEditModal: React.Dispatch<React.SetStateAction<boolean>>;
     handleUpdateProduct: () => void;
+    errors?: ProductErrors;
+    attributeErrors?: Record<string, string>;
+    photos: EditablePhoto[];
+    setPhotos: React.Dispatch<React.SetStateAction<EditablePhoto[]>>;
+    uploads: UploadProgress[];
+    onPauseUpload: (id: string) => void;
+    onResumeUpload: (id: string) => void;
+    onCancelUpload: (id: string) => void;
+    uploading: boolean;
+    onWithdraw: () => void;
+    onDelete: () => void;
 }
 
 const EditProductModal: React.FC<EditProductModalProps> = ({
@@ -58,9 +92,29 @@ const EditProductModal: React.FC<EditProductModalProps> = ({
                                                                setSelectedProduct,
                                                                setShowEditModal,
                                                                handleUpdateProduct,
+                                                               errors = {},
+                                                               attributeErrors,
+                                                               photos,
+                                                               setPhotos,
+                                                               uploads,
+                                                               onPauseUpload,
+                                                               onResumeUpload,
+                                                               onCancelUpload,
+                                                               uploading,
+                                                               onWithdraw,
+                                                               onDelete,
                                                            }) => {
+    // Offer the moves allowed from the status the listing had when the modal opened
+    const [savedStatus] = useState<ListingStatus>(selectedProduct?.status ?? "active");
+    // The tags as typed, so a trailing comma survives until the next tag is written
+    const [tagsText, setTagsText] = useState(selectedProduct?.tags?.join(", ") ?? "");
+    const [savedCategory] = useState(selectedProduct?.category);
+    const categories = useCategories();
     if (!selectedProduct) return null;
 
+    const statusOptions = [savedStatus, ...LISTING_TRANSITIONS[savedStatus]];
+    const needsBuyer = selectedProduct.status === "reserved" || selectedProduct.status === "sold";
+
     return (
         <Modal onClose={() => setShowEditModal(false)}>
             <div className="p-6">
@@ -72,13 +126,13 @@ const EditProductModal: React.FC<EditProductModalProps> = ({
                         type="text"
                         value={selectedProduct.productName}
                         onChange={(e) =>
-                            setSelectedProduct((prev) => ({
-                                ...prev!,
-                                productName: e.target.value,
-                            }))
+                            setSelectedProduct((prev) =>
+                                Product.fromRecord({ ...prev!, productName: e.target.value })
+                            )
                         }
-                        className="w-full p-2 border rounded"
+                        className={`w-full p-2 border rounded ${errors.productName ? "border-red-500" : ""}`}
                     />
+                    <FieldError message={errors.productName} />
                 </div>
 
                 <div className="mb-4">
@@ -86,35 +140,43 @@ const EditProductModal: React.FC<EditProductModalProps> = ({
                     <select
                         value={selectedProduct.category}
                         onChange={(e) =>
-                            setSelectedProduct((prev) => ({
-                                ...prev!,
-                                category: e.target.value,
-                            }))
+                            setSelectedProduct((prev) =>
+                                Product.fromRecord({ ...prev!, category: e.target.value })
+                            )
                         }
-                        className="w-full p-2 border rounded"
+                        className={`w-full p-2 border rounded ${errors.category ? "border-red-500" : ""}`}
                     >
                         <option value="">Select Category</option>
-                        {categories.map((category, idx) => (
-                            <option key={idx} value={category}>
-                                {category}
-                            </option>
-                        ))}
+                        <CategoryOptions categories={categories} currentCategory={savedCategory} />
                     </select>
+                    <FieldError message={errors.category} />
                 </div>
 
+                <CategoryAttributeFields
+                    category={selectedProduct.category}
+                    categories={categories}
+                    values={selectedProduct.attributes ?? {}}
+                    onChange={(key, value) =>
+                        setSelectedProduct((prev) =>
+                            Product.fromRecord({ ...prev!, attributes: { ...prev!.attributes, [key]: value } })
+                        )
+                    }
+                    errors={attributeErrors}
+                />
+
                 <div className="mb-4">
                     <label className="block mb-2 text-gray-700">Price</label>
                     <input
                         type="number"
                         value={selectedProduct.price}
                         onChange={(e) =>
-                            setSelectedProduct((prev) => ({
-                                ...prev!,
-                                price: Number(e.target.value),
-                            }))
+                            setSelectedProduct((prev) =>
+                                Product.fromRecord({ ...prev!, price: Number(e.target.value) })
+                            )
                         }
-                        className="w-full p-2 border rounded"
+                        className={`w-full p-2 border rounded ${errors.price ? "border-red-500" : ""}`}
                     />
+                    <FieldError message={errors.price} />
                 </div>
 
                 <div className="mb-4">
@@ -122,57 +184,145 @@ const EditProductModal: React.FC<EditProductModalProps> = ({
                     <textarea
                         value={selectedProduct.description}
                         onChange={(e) =>
-                            setSelectedProduct((prev) => ({
-                                ...prev!,
-                                description: e.target.value,
-                            }))
+                            setSelectedProduct((prev) =>
+                                Product.fromRecord({ ...prev!, description: e.target.value })
+                            )
                         }
-                        className="w-full p-2 border rounded"
+                        className={`w-full p-2 border rounded ${errors.description ? "border-red-500" : ""}`}
                     />
+                    <FieldError message={errors.description} />
+                </div>
+
+                <div className="mb-4">
+                    <label className="block mb-2 text-gray-700">Condition</label>
+                    <select
+                        value={selectedProduct.condition ?? ""}
+                        onChange={(e) =>
+                            setSelectedProduct((prev) =>
+                                Product.fromRecord({
+                                    ...prev!,
+                                    condition: (e.target.value as ConditionGrade) || undefined,
+                                })
+                            )
+                        }
+                        className={`w-full p-2 border rounded ${errors.condition ? "border-red-500" : ""}`}
+                    >
+                        <option value="">Select Condition</option>
+                        {CONDITION_GRADES.map((grade) => (
+                            <option key={grade} value={grade}>
+                                {CONDITION_LABELS[grade]}
+                            </option>
+                        ))}
+                    </select>
+                    <FieldError message={errors.condition} />
                 </div>
 
+                <div className="mb-4">
+                    <label className="block mb-2 text-gray-700">Tags (comma-separated)</label>
+                    <input
+                        type="text"
+                        value={tagsText}
+                        onChange={(e) => {
+                            setTagsText(e.target.value);
+                            setSelectedProduct((prev) =>
+                                Product.fromRecord({ ...prev!, tags: parseTags(e.target.value) })
+                            );
+                        }}
+                        className={`w-full p-2 border rounded ${errors.tags ? "border-red-500" : ""}`}
+                    />
+                    <FieldError message={errors.tags} />
+                </div>
+
+                <div className="mb-4">
+                    <label className="block mb-2 text-gray-700">Pickup Location</label>
+                    <input
+                        type="text"
+                        value={selectedProduct.pickupLocation ?? ""}
+                        onChange={(e) =>
+                            setSelectedProduct((prev) =>
+                                Product.fromRecord({ ...prev!, pickupLocation: e.target.value })
+                            )
+                        }
+                        className={`w-full p-2 border rounded ${errors.pickupLocation ? "border-red-500" : ""}`}
+                    />
+                    <FieldError message={errors.pickupLocation} />
+                </div>
+
+                {/* Photos in display order; the first one is the cover */}
+                <ListingPhotoEditor photos={photos} setPhotos={setPhotos} productName={selectedProduct.productName} />
+                <FieldError message={errors.imageURLs} />
+
                 <div className="mb-4">
                     <label className="block mb-2 text-gray-700">Status</label>
                     <select
-                        value={selectedProduct.sold ? "Sold" : "Still Selling"}
+                        value={selectedProduct.status}
                         onChange={(e) =>
-                            setSelectedProduct((prev) => ({
-                                ...prev!,
-                                sold: e.target.value === "Sold",
-                            }))
+                            setSelectedProduct((prev) =>
+                                Product.fromRecord({ ...prev!, status: e.target.value as ListingStatus })
+                            )
                         }
                         className="w-full p-2 border rounded"
                     >
-                        <option value="Still Selling">Still Selling</option>
-                        <option value="Sold">Sold</option>
+                        {statusOptions.map((status) => (
+                            <option key={status} value={status}>
+                                {LISTING_STATUS_LABELS[status]}
+                            </option>
+                        ))}
                     </select>
                 </div>
 
                 {/* Buyer Email Field - Required when marking as Sold */}
-                {selectedProduct.sold && (
+                {needsBuyer && (
                     <div className="mb-4">
                         <label className="block mb-2 text-gray-700">Buyer Email</label>
                         <input
                             type="email"
                             value={selectedProduct.buyerEmail || ""}
                             onChange={(e) =>
-                                setSelectedProduct((prev) => ({
-                                    ...prev!,
-                                    buyerEmail: e.target.value,
-                                }))
+                                setSelectedProduct((prev) =>
+                                    Product.fromRecord({ ...prev!, buyerEmail: e.target.value })
+                                )
                             }
-                            className="w-full p-2 border rounded"
-                            required
+                            className={`w-full p-2 border rounded ${errors.buyerEmail ? "border-red-500" : ""}`}
+                            required={selectedProduct.status === "sold"}
                         />
+                        <FieldError message={errors.buyerEmail} />
                     </div>
                     )}
 
+                <UploadProgressList
+                    uploads={uploads}
+                    onPause={onPauseUpload}
+                    onResume={onResumeUpload}
+                    onCancel={onCancelUpload}
+                />
+
                 <button
                     onClick={handleUpdateProduct}
-                    className="w-full bg-blue-500 text-white py-2 rounded hover:bg-blue-600 transition"
+                    disabled={uploading}
+                    className="w-full bg-blue-500 text-white py-2 rounded hover:bg-blue-600 transition disabled:opacity-50"
                 >
-                    Update Product
+                    {uploading ? "Uploading..." : "Update Product"}
                 </button>
+
+                <div className="flex gap-2 mt-2">
+                    {LISTING_TRANSITIONS[savedStatus].includes("archived") && (
+                        <button
+                            onClick={onWithdraw}
+                            className="flex-1 bg-gray-200 text-gray-700 py-2 rounded hover:bg-gray-300 transition"
+                        >
+                            Withdraw Listing
+                        </button>
+                    )}
+                    {canDeleteListing(savedStatus) && (
+                        <button
+                            onClick={onDelete}
+                            className="flex-1 bg-red-500 text-white py-2 rounded hover:bg-red-600 transition"
+                        >
+                            Delete Listing
+                        </button>
+                    )}
+                </div>
             </div>
         </Modal>
     );
@@ -0,0 +1,24 @@
+/**
+ * FieldError.tsx
+ *
+ * This file defines the FieldError component for the Panther Thrift Shop web application.
+ * It shows the validation message of one form field right under the field, as the listing forms do for
+ * the errors returned by `validateProduct`. Nothing is rendered when there is no message.
+ *
+ * Props:
+ * - message (string, optional): The error of the field.
+ *
+ * Author: Jayson Baya
+ * Last Updated: October 19, 2026
+ */
+
+import React from "react";
+
+interface FieldErrorProps {
+    message?: string;
+}
+
+const FieldError: React.FC<FieldErrorProps> = ({ message }) =>
+    message ? <p className="mt-1 text-sm text-red-500">{message}</p> : null;
+
+export default FieldError;
@@ -0,0 +1,123 @@
+/**
+ * ListingPhotoEditor.tsx
+ *
+ * This file defines the ListingPhotoEditor component for the Panther Thrift Shop web application.
+ * It lets a seller change the photos of an existing listing: add new photos, remove or reorder the ones
+ * it has, and choose which one is the cover. Photos are shown in display order; the first one is the cover.
+ * Nothing is uploaded or deleted here; the page does that when the listing is saved.
+ *
+ * Props:
+ * - photos (EditablePhoto[]): The stored photos and the new files, in display order.
+ * - setPhotos (function): Updates the photos.
+ * - productName (string): Used to describe the photos.
+ *
+ * Dependencies:
+ * - The `EditablePhoto` type from "@/lib/listingPhotos".
+ * - The photo types the image pipeline accepts, for the file picker.
+ *
+ * Author: Jayson Baya
+ * Last Updated: October 19, 2026
+ */
+
+import React from "react";
+import { EditablePhoto } from "@/lib/listingPhotos";
+import { IMAGE_PIPELINE } from "@/Models/ConstantData";
+
+interface ListingPhotoEditorProps {
+    photos: EditablePhoto[];
+    setPhotos: React.Dispatch<React.SetStateAction<EditablePhoto[]>>;
+    productName: string;
+}
+
+const photoKey = (photo: EditablePhoto, index: number) =>
+    photo.kind === "stored" ? photo.url : `${photo.file.name}-${index}`;
+
+const ListingPhotoEditor: React.FC<ListingPhotoEditorProps> = ({ photos, setPhotos, productName }) => {
+    const move = (from: number, to: number) =>
+        setPhotos((prev) => {
+            const reordered = [...prev];
+            const [photo] = reordered.splice(from, 1);
+            reordered.splice(to, 0, photo);
+            return reordered;
+        });
+
+    const remove = (index: number) => setPhotos((prev) => prev.filter((_, i) => i !== index));
+
+    return (
+        <div className="mb-4">
+            <label className="block mb-2 text-gray-700">Photos</label>
+            <ol className="space-y-2 text-sm">
+                {photos.map((photo, index) => {
+                    const label = photo.kind === "stored" ? `photo ${index + 1}` : photo.file.name;
+
+                    return (
+                        <li key={photoKey(photo, index)} className="flex items-center justify-between gap-2">
+                            <span className="flex items-center gap-2">
+                                {photo.kind === "stored" ? (
+                                    <img
+                                        src={photo.thumbnailURL ?? photo.url}
+                                        alt={`${productName}, photo ${index + 1}`}
+                                        className={`w-16 h-16 object-cover rounded ${index === 0 ? "ring-2 ring-green-500" : ""}`}
+                                    />
+                                ) : (
+                                    <span>
+                                        {photo.file.name} <span className="text-blue-500">(new)</span>
+                                    </span>
+                                )}
+                                {index === 0 && <span className="text-green-600">(cover)</span>}
+                            </span>
+                            <span className="space-x-2">
+                                {index > 0 && (
+                                    <>
+                                        <button
+                                            type="button"
+                                            onClick={() => move(index, 0)}
+                                            aria-label={`Make ${label} the cover`}
+                                            className="text-green-600 hover:underline"
+                                        >
+                                            Make cover
+                                        </button>
+                                        <button
+                                            type="button"
+                                            onClick={() => move(index, index - 1)}
+                                            aria-label={`Move ${label} up`}
+                                            className="text-blue-500 hover:underline"
+                                        >
+                                            Up
+                                        </button>
+                                    </>
+                                )}
+                                <button
+                                    type="button"
+                                    onClick={() => remove(index)}
+                                    aria-label={`Remove ${label}`}
+                                    className="text-red-500 hover:underline"
+                                >
+                                    Remove
+                                </button>
+                            </span>
+                        </li>
+                    );
+                })}
+            </ol>
+            <label className="block mt-2 text-sm text-gray-700">
+                Add photos
+                <input
+                    type="file"
+                    accept={IMAGE_PIPELINE.ACCEPTED_TYPES.join(",")}
+                    multiple
+                    onChange={(e) => {
+                        const picked = Array.from(e.target.files ?? []);
+                        if (picked.length > 0) {
+                            setPhotos((prev) => [...prev, ...picked.map((file): EditablePhoto => ({ kind: "new", file }))]);
+                        }
+                        e.target.value = ""; // So the same file can be picked again after removing it
+                    }}
+                    className="block w-full mt-1"
+                />
+            </label>
+        </div>
+    );
+};
+
+export default ListingPhotoEditor;
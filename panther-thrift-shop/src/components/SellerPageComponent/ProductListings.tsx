@@ -3,73 +3,90 @@
  *
  * This file defines the ProductListings component for the Panther Thrift Shop web application.
  * The component displays a grid layout of product listings for sellers to view their items.
- * Each listing includes an image, product name, price, description, and an indicator of whether the
- * product is sold or still available. Clicking on a product listing triggers the provided callback
- * to enable editing of the product details.
+ * Each listing includes an image, product name, price, description, and a badge showing its lifecycle
+ * status (draft, still selling, reserved, sold, archived or removed). Clicking on a product listing triggers
+ * the provided callback to enable editing of the product details.
  *
  * Key Features:
  * - Renders a responsive grid of product listings using Tailwind CSS.
- * - Displays essential product details including image, name, price, description, and sale status.
- * - Provides visual cues for the sale status (e.g., "Sold" in red for sold products, "Still Selling" in green for available products).
+ * - Displays essential product details including image (its thumbnail when there is one), name, price,
+ *   description, and listing status.
+ * - Badges each listing with its status via `ListingStatusBadge`.
+ * - A status filter narrows the grid to one status. By default every listing except removed ones is shown.
  * - Each product listing is clickable, triggering a callback to facilitate editing.
+ * - Flags listings that were created or edited offline and have not reached Firestore yet.
  *
  * Dependencies:
  * - React for component creation and rendering.
  * - Tailwind CSS for responsive styling and layout.
  *
  * Author: Jayson Baya
- * Last Updated: February 2, 2025
+ * Last Updated: October 19, 2026
  */
 
 
-import React from "react";
-
-interface Product extends Record<string, unknown>{
-    id: string;
-    productName: string;
-    price: number;
-    category: string;
-    imageURL: string;
-    description: string;
-    seller: string;
-    sold: boolean;
-    createdAt: string;
-    buyerEmail: string;
-    purchaseDate: string;
-}
+import React, { useState } from "react";
+import { getThumbnail, LISTING_STATUSES, ListingStatus, Product } from "@/Models/Product";
+import { LISTING_STATUS_LABELS } from "@/Models/ConstantData";
+import ListingStatusBadge from "@/components/ListingStatusBadge";
 
 interface ProductListingsProps {
     products: Product[];
+    unsyncedIds?: Set<string>;
     handleEditProduct: (product: Product) => void;
 }
 
 const ProductListings: React.FC<ProductListingsProps> = ({
                                                              products,
+                                                             unsyncedIds = new Set(),
                                                              handleEditProduct,
                                                          }) => {
+    const [statusFilter, setStatusFilter] = useState<ListingStatus | "">("");
+
+    // Removed listings only show up when asked for
+    const visibleProducts = products.filter((product) =>
+        statusFilter ? product.status === statusFilter : product.status !== "removed"
+    );
+
     return (
         <div>
-            <h2 className="text-xl font-semibold mb-4">My Listings</h2>
+            <div className="flex items-center justify-between mb-4">
+                <h2 className="text-xl font-semibold">My Listings</h2>
+                <select
+                    aria-label="Filter by status"
+                    value={statusFilter}
+                    onChange={(e) => setStatusFilter(e.target.value as ListingStatus | "")}
+                    className="p-2 border rounded"
+                >
+                    <option value="">All statuses</option>
+                    {LISTING_STATUSES.map((status) => (
+                        <option key={status} value={status}>
+                            {LISTING_STATUS_LABELS[status]}
+                        </option>
+                    ))}
+                </select>
+            </div>
             <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-6">
-                {products.length > 0 ? (
-                    products.map((product) => (
+                {visibleProducts.length > 0 ? (
+                    visibleProducts.map((product) => (
                         <div
                             key={product.id} // Ensure the unique `id` field is used
                             onClick={() => handleEditProduct(product)}
                             className="bg-white p-4 shadow rounded cursor-pointer"
                         >
                             <img
-                                src={product.imageURL}
+                                src={getThumbnail(product)}
                                 alt={product.productName}
                                 className="w-full h-48 object-contain mb-4"
                             />
                             <h2 className="text-lg font-semibold">{product.productName}</h2>
                             <p className="text-gray-600">${product.price}</p>
                             <p className="text-gray-500">{product.description}</p>
-                            {product.sold ? (
-                                <p className="text-red-500 font-bold">Sold</p>
-                            ) : (
-                                <p className="text-green-500 font-bold">Still Selling</p>
+                            <ListingStatusBadge status={product.status} />
+                            {unsyncedIds.has(product.id) && (
+                                <span className="inline-block mt-2 ml-2 bg-yellow-100 text-yellow-800 text-xs px-2 py-1 rounded">
+                                    Unsynced
+                                </span>
                             )}
                         </div>
                     ))
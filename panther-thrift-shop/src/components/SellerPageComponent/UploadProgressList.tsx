@@ -0,0 +1,126 @@
+/**
+ * UploadProgressList.tsx
+ *
+ * This file defines the UploadProgressList component for the Panther Thrift Shop web application.
+ * It shows one progress bar per photo being uploaded for a listing, with its state (uploading, paused,
+ * retrying after an error, done, failed or canceled) and buttons to pause, resume or cancel it.
+ *
+ * Props:
+ * - uploads (UploadProgress[]): The uploads to show (see `createUploadManager`).
+ * - onPause / onResume / onCancel (function): Called with the ID of the upload to control.
+ *
+ * Dependencies:
+ * - The `UploadProgress` type from "@/lib/uploadManager".
+ *
+ * Author: Jayson Baya
+ * Last Updated: October 19, 2026
+ */
+
+import React from "react";
+import { UploadProgress } from "@/lib/uploadManager";
+
+interface UploadProgressListProps {
+    uploads: UploadProgress[];
+    onPause: (id: string) => void;
+    onResume: (id: string) => void;
+    onCancel: (id: string) => void;
+}
+
+const BAR_COLORS: Record<UploadProgress["state"], string> = {
+    uploading: "bg-blue-500",
+    paused: "bg-gray-400",
+    retrying: "bg-yellow-500",
+    done: "bg-green-500",
+    failed: "bg-red-500",
+    canceled: "bg-gray-300",
+};
+
+const describeState = (upload: UploadProgress, percent: number): string => {
+    switch (upload.state) {
+        case "uploading":
+            return `${percent}%`;
+        case "paused":
+            return `Paused at ${percent}%`;
+        case "retrying":
+            return `Retrying (attempt ${upload.attempt})...`;
+        case "done":
+            return "Uploaded";
+        case "failed":
+            return `Failed: ${upload.error}`;
+        case "canceled":
+            return "Canceled";
+    }
+};
+
+const UploadProgressList: React.FC<UploadProgressListProps> = ({ uploads, onPause, onResume, onCancel }) => {
+    if (uploads.length === 0) return null;
+
+    return (
+        <ul className="mb-4 space-y-2 text-sm" aria-label="Photo uploads">
+            {uploads.map((upload) => {
+                const percent = upload.totalBytes
+                    ? Math.round((upload.bytesTransferred / upload.totalBytes) * 100)
+                    : 0;
+                const active = ["uploading", "paused", "retrying"].includes(upload.state);
+
+                return (
+                    <li key={upload.id}>
+                        <div className="flex items-center justify-between">
+                            <span>{upload.label}</span>
+                            <span className="space-x-2">
+                                <span className={upload.state === "failed" ? "text-red-500" : "text-gray-500"}>
+                                    {describeState(upload, percent)}
+                                </span>
+                                {upload.state === "uploading" && (
+                                    <button
+                                        type="button"
+                                        onClick={() => onPause(upload.id)}
+                                        aria-label={`Pause ${upload.label}`}
+                                        className="text-blue-500 hover:underline"
+                                    >
+                                        Pause
+                                    </button>
+                                )}
+                                {upload.state === "paused" && (
+                                    <button
+                                        type="button"
+                                        onClick={() => onResume(upload.id)}
+                                        aria-label={`Resume ${upload.label}`}
+                                        className="text-blue-500 hover:underline"
+                                    >
+                                        Resume
+                                    </button>
+                                )}
+                                {active && (
+                                    <button
+                                        type="button"
+                                        onClick={() => onCancel(upload.id)}
+                                        aria-label={`Cancel ${upload.label}`}
+                                        className="text-red-500 hover:underline"
+                                    >
+                                        Cancel
+                                    </button>
+                                )}
+                            </span>
+                        </div>
+                        <div
+                            role="progressbar"
+                            aria-label={`Upload of ${upload.label}`}
+                            aria-valuemin={0}
+                            aria-valuemax={100}
+                            aria-valuenow={percent}
+                            className="w-full h-2 bg-gray-200 rounded"
+                        >
+                            <div
+                                className={`h-2 rounded ${BAR_COLORS[upload.state]}`}
+                                style={{ width: `${percent}%` }}
+                            />
+                        </div>
+                    </li>
+                );
+            })}
+        </ul>
+    );
+};
+
+export default UploadProgressList;
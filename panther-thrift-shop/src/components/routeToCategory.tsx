@@ -1,4 +1,7 @@
-const routeToCategory = (pathname: string): string => {
+import { Category, DEFAULT_CATEGORIES, findCategoryBySlug } from "@/Models/Category";
+import { ROUTES } from "@/Models/ConstantData";
+
+const routeToCategory = (pathname: string, categories: Category[] = DEFAULT_CATEGORIES): string => {
     // Special sections like Browse, Buying, and Selling
     const specialSections = [
         { name: "Browse All", path: "/pages/BrowsePage" },
@@ -6,24 +9,17 @@ const routeToCategory = (pathname: string): string => {
         { name: "Selling", path: "/pages/SellersPage" },
     ];
 
-    const categories = [
-        { name: "Men's Clothing", path: "/marketplace/mens-clothing" },
-        { name: "Women's Clothing", path: "/marketplace/womens-clothing" },
-        { name: "Appliances", path: "/marketplace/appliances" },
-        { name: "Room Decoration", path: "/marketplace/room-decoration" },
-        { name: "Textbooks", path: "/marketplace/textbooks" },
-    ];
-
-    // Combine both arrays for easier lookup
-    const allSections = [...specialSections, ...categories];
+    const matchedSection = specialSections.find((section) => pathname.startsWith(section.path));
+    if (matchedSection) return matchedSection.name;
 
-    // Find the section or category that matches the current pathname
-    const matchedSection = allSections.find((section) =>
-        pathname.startsWith(section.path)
-    );
+    // Category pages live at /marketplace/<slug>; retired categories still resolve for old links
+    const [, slug] = pathname.startsWith(`${ROUTES.MARKETPLACE}/`)
+        ? pathname.slice(ROUTES.MARKETPLACE.length).split("/")
+        : [];
+    const matchedCategory = slug ? findCategoryBySlug(categories, decodeURIComponent(slug)) : undefined;
 
     // Return the name of the matched section or category; default to "Browse All"
-    return matchedSection ? matchedSection.name : "Browse All";
+    return matchedCategory ? matchedCategory.name : "Browse All";
 };
 
 export default routeToCategory;
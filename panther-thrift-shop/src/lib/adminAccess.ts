@@ -0,0 +1,67 @@
+/**
+ * adminAccess.ts
+ *
+ * This module tells the admin pages of the Panther Thrift Shop web application whether the signed-in user
+ * is an admin. Admins are users whose stored role is "admin"; the role is set in the database, never by the
+ * app. Hiding the admin pages is only a convenience: the Firestore security rules
+ * (`src/public/Firebase-Rules/Firestore-rules.txt`) refuse admin-only writes from everyone else, and keep
+ * users from changing their own role.
+ *
+ * Key Features:
+ * - `isAdminEmail`: Reads the stored role of the user with an email address.
+ * - `useIsAdmin`: React hook for admin pages; redirects signed-out users to the login page.
+ *
+ * Dependencies:
+ * - Firebase Auth for the signed-in user and `@/lib/dbHandler` for the `users` collection.
+ *
+ * Author: Jayson Baya
+ * Last Updated: October 19, 2026
+ */
+
+import { useEffect, useState } from "react";
+import { useRouter } from "next/navigation";
+import { onAuthStateChanged } from "firebase/auth";
+import { auth } from "@/lib/firebaseConfig";
+import { getData } from "@/lib/dbHandler";
+import { createQuery } from "@/lib/queryBuilder";
+import { FIRESTORE_COLLECTIONS, FIRESTORE_FIELDS, ROUTES } from "@/Models/ConstantData";
+import { User, UserRecord } from "@/Models/User";
+
+/**
+ * Resolves to whether the user with the email `email` is an admin; false for unknown users.
+ */
+export const isAdminEmail = async (email: string): Promise<boolean> => {
+    const [record] = await getData(
+        createQuery<UserRecord>(FIRESTORE_COLLECTIONS.USERS).where(FIRESTORE_FIELDS.EMAIL, "==", email)
+    );
+    return record ? User.fromRecord(record).isAdmin() : false;
+};
+
+/**
+ * Whether the signed-in user is an admin: null until it is known, false when the role cannot be read.
+ * Signed-out users are redirected to the login page.
+ */
+export const useIsAdmin = (): boolean | null => {
+    const [isAdmin, setIsAdmin] = useState<boolean | null>(null);
+    const router = useRouter();
+
+    useEffect(() => {
+        const unsubscribe = onAuthStateChanged(auth, (user) => {
+            if (!user) {
+                router.push(ROUTES.LOGIN); // Redirect to login if not authenticated
+                return;
+            }
+
+            isAdminEmail(user.email || "")
+                .then(setIsAdmin)
+                .catch((error) => {
+                    console.error("Error checking the user's role:", error);
+                    setIsAdmin(false);
+                });
+        });
+
+        return () => unsubscribe();
+    }, [router]);
+
+    return isAdmin;
+};
@@ -0,0 +1,163 @@
+/**
+ * browseFilters.ts
+ *
+ * This module defines the filters and sort orders of the BrowsePage of the Panther Thrift Shop web application,
+ * and how they are kept in the page URL. Filters live in the query string (e.g. `?category=Appliances&sort=price-asc`),
+ * so a filtered view can be bookmarked or shared, and they are turned into a `dbHandler` query rather than applied
+ * in the component, so only matching listings are read.
+ *
+ * Key Features:
+ * - `BrowseFilters`: Price range, category, condition, how recently the listing was posted, and the sort order.
+ * - `parseBrowseFilters` / `browseFiltersToSearchParams`: Read the filters from the URL and write them back.
+ *   Unknown or malformed values are ignored, so an edited URL never breaks the page.
+ * - `browseQueries` / `browseSortOptions`: The queries and page ordering for the BrowsePage. A category filter
+ *   with many subcategories needs several queries (see `categoryNameChunks`), since Firestore limits how many
+ *   values the `in` filters of one query may combine.
+ * - `getBrowsePage`: Reads one page of the listings matching the queries, merged as if read by one query.
+ *
+ * Firestore:
+ * - Price and posting-date filters are range filters on two fields, and every combination of filters and sort
+ *   order needs a composite index on `products`; Firestore's error message links to the index to create.
+ *
+ * Author: Jayson Baya
+ * Last Updated: October 19, 2026
+ */
+
+import { getDataPage, Page, TypedPageOptions } from "@/lib/dbHandler";
+import { categoryNameChunks } from "@/lib/categories";
+import { createQuery, StoreQuery } from "@/lib/queryBuilder";
+import { mergePages } from "@/lib/storage/storageAdapter";
+import { Category } from "@/Models/Category";
+import { FIRESTORE_COLLECTIONS, FIRESTORE_FIELDS } from "@/Models/ConstantData";
+import { CONDITION_GRADES, ConditionGrade, LISTED_STATUSES, Product } from "@/Models/Product";
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export const BROWSE_SORTS = {
+    newest: { label: "Newest", orderBy: FIRESTORE_FIELDS.CREATED_AT, direction: "desc" },
+    "price-asc": { label: "Price: Low to High", orderBy: FIRESTORE_FIELDS.PRICE, direction: "asc" },
+    "price-desc": { label: "Price: High to Low", orderBy: FIRESTORE_FIELDS.PRICE, direction: "desc" },
+} as const;
+
+export type BrowseSort = keyof typeof BROWSE_SORTS;
+
+export const POSTED_WITHIN = {
+    "1d": { label: "Last 24 hours", days: 1 },
+    "7d": { label: "Last 7 days", days: 7 },
+    "30d": { label: "Last 30 days", days: 30 },
+} as const;
+
+export type PostedWithin = keyof typeof POSTED_WITHIN;
+
+export interface BrowseFilters {
+    minPrice?: number;
+    maxPrice?: number;
+    category?: string;
+    condition?: ConditionGrade;
+    postedWithin?: PostedWithin;
+    sort: BrowseSort;
+}
+
+export const DEFAULT_BROWSE_FILTERS: BrowseFilters = { sort: "newest" };
+
+// Query string parameter names
+const PARAMS = {
+    minPrice: "minPrice",
+    maxPrice: "maxPrice",
+    category: "category",
+    condition: "condition",
+    postedWithin: "posted",
+    sort: "sort",
+} as const;
+
+const isKeyOf = <T extends object>(object: T, key: string | null): key is Extract<keyof T, string> =>
+    key !== null && Object.prototype.hasOwnProperty.call(object, key);
+
+const parsePrice = (value: string | null): number | undefined => {
+    if (value === null || value.trim() === "") return undefined;
+    const price = Number(value);
+    return Number.isFinite(price) && price >= 0 ? price : undefined;
+};
+
+/**
+ * Reads the filters from a URL query string, ignoring values that are missing or not valid.
+ */
+export const parseBrowseFilters = (params: Pick<URLSearchParams, "get">): BrowseFilters => {
+    const condition = params.get(PARAMS.condition);
+    const postedWithin = params.get(PARAMS.postedWithin);
+    const sort = params.get(PARAMS.sort);
+
+    return {
+        minPrice: parsePrice(params.get(PARAMS.minPrice)),
+        maxPrice: parsePrice(params.get(PARAMS.maxPrice)),
+        category: params.get(PARAMS.category) || undefined,
+        condition: CONDITION_GRADES.find((grade) => grade === condition),
+        postedWithin: isKeyOf(POSTED_WITHIN, postedWithin) ? postedWithin : undefined,
+        sort: isKeyOf(BROWSE_SORTS, sort) ? sort : DEFAULT_BROWSE_FILTERS.sort,
+    };
+};
+
+/**
+ * Writes the filters as a URL query string, leaving out unset filters and the default sort order.
+ */
+export const browseFiltersToSearchParams = (filters: BrowseFilters): URLSearchParams => {
+    const params = new URLSearchParams();
+    if (filters.minPrice !== undefined) params.set(PARAMS.minPrice, String(filters.minPrice));
+    if (filters.maxPrice !== undefined) params.set(PARAMS.maxPrice, String(filters.maxPrice));
+    if (filters.category) params.set(PARAMS.category, filters.category);
+    if (filters.condition) params.set(PARAMS.condition, filters.condition);
+    if (filters.postedWithin) params.set(PARAMS.postedWithin, filters.postedWithin);
+    if (filters.sort !== DEFAULT_BROWSE_FILTERS.sort) params.set(PARAMS.sort, filters.sort);
+    return params;
+};
+
+/**
+ * The queries for the listed products (for sale or reserved) that match `filters`. A category includes its
+ * subcategories, and "posted within" counts back from `now`. The results of the queries never overlap.
+ */
+export const browseQueries = (
+    filters: BrowseFilters,
+    categories: Category[],
+    now: Date = new Date()
+): StoreQuery<Product>[] => {
+    let query = createQuery<Product>(FIRESTORE_COLLECTIONS.PRODUCTS)
+        .where(FIRESTORE_FIELDS.STATUS, "in", LISTED_STATUSES);
+
+    if (filters.condition) {
+        query = query.where(FIRESTORE_FIELDS.CONDITION, "==", filters.condition);
+    }
+    if (filters.minPrice !== undefined) {
+        query = query.where(FIRESTORE_FIELDS.PRICE, ">=", filters.minPrice);
+    }
+    if (filters.maxPrice !== undefined) {
+        query = query.where(FIRESTORE_FIELDS.PRICE, "<=", filters.maxPrice);
+    }
+    if (filters.postedWithin) {
+        const since = new Date(now.getTime() - POSTED_WITHIN[filters.postedWithin].days * DAY_MS);
+        query = query.where(FIRESTORE_FIELDS.CREATED_AT, ">=", since.toISOString());
+    }
+    if (!filters.category) return [query];
+
+    return categoryNameChunks(categories, filters.category).map((names) =>
+        query.where(FIRESTORE_FIELDS.CATEGORY, "in", names)
+    );
+};
+
+/**
+ * Reads one page of the listings matching any of `queries` (from `browseQueries`).
+ */
+export const getBrowsePage = async (
+    queries: StoreQuery<Product>[],
+    options: TypedPageOptions<Product>
+): Promise<Page<Product>> =>
+    mergePages(await Promise.all(queries.map((query) => getDataPage(query, options))), options);
+
+/**
+ * The page ordering of the sort order in `filters`.
+ */
+export const browseSortOptions = (
+    filters: BrowseFilters
+): Pick<TypedPageOptions<Product>, "orderBy" | "direction"> => {
+    const { orderBy, direction } = BROWSE_SORTS[filters.sort];
+    return { orderBy, direction };
+};
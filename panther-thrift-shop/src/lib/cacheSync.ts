@@ -0,0 +1,158 @@
+/**
+ * cacheSync.ts
+ *
+ * This module keeps the local cache of the Panther Thrift Shop web application fresh when Firestore is the
+ * primary store. Pages used to serve whatever IndexedDB held and only read Firestore when the cache was empty,
+ * so edits made on another device never showed up.
+ *
+ * Key Features:
+ * - **Sync Metadata:** Every cached query (store + filters) records when it was last synced with the primary
+ *   store, in the `syncMeta` store of the local database.
+ * - **Per-Record Freshness:** Records carry the `updatedAt` timestamp stamped by `dbHandler` on every write;
+ *   reconciliation never replaces a cached record with an older remote copy.
+ * - **Stale-While-Revalidate:** `getDataStaleWhileRevalidate` hands back the cached records immediately and,
+ *   once the query is older than its TTL, reconciles the cache with the primary store and hands back the result.
+ * - **Invalidation:** `invalidateCache` forces the next read of a store to revalidate.
+ * - **Degraded Mode:** No revalidation is attempted while offline or while `dbHandler` is in degraded mode;
+ *   a revalidation that hits a quota or availability error starts degraded mode.
+ *
+ * Reconciliation Rules:
+ * - Remote records that are new, or at least as recent as the cached copy, are written to the cache.
+ * - Cached records that no longer exist remotely are removed from the cache.
+ * - Records with writes still waiting in the offline outbox are left alone.
+ *
+ * Author: Jayson Baya
+ * Last Updated: October 19, 2026
+ */
+
+import { getStorageAdapters, getStorageMode, getUnsyncedIds, handleRemoteError } from "@/lib/dbHandler";
+import { SYNC_META_STORE } from "@/lib/dbSchema";
+import { QueryFilter } from "@/lib/queryFilters";
+import { StoreQuery } from "@/lib/queryBuilder";
+import { StorageAdapter, StoredRecord } from "@/lib/storage/storageAdapter";
+import { CACHE_TTL_MS } from "@/Models/ConstantData";
+
+export interface SyncMetadata {
+    id: string; // Store name plus serialized filters
+    storeName: string;
+    lastSyncedAt: string;
+}
+
+export interface Freshness {
+    lastSyncedAt: string | null; // null when the query has never been synced
+    stale: boolean; // true while the records may be older than the TTL allows
+}
+
+export interface StaleWhileRevalidateOptions {
+    ttlMs?: number;
+}
+
+const toSyncKey = (storeName: string, filters: QueryFilter[]): string => `${storeName}:${JSON.stringify(filters)}`;
+
+const isStale = (metadata: SyncMetadata | null, ttlMs: number): boolean =>
+    !metadata || Date.now() - new Date(metadata.lastSyncedAt).getTime() >= ttlMs;
+
+// Keeps the cached copy when it was written after the remote one (e.g. a local write not yet read back)
+const isAtLeastAsRecent = (remote: StoredRecord, cached?: StoredRecord): boolean =>
+    !cached ||
+    typeof remote.updatedAt !== "string" ||
+    typeof cached.updatedAt !== "string" ||
+    remote.updatedAt >= cached.updatedAt;
+
+/**
+ * Reads the sync metadata of a cached query, or null when it has never been synced.
+ */
+export const getSyncMetadata = async <T>({ storeName, filters }: StoreQuery<T>): Promise<SyncMetadata | null> => {
+    const { primary, cache } = getStorageAdapters();
+    return (cache ?? primary).get<SyncMetadata>(SYNC_META_STORE, toSyncKey(storeName, filters));
+};
+
+/**
+ * Marks every cached query on `storeName` as stale, so the next read revalidates it.
+ */
+export const invalidateCache = async (storeName: string): Promise<void> => {
+    const { primary, cache } = getStorageAdapters();
+    const local = cache ?? primary;
+    const entries = await local.query<SyncMetadata>(SYNC_META_STORE, [
+        { field: "storeName", operator: "==", value: storeName },
+    ]);
+    await Promise.all(entries.map((entry) => local.delete(SYNC_META_STORE, entry.id)));
+};
+
+/**
+ * Brings the cached results of one query in line with `remote`, following the reconciliation rules above.
+ */
+const reconcileCache = async (
+    cache: StorageAdapter,
+    storeName: string,
+    filters: QueryFilter[],
+    remote: StoredRecord[]
+): Promise<void> => {
+    const [cached, unsyncedIds] = await Promise.all([
+        cache.query<StoredRecord>(storeName, filters),
+        getUnsyncedIds(storeName),
+    ]);
+    const cachedById = new Map(cached.map((record) => [record.id, record]));
+    const remoteIds = new Set(remote.map((record) => record.id));
+
+    const changed = remote.filter(
+        (record) => !unsyncedIds.has(record.id) && isAtLeastAsRecent(record, cachedById.get(record.id))
+    );
+    const removed = cached.filter((record) => !remoteIds.has(record.id) && !unsyncedIds.has(record.id));
+
+    if (changed.length > 0) {
+        await cache.put(storeName, changed);
+    }
+    await Promise.all(removed.map((record) => cache.delete(storeName, record.id)));
+};
+
+/**
+ * Serves a query from the local cache right away, then revalidates it against the primary store
+ * when it is older than `ttlMs` (or was never synced). `onData` is called with the cached records
+ * first and, after a revalidation, again with the reconciled records. Resolves once done.
+ * Without a separate cache (IndexedDB-only mode), the primary store is read once.
+ */
+export const getDataStaleWhileRevalidate = async <T>(
+    query: StoreQuery<T>,
+    onData: (records: T[], freshness: Freshness) => void,
+    { ttlMs = CACHE_TTL_MS.DEFAULT }: StaleWhileRevalidateOptions = {}
+): Promise<void> => {
+    const { storeName, filters } = query;
+    const { primary, cache } = getStorageAdapters();
+    if (!cache) {
+        onData(await primary.query<T>(storeName, filters), { lastSyncedAt: null, stale: false });
+        return;
+    }
+
+    const metadata = await getSyncMetadata(query);
+    const stale = isStale(metadata, ttlMs);
+    // Offline or degraded, the cached records are all there is
+    const revalidate = stale && getStorageMode() === "online";
+    const cached = await cache.query<T>(storeName, filters);
+
+    // With nothing cached yet there is nothing worth showing before the remote read
+    if (cached.length > 0 || !revalidate) {
+        onData(cached, { lastSyncedAt: metadata?.lastSyncedAt ?? null, stale });
+    }
+    if (!revalidate) return;
+
+    try {
+        const remote = await primary.query<StoredRecord>(storeName, filters);
+        await reconcileCache(cache, storeName, filters, remote);
+
+        const syncedAt: SyncMetadata = {
+            id: toSyncKey(storeName, filters),
+            storeName,
+            lastSyncedAt: new Date().toISOString(),
+        };
+        await cache.put(SYNC_META_STORE, [{ ...syncedAt }]);
+        onData(await cache.query<T>(storeName, filters), { lastSyncedAt: syncedAt.lastSyncedAt, stale: false });
+    } catch (error) {
+        if (!handleRemoteError(error)) {
+            console.error(`Error revalidating cached ${storeName}:`, error);
+        }
+        if (cached.length === 0) {
+            onData(cached, { lastSyncedAt: metadata?.lastSyncedAt ?? null, stale: true });
+        }
+    }
+};
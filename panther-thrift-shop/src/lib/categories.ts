@@ -0,0 +1,238 @@
+/**
+ * categories.ts
+ *
+ * This module loads the category taxonomy of the Panther Thrift Shop web application from the
+ * `categories` collection and lets admins change it. The taxonomy is read once per session through
+ * `dbHandler` (so it works in both Firestore and IndexedDB modes, and offline) and shared by the listing
+ * forms, the marketplace sidebar and routing. Until it has loaded, or while the collection is still empty,
+ * the built-in `DEFAULT_CATEGORIES` are used.
+ *
+ * Key Features:
+ * - `loadCategories`: Reads the taxonomy once; later calls reuse the same result.
+ * - `getLoadedCategories`: The taxonomy as loaded so far, for code that cannot wait (e.g. attribute lookups).
+ * - `useCategories`: React hook that re-renders once the taxonomy has loaded.
+ * - `categoryNameChunks`: The names of a category and its subcategories, in lists short enough to combine with
+ *   the listed statuses in one Firestore query.
+ * - `categoryListingsQueries` / `subscribeToCategoryListings` / `countCategoryListings`: The listed products of
+ *   a category and its subcategories, and how many there are per category, for the category pages and the
+ *   sidebar. A category with many subcategories is read with several queries, since Firestore limits how many
+ *   values the `in` filters of one query may combine (`FIRESTORE_IN_QUERY_LIMIT`).
+ * - Admin helpers, used by the AdminCategories page: `addCategory` adds a category (seeding the defaults into
+ *   an empty collection first) and `retireCategory` / `restoreCategory` hide or show one again. Categories
+ *   are never deleted, because existing listings keep their category. Only admins may write the collection
+ *   (see `src/public/Firebase-Rules/Firestore-rules.txt`).
+ *
+ * Dependencies:
+ * - `@/lib/dbHandler` for storage access and `@/lib/queryBuilder` for the query.
+ * - `@/Models/Category` for the taxonomy model and helpers.
+ *
+ * Author: Jayson Baya
+ * Last Updated: October 19, 2026
+ */
+
+import { useEffect, useState } from "react";
+import { addData, countData, getData, subscribe, updateData } from "@/lib/dbHandler";
+import { createQuery, StoreQuery, toChunks } from "@/lib/queryBuilder";
+import {
+    buildCategoryTree,
+    Category,
+    DEFAULT_CATEGORIES,
+    findCategoryByName,
+    flattenCategoryTree,
+    getCategoryAndDescendantNames,
+    slugify,
+} from "@/Models/Category";
+import { FIRESTORE_COLLECTIONS, FIRESTORE_FIELDS, FIRESTORE_IN_QUERY_LIMIT } from "@/Models/ConstantData";
+import { LISTED_STATUSES, Product } from "@/Models/Product";
+
+const { CATEGORIES, PRODUCTS } = FIRESTORE_COLLECTIONS;
+
+// Firestore multiplies the values of the two "in" filters, so each query takes this many category names
+const CATEGORY_NAMES_PER_QUERY = Math.floor(FIRESTORE_IN_QUERY_LIMIT / LISTED_STATUSES.length);
+
+let loadedCategories: Category[] = DEFAULT_CATEGORIES;
+let loading: Promise<Category[]> | null = null;
+
+// Records missing a name or slug cannot be shown or routed to
+const isCategory = (record: Partial<Category>): record is Category =>
+    typeof record.name === "string" && typeof record.slug === "string";
+
+/**
+ * Loads the taxonomy once per session and resolves to it. Falls back to the defaults when the
+ * collection is empty or cannot be read.
+ */
+export const loadCategories = (): Promise<Category[]> => {
+    loading ??= getData<Category>(createQuery<Category>(CATEGORIES))
+        .then((records) => {
+            const categories = records.filter(isCategory);
+            if (categories.length > 0) {
+                loadedCategories = categories.map((category) => ({ ...category, parentId: category.parentId ?? null }));
+            }
+            return loadedCategories;
+        })
+        .catch((error) => {
+            console.error("Error loading categories:", error);
+            loading = null; // Try again next time
+            return loadedCategories;
+        });
+    return loading;
+};
+
+export const getLoadedCategories = (): Category[] => loadedCategories;
+
+/**
+ * Reads the taxonomy again, e.g. after an admin changed it.
+ */
+export const reloadCategories = (): Promise<Category[]> => {
+    loading = null;
+    return loadCategories();
+};
+
+/**
+ * The category taxonomy for a component: the defaults (or the already loaded taxonomy) on the first
+ * render, then the loaded taxonomy.
+ */
+export const useCategories = (): Category[] => {
+    const [categories, setCategories] = useState(loadedCategories);
+
+    useEffect(() => {
+        let active = true;
+        loadCategories().then((loaded) => {
+            if (active) setCategories(loaded);
+        });
+        return () => {
+            active = false;
+        };
+    }, []);
+
+    return categories;
+};
+
+/**
+ * The names of the category named `name` and of its subcategories, split into lists that one query can
+ * filter on together with `status in LISTED_STATUSES`.
+ */
+export const categoryNameChunks = (categories: Category[], name: string): string[][] =>
+    toChunks(getCategoryAndDescendantNames(categories, name), CATEGORY_NAMES_PER_QUERY);
+
+/**
+ * The queries for the listed products (for sale or reserved) of the category named `name` and of its
+ * subcategories. Each query covers other categories, so their results never overlap.
+ */
+export const categoryListingsQueries = (categories: Category[], name: string): StoreQuery<Product>[] =>
+    categoryNameChunks(categories, name).map((names) =>
+        createQuery<Product>(PRODUCTS)
+            .where(FIRESTORE_FIELDS.STATUS, "in", LISTED_STATUSES)
+            .where(FIRESTORE_FIELDS.CATEGORY, "in", names)
+    );
+
+/**
+ * Subscribes to the listed products of the category named `name` and of its subcategories. The callback
+ * is called once every query has returned its first results, and again after every change.
+ * Returns a function that cancels the subscription.
+ */
+export const subscribeToCategoryListings = (
+    categories: Category[],
+    name: string,
+    callback: (listings: Product[]) => void,
+    onError?: (error: Error) => void
+): (() => void) => {
+    const queries = categoryListingsQueries(categories, name);
+    const results: Array<Product[] | undefined> = queries.map(() => undefined);
+
+    const unsubscribes = queries.map((query, index) =>
+        subscribe(
+            query,
+            (listings) => {
+                results[index] = listings;
+                if (results.every(Boolean)) callback(results.flatMap((chunk) => chunk ?? []));
+            },
+            onError
+        )
+    );
+    return () => unsubscribes.forEach((unsubscribe) => unsubscribe());
+};
+
+/**
+ * Counts the listed products of every visible category, subcategories included, keyed by category name.
+ * A category whose count cannot be read is left out rather than failing the rest.
+ */
+export const countCategoryListings = async (categories: Category[]): Promise<Record<string, number>> => {
+    const visible = flattenCategoryTree(buildCategoryTree(categories)).map(({ category }) => category);
+    const counts = await Promise.all(
+        visible.map((category) =>
+            Promise.all(categoryListingsQueries(categories, category.name).map((query) => countData(query))).then(
+                (counts): [string, number] => [category.name, counts.reduce((total, count) => total + count, 0)],
+                (error) => {
+                    console.error(`Error counting listings in ${category.name}:`, error);
+                    return null;
+                }
+            )
+        )
+    );
+    return Object.fromEntries(counts.filter((entry): entry is [string, number] => entry !== null));
+};
+
+/**
+ * Writes the default taxonomy into the collection if it is empty, so admin changes extend the
+ * defaults rather than replace them.
+ */
+export const seedCategories = async (): Promise<void> => {
+    const existing = await getData<Category>(createQuery<Category>(CATEGORIES));
+    if (existing.length > 0) return;
+
+    for (const category of DEFAULT_CATEGORIES) {
+        await addData(CATEGORIES, category);
+    }
+};
+
+/**
+ * Adds a category named `name`, under the category named `parentName` when given, after its siblings.
+ * Rejects names or slugs that are already taken, since products refer to categories by name.
+ */
+export const addCategory = async (name: string, parentName?: string): Promise<Category> => {
+    await seedCategories();
+    const categories = await reloadCategories();
+
+    const trimmed = name.trim();
+    const slug = slugify(trimmed);
+    if (!slug) {
+        throw new Error("A category needs a name.");
+    }
+    if (categories.some((category) => category.name === trimmed || category.slug === slug)) {
+        throw new Error(`A category named "${trimmed}" already exists.`);
+    }
+
+    const parent = parentName ? findCategoryByName(categories, parentName) : undefined;
+    if (parentName && !parent) {
+        throw new Error(`No category found with name: ${parentName}`);
+    }
+
+    const parentId = parent?.id ?? null;
+    const siblings = categories.filter((category) => category.parentId === parentId);
+    const category: Category = {
+        id: slug,
+        name: trimmed,
+        slug,
+        parentId,
+        order: Math.max(-1, ...siblings.map((sibling) => sibling.order)) + 1,
+    };
+
+    await addData(CATEGORIES, category);
+    await reloadCategories();
+    return category;
+};
+
+const setRetired = async (categoryId: string, retired: boolean): Promise<void> => {
+    await seedCategories();
+    await updateData(CATEGORIES, categoryId, { retired });
+    await reloadCategories();
+};
+
+/**
+ * Hides a category (and its subcategories) from the listing forms and the sidebar. Listings already in
+ * it keep their category and its page keeps working.
+ */
+export const retireCategory = (categoryId: string): Promise<void> => setRetired(categoryId, true);
+
+export const restoreCategory = (categoryId: string): Promise<void> => setRetired(categoryId, false);
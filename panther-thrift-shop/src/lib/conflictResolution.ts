@@ -0,0 +1,99 @@
+/**
+ * conflictResolution.ts
+ *
+ * This module defines how the Panther Thrift Shop web application resolves conflicting edits to the same
+ * record. Every record carries a `revision` (incremented on each write) and an `updatedAt` timestamp. When
+ * `dbHandler` syncs a local edit and finds that the primary store's revision moved on since the edit was
+ * made (e.g. a listing edited offline on a laptop and online on a phone), it hands both versions to the
+ * active conflict policy.
+ *
+ * Policies:
+ * - `lastWriterWins`: The edit with the later `updatedAt` wins as a whole.
+ * - `fieldMerge`: Fields only one side changed are kept from that side; for fields both sides changed,
+ *   the later edit wins.
+ * - `surfaceToUser`: Fields only the local edit changed are applied; fields both sides changed are held back
+ *   and recorded so the user can keep their edit or the other one.
+ *
+ * Every policy reports the local fields it discarded, so sellers can be told their edit was overridden.
+ *
+ * Author: Jayson Baya
+ * Last Updated: October 19, 2026
+ */
+
+import { valuesEqual } from "@/lib/queryFilters";
+
+export type ConflictPolicyName = "last-writer-wins" | "field-merge" | "surface-to-user";
+
+/**
+ * Both sides of a conflicting edit. `base` holds the values the local edit started from,
+ * for the fields it changed.
+ */
+export interface ConflictInput {
+    localChanges: Record<string, unknown>;
+    localUpdatedAt: string;
+    base: Record<string, unknown>;
+    remote: Record<string, unknown>;
+}
+
+export interface ConflictResolution {
+    apply: Record<string, unknown>; // Local changes to write over the remote record
+    overriddenFields: string[]; // Local changes that were discarded
+    needsReview: boolean; // True when the user has to choose
+}
+
+export interface ConflictPolicy {
+    name: ConflictPolicyName;
+    resolve: (input: ConflictInput) => ConflictResolution;
+}
+
+const isLocalLater = ({ localUpdatedAt, remote }: ConflictInput): boolean =>
+    typeof remote.updatedAt !== "string" || localUpdatedAt >= remote.updatedAt;
+
+export const lastWriterWins: ConflictPolicy = {
+    name: "last-writer-wins",
+    resolve: (input) =>
+        isLocalLater(input)
+            ? { apply: input.localChanges, overriddenFields: [], needsReview: false }
+            : { apply: {}, overriddenFields: Object.keys(input.localChanges), needsReview: false },
+};
+
+/**
+ * Splits local changes into fields the remote side left alone and fields both sides changed to different values.
+ */
+const splitChanges = (input: ConflictInput) => {
+    const untouched: Record<string, unknown> = {};
+    const contested: Record<string, unknown> = {};
+    Object.entries(input.localChanges).forEach(([field, value]) => {
+        if (valuesEqual(input.remote[field], input.base[field])) {
+            untouched[field] = value;
+        } else if (!valuesEqual(input.remote[field], value)) {
+            contested[field] = value;
+        }
+    });
+    return { untouched, contested };
+};
+
+export const fieldMerge: ConflictPolicy = {
+    name: "field-merge",
+    resolve: (input) => {
+        const { untouched, contested } = splitChanges(input);
+        return isLocalLater(input)
+            ? { apply: { ...untouched, ...contested }, overriddenFields: [], needsReview: false }
+            : { apply: untouched, overriddenFields: Object.keys(contested), needsReview: false };
+    },
+};
+
+export const surfaceToUser: ConflictPolicy = {
+    name: "surface-to-user",
+    resolve: (input) => {
+        const { untouched, contested } = splitChanges(input);
+        const overriddenFields = Object.keys(contested);
+        return { apply: untouched, overriddenFields, needsReview: overriddenFields.length > 0 };
+    },
+};
+
+export const CONFLICT_POLICIES: Record<ConflictPolicyName, ConflictPolicy> = {
+    "last-writer-wins": lastWriterWins,
+    "field-merge": fieldMerge,
+    "surface-to-user": surfaceToUser,
+};
@@ -2,16 +2,26 @@
  * dbHandler.ts
  *
  * This module provides a unified interface for managing data in the Panther Thrift Shop web application.
- * It supports both Firebase Firestore and a local SQLite-like database using IndexedDB (via the `idb` library).
- * By toggling the `NEXT_PUBLIC_USE_FIRESTORE` environment variable, the application can seamlessly switch
- * between these two database solutions.
+ * Every read and write goes through a pluggable `StorageAdapter` (see `lib/storage`), so the same code
+ * runs against Firebase Firestore, a local SQLite-like database using IndexedDB (via the `idb` library),
+ * or an in-memory store. By toggling the `NEXT_PUBLIC_USE_FIRESTORE` environment variable, the application
+ * can seamlessly switch between these database solutions.
  *
  * Features:
  * - CRUD (Create, Read, Update, Delete) operations for various data types such as Product, User, Conversation, and Message.
- * - Support for filtering queries in both Firestore and IndexedDB.
- * - Graceful fallback to a local database when Firestore is unavailable or exceeds its quota.
+ * - Every add and update stamps the record with an `updatedAt` timestamp and increments its `revision`.
+ * - Reads take a `StoreQuery` from `queryBuilder`, whose fields and values are checked against the model.
+ *   Local adapters evaluate the same operator set as Firestore (`<`, `<=`, `==`, `!=`, `>=`, `>`,
+ *   `array-contains`, `in`, `not-in`) via `queryFilters`.
+ * - Graceful fallback to the local cache when Firestore is unavailable or exceeds its quota (see Degraded Mode).
  * - Strong TypeScript typings ensure data integrity.
  *
+ * Storage Adapters:
+ * - `primary`: The source of truth. Firestore when `NEXT_PUBLIC_USE_FIRESTORE` is `"true"`, otherwise IndexedDB.
+ * - `cache`: The local copy kept next to Firestore (IndexedDB), or null when the primary is already local.
+ * - Where IndexedDB is unavailable (server-side rendering, Jest's jsdom), the in-memory adapter is used instead.
+ * - `setStorageAdapters` swaps the adapters at runtime, e.g. to run page tests against a seeded memory store.
+ *
  * Environment Variable:
  * - `NEXT_PUBLIC_USE_FIRESTORE`: Set to `"true"` to use Firestore; if not set to `"true"`, IndexedDB is used.
  *
@@ -22,185 +32,844 @@
  * - `Message`: Represents a message within a chat conversation.
  *
  * Functions:
- * - `initializeDB`: Initializes and upgrades the local IndexedDB instance.
+ * - `getStorageAdapters` / `setStorageAdapters`: Read or replace the active adapters.
  * - `addData<T>`: Adds a new record to the specified store in the selected database.
- * - `getData<T>`: Retrieves records from the specified store with optional filters.
+ * - `getData<T>`: Retrieves the records matching a query.
+ * - `subscribe<T>`: Calls back with live results for a query, using `onSnapshot` for Firestore
+ *   and local change notifications (shared across tabs via `BroadcastChannel`) for IndexedDB.
+ * - `getDataPage<T>`: Retrieves one ordered page of records plus an opaque token for the next page.
+ * - `countData<T>`: Counts the records matching a query (a server-side aggregation in Firestore).
+ * - `getCachedData<T>` / `cacheData`: Read from and write to the local cache only.
  * - `updateData`: Updates an existing record in the specified store by ID.
  * - `deleteData`: Deletes a record from the specified store by ID.
+ * - `runTransaction`: Runs reads and writes across several stores atomically (see `lib/sales.ts`).
+ * - `flushOutbox`: Replays writes that were queued while offline to Firestore, in order.
+ * - `getPendingOperations` / `getUnsyncedIds` / `toUnsyncedIds`: Report which writes have not reached Firestore yet.
+ * - `onOutboxChange`: Registers a listener that is called whenever the outbox grows or shrinks.
+ * - `getStorageMode` / `onStorageModeChange`: Report whether the app is online, offline, degraded or local-only.
+ * - `handleRemoteError`: Switches to degraded mode when a Firestore error calls for it.
+ *
+ * Conflicts:
+ * - An update remembers the revision of the local copy it was made against. When it reaches Firestore
+ *   (immediately, or on outbox replay) and the stored revision has moved on, the active policy from
+ *   `conflictResolution` (`NEXT_PUBLIC_CONFLICT_POLICY`, default field-level merge) decides what to write.
+ *   Only the fields the update changed from that copy are handed to the policy; the others are left as stored.
+ * - Discarded local values are stored in the `conflicts` store. `getConflicts` / `onConflictsChange` let pages
+ *   tell the user; `resolveConflict` keeps one side and `dismissConflict` clears the notice.
+ * - Deletes always win over concurrent edits.
+ *
+ * Listing Status:
+ * - Product writes that change `status` must follow `LISTING_TRANSITIONS` from the status stored before the
+ *   write. `updateData` checks the local copy and then the stored record; transaction writes are checked as
+ *   they are stamped. Invalid moves reject with `InvalidStatusTransitionError`. A queued offline update whose
+ *   move became invalid in the meantime (say the listing sold elsewhere) is dropped when it is replayed.
+ *
+ * Listing Validation:
+ * - Product writes (`addData`, `updateData` and transaction writes) are checked against `PRODUCT_SCHEMA`
+ *   (Models/ProductSchema): every field a write sets must be valid, e.g. a price within bounds or a name within
+ *   its length limit. Invalid writes reject with `InvalidProductError` before anything is stored. Whether the
+ *   required fields are all there is checked by the listing forms, which see the whole listing.
+ *
+ * Offline Outbox:
+ * - When Firestore is enabled but the browser is offline, writes are applied to the local cache immediately
+ *   and recorded in the `outbox` store. Once the `online` event fires, the outbox is replayed in the
+ *   order the writes were made. Records created offline keep their local ID in Firestore.
+ *
+ * Degraded Mode:
+ * - When Firestore rejects a request with `resource-exhausted` (quota) or `unavailable`, the app switches to
+ *   local-only mode for `DEGRADED_MODE_COOLDOWN_MS`. Reads are served from the local cache and writes are
+ *   queued in the outbox exactly as if the browser were offline; the request that failed is retried locally.
+ * - Once the cool-down ends, the outbox is replayed and live subscriptions move back to Firestore. A replay
+ *   that hits the same errors starts another cool-down.
  *
  * Limitations:
  * - Firestore usage is subject to quota limitations in the free tier.
  * - IndexedDB is only accessible in the browser and cannot be used in server-side code.
  *
  * Dependencies:
- * - `idb`: Provides a wrapper for IndexedDB.
- * - `firebase/firestore`: Enables Firestore operations.
+ * - `@/lib/storage`: The Firestore, IndexedDB and in-memory storage adapters.
  *
  * Author: Jayson Baya
- * Last Updated: January 25, 2025
+ * Last Updated: October 19, 2026
  */
 
 
 
-import { openDB, IDBPDatabase } from "idb";
-import { db as firestoreDB } from "@/lib/firebaseConfig";
+import { uuidv4 } from "@firebase/util";
 import {
-    collection,
-    addDoc,
-    getDocs,
-    query,
-    where,
-    doc,
-    updateDoc,
-    deleteDoc,
-    DocumentData,
-    Query,
-    CollectionReference, getDoc,
-} from "firebase/firestore";
-import { WhereFilterOp } from "firebase/firestore";
-import {Product} from "@/Models/Product";
-import {uuidv4} from "@firebase/util";
-
-const useFirestore = process.env.NEXT_PUBLIC_USE_FIRESTORE === "true";
-
-let sqliteDB: IDBPDatabase | null = null;
-
-const initializeDB = async (): Promise<IDBPDatabase> => {
-    if (!sqliteDB) {
-        sqliteDB = await openDB("PantherThriftShop", 2, { // 🔹 Increment version to recreate stores
-            upgrade(db, oldVersion, newVersion) {
-                console.log(`Upgrading IndexedDB from version ${oldVersion} to ${newVersion}`);
-
-                // Ensure all required object stores exist
-                if (!db.objectStoreNames.contains("products")) {
-                    db.createObjectStore("products", { keyPath: "id" });
-                }
-                if (!db.objectStoreNames.contains("savedItems")) {
-                    db.createObjectStore("savedItems", { keyPath: "id" });
-                }
-                if (!db.objectStoreNames.contains("purchasedItems")) {
-                    db.createObjectStore("purchasedItems", { keyPath: "id" });
-                }
-                if (!db.objectStoreNames.contains("offers")) {
-                    db.createObjectStore("offers", { keyPath: "id" });
-                }
+    assertTransition,
+    InvalidStatusTransitionError,
+    ListingStatus,
+    Product,
+    ProductRecord,
+} from "@/Models/Product";
+import { assertValidProduct } from "@/Models/ProductSchema";
+import { QueryFilter, valuesEqual } from "@/lib/queryFilters";
+import { FieldOf, StoreQuery } from "@/lib/queryBuilder";
+import { CONFLICTS_STORE, OUTBOX_STORE } from "@/lib/dbSchema";
+import {
+    CONFLICT_POLICIES,
+    ConflictPolicy,
+    ConflictPolicyName,
+    fieldMerge,
+} from "@/lib/conflictResolution";
+import {
+    applyWrites,
+    BatchWrite,
+    bufferWrites,
+    Page,
+    PageOptions,
+    StorageAdapter,
+    StorageTransaction,
+    StoredRecord,
+} from "@/lib/storage/storageAdapter";
+import { createFirestoreAdapter } from "@/lib/storage/firestoreAdapter";
+import { createIndexedDBAdapter } from "@/lib/storage/indexedDBAdapter";
+import { createMemoryAdapter } from "@/lib/storage/memoryAdapter";
+import { DEGRADED_MODE_COOLDOWN_MS, FIRESTORE_COLLECTIONS } from "@/Models/ConstantData";
 
-                console.log("IndexedDB object stores successfully created/updated.");
-            },
+/**
+ * The adapters in use. `primary` is the source of truth; `cache` is the local copy kept next to a
+ * remote primary (Firestore), or null when the primary is already local.
+ */
+export interface StorageAdapters {
+    primary: StorageAdapter;
+    cache: StorageAdapter | null;
+}
+
+let adapters: StorageAdapters | null = null;
+
+/**
+ * A write that was made while offline and still has to be replayed to the primary store.
+ * A `batch` operation carries the writes of one transaction, which are replayed atomically.
+ */
+export interface PendingOperation {
+    id: string;
+    seq: number; // Preserves the order of writes
+    type: "add" | "update" | "delete" | "batch";
+    storeName: string;
+    recordId: string;
+    data?: Record<string, unknown>;
+    writes?: BatchWrite[];
+    baseRevision?: number; // Revision of the local copy an update was made against
+    base?: Record<string, unknown>; // Values of the changed fields before the update
+    queuedAt: string;
+}
+
+/**
+ * A local edit that lost, in whole or in part, to a newer edit of the same record made elsewhere.
+ * `needsReview` conflicts wait for the user to keep one side; the others only inform them.
+ */
+export interface ConflictRecord {
+    id: string;
+    storeName: string;
+    recordId: string;
+    policy: ConflictPolicyName;
+    overriddenFields: string[];
+    localChanges: Record<string, unknown>; // The discarded local values
+    remoteValues: Record<string, unknown>; // The values that were kept
+    needsReview: boolean;
+    detectedAt: string;
+}
+
+type ConflictListener = (conflicts: ConflictRecord[]) => void;
+const conflictListeners = new Set<ConflictListener>();
+
+const DEFAULT_CONFLICT_POLICY =
+    CONFLICT_POLICIES[process.env.NEXT_PUBLIC_CONFLICT_POLICY as ConflictPolicyName] ?? fieldMerge;
+let conflictPolicy: ConflictPolicy = DEFAULT_CONFLICT_POLICY;
+
+type OutboxListener = (pending: PendingOperation[]) => void;
+const outboxListeners = new Set<OutboxListener>();
+let flushInProgress: Promise<number> | null = null;
+let lastSeq = 0;
+
+/**
+ * How the app currently reaches its data:
+ * - `online`: Through Firestore, with the local cache kept alongside.
+ * - `offline`: The browser is offline; writes are applied locally and queued.
+ * - `degraded`: Firestore is over quota or unavailable; the app runs from the cache until the cool-down ends.
+ * - `local`: The primary store is IndexedDB (or memory), so there is nothing to fall back from.
+ */
+export type StorageMode = "online" | "offline" | "degraded" | "local";
+
+type StorageModeListener = (mode: StorageMode) => void;
+const storageModeListeners = new Set<StorageModeListener>();
+let degradedUntil: number | null = null;
+let cooldownTimer: ReturnType<typeof setTimeout> | null = null;
+
+// Firestore error codes that mean "try again later" rather than "this request is wrong"
+const FALLBACK_ERROR_CODES = new Set(["resource-exhausted", "unavailable"]);
+
+const isOffline = (): boolean => typeof navigator !== "undefined" && !navigator.onLine;
+
+const isDegraded = (): boolean => degradedUntil !== null && Date.now() < degradedUntil;
+
+// Offline and degraded mode both keep reads and writes on the device
+const isLocalOnly = (): boolean => isOffline() || isDegraded();
+
+// IndexedDB is missing during server-side rendering and in jsdom, so fall back to memory there
+const createLocalAdapter = (): StorageAdapter =>
+    typeof indexedDB !== "undefined" ? createIndexedDBAdapter() : createMemoryAdapter();
+
+const createDefaultAdapters = (): StorageAdapters =>
+    process.env.NEXT_PUBLIC_USE_FIRESTORE === "true"
+        ? { primary: createFirestoreAdapter(), cache: createLocalAdapter() }
+        : { primary: createLocalAdapter(), cache: null };
+
+const watchConnectivity = () => {
+    // Replay queued writes whenever the browser comes back online
+    if (typeof window !== "undefined") {
+        window.addEventListener("online", () => {
+            notifyStorageModeListeners();
+            flushOutbox().catch((error) => console.error("Error replaying offline writes:", error));
         });
+        window.addEventListener("offline", () => notifyStorageModeListeners());
+    }
+    // Pick up anything left over from a previous session
+    if (!isOffline()) {
+        flushOutbox().catch((error) => console.error("Error replaying offline writes:", error));
     }
-    return sqliteDB;
 };
 
-const addData = async <T extends Record<string, unknown>>(
-    storeName: string,
-    data: Omit<T, "id"> // Exclude "id" since Firestore generates it
-): Promise<void> => {
-    if (useFirestore) {
-        try {
-            const collectionRef = collection(firestoreDB, storeName);
-            const docRef = await addDoc(collectionRef, data); // Firestore generates ID
-            console.log(`Firestore ID generated: ${docRef.id}`);
-
-            // Save in IndexedDB with Firestore ID
-            const db = await initializeDB();
-            const tx = db.transaction(storeName, "readwrite");
-            const store = tx.objectStore(storeName);
-            await store.add({ id: docRef.id, ...data }); // Store Firestore ID locally
-            await tx.done;
-
-        } catch (error) {
-            console.error(`Error adding document to ${storeName}:`, error);
-        }
-    } else {
-        // IndexedDB Only
-        const db = await initializeDB();
-        const tx = db.transaction(storeName, "readwrite");
-        const store = tx.objectStore(storeName);
-        const id = uuidv4();
-        await store.add({ id, ...data });
-        await tx.done;
+/**
+ * Returns the active adapters, choosing them from `NEXT_PUBLIC_USE_FIRESTORE` on first use.
+ */
+const getStorageAdapters = (): StorageAdapters => {
+    if (!adapters) {
+        adapters = createDefaultAdapters();
+        if (adapters.cache) watchConnectivity();
     }
+    return adapters;
+};
+
+/**
+ * Replaces the active adapters, e.g. with `createMemoryAdapter()` in tests.
+ */
+const setStorageAdapters = (next: { primary: StorageAdapter; cache?: StorageAdapter | null }): void => {
+    adapters = { primary: next.primary, cache: next.cache ?? null };
+    // A cool-down belongs to the adapters that failed
+    if (cooldownTimer) clearTimeout(cooldownTimer);
+    cooldownTimer = null;
+    degradedUntil = null;
+};
+
+// Reads and writes that never leave the device go to the cache, or to the primary when it is local
+const getLocalAdapter = (): StorageAdapter => {
+    const { primary, cache } = getStorageAdapters();
+    return cache ?? primary;
+};
+
+const getStorageMode = (): StorageMode => {
+    if (!getStorageAdapters().cache) return "local";
+    if (isDegraded()) return "degraded";
+    return isOffline() ? "offline" : "online";
+};
+
+const onStorageModeChange = (listener: StorageModeListener): (() => void) => {
+    storageModeListeners.add(listener);
+    return () => {
+        storageModeListeners.delete(listener);
+    };
+};
+
+const notifyStorageModeListeners = () => {
+    const mode = getStorageMode();
+    storageModeListeners.forEach((listener) => listener(mode));
+};
+
+const leaveDegradedMode = () => {
+    cooldownTimer = null;
+    degradedUntil = null;
+    console.log("Firestore cool-down over; replaying queued writes.");
+    notifyStorageModeListeners();
+    flushOutbox().catch((error) => console.error("Error replaying queued writes:", error));
+};
+
+/**
+ * Switches to degraded mode for `DEGRADED_MODE_COOLDOWN_MS` when `error` says Firestore is over quota
+ * or unavailable (restarting the cool-down if already degraded). Returns false for any other error,
+ * which the caller should surface as usual.
+ */
+const handleRemoteError = (error: unknown): boolean => {
+    const code = (error as { code?: unknown } | null)?.code;
+    if (typeof code !== "string" || !FALLBACK_ERROR_CODES.has(code.replace(/^firestore\//, ""))) {
+        return false;
+    }
+
+    const wasDegraded = isDegraded();
+    degradedUntil = Date.now() + DEGRADED_MODE_COOLDOWN_MS;
+    if (cooldownTimer) clearTimeout(cooldownTimer);
+    cooldownTimer = setTimeout(leaveDegradedMode, DEGRADED_MODE_COOLDOWN_MS);
+
+    if (!wasDegraded) {
+        console.warn(`Firestore reported "${code}"; working from the local cache for now.`);
+        notifyStorageModeListeners();
+    }
+    return true;
+};
+
+/**
+ * Runs `remote` against the primary store, or `local` against the cache while offline or degraded.
+ * When `remote` fails with a quota or availability error, the app enters degraded mode and `local`
+ * runs instead. Without a separate cache, `remote` always runs against the (local) primary.
+ */
+const withFallback = async <R>(
+    remote: (primary: StorageAdapter, cache: StorageAdapter | null) => Promise<R>,
+    local: (cache: StorageAdapter) => Promise<R>
+): Promise<R> => {
+    const { primary, cache } = getStorageAdapters();
+    if (!cache) return remote(primary, null);
+    if (isLocalOnly()) return local(cache);
+
+    try {
+        return await remote(primary, cache);
+    } catch (error) {
+        if (!handleRemoteError(error)) throw error;
+        return local(cache);
+    }
+};
+
+const getPendingOperations = async (storeName?: string): Promise<PendingOperation[]> => {
+    const filters: QueryFilter[] = storeName ? [{ field: "storeName", operator: "==", value: storeName }] : [];
+    const pending = await getLocalAdapter().query<PendingOperation>(OUTBOX_STORE, filters);
+    return pending.sort((a, b) => a.seq - b.seq);
+};
+
+/**
+ * Returns the IDs of records in `storeName` that were added or changed by `pending` operations.
+ */
+const toUnsyncedIds = (pending: PendingOperation[], storeName: string): Set<string> => {
+    const writes = pending.flatMap((operation): Array<{ storeName: string; type: string; id: string }> =>
+        operation.type === "batch"
+            ? (operation.writes ?? []).map((write) => ({
+                  storeName: write.storeName,
+                  type: write.type,
+                  id: write.type === "put" ? write.record.id : write.id,
+              }))
+            : [{ storeName: operation.storeName, type: operation.type, id: operation.recordId }]
+    );
+    return new Set(
+        writes.filter((write) => write.storeName === storeName && write.type !== "delete").map((write) => write.id)
+    );
+};
+
+const getUnsyncedIds = async (storeName: string): Promise<Set<string>> =>
+    toUnsyncedIds(await getPendingOperations(), storeName);
+
+const onOutboxChange = (listener: OutboxListener): (() => void) => {
+    outboxListeners.add(listener);
+    return () => {
+        outboxListeners.delete(listener);
+    };
+};
+
+const notifyOutboxListeners = async () => {
+    if (outboxListeners.size === 0) return;
+    const pending = await getPendingOperations();
+    outboxListeners.forEach((listener) => listener(pending));
+};
+
+/**
+ * Chooses how conflicting edits are resolved from now on.
+ */
+const setConflictPolicy = (policy: ConflictPolicyName | ConflictPolicy): void => {
+    conflictPolicy = typeof policy === "string" ? CONFLICT_POLICIES[policy] : policy;
+};
+
+const getConflicts = async (storeName?: string): Promise<ConflictRecord[]> => {
+    const filters: QueryFilter[] = storeName ? [{ field: "storeName", operator: "==", value: storeName }] : [];
+    const conflicts = await getLocalAdapter().query<ConflictRecord>(CONFLICTS_STORE, filters);
+    return conflicts.sort((a, b) => a.detectedAt.localeCompare(b.detectedAt));
+};
+
+const onConflictsChange = (listener: ConflictListener): (() => void) => {
+    conflictListeners.add(listener);
+    return () => {
+        conflictListeners.delete(listener);
+    };
+};
+
+const notifyConflictListeners = async () => {
+    if (conflictListeners.size === 0) return;
+    const conflicts = await getConflicts();
+    conflictListeners.forEach((listener) => listener(conflicts));
+};
+
+const recordConflict = async (conflict: Omit<ConflictRecord, "id" | "detectedAt">): Promise<void> => {
+    console.warn(`Edit to ${conflict.storeName}/${conflict.recordId} conflicted on: ${conflict.overriddenFields.join(", ")}`);
+    await getLocalAdapter().put(CONFLICTS_STORE, [{ ...conflict, id: uuidv4(), detectedAt: new Date().toISOString() }]);
+    await notifyConflictListeners();
 };
 
-const getData = async <T>(
+const dismissConflict = async (conflictId: string): Promise<void> => {
+    await getLocalAdapter().delete(CONFLICTS_STORE, conflictId);
+    await notifyConflictListeners();
+};
+
+/**
+ * Settles a conflict: "mine" re-applies the discarded local values on top of the current record,
+ * "theirs" keeps the record as it is. Either way the conflict is dismissed.
+ */
+const resolveConflict = async (conflictId: string, keep: "mine" | "theirs"): Promise<void> => {
+    const conflict = await getLocalAdapter().get<ConflictRecord>(CONFLICTS_STORE, conflictId);
+    if (!conflict) return;
+
+    if (keep === "mine") {
+        await updateData(conflict.storeName, conflict.recordId, conflict.localChanges);
+    }
+    await dismissConflict(conflictId);
+};
+
+/**
+ * Throws an `InvalidStatusTransitionError` when `changes` move the listing `current` to a status
+ * it may not reach from its stored one. Other stores and writes that leave `status` alone pass.
+ */
+const assertValidChange = (storeName: string, current: StoredRecord | null, changes: Record<string, unknown>) => {
+    if (storeName !== FIRESTORE_COLLECTIONS.PRODUCTS || !current || changes.status === undefined) return;
+    assertTransition(Product.fromRecord(current as ProductRecord).status, changes.status as ListingStatus);
+};
+
+/**
+ * Throws an `InvalidProductError` when a product write sets a field to a value `PRODUCT_SCHEMA` rejects.
+ * Writes to other stores pass.
+ */
+const assertValidWrite = (storeName: string, values: object) => {
+    if (storeName === FIRESTORE_COLLECTIONS.PRODUCTS) assertValidProduct({ ...values }, { partial: true });
+};
+
+const pickFields = (record: Record<string, unknown>, fields: string[]): Record<string, unknown> =>
+    Object.fromEntries(fields.map((field) => [field, record[field]]));
+
+/**
+ * Writes an update to the primary store, first checking whether the record moved on since the
+ * local copy the update was made against (`baseRevision`). If it did, the active conflict policy
+ * decides which fields to write, and any discarded local values are recorded as a conflict.
+ * Resolves to the record as stored, or null when it no longer exists.
+ */
+const syncUpdate = async (
+    primary: StorageAdapter,
     storeName: string,
-    filters: { field: string; value: string | number | boolean | string[]; operator: string }[] = []
-): Promise<T[]> => {
-    if (useFirestore) {
-        let q: Query<DocumentData> | CollectionReference<DocumentData> = collection(
-            firestoreDB,
-            storeName
-        );
-        filters.forEach((filter) => {
-            q = query(q, where(filter.field, filter.operator as WhereFilterOp, filter.value));
-        });
+    recordId: string,
+    updates: Record<string, unknown>,
+    baseRevision: number | undefined,
+    base: Record<string, unknown> = {}
+): Promise<StoredRecord | null> => {
+    const policy = conflictPolicy;
+    const outcome = await primary.runTransaction([storeName], async (transaction) => {
+        const remote = await transaction.get<StoredRecord>(storeName, recordId);
+        if (!remote) return null;
 
-        const snapshot = await getDocs(q);
-        return snapshot.docs.map((doc) => ({ id: doc.id, ...doc.data() } as T));
-    } else {
-        const db = await initializeDB();
+        const remoteRevision = Number(remote.revision ?? 0);
+        const { updatedAt, ...localChanges } = updates;
+        assertValidChange(storeName, remote, localChanges);
+        let apply = localChanges;
+        let conflict: Omit<ConflictRecord, "id" | "detectedAt"> | null = null;
+
+        if (baseRevision !== undefined && remoteRevision !== baseRevision) {
+            // Forms send every field; only the fields this edit changed may override the other device's edits
+            const edited = Object.fromEntries(
+                Object.entries(localChanges).filter(([field, value]) => !valuesEqual(value, base[field]))
+            );
+            const resolution = policy.resolve({
+                localChanges: edited,
+                localUpdatedAt: String(updatedAt),
+                base,
+                remote,
+            });
+            apply = resolution.apply;
+            if (resolution.overriddenFields.length > 0) {
+                conflict = {
+                    storeName,
+                    recordId,
+                    policy: policy.name,
+                    overriddenFields: resolution.overriddenFields,
+                    localChanges: pickFields(localChanges, resolution.overriddenFields),
+                    remoteValues: pickFields(remote, resolution.overriddenFields),
+                    needsReview: resolution.needsReview,
+                };
+            }
+        }
 
-        // Check if the object store exists in IndexedDB
-        if (!db.objectStoreNames.contains(storeName)) {
-            console.error(`Object store "${storeName}" does not exist in IndexedDB.`);
-            return []; // Return an empty array instead of crashing
+        if (Object.keys(apply).length === 0) {
+            return { record: remote, conflict };
         }
+        const written = { ...apply, updatedAt, revision: remoteRevision + 1 };
+        transaction.update(storeName, recordId, written);
+        return { record: { ...remote, ...written }, conflict };
+    });
 
-        const tx = db.transaction(storeName, "readonly");
-        const store = tx.objectStore(storeName);
-        const allData: T[] = await store.getAll();
-
-        return filters.length
-            ? allData.filter((item) =>
-                filters.every(
-                    (filter) =>
-                        item[filter.field as keyof T] === filter.value ||
-                        (Array.isArray(item[filter.field as keyof T]) &&
-                            (item[filter.field as keyof T] as unknown[]).includes(filter.value))
-                )
-            )
-            : allData;
+    // Recorded outside the transaction, which Firestore may retry
+    if (outcome?.conflict) {
+        await recordConflict(outcome.conflict);
     }
+    return outcome?.record ?? null;
 };
 
-const updateData = async (storeName: string, id: string, updates: Partial<Product>) => {
-    if (useFirestore) {
-        const docRef = doc(firestoreDB, storeName, id);
-        const docSnap = await getDoc(docRef);
+const queueOperation = async (operation: Omit<PendingOperation, "id" | "seq" | "queuedAt">): Promise<void> => {
+    lastSeq = Math.max(Date.now(), lastSeq + 1);
+    await getLocalAdapter().put(OUTBOX_STORE, [
+        { ...operation, id: uuidv4(), seq: lastSeq, queuedAt: new Date().toISOString() },
+    ]);
+    await notifyOutboxListeners();
+};
+
+const replayOperation = async (primary: StorageAdapter, operation: PendingOperation): Promise<void> => {
+    switch (operation.type) {
+        case "add":
+            await primary.put(operation.storeName, [{ ...operation.data, id: operation.recordId }]);
+            break;
+        case "update": {
+            let record: StoredRecord | null;
+            try {
+                record = await syncUpdate(
+                    primary,
+                    operation.storeName,
+                    operation.recordId,
+                    operation.data ?? {},
+                    operation.baseRevision,
+                    operation.base
+                );
+            } catch (error) {
+                if (!(error instanceof InvalidStatusTransitionError)) throw error;
+                // The listing moved on while the update was queued; keep the stored record
+                console.warn(`Dropping offline update for ${operation.storeName}/${operation.recordId}: ${error.message}`);
+                record = await primary.get<StoredRecord>(operation.storeName, operation.recordId);
+                if (record) await getLocalAdapter().put(operation.storeName, [record]);
+                break;
+            }
+            if (record) {
+                // The cache takes the record as stored, which may differ from the local edit after a conflict
+                await getLocalAdapter().put(operation.storeName, [record]);
+            } else {
+                console.warn(`Dropping offline update for missing record ${operation.storeName}/${operation.recordId}`);
+            }
+            break;
+        }
+        case "delete":
+            await primary.delete(operation.storeName, operation.recordId);
+            break;
+        case "batch": {
+            const writes = operation.writes ?? [];
+            const storeNames = [...new Set(writes.map((write) => write.storeName))];
+            await primary.runTransaction(storeNames, async (transaction) => applyWrites(transaction, writes));
+            break;
+        }
+    }
+};
 
-        if (!docSnap.exists()) {
-            console.error(`No document found with ID: ${id}`);
-            return;
+/**
+ * Replays queued offline writes to the primary store in the order they were made.
+ * Stops at the first failure so later writes never overtake earlier ones.
+ * Resolves to the number of operations that were synced.
+ */
+const flushOutbox = async (): Promise<number> => {
+    const { primary, cache } = getStorageAdapters();
+    if (!cache || isLocalOnly()) return 0;
+    if (flushInProgress) return flushInProgress;
+
+    flushInProgress = (async () => {
+        const pending = await getPendingOperations();
+        let synced = 0;
+
+        for (const operation of pending) {
+            try {
+                await replayOperation(primary, operation);
+                await cache.delete(OUTBOX_STORE, operation.id);
+                synced++;
+            } catch (error) {
+                if (!handleRemoteError(error)) {
+                    console.error(
+                        `Error replaying ${operation.type} on ${operation.storeName}/${operation.recordId}:`,
+                        error
+                    );
+                }
+                break;
+            }
         }
 
-        await updateDoc(docRef, updates);
+        if (synced > 0) {
+            console.log(`Synced ${synced} offline write(s) to ${primary.kind}.`);
+            await notifyOutboxListeners();
+        }
+        return synced;
+    })();
+
+    try {
+        return await flushInProgress;
+    } finally {
+        flushInProgress = null;
     }
+};
+
+// Every write stamps the record, so caches can tell which copy of a record is newer
+const withUpdatedAt = <T extends object>(record: T): T & { updatedAt: string } => ({
+    ...record,
+    updatedAt: new Date().toISOString(),
+});
+
+const nextRevision = (record: Record<string, unknown> | null): number => Number(record?.revision ?? 0) + 1;
+
+// Stamps a transaction write with `updatedAt` and the next revision of the record it replaces
+const stampWrite = async (transaction: StorageTransaction, write: BatchWrite): Promise<BatchWrite> => {
+    if (write.type === "delete") return write;
+    const id = write.type === "put" ? write.record.id : write.id;
+    const current = await transaction.get<StoredRecord>(write.storeName, id);
+    assertValidWrite(write.storeName, write.type === "put" ? write.record : write.updates);
+    assertValidChange(write.storeName, current, write.type === "put" ? write.record : write.updates);
+    const revision = nextRevision(current);
+    return write.type === "put"
+        ? { ...write, record: { ...withUpdatedAt(write.record), revision } }
+        : { ...write, updates: { ...withUpdatedAt(write.updates), revision } };
+};
 
-    // Update IndexedDB
-    const db = await initializeDB();
-    const tx = db.transaction(storeName, "readwrite");
-    const store = tx.objectStore(storeName);
-    const existingData = await store.get(id);
-    if (!existingData) {
-        console.warn(`No local record found with id: ${id}`);
-        return;
+const addData = async <T extends object>(
+    storeName: string,
+    newData: T // "id" is optional; the adapter generates one when it is missing
+): Promise<void> => {
+    assertValidWrite(storeName, newData);
+    const data = { ...withUpdatedAt(newData), revision: 1 };
+
+    try {
+        await withFallback(
+            async (primary, cache) => {
+                const id = await primary.add(storeName, data);
+                if (!cache) return;
+                console.log(`Firestore ID generated: ${id}`);
+
+                // Save in the local cache under the same ID
+                await cache.put(storeName, [{ ...data, id }]);
+            },
+            async (cache) => {
+                // Offline or degraded: keep the record locally and replay it later
+                const record = { id: uuidv4(), ...data };
+                await cache.add(storeName, record);
+                await queueOperation({ type: "add", storeName, recordId: record.id, data: record });
+            }
+        );
+    } catch (error) {
+        // Quota and availability errors never get here: `withFallback` keeps those records locally instead
+        console.error(`Error adding document to ${storeName}:`, error);
+        throw error;
     }
-    await store.put({ ...existingData, ...updates });
-    await tx.done;
 };
 
+const getData = async <T>({ storeName, filters }: StoreQuery<T>): Promise<T[]> =>
+    withFallback(
+        (primary) => primary.query<T>(storeName, filters),
+        (cache) => cache.query<T>(storeName, filters)
+    );
+
+/**
+ * Counts the records matching `query` in the primary store (or the cache while offline or degraded).
+ */
+const countData = async <T>({ storeName, filters }: StoreQuery<T>): Promise<number> =>
+    withFallback(
+        (primary) => primary.count(storeName, filters),
+        (cache) => cache.count(storeName, filters)
+    );
+
+/**
+ * Reads records from the local cache only, regardless of which backend is primary.
+ */
+const getCachedData = async <T>({ storeName, filters }: StoreQuery<T>): Promise<T[]> =>
+    getLocalAdapter().query<T>(storeName, filters);
+
+/**
+ * Page options whose sort field is checked against the model.
+ */
+export type TypedPageOptions<T> = Omit<PageOptions, "orderBy"> & { orderBy: FieldOf<T> };
+
+/**
+ * Retrieves one page of records ordered by `options.orderBy` from the primary store (or the cache
+ * while offline or degraded). Ties on the sort field are broken by document ID so pages never overlap.
+ */
+const getDataPage = async <T>(
+    { storeName, filters }: StoreQuery<T>,
+    options: TypedPageOptions<T>
+): Promise<Page<T>> =>
+    withFallback(
+        (primary) => primary.queryPage<T>(storeName, filters, options),
+        (cache) => cache.queryPage<T>(storeName, filters, options)
+    );
+
+/**
+ * Subscribes to the records matching `query`. The callback is called once with
+ * the current results and again after every change. Returns a function that cancels the subscription.
+ * While degraded, the subscription follows the local cache and moves back to Firestore once the
+ * cool-down ends.
+ */
+const subscribe = <T>(
+    { storeName, filters }: StoreQuery<T>,
+    callback: (records: T[]) => void,
+    onError: (error: Error) => void = (error) => console.error(`Error subscribing to ${storeName}:`, error)
+): (() => void) => {
+    const { primary, cache } = getStorageAdapters();
+    if (!cache) return primary.subscribe<T>(storeName, filters, callback, onError);
+
+    let onCache = false;
+    let unsubscribe: () => void = () => {};
+
+    const followCache = () => {
+        onCache = true;
+        unsubscribe = cache.subscribe<T>(storeName, filters, callback, onError);
+    };
+    const followPrimary = () => {
+        onCache = false;
+        // Firestore ends a listener after reporting an error, so there is nothing to cancel here
+        const stopPrimary = primary.subscribe<T>(storeName, filters, callback, (error) => {
+            if (handleRemoteError(error)) followCache();
+            else onError(error);
+        });
+        if (!onCache) unsubscribe = stopPrimary;
+    };
+
+    const stopWatchingMode = onStorageModeChange((mode) => {
+        if (mode === "online" && onCache) {
+            unsubscribe();
+            followPrimary();
+        }
+    });
+    if (isDegraded()) followCache();
+    else followPrimary();
+
+    return () => {
+        stopWatchingMode();
+        unsubscribe();
+    };
+};
+
+/**
+ * Writes records into the local cache without touching the primary store.
+ */
+const cacheData = async <T extends { id: string }>(storeName: string, records: T[]): Promise<void> =>
+    getLocalAdapter().put(storeName, records as unknown as StoredRecord[]);
+
+const updateData = async (storeName: string, id: string, changes: Partial<Product> | Record<string, unknown>) => {
+    assertValidWrite(storeName, changes);
+    const local = getLocalAdapter();
+    const updates = withUpdatedAt(changes) as Record<string, unknown>;
+
+    // Remember what this edit was based on, so a sync can tell whether someone else edited since
+    const localCopy = await local.get<StoredRecord>(storeName, id);
+    const baseRevision = localCopy ? Number(localCopy.revision ?? 0) : undefined;
+    const base = localCopy ? pickFields(localCopy, Object.keys(changes)) : undefined;
+    assertValidChange(storeName, localCopy, changes);
+
+    const updateLocally = async () => {
+        if (!(await local.update(storeName, id, { ...updates, revision: nextRevision(localCopy) }))) {
+            console.warn(`No local record found with id: ${id}`);
+        }
+    };
+
+    await withFallback(
+        async (primary, cache) => {
+            if (!cache) return updateLocally();
+            const record = await syncUpdate(primary, storeName, id, updates, baseRevision, base);
+            if (!record) {
+                console.error(`No document found with ID: ${id}`);
+                return;
+            }
+            await cache.put(storeName, [record]);
+        },
+        async () => {
+            await queueOperation({ type: "update", storeName, recordId: id, data: updates, baseRevision, base });
+            await updateLocally();
+        }
+    );
+};
 
 const deleteData = async (storeName: string, id: string): Promise<void> => {
-    if (useFirestore) {
-        await deleteDoc(doc(firestoreDB, storeName, id));
+    await withFallback(
+        async (primary, cache) => {
+            if (cache) await primary.delete(storeName, id);
+        },
+        (): Promise<void> => queueOperation({ type: "delete", storeName, recordId: id })
+    );
+    await getLocalAdapter().delete(storeName, id);
+};
+
+/**
+ * Copies writes that already committed to the primary store into the local cache.
+ * Updates to records the cache never saw are skipped; the next read refreshes them.
+ */
+const mirrorToCache = async (cache: StorageAdapter, writes: BatchWrite[]): Promise<void> => {
+    for (const write of writes) {
+        if (write.type === "put") await cache.put(write.storeName, [write.record]);
+        else if (write.type === "update") await cache.update(write.storeName, write.id, write.updates);
+        else await cache.delete(write.storeName, write.id);
     }
-    const db = await initializeDB();
-    const tx = db.transaction(storeName, "readwrite");
-    const store = tx.objectStore(storeName);
-    await store.delete(id);
-    await tx.done;
 };
 
+/**
+ * Runs `work` as one atomic transaction over `storeNames`: a Firestore transaction, or a single
+ * IndexedDB transaction. Either every write it makes is applied or none is. While offline or
+ * degraded in Firestore mode, the transaction runs against the local cache and its writes are
+ * queued as one batch that is replayed atomically later.
+ */
+const runTransaction = async <R>(
+    storeNames: string[],
+    work: (transaction: StorageTransaction) => Promise<R>
+): Promise<R> => {
+    let writes: BatchWrite[] = [];
+
+    const runOn = (target: StorageAdapter): Promise<R> =>
+        target.runTransaction(storeNames, async (transaction) => {
+            writes = []; // Record the writes of the attempt that commits
+            const recorder = bufferWrites((storeName, id) => transaction.get(storeName, id), writes);
+            const value = await work(recorder);
+            writes = await Promise.all(writes.map((write) => stampWrite(transaction, write)));
+            applyWrites(transaction, writes);
+            return value;
+        });
 
-export { initializeDB, addData, getData, updateData, deleteData };
+    return withFallback(
+        async (primary, cache) => {
+            const result = await runOn(primary);
+            if (writes.length > 0 && cache) await mirrorToCache(cache, writes);
+            return result;
+        },
+        async (cache) => {
+            const result = await runOn(cache);
+            if (writes.length > 0) {
+                await queueOperation({
+                    type: "batch",
+                    storeName: writes[0].storeName,
+                    recordId: writes[0].type === "put" ? writes[0].record.id : writes[0].id,
+                    writes,
+                });
+            }
+            return result;
+        }
+    );
+};
+
+
+export {
+    getStorageAdapters,
+    setStorageAdapters,
+    addData,
+    getData,
+    getDataPage,
+    countData,
+    subscribe,
+    getCachedData,
+    cacheData,
+    updateData,
+    deleteData,
+    runTransaction,
+    setConflictPolicy,
+    getConflicts,
+    onConflictsChange,
+    dismissConflict,
+    resolveConflict,
+    flushOutbox,
+    getPendingOperations,
+    getUnsyncedIds,
+    toUnsyncedIds,
+    onOutboxChange,
+    getStorageMode,
+    onStorageModeChange,
+    handleRemoteError,
+};
+export type { Page, PageOptions };
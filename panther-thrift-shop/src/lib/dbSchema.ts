@@ -0,0 +1,229 @@
+/**
+ * dbSchema.ts
+ *
+ * This module owns the schema of the local IndexedDB database used by the Panther Thrift Shop
+ * web application. Instead of a single hard-coded upgrade block, the schema is described as an
+ * ordered registry of numbered migrations. `runMigrations` applies every migration newer than the
+ * version found on the device, so a browser that last opened the site at any older version is
+ * brought up to the current schema in one upgrade.
+ *
+ * Adding a migration:
+ * - Append an entry with the next version number to `MIGRATIONS`. Never edit or reorder shipped entries.
+ * - Use the helpers (`createStore`, `addIndex`, `transformRecords`) so migrations stay idempotent.
+ * - `DB_VERSION` follows the last registered migration automatically.
+ *
+ * Record Helpers:
+ * - Booleans are not valid IndexedDB keys, so indexed boolean fields (the legacy `sold` flag) are mirrored
+ *   into a numeric shadow property by `toLocalRecord` and removed again by `fromLocalRecord`.
+ *
+ * Dependencies:
+ * - `idb`: Provides the promise-based IndexedDB wrapper types.
+ * - `DEFAULT_CATEGORIES` from "@/Models/Category" to seed the category taxonomy.
+ *
+ * Author: Jayson Baya
+ * Last Updated: October 19, 2026
+ */
+
+import { IDBPDatabase, IDBPTransaction } from "idb";
+import { DEFAULT_CATEGORIES } from "@/Models/Category";
+
+export const DB_NAME = "PantherThriftShop";
+export const OUTBOX_STORE = "outbox";
+export const SYNC_META_STORE = "syncMeta";
+export const CONFLICTS_STORE = "conflicts";
+
+export type UpgradeTransaction = IDBPTransaction<unknown, string[], "versionchange">;
+
+export interface Migration {
+    version: number;
+    description: string;
+    migrate: (db: IDBPDatabase, transaction: UpgradeTransaction) => void | Promise<void>;
+}
+
+const BOOLEAN_INDEX_FIELDS = ["sold"];
+
+export const indexKeyPath = (field: string): string =>
+    BOOLEAN_INDEX_FIELDS.includes(field) ? `_${field}Key` : field;
+
+export const toLocalRecord = <T extends object>(record: T): T => {
+    const localRecord = { ...record } as Record<string, unknown>;
+    BOOLEAN_INDEX_FIELDS.forEach((field) => {
+        if (typeof localRecord[field] === "boolean") {
+            localRecord[indexKeyPath(field)] = localRecord[field] ? 1 : 0;
+        }
+    });
+    return localRecord as T;
+};
+
+export const fromLocalRecord = <T>(record: T): T => {
+    const cleanRecord = { ...record } as Record<string, unknown>;
+    BOOLEAN_INDEX_FIELDS.forEach((field) => delete cleanRecord[indexKeyPath(field)]);
+    return cleanRecord as T;
+};
+
+// Migration helpers. Each one checks the current schema first so re-running it is harmless.
+
+export const createStore = (
+    db: IDBPDatabase,
+    storeName: string,
+    options: IDBObjectStoreParameters = { keyPath: "id" }
+) => {
+    if (!db.objectStoreNames.contains(storeName)) {
+        db.createObjectStore(storeName, options);
+    }
+};
+
+export const addIndex = (transaction: UpgradeTransaction, storeName: string, field: string) => {
+    const store = transaction.objectStore(storeName);
+    if (!store.indexNames.contains(field)) {
+        store.createIndex(field, indexKeyPath(field));
+    }
+};
+
+export const transformRecords = async (
+    transaction: UpgradeTransaction,
+    storeName: string,
+    transform: (record: Record<string, unknown>) => Record<string, unknown>
+) => {
+    let cursor = await transaction.objectStore(storeName).openCursor();
+    while (cursor) {
+        await cursor.update(transform(cursor.value));
+        cursor = await cursor.continue();
+    }
+};
+
+export const MIGRATIONS: Migration[] = [
+    {
+        version: 1,
+        description: "Create the products store",
+        migrate: (db) => createStore(db, "products"),
+    },
+    {
+        version: 2,
+        description: "Create the saved items, purchased items and offers stores",
+        migrate: (db) => {
+            createStore(db, "savedItems");
+            createStore(db, "purchasedItems");
+            createStore(db, "offers");
+        },
+    },
+    {
+        version: 3,
+        description: "Create the offline write outbox, keyed by operation ID and read in queue order",
+        migrate: (db, transaction) => {
+            createStore(db, OUTBOX_STORE);
+            addIndex(transaction, OUTBOX_STORE, "seq");
+        },
+    },
+    {
+        version: 4,
+        description: "Add secondary indexes on queried fields and backfill boolean shadow keys",
+        migrate: async (_db, transaction) => {
+            const storeIndexes: Record<string, string[]> = {
+                products: ["seller", "buyerEmail", "sold", "category", "createdAt"],
+                savedItems: ["buyerEmail", "createdAt"],
+                purchasedItems: ["buyerEmail", "seller", "createdAt"],
+            };
+            for (const [storeName, fields] of Object.entries(storeIndexes)) {
+                fields.forEach((field) => addIndex(transaction, storeName, field));
+                await transformRecords(transaction, storeName, toLocalRecord);
+            }
+        },
+    },
+    {
+        version: 5,
+        description: "Create the users store used by SignUp in IndexedDB mode",
+        migrate: (db, transaction) => {
+            createStore(db, "users");
+            addIndex(transaction, "users", "email");
+        },
+    },
+    {
+        version: 6,
+        description: "Create the sync metadata store that tracks when each cached query was last synced",
+        migrate: (db, transaction) => {
+            createStore(db, SYNC_META_STORE);
+            addIndex(transaction, SYNC_META_STORE, "storeName");
+        },
+    },
+    {
+        version: 7,
+        description: "Create the conflicts store that records edits overridden during sync",
+        migrate: (db, transaction) => {
+            createStore(db, CONFLICTS_STORE);
+            addIndex(transaction, CONFLICTS_STORE, "storeName");
+        },
+    },
+    {
+        version: 8,
+        description: "Index listings by lifecycle status and backfill it from the legacy sold flag",
+        migrate: async (_db, transaction) => {
+            addIndex(transaction, "products", "status");
+            for (const storeName of ["products", "savedItems", "purchasedItems"]) {
+                await transformRecords(transaction, storeName, (record) =>
+                    record.status ? record : { ...record, status: record.sold ? "sold" : "active" }
+                );
+            }
+        },
+    },
+    {
+        version: 9,
+        description: "Turn the single image of each listing into an ordered photo list",
+        migrate: async (_db, transaction) => {
+            for (const storeName of ["products", "savedItems", "purchasedItems"]) {
+                await transformRecords(transaction, storeName, (record) =>
+                    record.imageURLs || !record.imageURL ? record : { ...record, imageURLs: [record.imageURL] }
+                );
+            }
+        },
+    },
+    {
+        version: 10,
+        description: "Create the category taxonomy store and seed it with the default categories",
+        migrate: async (db, transaction) => {
+            createStore(db, "categories");
+            const store = transaction.objectStore("categories");
+            if ((await store.count()) > 0) return;
+            for (const category of DEFAULT_CATEGORIES) {
+                await store.put(category);
+            }
+        },
+    },
+    {
+        version: 11,
+        description: "Key saved items per buyer and listing, and index them by the listing they copy",
+        migrate: async (_db, transaction) => {
+            addIndex(transaction, "savedItems", "productId");
+            const store = transaction.objectStore("savedItems");
+            const records: Record<string, unknown>[] = await store.getAll();
+            // Saved items used to be keyed by their listing's ID; the new key is the `savedItemId` format
+            for (const record of records.filter((saved) => !saved.productId)) {
+                await store.delete(record.id as string);
+                await store.put({ ...record, id: `${record.buyerEmail}_${record.id}`, productId: record.id });
+            }
+        },
+    },
+];
+
+export const DB_VERSION = MIGRATIONS[MIGRATIONS.length - 1].version;
+
+/**
+ * Applies, in order, every migration with `oldVersion < version <= newVersion`.
+ * Must be called from the `upgrade` callback of `openDB` so all steps share one versionchange transaction.
+ */
+export const runMigrations = async (
+    db: IDBPDatabase,
+    oldVersion: number,
+    newVersion: number,
+    transaction: UpgradeTransaction,
+    migrations: Migration[] = MIGRATIONS
+): Promise<void> => {
+    const pending = migrations
+        .filter((migration) => migration.version > oldVersion && migration.version <= newVersion)
+        .sort((a, b) => a.version - b.version);
+
+    for (const migration of pending) {
+        console.log(`Applying IndexedDB migration ${migration.version}: ${migration.description}`);
+        await migration.migrate(db, transaction);
+    }
+};
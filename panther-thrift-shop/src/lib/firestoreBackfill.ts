@@ -0,0 +1,99 @@
+/**
+ * firestoreBackfill.ts
+ *
+ * This module brings Firestore documents written by older versions of the Panther Thrift Shop web application
+ * up to the current shape. IndexedDB records are upgraded by the numbered migrations in `dbSchema`; Firestore
+ * has no schema version, so each backfill here finds the documents that may need it with a query and
+ * rewrites those that do in batches. Running the backfills again skips the documents already upgraded.
+ * Until they have run, queries that filter on a backfilled field miss the documents not yet upgraded.
+ *
+ * Running:
+ * - The backfills rewrite every user's documents, so they are a one-off migration an admin runs from the
+ *   AdminMaintenance page, never something each client does on its own.
+ * - Legacy fields (`sold`, the `id` field of saved items) are kept next to the new ones, so clients that
+ *   still read them keep working until every client has moved on.
+ *
+ * Key Features:
+ * - `FIRESTORE_BACKFILLS`: One entry per backfill: the collection, the query matching the documents that
+ *   may need it, and the changes that upgrade one document (none when it is already upgraded).
+ * - `runFirestoreBackfills`: Runs every backfill and resolves to the number of documents upgraded. A backfill
+ *   that fails is logged and can be run again; the others still run.
+ *
+ * Dependencies:
+ * - `firebase/firestore` for the queries and batched writes. The documents are read and written without the
+ *   model converters, since the fields being upgraded are not part of the current models.
+ * - `@/lib/firebaseConfig` for the initialized Firestore instance.
+ *
+ * Author: Jayson Baya
+ * Last Updated: October 19, 2026
+ */
+
+import { db } from "@/lib/firebaseConfig";
+import {
+    collection,
+    DocumentData,
+    getDocs,
+    query,
+    QueryConstraint,
+    where,
+    writeBatch,
+} from "firebase/firestore";
+import { FIRESTORE_BATCH_LIMIT, FIRESTORE_COLLECTIONS } from "@/Models/ConstantData";
+
+export interface FirestoreBackfill {
+    description: string;
+    storeName: string;
+    pending: QueryConstraint; // Matches the documents that may still need this backfill
+    upgrade: (data: DocumentData) => DocumentData | null; // The changes that upgrade one document, if any
+}
+
+export const FIRESTORE_BACKFILLS: FirestoreBackfill[] = [
+    // Listings are browsed and searched by `status`, which listings written before it existed lack; the same
+    // upgrade as IndexedDB migration 8.
+    ...[FIRESTORE_COLLECTIONS.PRODUCTS, FIRESTORE_COLLECTIONS.SAVED_ITEMS, FIRESTORE_COLLECTIONS.PURCHASED_ITEMS].map(
+        (storeName): FirestoreBackfill => ({
+            description: `Derive the status of ${storeName} from the legacy sold flag`,
+            storeName,
+            pending: where("sold", "in", [true, false]),
+            upgrade: (data) => (data.status ? null : { status: data.sold ? "sold" : "active" }),
+        })
+    ),
+    {
+        description: "Record the listing of each saved item in productId",
+        storeName: FIRESTORE_COLLECTIONS.SAVED_ITEMS,
+        // Saved items used to store their listing's ID in an `id` field, next to a generated document ID
+        pending: where("id", ">", ""),
+        upgrade: (data) => (data.productId ? null : { productId: data.id }),
+    },
+];
+
+const runBackfill = async ({ storeName, pending, upgrade }: FirestoreBackfill): Promise<number> => {
+    const snapshot = await getDocs(query(collection(db, storeName), pending));
+    const upgrades = snapshot.docs
+        .map((docSnap) => ({ ref: docSnap.ref, changes: upgrade(docSnap.data()) }))
+        .filter((entry): entry is { ref: typeof entry.ref; changes: DocumentData } => entry.changes !== null);
+
+    for (let start = 0; start < upgrades.length; start += FIRESTORE_BATCH_LIMIT) {
+        const batch = writeBatch(db);
+        upgrades.slice(start, start + FIRESTORE_BATCH_LIMIT).forEach(({ ref, changes }) => batch.update(ref, changes));
+        await batch.commit();
+    }
+    return upgrades.length;
+};
+
+/**
+ * Runs every backfill in `backfills`, one after the other, and resolves to the number of documents upgraded.
+ */
+export const runFirestoreBackfills = async (backfills: FirestoreBackfill[] = FIRESTORE_BACKFILLS): Promise<number> => {
+    let upgraded = 0;
+    for (const backfill of backfills) {
+        try {
+            const count = await runBackfill(backfill);
+            if (count > 0) console.log(`Firestore backfill "${backfill.description}": ${count} documents upgraded.`);
+            upgraded += count;
+        } catch (error) {
+            console.error(`Error running the Firestore backfill "${backfill.description}":`, error);
+        }
+    }
+    return upgraded;
+};
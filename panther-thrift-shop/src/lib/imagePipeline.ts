@@ -0,0 +1,157 @@
+/**
+ * imagePipeline.ts
+ *
+ * This module prepares listing photos in the browser before they are uploaded to Firebase Storage. Phone
+ * photos are often over 10 MB and carry EXIF metadata, including the GPS position where they were taken,
+ * so every photo is decoded and drawn onto a canvas, which keeps only the pixels, and re-encoded at a
+ * bounded size. A small thumbnail is made at the same time for product grids.
+ *
+ * Key Features:
+ * - `validateImage`: Rejects files that are too large or are not JPEG, PNG or WebP, judged by their first
+ *   bytes rather than their name or reported type.
+ * - `processImage`: Produces the upload-ready photo and its thumbnail, both JPEG, turned upright according
+ *   to the EXIF orientation and without any metadata. Transparent areas become white.
+ * - `listingPhotoPaths`: Unique Storage paths under the seller and the listing, so two sellers' `IMG_0001.jpg`
+ *   no longer overwrite each other.
+ *
+ * Dependencies:
+ * - The browser's `createImageBitmap` and canvas APIs.
+ * - `IMAGE_PIPELINE` from "@/Models/ConstantData" for the accepted types, sizes and quality.
+ *
+ * Author: Jayson Baya
+ * Last Updated: October 19, 2026
+ */
+
+import { uuidv4 } from "@firebase/util";
+import { IMAGE_PIPELINE } from "@/Models/ConstantData";
+
+export class InvalidImageError extends Error {
+    constructor(readonly fileName: string, reason: string) {
+        super(`${fileName}: ${reason}`);
+        this.name = "InvalidImageError";
+    }
+}
+
+export interface ProcessedImage {
+    image: Blob;
+    thumbnail: Blob;
+    width: number;
+    height: number;
+}
+
+// The first bytes of each accepted format; WebP is "RIFF", a size, then "WEBP"
+const SIGNATURES: Array<{ type: string; matches: (bytes: Uint8Array) => boolean }> = [
+    { type: "image/jpeg", matches: (bytes) => bytes[0] === 0xff && bytes[1] === 0xd8 && bytes[2] === 0xff },
+    {
+        type: "image/png",
+        matches: (bytes) => [0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a].every((byte, i) => bytes[i] === byte),
+    },
+    {
+        type: "image/webp",
+        matches: (bytes) =>
+            String.fromCharCode(...bytes.slice(0, 4)) === "RIFF" && String.fromCharCode(...bytes.slice(8, 12)) === "WEBP",
+    },
+];
+
+const readHeader = (file: Blob, length = 12): Promise<Uint8Array> =>
+    new Promise((resolve, reject) => {
+        const reader = new FileReader();
+        reader.onload = () => resolve(new Uint8Array(reader.result as ArrayBuffer));
+        reader.onerror = () => reject(reader.error);
+        reader.readAsArrayBuffer(file.slice(0, length));
+    });
+
+/**
+ * Checks that `file` is a JPEG, PNG or WebP image within the size limit and resolves to its actual type.
+ * Rejects with an `InvalidImageError` otherwise.
+ */
+export const validateImage = async (file: File): Promise<string> => {
+    if (file.size === 0) {
+        throw new InvalidImageError(file.name, "The file is empty.");
+    }
+    if (file.size > IMAGE_PIPELINE.MAX_FILE_BYTES) {
+        const limit = Math.round(IMAGE_PIPELINE.MAX_FILE_BYTES / (1024 * 1024));
+        throw new InvalidImageError(file.name, `Photos must be smaller than ${limit} MB.`);
+    }
+
+    const header = await readHeader(file);
+    const format = SIGNATURES.find((signature) => signature.matches(header));
+    if (!format || !IMAGE_PIPELINE.ACCEPTED_TYPES.includes(format.type)) {
+        throw new InvalidImageError(file.name, "Only JPEG, PNG or WebP photos can be uploaded.");
+    }
+    return format.type;
+};
+
+/**
+ * The size of a `width` × `height` image scaled down, keeping its proportions, so neither side exceeds
+ * `maxDimension`. Smaller images keep their size.
+ */
+export const fitWithin = (width: number, height: number, maxDimension: number): { width: number; height: number } => {
+    const scale = Math.min(1, maxDimension / Math.max(width, height));
+    return {
+        width: Math.max(1, Math.round(width * scale)),
+        height: Math.max(1, Math.round(height * scale)),
+    };
+};
+
+// Draws `bitmap` onto a fresh canvas no larger than `maxDimension` and encodes it; metadata is not carried over
+const encode = (bitmap: ImageBitmap, maxDimension: number, quality: number): Promise<Blob> => {
+    const { width, height } = fitWithin(bitmap.width, bitmap.height, maxDimension);
+    const canvas = document.createElement("canvas");
+    canvas.width = width;
+    canvas.height = height;
+
+    const context = canvas.getContext("2d");
+    if (!context) {
+        return Promise.reject(new Error("This browser cannot process images."));
+    }
+    context.fillStyle = "#ffffff"; // JPEG has no transparency
+    context.fillRect(0, 0, width, height);
+    context.imageSmoothingQuality = "high";
+    context.drawImage(bitmap, 0, 0, width, height);
+
+    return new Promise((resolve, reject) => {
+        canvas.toBlob(
+            (blob) => (blob ? resolve(blob) : reject(new Error("The image could not be encoded."))),
+            IMAGE_PIPELINE.OUTPUT_TYPE,
+            quality
+        );
+    });
+};
+
+/**
+ * Validates `file` and turns it into an upload-ready photo and thumbnail, both re-encoded without metadata.
+ * Rejects with an `InvalidImageError` when the file is not a supported image or cannot be decoded.
+ */
+export const processImage = async (file: File): Promise<ProcessedImage> => {
+    await validateImage(file);
+
+    let bitmap: ImageBitmap;
+    try {
+        // Apply the EXIF orientation now, since the re-encoded photo will no longer carry it
+        bitmap = await createImageBitmap(file, { imageOrientation: "from-image" });
+    } catch {
+        throw new InvalidImageError(file.name, "The photo could not be read. It may be damaged.");
+    }
+
+    try {
+        const image = await encode(bitmap, IMAGE_PIPELINE.MAX_DIMENSION, IMAGE_PIPELINE.QUALITY);
+        const thumbnail = await encode(bitmap, IMAGE_PIPELINE.THUMBNAIL_DIMENSION, IMAGE_PIPELINE.THUMBNAIL_QUALITY);
+        return { image, thumbnail, ...fitWithin(bitmap.width, bitmap.height, IMAGE_PIPELINE.MAX_DIMENSION) };
+    } finally {
+        bitmap.close();
+    }
+};
+
+/**
+ * New, unique Storage paths for one photo of a listing and its thumbnail, under the seller's user ID so
+ * Storage rules can limit each seller to their own folder.
+ */
+export const listingPhotoPaths = (userId: string, listingId: string): { image: string; thumbnail: string } => {
+    const photoId = uuidv4();
+    const folder = `products/${userId}/${listingId}`;
+    return {
+        image: `${folder}/${photoId}.jpg`,
+        thumbnail: `${folder}/thumbnails/${photoId}.jpg`,
+    };
+};
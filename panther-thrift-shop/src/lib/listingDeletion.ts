@@ -0,0 +1,63 @@
+/**
+ * listingDeletion.ts
+ *
+ * This module deletes a seller's listing for good in the Panther Thrift Shop web application. Sellers who only
+ * want to take a listing off the market withdraw it instead (it moves to `archived` and can be relisted).
+ *
+ * Deleting a listing:
+ * 1. Deletes the product record. If this fails, nothing else is touched.
+ * 2. Deletes every copy buyers saved of it, found by the listing's ID in their `productId`.
+ * 3. Deletes its photos and thumbnails from Firebase Storage (see `deleteStoredFiles`).
+ * Steps 2 and 3 are best effort: failures are logged, and the BuyingPage hides saved copies whose listing no
+ * longer exists, so buyers never see a listing that is gone.
+ *
+ * Sold listings cannot be deleted, since the buyer's purchased order still shows them; they can be archived.
+ *
+ * Key Features:
+ * - `canDeleteListing`: Whether a listing with a given status may be deleted.
+ * - `deleteListing`: Deletes a listing as described above. Rejects with a `ListingNotDeletableError` for
+ *   sold listings, or with the database error when the product record could not be deleted.
+ *
+ * Dependencies:
+ * - `getData` and `deleteData` from "@/lib/dbHandler", and `createQuery` to find the saved copies.
+ * - `deleteStoredFiles` and `replacedPhotoFiles` from "@/lib/listingPhotos".
+ *
+ * Author: Jayson Baya
+ * Last Updated: October 19, 2026
+ */
+
+import { deleteData, getData } from "@/lib/dbHandler";
+import { deleteStoredFiles, replacedPhotoFiles } from "@/lib/listingPhotos";
+import { createQuery } from "@/lib/queryBuilder";
+import { FIRESTORE_COLLECTIONS, FIRESTORE_FIELDS } from "@/Models/ConstantData";
+import { BuyerItem, ListingStatus, Product } from "@/Models/Product";
+
+export class ListingNotDeletableError extends Error {
+    constructor(readonly productId: string, readonly status: ListingStatus) {
+        super("Sold listings cannot be deleted because they are part of a buyer's order. Archive them instead.");
+        this.name = "ListingNotDeletableError";
+    }
+}
+
+export const canDeleteListing = (status: ListingStatus): boolean => status !== "sold";
+
+/**
+ * Deletes `product`, the copies buyers saved of it and its photos.
+ */
+export const deleteListing = async (product: Product): Promise<void> => {
+    if (!canDeleteListing(product.status)) {
+        throw new ListingNotDeletableError(product.id, product.status);
+    }
+
+    await deleteData(FIRESTORE_COLLECTIONS.PRODUCTS, product.id);
+
+    try {
+        const savedCopies = await getData(
+            createQuery<BuyerItem>(FIRESTORE_COLLECTIONS.SAVED_ITEMS).where(FIRESTORE_FIELDS.PRODUCT_ID, "==", product.id)
+        );
+        await Promise.all(savedCopies.map((copy) => deleteData(FIRESTORE_COLLECTIONS.SAVED_ITEMS, copy.id)));
+    } catch (error) {
+        console.error(`Error deleting the saved copies of ${product.id}:`, error);
+    }
+    await deleteStoredFiles(replacedPhotoFiles(product, []));
+};
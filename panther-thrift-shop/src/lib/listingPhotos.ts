@@ -0,0 +1,73 @@
+/**
+ * listingPhotos.ts
+ *
+ * This module supports editing the photos of an existing listing in the Panther Thrift Shop web application.
+ * While the seller edits, the photos are a mix of ones already stored for the listing and new files still to
+ * be uploaded, in the order the seller arranged them; the first is the cover. Once the listing is saved, the
+ * Storage files of the photos the seller removed are deleted so they do not pile up.
+ *
+ * Key Features:
+ * - `editablePhotos`: The stored photos of a listing, with their thumbnails, ready to edit.
+ * - `replacedPhotoFiles`: The URLs of the files (photos and thumbnails) of a listing that its new photos no
+ *   longer use.
+ * - `deleteStoredFiles`: Deletes files from Firebase Storage by their download URL. Files that are already
+ *   gone, or that are not in Storage at all (e.g. the placeholder URLs of old listings), are skipped; other
+ *   failures are logged, since the listing itself is already saved.
+ *
+ * Dependencies:
+ * - Firebase Storage (`deleteObject`).
+ * - `getPhotos` from "@/Models/Product".
+ *
+ * Author: Jayson Baya
+ * Last Updated: October 19, 2026
+ */
+
+import { deleteObject, FirebaseStorage, ref } from "firebase/storage";
+import { storage as defaultStorage } from "@/lib/firebaseConfig";
+import { getPhotos, ProductRecord } from "@/Models/Product";
+
+export type EditablePhoto =
+    | { kind: "stored"; url: string; thumbnailURL?: string }
+    | { kind: "new"; file: File };
+
+export interface StoredPhoto {
+    url: string;
+    thumbnailURL?: string;
+}
+
+// Storage errors that mean there is nothing to delete
+const NOTHING_TO_DELETE = new Set(["storage/object-not-found", "storage/invalid-url"]);
+
+/**
+ * The photos of `product` in display order, each with its thumbnail when the listing has them.
+ */
+export const editablePhotos = (product: ProductRecord): EditablePhoto[] => {
+    const thumbnails = product.thumbnailURLs ?? [];
+    return getPhotos(product).map((url, index) => ({
+        kind: "stored",
+        url,
+        ...(thumbnails[index] && { thumbnailURL: thumbnails[index] }),
+    }));
+};
+
+/**
+ * The URLs of the photos and thumbnails `product` has that `photos` no longer use, each once.
+ */
+export const replacedPhotoFiles = (product: ProductRecord, photos: StoredPhoto[]): string[] => {
+    const kept = new Set(photos.flatMap((photo) => [photo.url, photo.thumbnailURL]));
+    const before = [...getPhotos(product), ...(product.thumbnailURLs ?? []), product.thumbnailURL ?? ""];
+    return [...new Set(before)].filter((url) => url && !kept.has(url));
+};
+
+/**
+ * Deletes the Storage files at the download URLs `urls`. Never rejects; failures are logged.
+ */
+export const deleteStoredFiles = async (urls: string[], storage: FirebaseStorage = defaultStorage): Promise<void> => {
+    const results = await Promise.allSettled(urls.map(async (url) => deleteObject(ref(storage, url))));
+
+    results.forEach((result, index) => {
+        if (result.status === "rejected" && !NOTHING_TO_DELETE.has(result.reason?.code)) {
+            console.error(`Error deleting ${urls[index]} from Storage:`, result.reason);
+        }
+    });
+};
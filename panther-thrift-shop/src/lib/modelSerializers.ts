@@ -0,0 +1,123 @@
+/**
+ * modelSerializers.ts
+ *
+ * This module converts between stored records and the model classes of the Panther Thrift Shop web
+ * application, so reads hand back real `Product`, `PurchaseRecord` and `User` instances (with their
+ * methods) instead of plain objects cast to a model type.
+ *
+ * Key Features:
+ * - **Serializers:** One `ModelSerializer` per model. `serialize` turns a model into plain storable data
+ *   (dates become ISO strings, undefined fields are dropped); `deserialize` hydrates a model instance.
+ * - **Store Registry:** `getSerializer` picks the serializer for a store. Stores without a model (the
+ *   outbox, conflicts, sync metadata) pass records through unchanged.
+ * - **Firestore Converters:** `toFirestoreConverter` wraps a serializer as a `FirestoreDataConverter`,
+ *   which also turns Firestore `Timestamp`s into ISO strings. The Firestore adapter applies it with
+ *   `withConverter`; the IndexedDB and memory adapters call the serializers directly.
+ *
+ * Author: Jayson Baya
+ * Last Updated: October 19, 2026
+ */
+
+import { DocumentData, FirestoreDataConverter, QueryDocumentSnapshot, SnapshotOptions } from "firebase/firestore";
+import { Product, ProductRecord } from "@/Models/Product";
+import { PurchaseRecord, PurchaseRecordData } from "@/Models/PurchaseRecord";
+import { User, UserRecord } from "@/Models/User";
+import { FIRESTORE_COLLECTIONS } from "@/Models/ConstantData";
+import { StoredRecord } from "@/lib/storage/storageAdapter";
+
+export interface ModelSerializer<T> {
+    serialize(model: T): StoredRecord;
+    deserialize(record: StoredRecord): T;
+}
+
+// Firestore Timestamps (and anything else with `toDate`) become ISO strings
+const isTimestamp = (value: unknown): value is { toDate: () => Date } =>
+    typeof value === "object" && value !== null && typeof (value as { toDate?: unknown }).toDate === "function";
+
+const toPlainValue = (value: unknown): unknown => {
+    if (value instanceof Date) return value.toISOString();
+    if (isTimestamp(value)) return value.toDate().toISOString();
+    return value;
+};
+
+/**
+ * Copies the own fields of a model into a plain record that every backend can store.
+ */
+const toPlainRecord = (model: object): StoredRecord =>
+    Object.fromEntries(
+        Object.entries(model)
+            .filter(([, value]) => value !== undefined)
+            .map(([field, value]) => [field, toPlainValue(value)])
+    ) as StoredRecord;
+
+const plainSerializer: ModelSerializer<StoredRecord> = {
+    serialize: (record) => record,
+    deserialize: (record) => record,
+};
+
+export const productSerializer: ModelSerializer<Product> = {
+    serialize: toPlainRecord,
+    deserialize: (record) => Product.fromRecord(toPlainRecord(record) as ProductRecord),
+};
+
+export const purchaseRecordSerializer: ModelSerializer<PurchaseRecord> = {
+    serialize: toPlainRecord,
+    deserialize: (record) => PurchaseRecord.fromRecord(toPlainRecord(record) as PurchaseRecordData),
+};
+
+export const userSerializer: ModelSerializer<User> = {
+    serialize: toPlainRecord,
+    deserialize: (record) => User.fromRecord(record as unknown as UserRecord),
+};
+
+const STORE_SERIALIZERS: Record<string, ModelSerializer<unknown>> = {
+    [FIRESTORE_COLLECTIONS.PRODUCTS]: productSerializer,
+    [FIRESTORE_COLLECTIONS.SAVED_ITEMS]: productSerializer,
+    [FIRESTORE_COLLECTIONS.PURCHASED_ITEMS]: purchaseRecordSerializer,
+    users: userSerializer,
+};
+
+/**
+ * Returns the serializer for the records of `storeName`.
+ */
+export const getSerializer = (storeName: string): ModelSerializer<unknown> =>
+    STORE_SERIALIZERS[storeName] ?? plainSerializer;
+
+/**
+ * Hydrates a stored record of `storeName` into its model. The result is typed as a stored record
+ * because the storage adapters are model-agnostic; callers read it back as their model type.
+ */
+export const hydrateRecord = (storeName: string, record: StoredRecord): StoredRecord =>
+    getSerializer(storeName).deserialize(record) as StoredRecord;
+
+/**
+ * Turns a model (or a plain record) of `storeName` into plain data for storage.
+ */
+export const dehydrateRecord = (storeName: string, record: StoredRecord): StoredRecord =>
+    getSerializer(storeName).serialize(record);
+
+/**
+ * Wraps a serializer as a Firestore converter. The document ID travels outside the document data.
+ */
+export const toFirestoreConverter = <T>(serializer: ModelSerializer<T>): FirestoreDataConverter<T> => ({
+    toFirestore: (model) => {
+        const data: DocumentData = { ...serializer.serialize(model as T) };
+        delete data.id;
+        return data;
+    },
+    fromFirestore: (snapshot: QueryDocumentSnapshot, options?: SnapshotOptions) =>
+        serializer.deserialize({ ...toPlainRecord(snapshot.data(options)), id: snapshot.id }),
+});
+
+export const productConverter = toFirestoreConverter(productSerializer);
+export const purchaseRecordConverter = toFirestoreConverter(purchaseRecordSerializer);
+export const userConverter = toFirestoreConverter(userSerializer);
+
+/**
+ * Returns the Firestore converter for the documents of `storeName`, hydrating them like `hydrateRecord`.
+ */
+export const getFirestoreConverter = (storeName: string): FirestoreDataConverter<StoredRecord> =>
+    toFirestoreConverter({
+        serialize: (record: StoredRecord) => dehydrateRecord(storeName, record),
+        deserialize: (record: StoredRecord) => hydrateRecord(storeName, record),
+    });
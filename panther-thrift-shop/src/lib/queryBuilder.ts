@@ -0,0 +1,69 @@
+/**
+ * queryBuilder.ts
+ *
+ * This module defines the one way to describe a query in the Panther Thrift Shop web application.
+ * A query names a store and a model type, and each `where()` is checked against that model: the field
+ * must be a key of the model and the value must match the field's type (an array of them for `in`,
+ * an element of the field for `array-contains`). Misspelled or mis-cased field names fail to compile.
+ *
+ * Key Features:
+ * - `createQuery<T>(storeName)`: Starts an empty query over `storeName`, whose records are `T`s.
+ * - `where(field, operator, value)`: Returns a new query with one more filter; queries are immutable,
+ *   so a base query can be shared and extended.
+ * - `filters`: The compiled filters, which the Firestore adapter turns into `where()` constraints and
+ *   the local adapters evaluate with `matchesFilters` (see `queryFilters.ts`).
+ * - `matches(record)`: Evaluates the query against a plain record, as IndexedDB and memory do.
+ * - `toChunks`: Splits the values of an `in` filter into lists short enough for one Firestore query.
+ *
+ * @example
+ * const active = createQuery<Product>("products").where("status", "==", "active");
+ * const products = await getData(active);
+ *
+ * Author: Jayson Baya
+ * Last Updated: October 19, 2026
+ */
+
+import { FirestoreOperator, FirestoreValue, matchesFilters, QueryFilter } from "@/lib/queryFilters";
+
+export type FieldOf<T> = Extract<keyof T, string>;
+
+type ElementOf<V> = V extends ReadonlyArray<infer E> ? E : never;
+
+/**
+ * The value a filter on a field of type `V` takes for `operator`.
+ */
+export type FilterValue<V, O extends FirestoreOperator> = O extends "in" | "not-in"
+    ? Array<NonNullable<V>>
+    : O extends "array-contains"
+      ? ElementOf<NonNullable<V>>
+      : NonNullable<V>;
+
+export interface StoreQuery<T> {
+    readonly storeName: string;
+    readonly filters: QueryFilter[];
+    where<K extends FieldOf<T>, O extends FirestoreOperator>(
+        field: K,
+        operator: O,
+        value: FilterValue<T[K], O>
+    ): StoreQuery<T>;
+    matches(record: Record<string, unknown>): boolean;
+}
+
+const buildQuery = <T>(storeName: string, filters: QueryFilter[]): StoreQuery<T> => ({
+    storeName,
+    filters,
+    where: (field, operator, value) =>
+        buildQuery<T>(storeName, [...filters, { field, operator, value: value as FirestoreValue }]),
+    matches: (record) => matchesFilters(record, filters),
+});
+
+/**
+ * Starts a query over every record of `storeName`.
+ */
+export const createQuery = <T>(storeName: string): StoreQuery<T> => buildQuery<T>(storeName, []);
+
+/**
+ * Splits `items` into lists of at most `size`, e.g. the values of an `in` filter that Firestore would reject.
+ */
+export const toChunks = <T>(items: T[], size: number): T[][] =>
+    Array.from({ length: Math.ceil(items.length / size) }, (_, index) => items.slice(index * size, (index + 1) * size));
@@ -0,0 +1,99 @@
+/**
+ * queryFilters.ts
+ *
+ * This module defines the filter shape shared by every query helper in the Panther Thrift Shop
+ * web application, and evaluates those filters against plain records for the IndexedDB backend.
+ * The goal is that a filter returns the same documents whether it runs through Firestore's
+ * `where()` or through `matchesFilters` over locally cached data.
+ *
+ * Semantics (mirroring Firestore):
+ * - `==` / `!=`: Deep equality; NaN equals NaN. `!=` only matches records where the field exists.
+ * - `<`, `<=`, `>`, `>=`: Only match values of the same type as the filter value
+ *   (numbers with numbers, strings with strings, booleans with booleans).
+ * - `array-contains`: The field is an array containing the value.
+ * - `in` / `not-in`: The field equals one (or none) of the values in the filter's array. `not-in` only
+ *   matches records where the field exists.
+ *
+ * Author: Jayson Baya
+ * Last Updated: October 19, 2026
+ */
+
+export type FirestoreOperator = "<" | "<=" | "==" | "!=" | ">=" | ">" | "array-contains" | "in" | "not-in";
+export type FirestoreValue = string | number | boolean | Array<string | number | boolean>;
+
+export interface QueryFilter {
+    field: string;
+    operator: FirestoreOperator;
+    value: FirestoreValue;
+}
+
+const isPlainObject = (value: unknown): value is Record<string, unknown> =>
+    typeof value === "object" && value !== null && Object.getPrototypeOf(value) === Object.prototype;
+
+export const valuesEqual = (a: unknown, b: unknown): boolean => {
+    if (Array.isArray(a) && Array.isArray(b)) {
+        return a.length === b.length && a.every((item, idx) => valuesEqual(item, b[idx]));
+    }
+    // Maps (e.g. a listing's attributes) are equal when they hold the same fields, in any order
+    if (isPlainObject(a) && isPlainObject(b)) {
+        const fields = Object.keys(a);
+        return (
+            fields.length === Object.keys(b).length &&
+            fields.every((field) => field in b && valuesEqual(a[field], b[field]))
+        );
+    }
+    return a === b || (Number.isNaN(a) && Number.isNaN(b));
+};
+
+const compareSameType = (fieldValue: unknown, filterValue: FirestoreValue): number | null => {
+    if (Array.isArray(filterValue) || typeof fieldValue !== typeof filterValue) return null;
+    if (typeof fieldValue === "number" && Number.isNaN(fieldValue)) return null;
+
+    const left = fieldValue as string | number | boolean;
+    if (left < filterValue) return -1;
+    if (left > filterValue) return 1;
+    return 0;
+};
+
+/**
+ * Returns true when `record` satisfies a single filter.
+ */
+export const matchesFilter = (record: Record<string, unknown>, filter: QueryFilter): boolean => {
+    const fieldValue = record[filter.field];
+
+    switch (filter.operator) {
+        case "==":
+            return valuesEqual(fieldValue, filter.value);
+        case "!=":
+            return fieldValue !== undefined && !valuesEqual(fieldValue, filter.value);
+        case "<":
+        case "<=":
+        case ">":
+        case ">=": {
+            const comparison = compareSameType(fieldValue, filter.value);
+            if (comparison === null) return false;
+            if (filter.operator === "<") return comparison < 0;
+            if (filter.operator === "<=") return comparison <= 0;
+            if (filter.operator === ">") return comparison > 0;
+            return comparison >= 0;
+        }
+        case "array-contains":
+            return Array.isArray(fieldValue) && fieldValue.some((item) => valuesEqual(item, filter.value));
+        case "in":
+        case "not-in": {
+            if (!Array.isArray(filter.value)) {
+                throw new Error(`The "${filter.operator}" operator requires an array value for field "${filter.field}".`);
+            }
+            const listed = filter.value.some((candidate) => valuesEqual(fieldValue, candidate));
+            return filter.operator === "in" ? listed : fieldValue !== undefined && !listed;
+        }
+        default:
+            throw new Error(`Unsupported query operator: ${String(filter.operator)}`);
+    }
+};
+
+/**
+ * Returns true when `record` satisfies every filter (filters are AND-ed, as in Firestore).
+ */
+export const matchesFilters = (record: Record<string, unknown>, filters: QueryFilter[]): boolean =>
+    filters.every((filter) => matchesFilter(record, filter));
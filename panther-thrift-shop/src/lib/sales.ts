@@ -0,0 +1,79 @@
+/**
+ * sales.ts
+ *
+ * This module records the sale of a product in the Panther Thrift Shop web application. Marking a
+ * product as sold used to be two separate writes (update the product, then add a purchased-order
+ * record), which left the data inconsistent when the second write failed and created a duplicate
+ * purchased order every time the seller re-saved a sold item.
+ *
+ * Key Features:
+ * - **Atomic:** The product update and the purchased-order record are written in one transaction
+ *   (`dbHandler.runTransaction`), so either both are saved or neither is.
+ * - **Idempotent:** The purchased-order record is keyed by the product ID, so retrying the sale, or
+ *   re-saving an item that is already sold, never creates a second record.
+ * - **Safe Re-saves:** Correcting the buyer email of a sold item updates the existing purchased order.
+ * - **Lifecycle:** The sale moves the listing to `sold`. Only active or reserved listings can get there;
+ *   `dbHandler` rejects the whole transaction with `InvalidStatusTransitionError` for any other status.
+ *
+ * Dependencies:
+ * - `@/lib/dbHandler` for transactional storage access.
+ *
+ * Author: Jayson Baya
+ * Last Updated: October 19, 2026
+ */
+
+import { runTransaction } from "@/lib/dbHandler";
+import { FIRESTORE_COLLECTIONS } from "@/Models/ConstantData";
+import { Product } from "@/Models/Product";
+import { PurchaseRecord } from "@/Models/PurchaseRecord";
+import { purchaseRecordSerializer } from "@/lib/modelSerializers";
+
+export type ProductDetails = Partial<
+    Pick<
+        Product,
+        | "productName"
+        | "category"
+        | "price"
+        | "description"
+        | "condition"
+        | "tags"
+        | "pickupLocation"
+        | "attributes"
+        | "imageURL"
+        | "imageURLs"
+        | "thumbnailURL"
+        | "thumbnailURLs"
+    >
+>;
+
+/**
+ * Marks a product as sold to `buyerEmail`, applying any edited `details` in the same transaction,
+ * and records the purchase exactly once. Resolves to true when a new purchased order was recorded,
+ * or false when the purchase already existed (a retry or a re-save).
+ */
+export const markProductAsSold = async (
+    productId: string,
+    buyerEmail: string,
+    details: ProductDetails = {}
+): Promise<boolean> =>
+    runTransaction([FIRESTORE_COLLECTIONS.PRODUCTS, FIRESTORE_COLLECTIONS.PURCHASED_ITEMS], async (transaction) => {
+        const product = await transaction.get<Product>(FIRESTORE_COLLECTIONS.PRODUCTS, productId);
+        if (!product) {
+            throw new Error(`No product found with ID: ${productId}`);
+        }
+        const purchase = await transaction.get<PurchaseRecord>(FIRESTORE_COLLECTIONS.PURCHASED_ITEMS, productId);
+
+        transaction.update(FIRESTORE_COLLECTIONS.PRODUCTS, productId, { ...details, status: "sold", buyerEmail });
+
+        if (purchase) {
+            if (purchase.buyerEmail !== buyerEmail) {
+                transaction.update(FIRESTORE_COLLECTIONS.PURCHASED_ITEMS, productId, { buyerEmail });
+            }
+            return false;
+        }
+
+        // One purchased order per product, keyed by the product ID
+        const order = PurchaseRecord.fromProduct(Product.fromRecord({ ...product, ...details }), buyerEmail);
+        transaction.put(FIRESTORE_COLLECTIONS.PURCHASED_ITEMS, purchaseRecordSerializer.serialize(order));
+        return true;
+    });
@@ -0,0 +1,159 @@
+/**
+ * search.ts
+ *
+ * This module implements listing search for the Panther Thrift Shop web application without an external
+ * search service. The search page loads the listed products through `dbHandler` (so search works in both
+ * Firestore and IndexedDB modes, and offline) and builds an inverted index of them in the browser: every
+ * word of a listing's name, description, category and tags points at the listings that contain it.
+ *
+ * Matching:
+ * - Text is split into lower-case words without accents or apostrophes ("Men's" → "mens"), and common
+ *   words such as "the" or "for" are ignored.
+ * - A listing matches when every query word is one of its words or the start of one ("fridg" → "fridge").
+ *
+ * Ranking:
+ * - A word counts more in the name than in the tags or category, and more there than in the description;
+ *   partial (prefix) matches count half. Listings with equal scores are shown newest first.
+ *
+ * Key Features:
+ * - `tokenize`: The words of a text, as indexed and searched.
+ * - `buildSearchIndex` / `searchIndex`: Build the index of a list of products and rank them against a query.
+ * - `highlightMatches`: Splits a text into the parts that match the query and the parts that do not.
+ *
+ * Author: Jayson Baya
+ * Last Updated: October 19, 2026
+ */
+
+import { Product } from "@/Models/Product";
+
+// How much a word counts towards a listing's score, by the field it appears in
+const FIELD_WEIGHTS = {
+    productName: 5,
+    tags: 3,
+    category: 3,
+    description: 1,
+};
+
+const PREFIX_MATCH_FACTOR = 0.5;
+
+const STOP_WORDS = new Set(["a", "an", "and", "the", "for", "of", "in", "on", "or", "to", "with"]);
+
+// Letters and digits, with apostrophes inside words ("men's") kept in the same word
+const WORD_PATTERN = /[\p{L}\p{N}]+(?:['’][\p{L}\p{N}]+)*/gu;
+
+const normalizeWord = (word: string): string =>
+    word
+        .normalize("NFKD")
+        .replace(/[\u0300-\u036f]/g, "") // Strip accents
+        .replace(/['’]/g, "")
+        .toLowerCase();
+
+/**
+ * The words of `text` as they are indexed and searched: lower-case, without accents, apostrophes or stop words.
+ */
+export const tokenize = (text: string): string[] =>
+    (text.match(WORD_PATTERN) ?? []).map(normalizeWord).filter((word) => word && !STOP_WORDS.has(word));
+
+export interface SearchIndex {
+    postings: Map<string, Map<string, number>>; // word → product ID → weight of the word in that product
+    products: Map<string, Product>;
+}
+
+export interface SearchResult {
+    product: Product;
+    score: number;
+}
+
+const searchableFields = (product: Product): Array<[keyof typeof FIELD_WEIGHTS, string]> => [
+    ["productName", product.productName ?? ""],
+    ["tags", (product.tags ?? []).join(" ")],
+    ["category", product.category ?? ""],
+    ["description", product.description ?? ""],
+];
+
+/**
+ * Builds the inverted index of `products`. A word that appears in several fields of a product adds up
+ * the weights of those fields, once per field.
+ */
+export const buildSearchIndex = (products: Product[]): SearchIndex => {
+    const postings = new Map<string, Map<string, number>>();
+
+    products.forEach((product) => {
+        searchableFields(product).forEach(([field, text]) => {
+            new Set(tokenize(text)).forEach((word) => {
+                const weights = postings.get(word) ?? new Map<string, number>();
+                weights.set(product.id, (weights.get(product.id) ?? 0) + FIELD_WEIGHTS[field]);
+                postings.set(word, weights);
+            });
+        });
+    });
+
+    return { postings, products: new Map(products.map((product) => [product.id, product])) };
+};
+
+// The score of every product containing `term`, as a whole word or as the start of a longer word
+const scoreTerm = (index: SearchIndex, term: string): Map<string, number> => {
+    const scores = new Map<string, number>();
+    index.postings.forEach((weights, word) => {
+        if (!word.startsWith(term)) return;
+        const factor = word === term ? 1 : PREFIX_MATCH_FACTOR;
+        weights.forEach((weight, productId) => {
+            scores.set(productId, Math.max(scores.get(productId) ?? 0, weight * factor));
+        });
+    });
+    return scores;
+};
+
+/**
+ * The products of `index` that match every word of `query`, most relevant first. An empty query matches nothing.
+ */
+export const searchIndex = (index: SearchIndex, query: string): SearchResult[] => {
+    const terms = [...new Set(tokenize(query))];
+    if (terms.length === 0) return [];
+
+    const [first, ...rest] = terms.map((term) => scoreTerm(index, term));
+    const results: SearchResult[] = [];
+    first.forEach((score, productId) => {
+        if (!rest.every((scores) => scores.has(productId))) return;
+        results.push({
+            product: index.products.get(productId)!,
+            score: rest.reduce((total, scores) => total + scores.get(productId)!, score),
+        });
+    });
+
+    return results.sort(
+        (a, b) => b.score - a.score || (b.product.createdAt ?? "").localeCompare(a.product.createdAt ?? "")
+    );
+};
+
+export interface TextSegment {
+    text: string;
+    match: boolean;
+}
+
+/**
+ * Splits `text` into segments, marking the words that match a word of `query` (whole or as a prefix),
+ * so the match can be highlighted. Joining the segments gives back `text`.
+ */
+export const highlightMatches = (text: string, query: string): TextSegment[] => {
+    const terms = tokenize(query);
+    const segments: TextSegment[] = [];
+    let position = 0;
+
+    const push = (segment: TextSegment) => {
+        const previous = segments[segments.length - 1];
+        if (previous && previous.match === segment.match) previous.text += segment.text;
+        else segments.push(segment);
+    };
+
+    for (const found of text.matchAll(WORD_PATTERN)) {
+        const word = normalizeWord(found[0]);
+        if (!terms.some((term) => word.startsWith(term))) continue;
+        if (found.index! > position) push({ text: text.slice(position, found.index), match: false });
+        push({ text: found[0], match: true });
+        position = found.index! + found[0].length;
+    }
+    if (position < text.length) push({ text: text.slice(position), match: false });
+
+    return segments;
+};
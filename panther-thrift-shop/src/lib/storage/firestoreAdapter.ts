@@ -0,0 +1,167 @@
+/**
+ * firestoreAdapter.ts
+ *
+ * This module implements the `StorageAdapter` interface on top of Cloud Firestore for the
+ * Panther Thrift Shop web application. Filters become `where()` constraints, pages use
+ * `orderBy`/`limit`/`startAfter`, counts use `getCountFromServer` (an aggregation, so no documents are
+ * downloaded), subscriptions use `onSnapshot`, and transactions use `runTransaction`.
+ * Documents pass through the store's `FirestoreDataConverter`, so reads return model instances.
+ *
+ * Dependencies:
+ * - `firebase/firestore` for all database operations.
+ * - `@/lib/firebaseConfig` for the initialized Firestore instance.
+ * - `@/lib/modelSerializers` for the per-store data converters.
+ *
+ * Author: Jayson Baya
+ * Last Updated: October 19, 2026
+ */
+
+import { db as firestoreDB } from "@/lib/firebaseConfig";
+import {
+    addDoc,
+    collection,
+    deleteDoc,
+    doc,
+    DocumentData,
+    documentId,
+    getDoc,
+    getCountFromServer,
+    getDocs,
+    limit,
+    onSnapshot,
+    orderBy,
+    query,
+    QueryConstraint,
+    runTransaction,
+    QueryDocumentSnapshot,
+    setDoc,
+    startAfter,
+    updateDoc,
+    where,
+} from "firebase/firestore";
+import { QueryFilter } from "@/lib/queryFilters";
+import {
+    BatchWrite,
+    bufferWrites,
+    decodePageToken,
+    PageOptions,
+    StorageAdapter,
+    StoredRecord,
+    toPage,
+} from "@/lib/storage/storageAdapter";
+import { getFirestoreConverter } from "@/lib/modelSerializers";
+
+// The record ID is the document ID, which is not stored in the document data
+const toConstraints = (filters: QueryFilter[]): QueryConstraint[] =>
+    filters.map((filter) =>
+        where(filter.field === "id" ? documentId() : filter.field, filter.operator, filter.value)
+    );
+
+// Documents are read and written through the store's converter, which hydrates model instances
+const collectionRef = (storeName: string) =>
+    collection(firestoreDB, storeName).withConverter(getFirestoreConverter(storeName));
+
+const docRef = (storeName: string, id: string) =>
+    doc(firestoreDB, storeName, id).withConverter(getFirestoreConverter(storeName));
+
+const fromSnapshot = <T>(snapshot: QueryDocumentSnapshot<StoredRecord>) => snapshot.data() as unknown as T;
+
+export const createFirestoreAdapter = (): StorageAdapter => ({
+    kind: "firestore",
+
+    async add(storeName, record) {
+        // Records that bring their own ID keep it, so callers must make it unique (see `savedItemId`)
+        if (typeof record.id === "string") {
+            await setDoc(docRef(storeName, record.id), record);
+            return record.id;
+        }
+        const added = await addDoc(collectionRef(storeName), record); // Firestore generates ID
+        return added.id;
+    },
+
+    async get<T>(storeName: string, id: string) {
+        const docSnap = await getDoc(docRef(storeName, id));
+        return docSnap.exists() ? fromSnapshot<T>(docSnap) : null;
+    },
+
+    async query<T>(storeName: string, filters: QueryFilter[]) {
+        const snapshot = await getDocs(query(collectionRef(storeName), ...toConstraints(filters)));
+        return snapshot.docs.map((docSnap) => fromSnapshot<T>(docSnap));
+    },
+
+    async queryPage<T>(storeName: string, filters: QueryFilter[], options: PageOptions) {
+        const direction = options.direction ?? "asc";
+        const constraints: QueryConstraint[] = [
+            ...toConstraints(filters),
+            orderBy(options.orderBy, direction),
+            orderBy(documentId(), direction),
+        ];
+        if (options.startAfter) {
+            const cursor = decodePageToken(options.startAfter);
+            constraints.push(startAfter(cursor.value, cursor.id));
+        }
+        // Fetch one extra document to find out whether another page exists
+        constraints.push(limit(options.limit + 1));
+
+        const snapshot = await getDocs(query(collectionRef(storeName), ...constraints));
+        return toPage(snapshot.docs.map((docSnap) => fromSnapshot<T>(docSnap)), options);
+    },
+
+    async count(storeName, filters) {
+        const snapshot = await getCountFromServer(query(collection(firestoreDB, storeName), ...toConstraints(filters)));
+        return snapshot.data().count;
+    },
+
+    async put(storeName, records) {
+        await Promise.all(records.map((record) => setDoc(docRef(storeName, record.id), record)));
+    },
+
+    async update(storeName, id, updates) {
+        const ref = doc(firestoreDB, storeName, id);
+        const docSnap = await getDoc(ref);
+        if (!docSnap.exists()) return false;
+
+        await updateDoc(ref, updates as DocumentData);
+        return true;
+    },
+
+    async delete(storeName, id) {
+        await deleteDoc(doc(firestoreDB, storeName, id));
+    },
+
+    async runTransaction(_storeNames, work) {
+        return runTransaction(firestoreDB, async (transaction) => {
+            // Firestore may retry this callback, so every attempt starts with an empty buffer
+            const writes: BatchWrite[] = [];
+            const read = async <T>(storeName: string, id: string): Promise<T | null> => {
+                const docSnap = await transaction.get(docRef(storeName, id));
+                return docSnap.exists() ? fromSnapshot<T>(docSnap) : null;
+            };
+
+            const result = await work(bufferWrites(read, writes));
+            writes.forEach((write) => {
+                if (write.type === "put") {
+                    transaction.set(docRef(write.storeName, write.record.id), write.record);
+                } else if (write.type === "update") {
+                    transaction.update(doc(firestoreDB, write.storeName, write.id), write.updates as DocumentData);
+                } else {
+                    transaction.delete(doc(firestoreDB, write.storeName, write.id));
+                }
+            });
+            return result;
+        });
+    },
+
+    subscribe<T>(
+        storeName: string,
+        filters: QueryFilter[],
+        callback: (records: T[]) => void,
+        onError: (error: Error) => void
+    ) {
+        return onSnapshot(
+            query(collectionRef(storeName), ...toConstraints(filters)),
+            (snapshot) => callback(snapshot.docs.map((docSnap) => fromSnapshot<T>(docSnap))),
+            onError
+        );
+    },
+});
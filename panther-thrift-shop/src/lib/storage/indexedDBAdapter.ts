@@ -0,0 +1,333 @@
+/**
+ * indexedDBAdapter.ts
+ *
+ * This module implements the `StorageAdapter` interface on top of the browser's IndexedDB (via `idb`)
+ * for the Panther Thrift Shop web application. It is the primary store when Firestore is disabled and
+ * the local cache when Firestore is enabled.
+ *
+ * Key Features:
+ * - Opens the `PantherThriftShop` database and applies pending migrations from `dbSchema`.
+ * - Answers filters with an index-backed key range scan whenever a filter matches a secondary index,
+ *   then evaluates every filter with Firestore semantics.
+ * - Pages by walking the index on the sort field with a cursor.
+ * - Notifies subscribers after local writes, including subscribers in other tabs (via `BroadcastChannel`).
+ *
+ * Limitations:
+ * - IndexedDB is only accessible in the browser and cannot be used in server-side code.
+ *
+ * Author: Jayson Baya
+ * Last Updated: October 19, 2026
+ */
+
+import { openDB, IDBPDatabase } from "idb";
+import { uuidv4 } from "@firebase/util";
+import { matchesFilters, QueryFilter } from "@/lib/queryFilters";
+import { dehydrateRecord, hydrateRecord } from "@/lib/modelSerializers";
+import { DB_NAME, DB_VERSION, fromLocalRecord, runMigrations, toLocalRecord } from "@/lib/dbSchema";
+import {
+    BatchWrite,
+    bufferWrites,
+    isAfterPageToken,
+    decodePageToken,
+    Page,
+    PageOptions,
+    pageInMemory,
+    StorageAdapter,
+    StoredRecord,
+    toPage,
+} from "@/lib/storage/storageAdapter";
+
+let localDB: Promise<IDBPDatabase> | null = null;
+
+/**
+ * Opens the local database once per page load, applying every migration the device has not seen yet.
+ */
+export const openLocalDatabase = (): Promise<IDBPDatabase> => {
+    if (!localDB) {
+        localDB = openDB(DB_NAME, DB_VERSION, {
+            upgrade(db, oldVersion, newVersion, transaction) {
+                console.log(`Upgrading IndexedDB from version ${oldVersion} to ${newVersion}`);
+
+                runMigrations(db, oldVersion, newVersion ?? DB_VERSION, transaction).catch((error) => {
+                    console.error("IndexedDB migration failed, rolling back upgrade:", error);
+                    transaction.abort();
+                });
+            },
+        });
+    }
+    return localDB;
+};
+
+/**
+ * Closes the local database and the cross-tab change channel. The next call reopens both.
+ */
+export const closeLocalDatabase = async (): Promise<void> => {
+    const db = localDB;
+    localDB = null;
+    changeChannel?.close();
+    changeChannel = null;
+    (await db)?.close();
+};
+
+const INDEXABLE_OPERATORS = ["==", "<", "<=", ">", ">=", "in"];
+
+const isValidIndexKey = (value: unknown): boolean =>
+    typeof value === "string" || typeof value === "number" || typeof value === "boolean";
+
+const toIndexKey = (value: string | number | boolean) => (typeof value === "boolean" ? Number(value) : value);
+
+/**
+ * Picks the filter that can be answered by an index on `storeName`, preferring equality.
+ */
+const pickIndexedFilter = (db: IDBPDatabase, storeName: string, filters: QueryFilter[]): QueryFilter | undefined => {
+    const indexNames = db.transaction(storeName, "readonly").objectStore(storeName).indexNames;
+    const candidates = filters.filter((filter) =>
+        indexNames.contains(filter.field) &&
+        INDEXABLE_OPERATORS.includes(filter.operator) &&
+        (filter.operator === "in"
+            ? Array.isArray(filter.value) && filter.value.every(isValidIndexKey)
+            : isValidIndexKey(filter.value))
+    );
+    return candidates.find((filter) => filter.operator === "==") ?? candidates[0];
+};
+
+const toKeyRange = (filter: QueryFilter, value: string | number | boolean): IDBKeyRange => {
+    const key = toIndexKey(value);
+    switch (filter.operator) {
+        case "<":
+            return IDBKeyRange.upperBound(key, true);
+        case "<=":
+            return IDBKeyRange.upperBound(key);
+        case ">":
+            return IDBKeyRange.lowerBound(key, true);
+        case ">=":
+            return IDBKeyRange.lowerBound(key);
+        default:
+            return IDBKeyRange.only(key);
+    }
+};
+
+// Change notifications: subscribers in this tab are called directly, other tabs
+// are told through a BroadcastChannel so every open page sees the same writes.
+const CHANGE_CHANNEL_NAME = "PantherThriftShop-changes";
+const subscribers = new Map<string, Set<() => void>>();
+let changeChannel: BroadcastChannel | null = null;
+
+const runSubscribers = (storeName: string) => {
+    subscribers.get(storeName)?.forEach((refresh) => refresh());
+};
+
+const getChangeChannel = (): BroadcastChannel | null => {
+    if (!changeChannel && typeof BroadcastChannel !== "undefined") {
+        changeChannel = new BroadcastChannel(CHANGE_CHANNEL_NAME);
+        changeChannel.onmessage = (event: MessageEvent<{ storeName: string }>) => {
+            runSubscribers(event.data.storeName);
+        };
+    }
+    return changeChannel;
+};
+
+const notifyChange = (storeName: string) => {
+    runSubscribers(storeName);
+    getChangeChannel()?.postMessage({ storeName });
+};
+
+// Records are stored as plain data (plus index shadow fields) and read back as model instances
+const toStoredRecord = (storeName: string, record: StoredRecord): StoredRecord =>
+    toLocalRecord(dehydrateRecord(storeName, record));
+
+const fromStoredRecord = <T>(storeName: string, record: StoredRecord): T =>
+    hydrateRecord(storeName, fromLocalRecord(record)) as unknown as T;
+
+const queryStore = async <T>(storeName: string, filters: QueryFilter[]): Promise<T[]> => {
+    const db = await openLocalDatabase();
+
+    // Check if the object store exists in IndexedDB
+    if (!db.objectStoreNames.contains(storeName)) {
+        console.error(`Object store "${storeName}" does not exist in IndexedDB.`);
+        return []; // Return an empty array instead of crashing
+    }
+
+    const indexedFilter = pickIndexedFilter(db, storeName, filters);
+    let candidates: StoredRecord[];
+    if (!indexedFilter) {
+        candidates = await db.getAll(storeName);
+    } else if (indexedFilter.operator === "in") {
+        const values = indexedFilter.value as Array<string | number | boolean>;
+        const matches = await Promise.all(
+            values.map((value) => db.getAllFromIndex(storeName, indexedFilter.field, toKeyRange(indexedFilter, value)))
+        );
+        // Dedupe by ID in case the same record matched more than one value
+        const byId = new Map(matches.flat().map((record) => [record.id, record]));
+        candidates = [...byId.values()];
+    } else {
+        const value = indexedFilter.value as string | number | boolean;
+        candidates = await db.getAllFromIndex(storeName, indexedFilter.field, toKeyRange(indexedFilter, value));
+    }
+
+    // Evaluate filters with the same operator semantics as Firestore
+    return candidates
+        .map((record) => fromStoredRecord<T>(storeName, record))
+        .filter((record) => matchesFilters(record as Record<string, unknown>, filters));
+};
+
+/**
+ * Walks the store in sort order with a cursor on the index for `options.orderBy`,
+ * falling back to an in-memory sort when that field is not indexed.
+ */
+const queryStorePage = async <T>(storeName: string, filters: QueryFilter[], options: PageOptions): Promise<Page<T>> => {
+    const db = await openLocalDatabase();
+    if (!db.objectStoreNames.contains(storeName)) {
+        console.error(`Object store "${storeName}" does not exist in IndexedDB.`);
+        return { items: [], nextPageToken: null };
+    }
+
+    const store = db.transaction(storeName, "readonly").store;
+    if (!store.indexNames.contains(options.orderBy)) {
+        return pageInMemory(await queryStore<T>(storeName, filters), options);
+    }
+
+    const descending = options.direction === "desc";
+    let range: IDBKeyRange | undefined;
+    if (options.startAfter) {
+        const key = toIndexKey(decodePageToken(options.startAfter).value);
+        range = descending ? IDBKeyRange.upperBound(key) : IDBKeyRange.lowerBound(key);
+    }
+
+    // Fetch one extra record to find out whether another page exists
+    const isAfterCursor = isAfterPageToken(options);
+    const records: T[] = [];
+    let cursor = await store.index(options.orderBy).openCursor(range, descending ? "prev" : "next");
+    while (cursor && records.length <= options.limit) {
+        const record = fromStoredRecord<Record<string, unknown>>(storeName, cursor.value);
+        if (isAfterCursor(record) && matchesFilters(record, filters)) {
+            records.push(record as T);
+        }
+        cursor = await cursor.continue();
+    }
+    return toPage(records, options);
+};
+
+export const createIndexedDBAdapter = (): StorageAdapter => ({
+    kind: "indexeddb",
+
+    async add(storeName, record) {
+        const db = await openLocalDatabase();
+        const id = typeof record.id === "string" ? record.id : uuidv4();
+        await db.put(storeName, toStoredRecord(storeName, { ...record, id })); // Replaces, like Firestore's setDoc
+        notifyChange(storeName);
+        return id;
+    },
+
+    async get<T>(storeName: string, id: string) {
+        const db = await openLocalDatabase();
+        const record = await db.get(storeName, id);
+        return record ? fromStoredRecord<T>(storeName, record) : null;
+    },
+
+    query: queryStore,
+
+    queryPage: queryStorePage,
+
+    async count(storeName, filters) {
+        return (await queryStore(storeName, filters)).length;
+    },
+
+    async put(storeName, records: StoredRecord[]) {
+        const db = await openLocalDatabase();
+        const tx = db.transaction(storeName, "readwrite");
+        for (const record of records) {
+            await tx.store.put(toStoredRecord(storeName, record));
+        }
+        await tx.done;
+        notifyChange(storeName);
+    },
+
+    async update(storeName, id, updates) {
+        const db = await openLocalDatabase();
+        const tx = db.transaction(storeName, "readwrite");
+        const existingData = await tx.store.get(id);
+        if (!existingData) return false;
+
+        await tx.store.put(toStoredRecord(storeName, { ...fromLocalRecord(existingData), ...updates }));
+        await tx.done;
+        notifyChange(storeName);
+        return true;
+    },
+
+    async delete(storeName, id) {
+        const db = await openLocalDatabase();
+        await db.delete(storeName, id);
+        notifyChange(storeName);
+    },
+
+    async runTransaction(storeNames, work) {
+        const db = await openLocalDatabase();
+        // One readwrite transaction over every store, so all writes commit together or not at all
+        const tx = db.transaction(storeNames, "readwrite");
+        const writes: BatchWrite[] = [];
+        const read = async <T>(storeName: string, id: string): Promise<T | null> => {
+            const record = await tx.objectStore(storeName).get(id);
+            return record ? fromStoredRecord<T>(storeName, record) : null;
+        };
+
+        try {
+            const result = await work(bufferWrites(read, writes));
+            for (const write of writes) {
+                const store = tx.objectStore(write.storeName);
+                if (write.type === "put") {
+                    await store.put(toStoredRecord(write.storeName, write.record));
+                } else if (write.type === "update") {
+                    const existingData = await store.get(write.id);
+                    if (!existingData) {
+                        throw new Error(`No record found with ID "${write.id}" in ${write.storeName}.`);
+                    }
+                    await store.put(
+                        toStoredRecord(write.storeName, { ...fromLocalRecord(existingData), ...write.updates })
+                    );
+                } else {
+                    await store.delete(write.id);
+                }
+            }
+            await tx.done;
+            storeNames.forEach(notifyChange);
+            return result;
+        } catch (error) {
+            tx.done.catch(() => undefined); // The rejection is reported below instead
+            try {
+                tx.abort();
+            } catch {
+                // Already finished; nothing was written
+            }
+            throw error;
+        }
+    },
+
+    subscribe<T>(
+        storeName: string,
+        filters: QueryFilter[],
+        callback: (records: T[]) => void,
+        onError: (error: Error) => void
+    ) {
+        let active = true;
+        const refresh = () => {
+            queryStore<T>(storeName, filters)
+                .then((records) => {
+                    if (active) callback(records);
+                })
+                .catch(onError);
+        };
+
+        getChangeChannel();
+        if (!subscribers.has(storeName)) {
+            subscribers.set(storeName, new Set());
+        }
+        subscribers.get(storeName)!.add(refresh);
+        refresh();
+
+        return () => {
+            active = false;
+            subscribers.get(storeName)?.delete(refresh);
+        };
+    },
+});
@@ -0,0 +1,150 @@
+/**
+ * memoryAdapter.ts
+ *
+ * This module implements the `StorageAdapter` interface with plain in-memory maps for the
+ * Panther Thrift Shop web application. It has no browser or network dependencies, so it is
+ * used during server-side rendering and lets Jest suites exercise real storage behavior
+ * (filters, paging, subscriptions) instead of mocking `dbHandler` function by function.
+ *
+ * Usage:
+ * - `createMemoryAdapter({ products: [...] })` seeds stores with records.
+ * - Data lives only as long as the adapter instance.
+ *
+ * Author: Jayson Baya
+ * Last Updated: October 19, 2026
+ */
+
+import { uuidv4 } from "@firebase/util";
+import { matchesFilters, QueryFilter } from "@/lib/queryFilters";
+import { dehydrateRecord, hydrateRecord } from "@/lib/modelSerializers";
+import { BatchWrite, bufferWrites, pageInMemory, StorageAdapter, StoredRecord } from "@/lib/storage/storageAdapter";
+
+export const createMemoryAdapter = (seed: Record<string, StoredRecord[]> = {}): StorageAdapter => {
+    const stores = new Map<string, Map<string, StoredRecord>>();
+    const subscribers = new Map<string, Set<() => void>>();
+
+    const getStore = (storeName: string) => {
+        if (!stores.has(storeName)) {
+            stores.set(storeName, new Map());
+        }
+        return stores.get(storeName)!;
+    };
+
+    // Records are stored as plain data and read back as fresh model instances,
+    // which also keeps callers from mutating stored records by accident
+    const readAll = <T>(storeName: string, filters: QueryFilter[]): T[] =>
+        [...getStore(storeName).values()]
+            .filter((record) => matchesFilters(record, filters))
+            .map((record) => hydrateRecord(storeName, { ...record }) as unknown as T);
+
+    const readOne = async <T>(storeName: string, id: string): Promise<T | null> => {
+        const record = getStore(storeName).get(id);
+        return record ? (hydrateRecord(storeName, { ...record }) as unknown as T) : null;
+    };
+
+    const writeOne = (storeName: string, record: StoredRecord) => {
+        getStore(storeName).set(record.id, dehydrateRecord(storeName, { ...record }));
+    };
+
+    const notifyChange = (storeName: string) => {
+        subscribers.get(storeName)?.forEach((refresh) => refresh());
+    };
+
+    Object.entries(seed).forEach(([storeName, records]) => {
+        records.forEach((record) => writeOne(storeName, record));
+    });
+
+    return {
+        kind: "memory",
+
+        async add(storeName, record) {
+            const id = typeof record.id === "string" ? record.id : uuidv4();
+            writeOne(storeName, { ...record, id });
+            notifyChange(storeName);
+            return id;
+        },
+
+        get: readOne,
+
+        async query<T>(storeName: string, filters: QueryFilter[]) {
+            return readAll<T>(storeName, filters);
+        },
+
+        async queryPage(storeName, filters, options) {
+            return pageInMemory(readAll(storeName, filters), options);
+        },
+
+        async count(storeName, filters) {
+            return [...getStore(storeName).values()].filter((record) => matchesFilters(record, filters)).length;
+        },
+
+        async put(storeName, records) {
+            records.forEach((record) => writeOne(storeName, record));
+            notifyChange(storeName);
+        },
+
+        async update(storeName, id, updates) {
+            const existing = getStore(storeName).get(id);
+            if (!existing) return false;
+
+            writeOne(storeName, { ...existing, ...updates, id });
+            notifyChange(storeName);
+            return true;
+        },
+
+        async delete(storeName, id) {
+            getStore(storeName).delete(id);
+            notifyChange(storeName);
+        },
+
+        async runTransaction(storeNames, work) {
+            const writes: BatchWrite[] = [];
+            const result = await work(bufferWrites(readOne, writes));
+
+            // Check every update first so a failing write leaves all stores untouched
+            const missing = writes.find(
+                (write) => write.type === "update" && !getStore(write.storeName).has(write.id)
+            );
+            if (missing && missing.type === "update") {
+                throw new Error(`No record found with ID "${missing.id}" in ${missing.storeName}.`);
+            }
+
+            writes.forEach((write) => {
+                const store = getStore(write.storeName);
+                if (write.type === "put") writeOne(write.storeName, write.record);
+                else if (write.type === "update") writeOne(write.storeName, { ...store.get(write.id)!, ...write.updates });
+                else store.delete(write.id);
+            });
+            storeNames.forEach(notifyChange);
+            return result;
+        },
+
+        subscribe<T>(
+            storeName: string,
+            filters: QueryFilter[],
+            callback: (records: T[]) => void,
+            onError: (error: Error) => void
+        ) {
+            let active = true;
+            // Emit asynchronously, like the Firestore and IndexedDB adapters
+            const refresh = () => {
+                Promise.resolve()
+                    .then(() => {
+                        if (active) callback(readAll<T>(storeName, filters));
+                    })
+                    .catch(onError);
+            };
+
+            if (!subscribers.has(storeName)) {
+                subscribers.set(storeName, new Set());
+            }
+            subscribers.get(storeName)!.add(refresh);
+            refresh();
+
+            return () => {
+                active = false;
+                subscribers.get(storeName)?.delete(refresh);
+            };
+        },
+    };
+};
@@ -0,0 +1,215 @@
+/**
+ * storageAdapter.ts
+ *
+ * This module defines the `StorageAdapter` interface that every storage backend of the Panther Thrift Shop
+ * web application implements, along with the paging helpers the backends share. `dbHandler` talks only
+ * to this interface, so the same code runs against Firestore, IndexedDB or an in-memory store.
+ *
+ * Implementations:
+ * - `createFirestoreAdapter` (firestoreAdapter.ts): Cloud Firestore.
+ * - `createIndexedDBAdapter` (indexedDBAdapter.ts): The browser's IndexedDB, used offline and as a cache.
+ * - `createMemoryAdapter` (memoryAdapter.ts): A plain in-memory store for SSR and Jest.
+ *
+ * Conventions:
+ * - Every record is keyed by a string `id`.
+ * - Filters follow Firestore semantics (see `queryFilters.ts`).
+ * - Pages are ordered by `orderBy`, then by `id`, and carry an opaque `nextPageToken`. Pages read with the
+ *   same options from queries that never overlap can be merged into one (`mergePages`).
+ * - Transactions read first and buffer their writes, which are applied together or not at all.
+ *
+ * Author: Jayson Baya
+ * Last Updated: October 19, 2026
+ */
+
+import { QueryFilter } from "@/lib/queryFilters";
+
+export type StoredRecord = Record<string, unknown> & { id: string };
+
+/**
+ * Options for reading one page of a store. `startAfter` is the `nextPageToken`
+ * returned by the previous page; omit it to read the first page.
+ */
+export interface PageOptions {
+    orderBy: string;
+    direction?: "asc" | "desc";
+    limit: number;
+    startAfter?: string | null;
+}
+
+export interface Page<T> {
+    items: T[];
+    nextPageToken: string | null; // null when there are no more pages
+}
+
+/**
+ * A single write inside a transaction or an offline batch. Updates fail when the record does not exist.
+ */
+export type BatchWrite =
+    | { type: "put"; storeName: string; record: StoredRecord }
+    | { type: "update"; storeName: string; id: string; updates: Record<string, unknown> }
+    | { type: "delete"; storeName: string; id: string };
+
+/**
+ * Handed to `runTransaction` work. Reads see committed data; writes are buffered until the work resolves.
+ */
+export interface StorageTransaction {
+    get<T>(storeName: string, id: string): Promise<T | null>;
+    put(storeName: string, record: StoredRecord): void;
+    update(storeName: string, id: string, updates: Record<string, unknown>): void;
+    delete(storeName: string, id: string): void;
+}
+
+export interface StorageAdapter {
+    readonly kind: "firestore" | "indexeddb" | "memory";
+    /**
+     * Adds a record and resolves to its ID. Uses `record.id` when given, otherwise generates one. A record
+     * that already has that ID is replaced, as Firestore's `setDoc` does.
+     */
+    add(storeName: string, record: Record<string, unknown>): Promise<string>;
+    get<T>(storeName: string, id: string): Promise<T | null>;
+    query<T>(storeName: string, filters: QueryFilter[]): Promise<T[]>;
+    queryPage<T>(storeName: string, filters: QueryFilter[], options: PageOptions): Promise<Page<T>>;
+    /** Resolves to the number of records matching `filters`, without reading them where the backend allows. */
+    count(storeName: string, filters: QueryFilter[]): Promise<number>;
+    /** Creates or replaces records by ID. */
+    put(storeName: string, records: StoredRecord[]): Promise<void>;
+    /** Merges `updates` into an existing record. Resolves to false when no record has that ID. */
+    update(storeName: string, id: string, updates: Record<string, unknown>): Promise<boolean>;
+    delete(storeName: string, id: string): Promise<void>;
+    /**
+     * Runs `work` and applies every write it made atomically across `storeNames`. Rejects, writing nothing,
+     * when `work` throws or a write fails. `work` may run more than once (Firestore retries on contention).
+     */
+    runTransaction<R>(storeNames: string[], work: (transaction: StorageTransaction) => Promise<R>): Promise<R>;
+    /** Calls back with the current results and again after every change. Returns an unsubscribe function. */
+    subscribe<T>(
+        storeName: string,
+        filters: QueryFilter[],
+        callback: (records: T[]) => void,
+        onError: (error: Error) => void
+    ): () => void;
+}
+
+/**
+ * Wraps `read` in a `StorageTransaction` that collects writes into `writes` instead of applying them.
+ */
+export const bufferWrites = (
+    read: StorageTransaction["get"],
+    writes: BatchWrite[]
+): StorageTransaction => ({
+    get: read,
+    put: (storeName, record) => {
+        writes.push({ type: "put", storeName, record });
+    },
+    update: (storeName, id, updates) => {
+        writes.push({ type: "update", storeName, id, updates });
+    },
+    delete: (storeName, id) => {
+        writes.push({ type: "delete", storeName, id });
+    },
+});
+
+/**
+ * Replays already-made writes inside `transaction`, e.g. to apply a queued offline batch.
+ */
+export const applyWrites = (transaction: StorageTransaction, writes: BatchWrite[]): void => {
+    writes.forEach((write) => {
+        if (write.type === "put") transaction.put(write.storeName, write.record);
+        else if (write.type === "update") transaction.update(write.storeName, write.id, write.updates);
+        else transaction.delete(write.storeName, write.id);
+    });
+};
+
+interface PageCursor {
+    value: string | number | boolean;
+    id: string;
+}
+
+// Page tokens are opaque to callers; they encode the sort value and ID of the last item
+const encodePageToken = (cursor: PageCursor): string =>
+    btoa(encodeURIComponent(JSON.stringify(cursor)));
+
+export const decodePageToken = (token: string): PageCursor => {
+    try {
+        return JSON.parse(decodeURIComponent(atob(token))) as PageCursor;
+    } catch {
+        throw new Error("Invalid page token.");
+    }
+};
+
+// Orders values by type first (booleans, then numbers, then strings), then by value
+const compareValues = (a: unknown, b: unknown): number => {
+    const typeRank = (value: unknown) => ["boolean", "number", "string"].indexOf(typeof value);
+    if (typeRank(a) !== typeRank(b)) return typeRank(a) - typeRank(b);
+    const left = a as string | number | boolean;
+    const right = b as string | number | boolean;
+    return left < right ? -1 : left > right ? 1 : 0;
+};
+
+/**
+ * Compares two records the way `orderBy(field, direction), orderBy(documentId(), direction)` would.
+ */
+export const compareByOrder = (
+    a: Record<string, unknown>,
+    b: Record<string, unknown>,
+    options: PageOptions
+): number => {
+    const sign = options.direction === "desc" ? -1 : 1;
+    return sign * (compareValues(a[options.orderBy], b[options.orderBy]) || compareValues(a.id, b.id));
+};
+
+/**
+ * Returns a predicate that is true for records that sort after the page token in `options`.
+ */
+export const isAfterPageToken = (options: PageOptions) => {
+    const cursor = options.startAfter ? decodePageToken(options.startAfter) : null;
+    return (record: Record<string, unknown>) =>
+        !cursor || compareByOrder(record, { [options.orderBy]: cursor.value, id: cursor.id }, options) > 0;
+};
+
+// The token of the page that starts after `record`
+const pageTokenAfter = (record: Record<string, unknown>, options: PageOptions): string =>
+    encodePageToken({
+        value: record[options.orderBy] as PageCursor["value"],
+        id: record.id as string,
+    });
+
+/**
+ * Turns up to `options.limit + 1` ordered records into a page; the extra record only signals a next page.
+ */
+export const toPage = <T>(records: T[], options: PageOptions): Page<T> => {
+    if (records.length <= options.limit) {
+        return { items: records, nextPageToken: null };
+    }
+    const items = records.slice(0, options.limit);
+    return { items, nextPageToken: pageTokenAfter(items[items.length - 1] as Record<string, unknown>, options) };
+};
+
+/**
+ * Merges pages read with the same `options` from queries whose results never overlap (e.g. one query per
+ * chunk of an `in` filter) into the page a single query over all of them would return.
+ */
+export const mergePages = <T>(pages: Page<T>[], options: PageOptions): Page<T> => {
+    if (pages.length === 1) return pages[0];
+
+    const merged = pages
+        .flatMap((page) => page.items as Record<string, unknown>[])
+        .sort((a, b) => compareByOrder(a, b, options));
+    const items = merged.slice(0, options.limit);
+    const hasMore = merged.length > options.limit || pages.some((page) => page.nextPageToken !== null);
+    return {
+        items: items as T[],
+        nextPageToken: hasMore && items.length > 0 ? pageTokenAfter(items[items.length - 1], options) : null,
+    };
+};
+
+/**
+ * Pages an unordered list of already-filtered records in memory.
+ */
+export const pageInMemory = <T>(records: T[], options: PageOptions): Page<T> => {
+    const sorted = (records as Record<string, unknown>[])
+        .filter((record) => record[options.orderBy] !== undefined) // Firestore skips docs missing the field
+        .sort((a, b) => compareByOrder(a, b, options))
+        .filter(isAfterPageToken(options));
+    return toPage(sorted.slice(0, options.limit + 1) as T[], options);
+};
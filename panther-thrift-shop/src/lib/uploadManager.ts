@@ -0,0 +1,261 @@
+/**
+ * uploadManager.ts
+ *
+ * This module uploads files to Firebase Storage for the Panther Thrift Shop web application and reports how
+ * each upload is doing, so pages can show progress bars and let users pause or cancel. One upload may
+ * consist of several files (e.g. a listing photo and its thumbnail); its progress counts the bytes of all of them.
+ *
+ * Retries:
+ * - A file whose upload fails with a transient error (network trouble, a server error) is uploaded again after
+ *   `UPLOAD_RETRY.BASE_DELAY_MS`, doubling the wait each time, up to `UPLOAD_RETRY.MAX_ATTEMPTS` attempts.
+ * - Permission, quota and format errors are not retried. When one file of an upload fails for good, the
+ *   other files of that upload are canceled.
+ *
+ * Key Features:
+ * - `createUploadManager`: Creates a manager; a page usually keeps one for its lifetime.
+ * - `upload`: Starts an upload and resolves to the download URLs of its files, in order. Rejects with the
+ *   Storage error, or with an `UploadCanceledError` when canceled.
+ * - `pause` / `resume` / `cancel`: Control a running upload.
+ * - `getUploads` / `subscribe`: The progress of every upload, in the order they started.
+ * - `clear`: Forgets finished, failed and canceled uploads.
+ *
+ * Dependencies:
+ * - Firebase Storage (`uploadBytesResumable`, `getDownloadURL`).
+ * - `UPLOAD_RETRY` from "@/Models/ConstantData" for the retry policy.
+ *
+ * Author: Jayson Baya
+ * Last Updated: October 19, 2026
+ */
+
+import { FirebaseStorage, getDownloadURL, ref, uploadBytesResumable, UploadTask } from "firebase/storage";
+import { storage as defaultStorage } from "@/lib/firebaseConfig";
+import { UPLOAD_RETRY } from "@/Models/ConstantData";
+
+export type UploadState = "uploading" | "paused" | "retrying" | "done" | "failed" | "canceled";
+
+export interface UploadProgress {
+    id: string;
+    label: string; // What the user knows the upload as, e.g. the photo's file name
+    state: UploadState;
+    bytesTransferred: number;
+    totalBytes: number;
+    attempt: number; // 1 for the first try, 2 for the first retry, ...
+    error?: string; // The last error, while retrying or once failed
+}
+
+export interface UploadFile {
+    path: string; // Storage path
+    data: Blob;
+}
+
+export interface UploadManager {
+    upload(id: string, label: string, files: UploadFile[]): Promise<string[]>;
+    pause(id: string): void;
+    resume(id: string): void;
+    cancel(id: string): void;
+    getUploads(): UploadProgress[];
+    subscribe(listener: (uploads: UploadProgress[]) => void): () => void;
+    clear(): void;
+}
+
+export interface UploadManagerOptions {
+    storage?: FirebaseStorage;
+    maxAttempts?: number;
+    baseDelayMs?: number;
+}
+
+export class UploadCanceledError extends Error {
+    constructor(readonly label: string) {
+        super(`The upload of ${label} was canceled.`);
+        this.name = "UploadCanceledError";
+    }
+}
+
+// Storage errors that retrying cannot fix
+const PERMANENT_ERRORS = new Set([
+    "storage/canceled",
+    "storage/unauthorized",
+    "storage/unauthenticated",
+    "storage/quota-exceeded",
+    "storage/invalid-argument",
+    "storage/invalid-format",
+    "storage/no-default-bucket",
+]);
+
+const isRetryable = (error: unknown): boolean => !PERMANENT_ERRORS.has((error as { code?: string })?.code ?? "");
+
+interface UploadEntry {
+    progress: UploadProgress;
+    fileBytes: number[];
+    tasks: Map<number, UploadTask>;
+    canceled: boolean;
+    waits: Map<number, () => void>; // Stops the retry delay of each file that is waiting, by file index
+}
+
+export const createUploadManager = ({
+    storage = defaultStorage,
+    maxAttempts = UPLOAD_RETRY.MAX_ATTEMPTS,
+    baseDelayMs = UPLOAD_RETRY.BASE_DELAY_MS,
+}: UploadManagerOptions = {}): UploadManager => {
+    const entries = new Map<string, UploadEntry>();
+    const listeners = new Set<(uploads: UploadProgress[]) => void>();
+
+    const getUploads = () => [...entries.values()].map((entry) => entry.progress);
+
+    const update = (entry: UploadEntry, changes: Partial<UploadProgress>) => {
+        entry.progress = { ...entry.progress, ...changes };
+        if (entries.get(entry.progress.id) !== entry) return; // Replaced by a newer upload with the same ID
+        const uploads = getUploads();
+        listeners.forEach((listener) => listener(uploads));
+    };
+
+    const reportBytes = (entry: UploadEntry, index: number, bytes: number) => {
+        entry.fileBytes[index] = bytes;
+        update(entry, { bytesTransferred: entry.fileBytes.reduce((total, fileBytes) => total + fileBytes, 0) });
+    };
+
+    // One attempt at uploading one file of `entry`
+    const uploadOnce = (entry: UploadEntry, index: number, file: UploadFile): Promise<string> =>
+        new Promise((resolve, reject) => {
+            const task = uploadBytesResumable(ref(storage, file.path), file.data, {
+                ...(file.data.type && { contentType: file.data.type }),
+            });
+            entry.tasks.set(index, task);
+            if (entry.progress.state === "paused") task.pause();
+
+            task.on(
+                "state_changed",
+                (snapshot) => reportBytes(entry, index, snapshot.bytesTransferred),
+                (error) => {
+                    entry.tasks.delete(index);
+                    reject(error);
+                },
+                () => {
+                    entry.tasks.delete(index);
+                    reportBytes(entry, index, file.data.size);
+                    getDownloadURL(task.snapshot.ref).then(resolve, reject);
+                }
+            );
+        });
+
+    // Resolves after `ms`, or rejects as soon as the upload is canceled
+    const wait = (entry: UploadEntry, index: number, ms: number) =>
+        new Promise<void>((resolve, reject) => {
+            const timer = setTimeout(() => {
+                entry.waits.delete(index);
+                resolve();
+            }, ms);
+            entry.waits.set(index, () => {
+                entry.waits.delete(index);
+                clearTimeout(timer);
+                reject(new UploadCanceledError(entry.progress.label));
+            });
+        });
+
+    const uploadWithRetry = async (entry: UploadEntry, index: number, file: UploadFile): Promise<string> => {
+        for (let attempt = 1; ; attempt++) {
+            try {
+                return await uploadOnce(entry, index, file);
+            } catch (error) {
+                if (entry.canceled) throw new UploadCanceledError(entry.progress.label);
+                if (attempt >= maxAttempts || !isRetryable(error)) throw error;
+
+                reportBytes(entry, index, 0);
+                update(entry, {
+                    state: "retrying",
+                    attempt: Math.max(entry.progress.attempt, attempt + 1),
+                    error: (error as Error).message,
+                });
+                await wait(entry, index, baseDelayMs * 2 ** (attempt - 1));
+                if (entry.canceled) throw new UploadCanceledError(entry.progress.label);
+                update(entry, { state: "uploading" });
+            }
+        }
+    };
+
+    const cancelTasks = (entry: UploadEntry) => {
+        entry.tasks.forEach((task) => task.cancel());
+        entry.waits.forEach((stopWaiting) => stopWaiting());
+    };
+
+    const upload = async (id: string, label: string, files: UploadFile[]): Promise<string[]> => {
+        const previous = entries.get(id);
+        if (previous && ["uploading", "paused", "retrying"].includes(previous.progress.state)) {
+            throw new Error(`${label} is already being uploaded.`);
+        }
+
+        const entry: UploadEntry = {
+            progress: {
+                id,
+                label,
+                state: "uploading",
+                bytesTransferred: 0,
+                totalBytes: files.reduce((total, file) => total + file.data.size, 0),
+                attempt: 1,
+            },
+            fileBytes: files.map(() => 0),
+            tasks: new Map(),
+            canceled: false,
+            waits: new Map(),
+        };
+        entries.set(id, entry);
+        update(entry, {});
+
+        try {
+            const urls = await Promise.all(files.map((file, index) => uploadWithRetry(entry, index, file)));
+            update(entry, { state: "done", error: undefined });
+            return urls;
+        } catch (error) {
+            entry.canceled ||= error instanceof UploadCanceledError;
+            cancelTasks(entry); // Stop the other files of this upload
+            if (entry.canceled) {
+                update(entry, { state: "canceled", error: undefined });
+                throw error instanceof UploadCanceledError ? error : new UploadCanceledError(label);
+            }
+            update(entry, { state: "failed", error: (error as Error).message });
+            throw error;
+        }
+    };
+
+    return {
+        upload,
+
+        pause(id) {
+            const entry = entries.get(id);
+            if (entry?.progress.state !== "uploading") return;
+            entry.tasks.forEach((task) => task.pause());
+            update(entry, { state: "paused" });
+        },
+
+        resume(id) {
+            const entry = entries.get(id);
+            if (entry?.progress.state !== "paused") return;
+            entry.tasks.forEach((task) => task.resume());
+            update(entry, { state: "uploading" });
+        },
+
+        cancel(id) {
+            const entry = entries.get(id);
+            if (!entry || !["uploading", "paused", "retrying"].includes(entry.progress.state)) return;
+            entry.canceled = true;
+            cancelTasks(entry);
+        },
+
+        getUploads,
+
+        subscribe(listener) {
+            listeners.add(listener);
+            return () => {
+                listeners.delete(listener);
+            };
+        },
+
+        clear() {
+            entries.forEach((entry, id) => {
+                if (["done", "failed", "canceled"].includes(entry.progress.state)) entries.delete(id);
+            });
+            const uploads = getUploads();
+            listeners.forEach((listener) => listener(uploads));
+        },
+    };
+};
@@ -3,44 +3,11 @@ import {
     collection,
     query,
     where,
-    onSnapshot,
-    FirestoreError,
     getDocs,
     doc,
     setDoc,
     deleteDoc
 } from "firebase/firestore";
-import { Product } from "@/Models/Product";
-
-/**
- * Fetches real-time products based on a query condition.
- */
-type FirestoreOperator = "<" | "<=" | "==" | "!=" | ">=" | ">" | "array-contains" | "in";
-type FirestoreValue = string | number | boolean | Array<string | number | boolean>;
-export const fetchRealTimeData = (
-    collectionName: string,
-    queryConditions: { field: string; operator: FirestoreOperator; value: FirestoreValue }[],
-    onSuccess: (products: Product[]) => void,
-    onError: (error: FirestoreError) => void
-) => {
-    const q = query(
-        collection(db, collectionName),
-        ...queryConditions.map((condition) => where(condition.field, condition.operator, condition.value))
-    );
-
-    const unsubscribe = onSnapshot(
-        q,
-        (snapshot) => {
-            const products: Product[] = snapshot.docs.map((doc) => ({ ...doc.data(), id: doc.id } as Product));
-            onSuccess(products);
-        },
-        (error) => {
-            onError(error);
-        }
-    );
-
-    return unsubscribe;
-};
 
 /**
  * Saves a product to Firestore under a specific collection.